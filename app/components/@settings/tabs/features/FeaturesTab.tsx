@@ -198,7 +198,7 @@ export default function FeaturesTab() {
       {
         id: 'contextOptimization',
         title: 'Context Optimization',
-        description: 'Optimize context for better responses',
+        description: "Attach ranked project files to chat messages within the model's token budget",
         icon: 'i-ph:brain',
         enabled: contextOptimizationEnabled,
         tooltip: 'Enabled by default for improved AI responses',
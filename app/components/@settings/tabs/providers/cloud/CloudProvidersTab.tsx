@@ -69,9 +69,11 @@ const CloudProvidersTab = () => {
   // Load and filter providers
   useEffect(() => {
     const newFilteredProviders = Object.entries(settings.providers || {})
-      .filter(([key]) => !['Ollama', 'LMStudio', 'OpenAILike'].includes(key))
+      .filter(([, value]) => value.category === 'cloud')
       .map(([key, value]) => ({
         name: key,
+        category: value.category,
+        urlConfigurable: value.urlConfigurable,
         settings: value.settings,
         staticModels: value.staticModels || [],
         getDynamicModels: value.getDynamicModels,
@@ -7,6 +7,7 @@ import { LOCAL_PROVIDERS } from '~/lib/stores/settings';
 import type { IProviderConfig } from '~/types/model';
 import { logStore } from '~/lib/stores/logs';
 import { providerBaseUrlEnvKeys } from '~/utils/constants';
+import { getProviderDefinition } from '~/lib/llm/registry';
 import { useToast } from '~/components/ui/use-toast';
 import { useLocalModelHealth } from '~/lib/hooks/useLocalModelHealth';
 import ErrorBoundary from './ErrorBoundary';
@@ -36,25 +37,19 @@ export default function LocalProvidersTab() {
   // Memoized filtered providers to prevent unnecessary re-renders
   const filteredProviders = useMemo(() => {
     return Object.entries(providers || {})
-      .filter(([key]) => [...LOCAL_PROVIDERS, 'OpenAILike'].includes(key))
+      .filter(([key]) => LOCAL_PROVIDERS.includes(key))
       .map(([key, value]) => {
         const provider = value as IProviderConfig;
         const envKey = providerBaseUrlEnvKeys[key]?.baseUrlKey;
         const envUrl = envKey ? (import.meta.env[envKey] as string | undefined) : undefined;
 
         // Set default base URLs for local providers
-        let defaultBaseUrl = provider.settings.baseUrl || envUrl;
-
-        if (!defaultBaseUrl) {
-          if (key === 'Ollama') {
-            defaultBaseUrl = 'http://127.0.0.1:11434';
-          } else if (key === 'LMStudio') {
-            defaultBaseUrl = 'http://127.0.0.1:1234';
-          }
-        }
+        const defaultBaseUrl = provider.settings.baseUrl || envUrl || getProviderDefinition(key)?.baseUrl;
 
         return {
           name: key,
+          category: provider.category,
+          urlConfigurable: provider.urlConfigurable,
           settings: {
             ...provider.settings,
             baseUrl: defaultBaseUrl,
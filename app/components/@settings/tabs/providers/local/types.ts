@@ -41,4 +41,5 @@ export const PROVIDER_DESCRIPTIONS = {
   Ollama: 'Run open-source models locally on your machine',
   LMStudio: 'Local model inference with LM Studio',
   OpenAILike: 'Connect to OpenAI-compatible API endpoints',
+  Stub: 'Scripted offline endpoint for trying the chat without a model',
 } as const;
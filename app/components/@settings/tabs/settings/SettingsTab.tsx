@@ -5,6 +5,7 @@ import { classNames } from '~/utils/classNames';
 import { Switch } from '~/components/ui/Switch';
 import type { UserProfile } from '~/components/@settings/core/types';
 import { isMac } from '~/utils/os';
+import { ShellPolicySettings } from './ShellPolicySettings';
 
 // Helper to get modifier key symbols/text
 const getModifierSymbol = (modifier: string): string => {
@@ -175,6 +176,21 @@ export default function SettingsTab() {
         </div>
       </motion.div>
 
+      {/* Shell command policy */}
+      <motion.div
+        className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25 }}
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <div className="i-ph:terminal-window-fill w-4 h-4 text-purple-500" />
+          <span className="text-sm font-medium text-mindvex-elements-textPrimary">Shell Command Policy</span>
+        </div>
+
+        <ShellPolicySettings />
+      </motion.div>
+
       {/* Simplified Keyboard Shortcuts */}
       <motion.div
         className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
@@ -0,0 +1,178 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { classNames } from '~/utils/classNames';
+import {
+  globalShellPolicy,
+  projectShellPolicies,
+  shellPolicyProject,
+  updateGlobalShellPolicy,
+  updateProjectShellPolicy,
+} from '~/lib/stores/shellPolicy';
+import {
+  DEFAULT_SHELL_POLICY,
+  type ProjectShellPolicy,
+  type ShellPolicyDecision,
+  type ShellPolicyRule,
+} from '~/utils/shellPolicy';
+
+const DECISIONS: ShellPolicyDecision[] = ['allow', 'ask', 'deny'];
+
+const inputClassName = classNames(
+  'px-2 py-1 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-mindvex-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+/** Allow/ask/deny rules for commands the assistant runs, globally and for the open project. */
+export function ShellPolicySettings() {
+  const global = useStore(globalShellPolicy);
+  const projects = useStore(projectShellPolicies);
+  const project = useStore(shellPolicyProject);
+  const [scope, setScope] = useState<'global' | 'project'>('global');
+  const [newPattern, setNewPattern] = useState('');
+
+  const editingProject = scope === 'project' && !!project;
+  const policy: ProjectShellPolicy = editingProject ? (projects[project] ?? {}) : global;
+  const rules = policy.rules ?? [];
+
+  const update = (changes: ProjectShellPolicy) => {
+    if (editingProject) {
+      updateProjectShellPolicy(project, { ...policy, ...changes });
+    } else {
+      updateGlobalShellPolicy({ ...global, ...changes });
+    }
+  };
+
+  const updateRule = (index: number, rule: ShellPolicyRule | undefined) => {
+    const updated = [...rules];
+
+    if (rule) {
+      updated[index] = rule;
+    } else {
+      updated.splice(index, 1);
+    }
+
+    update({ rules: updated });
+  };
+
+  const addRule = () => {
+    if (!newPattern.trim()) {
+      return;
+    }
+
+    update({ rules: [...rules, { pattern: newPattern.trim(), decision: 'ask' }] });
+    setNewPattern('');
+  };
+
+  // `inherited` is the global decision a project setting falls back to
+  const decisionSelect = (
+    value: ShellPolicyDecision | undefined,
+    onChange: (decision: ShellPolicyDecision | undefined) => void,
+    inherited?: ShellPolicyDecision,
+  ) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || undefined) as ShellPolicyDecision | undefined)}
+      className={inputClassName}
+    >
+      {editingProject && inherited && <option value="">Global ({label(inherited)})</option>}
+      {DECISIONS.map((decision) => (
+        <option key={decision} value={decision}>
+          {label(decision)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-mindvex-elements-textSecondary">
+        Commands from the assistant are matched against these rules before they run. Words match literally,{' '}
+        <code>*</code> matches anything, and further arguments are always accepted. Project rules are checked first.
+      </p>
+
+      <div className="flex items-center gap-2">
+        {(['global', 'project'] as const).map((option) => (
+          <button
+            key={option}
+            disabled={option === 'project' && !project}
+            onClick={() => setScope(option)}
+            className={classNames(
+              'px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50',
+              scope === option
+                ? 'bg-purple-500/10 text-purple-500'
+                : 'text-mindvex-elements-textSecondary hover:bg-[#F5F5F5] dark:hover:bg-[#1A1A1A]',
+            )}
+          >
+            {option === 'global' ? 'Global' : 'This project'}
+          </button>
+        ))}
+        {editingProject && (
+          <span className="truncate text-xs text-mindvex-elements-textTertiary" title={project}>
+            {project}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] items-center gap-2 text-sm text-mindvex-elements-textSecondary">
+        <span>Commands no rule matches</span>
+        {decisionSelect(
+          policy.defaultDecision,
+          (defaultDecision) => update({ defaultDecision }),
+          global.defaultDecision,
+        )}
+        <span>Writes outside the project folder</span>
+        {decisionSelect(policy.outsideWorkdir, (outsideWorkdir) => update({ outsideWorkdir }), global.outsideWorkdir)}
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={rule.pattern}
+              onChange={(e) => updateRule(index, { ...rule, pattern: e.target.value })}
+              className={classNames(inputClassName, 'flex-1 font-mono')}
+            />
+            {decisionSelect(rule.decision, (decision) => updateRule(index, { ...rule, decision: decision ?? 'ask' }))}
+            <button
+              onClick={() => updateRule(index, undefined)}
+              className="i-ph:trash w-4 h-4 text-mindvex-elements-textTertiary hover:text-red-500"
+              title="Remove rule"
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <input
+            value={newPattern}
+            placeholder="e.g. git push * --force"
+            onChange={(e) => setNewPattern(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addRule()}
+            className={classNames(inputClassName, 'flex-1 font-mono')}
+          />
+          <button
+            onClick={addRule}
+            className="px-3 py-1 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50"
+            disabled={!newPattern.trim()}
+          >
+            Add rule
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={() =>
+          editingProject ? updateProjectShellPolicy(project, undefined) : updateGlobalShellPolicy(DEFAULT_SHELL_POLICY)
+        }
+        className="text-xs text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
+      >
+        {editingProject ? 'Clear project rules' : 'Reset to defaults'}
+      </button>
+    </div>
+  );
+}
+
+function label(decision: ShellPolicyDecision) {
+  return decision[0].toUpperCase() + decision.slice(1);
+}
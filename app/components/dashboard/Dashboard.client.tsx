@@ -28,6 +28,8 @@ import { providersStore } from '~/lib/stores/settings';
 import { useStore } from '@nanostores/react';
 import { ControlPanel } from '~/components/@settings/core/ControlPanel';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { graphCacheRepoUrl } from '~/lib/stores/graphCacheStore';
+import { indexRepository, scipIndexState } from '~/lib/stores/scipIndexStore';
 
 interface LanguageDistribution {
   language: string;
@@ -444,6 +446,8 @@ export function Dashboard() {
         />
       </div>
 
+      <CodeIntelligenceCard />
+
       {/* Stats Row */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard icon={<FileCode className="w-5 h-5 text-blue-500" />} label="Files" value={stats.totalFiles} />
@@ -696,6 +700,46 @@ function ToolCard({
   );
 }
 
+function CodeIntelligenceCard() {
+  const state = useStore(scipIndexState);
+  const repoUrl = useStore(graphCacheRepoUrl);
+  const busy = state.phase === 'indexing' || state.phase === 'uploading' || state.phase === 'processing';
+
+  if (!repoUrl) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-mindvex-elements-background-depth-2 border-mindvex-elements-borderColor shadow-md overflow-hidden">
+      <CardContent className="p-5 flex items-center gap-4">
+        <div className="p-3 rounded-xl bg-gray-800/50">
+          <Code className={`w-5 h-5 ${state.phase === 'failed' ? 'text-red-500' : 'text-cyan-400'}`} />
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[10px] text-gray-500 font-black uppercase tracking-[0.2em]">
+              Code Intelligence{state.language ? ` · scip-${state.language}` : ''}
+            </p>
+            <span className="text-xs text-gray-400 truncate">
+              {state.phase === 'idle' && !state.message
+                ? 'Hover and references need a SCIP index'
+                : state.error || state.message}
+            </span>
+          </div>
+          {busy && <Progress value={state.progress} className="h-1.5 bg-gray-800" />}
+        </div>
+        <button
+          onClick={() => indexRepository(repoUrl)}
+          disabled={busy}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white rounded-xl text-xs font-bold uppercase tracking-wider"
+        >
+          {busy ? 'Indexing…' : state.phase === 'done' ? 'Re-index' : 'Index now'}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
+
 function StatCard({ icon, label, value }: { icon: React.ReactNode; label: string; value: string | number }) {
   return (
     <Card className="bg-mindvex-elements-background-depth-2 border-mindvex-elements-borderColor hover:border-purple-500/30 transition-all duration-300 group shadow-md overflow-hidden relative">
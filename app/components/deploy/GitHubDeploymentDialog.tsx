@@ -7,6 +7,9 @@ import { classNames } from '~/utils/classNames';
 import { getLocalStorage } from '~/lib/persistence/localStorage';
 import type { GitHubUserResponse, GitHubRepoInfo } from '~/types/GitHub';
 import { logStore } from '~/lib/stores/logs';
+import { confirmPushImpact } from '~/lib/stores/impactReportStore';
+import { filesChangedSinceTree, type GitTreeEntry } from '~/utils/gitBlob';
+import { confirmPushArchitecture } from '~/lib/stores/architectureRulesStore';
 import { chatId } from '~/lib/persistence/useChatHistory';
 import { useStore } from '@nanostores/react';
 import { GitHubAuthDialog } from '~/components/deploy/GitHubAuthDialog';
@@ -221,6 +224,12 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
 
     setIsLoading(true);
 
+    // Layer rules from mindvex.architecture.json
+    if (!(await confirmPushArchitecture())) {
+      setIsLoading(false);
+      return;
+    }
+
     try {
       // Initialize Octokit with the GitHub token
       const octokit = new Octokit({ auth: connection.token });
@@ -363,6 +372,31 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
       try {
         console.log('Creating tree for repository');
 
+        // Blast radius of what changed since the branch was last pushed, confirmed before committing
+        let pushedTree: GitTreeEntry[] = [];
+
+        if (baseSha) {
+          try {
+            const { data: treeData } = await octokit.git.getTree({
+              owner: connection.user.login,
+              repo: sanitizeRepoName(repoName),
+              tree_sha: baseSha,
+              recursive: 'true',
+            });
+            pushedTree = treeData.tree;
+          } catch (treeError) {
+            // Without the pushed tree every file counts as changed
+            console.error('Error getting the pushed tree:', treeError);
+          }
+        }
+
+        const impact = await confirmPushImpact(await filesChangedSinceTree(fileEntries, pushedTree));
+
+        if (!impact.proceed) {
+          setIsLoading(false);
+          return;
+        }
+
         // Create a tree with all files
         const tree = fileEntries.map(([filePath, content]) => ({
           path: filePath, // We've already formatted the paths correctly
@@ -406,7 +440,9 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
         const { data: commitData } = await octokit.git.createCommit({
           owner: connection.user.login,
           repo: sanitizedRepoName,
-          message: !repoExists ? 'Initial commit from MindVex' : 'Update from MindVex',
+          message: [!repoExists ? 'Initial commit from MindVex' : 'Update from MindVex', impact.summary]
+            .filter(Boolean)
+            .join('\n\n'),
           tree: treeData.sha,
           parents: parentCommitSha ? [parentCommitSha] : [], // Use parent if available
         });
@@ -66,6 +66,14 @@ export type OnChangeCallback = (update: EditorUpdate) => void;
 export type OnScrollCallback = (position: ScrollPosition) => void;
 export type OnSaveCallback = () => void;
 
+// 0-based position of the identifier to navigate from
+export type OnNavigateCallback = (position: { line: number; character: number }) => void;
+
+interface NavigationCallbacks {
+  onGoToDefinition?: OnNavigateCallback;
+  onFindReferences?: OnNavigateCallback;
+}
+
 interface Props {
   theme: Theme;
   id?: unknown;
@@ -77,6 +85,10 @@ interface Props {
   onChange?: OnChangeCallback;
   onScroll?: OnScrollCallback;
   onSave?: OnSaveCallback;
+
+  // Ctrl/Cmd+click or F12, and Shift+F12
+  onGoToDefinition?: OnNavigateCallback;
+  onFindReferences?: OnNavigateCallback;
   className?: string;
   settings?: EditorSettings;
 }
@@ -133,6 +145,8 @@ export const CodeMirrorEditor = memo(
     onScroll,
     onChange,
     onSave,
+    onGoToDefinition,
+    onFindReferences,
     theme,
     settings,
     className = '',
@@ -152,6 +166,7 @@ export const CodeMirrorEditor = memo(
     const onScrollRef = useRef(onScroll);
     const onChangeRef = useRef(onChange);
     const onSaveRef = useRef(onSave);
+    const navigationRef = useRef<NavigationCallbacks>({});
 
     /**
      * This effect is used to avoid side effects directly in the render function
@@ -161,6 +176,7 @@ export const CodeMirrorEditor = memo(
       onScrollRef.current = onScroll;
       onChangeRef.current = onChange;
       onSaveRef.current = onSave;
+      navigationRef.current = { onGoToDefinition, onFindReferences };
       docRef.current = doc;
 
       // Update the module-level reference for use in tooltip functions
@@ -257,7 +273,7 @@ export const CodeMirrorEditor = memo(
       const theme = themeRef.current!;
 
       if (!doc) {
-        const state = newEditorState('', theme, settings, onScrollRef, debounceScroll, onSaveRef, [
+        const state = newEditorState('', theme, settings, onScrollRef, debounceScroll, onSaveRef, navigationRef, [
           languageCompartment.of([]),
           envMaskingCompartment.of([]),
         ]);
@@ -280,7 +296,7 @@ export const CodeMirrorEditor = memo(
       let state = editorStates.get(doc.filePath);
 
       if (!state) {
-        state = newEditorState(doc.value, theme, settings, onScrollRef, debounceScroll, onSaveRef, [
+        state = newEditorState(doc.value, theme, settings, onScrollRef, debounceScroll, onSaveRef, navigationRef, [
           languageCompartment.of([]),
           envMaskingCompartment.of([createEnvMaskingExtension(() => docRef.current?.filePath)]),
         ]);
@@ -330,6 +346,7 @@ function newEditorState(
   onScrollRef: MutableRefObject<OnScrollCallback | undefined>,
   debounceScroll: number,
   onFileSaveRef: MutableRefObject<OnSaveCallback | undefined>,
+  navigationRef: MutableRefObject<NavigationCallbacks>,
   extensions: Extension[],
 ) {
   return EditorState.create({
@@ -343,6 +360,24 @@ function newEditorState(
 
           onScrollRef.current?.({ left: view.scrollDOM.scrollLeft, top: view.scrollDOM.scrollTop });
         }, debounceScroll),
+        mousedown: (event, view) => {
+          const onGoToDefinition = navigationRef.current.onGoToDefinition;
+
+          if (!(event.ctrlKey || event.metaKey) || event.button !== 0 || !onGoToDefinition) {
+            return false;
+          }
+
+          const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+
+          if (pos == null) {
+            return false;
+          }
+
+          event.preventDefault();
+          onGoToDefinition(positionAt(view.state, pos));
+
+          return true;
+        },
         keydown: (event, view) => {
           if (view.state.readOnly) {
             view.dispatch({
@@ -371,6 +406,14 @@ function newEditorState(
           },
         },
         indentKeyBinding,
+        {
+          key: 'F12',
+          run: (view) => navigate(view, navigationRef.current.onGoToDefinition),
+        },
+        {
+          key: 'Shift-F12',
+          run: (view) => navigate(view, navigationRef.current.onFindReferences),
+        },
       ]),
       indentUnit.of('\t'),
       autocompletion({
@@ -417,6 +460,21 @@ function newEditorState(
   });
 }
 
+function positionAt(state: EditorState, pos: number) {
+  const line = state.doc.lineAt(pos);
+  return { line: line.number - 1, character: pos - line.from };
+}
+
+function navigate(view: EditorView, callback: OnNavigateCallback | undefined) {
+  if (!callback) {
+    return false;
+  }
+
+  callback(positionAt(view.state, view.state.selection.main.head));
+
+  return true;
+}
+
 function setNoDocument(view: EditorView) {
   view.dispatch({
     selection: { anchor: 0 },
@@ -22,6 +22,7 @@ import { importFilesToWorkbench } from '~/utils/directFileImport';
 import { importGitRepoToWorkbench } from '~/utils/workbenchImport';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { refreshGraph } from '~/lib/stores/graphCacheStore';
+import { indexRepository } from '~/lib/stores/scipIndexStore';
 import { classNames } from '~/utils/classNames';
 import { ImportRepoModal } from './ImportRepoModal';
 import { MyGitHubReposModal } from './MyGitHubReposModal';
@@ -178,11 +179,12 @@ export function HomeContent() {
 
     try {
       const name = extractRepoName(url);
-      await importGitRepoToWorkbench(url, gitClone);
-      await repositoryHistoryStore.addRepository(url, name);
+      const commitHash = await importGitRepoToWorkbench(url, gitClone);
+      await repositoryHistoryStore.addRepository(url, name, undefined, undefined, commitHash);
 
-      // Pre-compute the knowledge graph in the background
+      // Pre-compute the knowledge graph and the SCIP index in the background
       refreshGraph(url);
+      indexRepository(url);
 
       setGithubUrl('');
       toast.success(`Cloned "${name}" successfully`);
@@ -232,11 +234,18 @@ export function HomeContent() {
     setOpeningRepoId(repo.id);
 
     try {
-      await importGitRepoToWorkbench(repo.url, gitClone);
-      await repositoryHistoryStore.addRepository(repo.url, repo.name, repo.description, repo.branch, repo.commitHash);
-
-      // Pre-compute the knowledge graph in the background
+      const commitHash = await importGitRepoToWorkbench(repo.url, gitClone);
+      await repositoryHistoryStore.addRepository(
+        repo.url,
+        repo.name,
+        repo.description,
+        repo.branch,
+        commitHash || repo.commitHash,
+      );
+
+      // Pre-compute the knowledge graph and the SCIP index in the background
       refreshGraph(repo.url);
+      indexRepository(repo.url);
 
       toast.success(`Opened "${repo.name}"`);
     } catch (error) {
@@ -15,6 +15,7 @@ import { useStore } from '@nanostores/react';
 import { authStore, clearAuth } from '~/lib/stores/authStore';
 import { RepositoryHistory } from './RepositoryHistory';
 import { ChatHistory } from './ChatHistory';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 import { repositoryHistoryStore } from '~/lib/stores/repositoryHistory';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { importFolderToWorkbench } from '~/utils/workbenchImport';
@@ -532,6 +533,7 @@ export function Menu() {
             )}
           </div>
           <div className="flex-1 overflow-auto px-3 pb-3">
+            <WorkspaceSwitcher />
             <div className="mb-6">
               <div className="flex items-center justify-between text-sm px-1 py-2">
                 <div className="font-medium text-mindvex-elements-textSecondary">Your Chats</div>
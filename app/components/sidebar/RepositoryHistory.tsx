@@ -67,7 +67,7 @@ export function RepositoryHistory({
 
         // Show options to add to existing workspace or create new workspace
         const addToExisting = window.confirm(
-          `Do you want to add '${repo.name}' to the existing workspace?\n\nClick 'OK' to add to existing workspace, 'Cancel' to create a new workspace (replacing current content)`,
+          `Do you want to add '${repo.name}' to the existing workspace?\n\nClick 'OK' to add to existing workspace, 'Cancel' to open it in a new workspace (the current one stays in the workspace switcher)`,
         );
 
         try {
@@ -76,7 +76,7 @@ export function RepositoryHistory({
 
           if (success) {
             toast.success(
-              `Folder '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : '(workspace cleared)'}`,
+              `Folder '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : 'in a new workspace'}`,
             );
           }
         } catch (error) {
@@ -100,7 +100,7 @@ export function RepositoryHistory({
                   // Import the selected folder to the workbench
                   await importFolderToWorkbench(files, addToExisting);
                   toast.success(
-                    `Folder '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : '(workspace cleared)'}`,
+                    `Folder '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : 'in a new workspace'}`,
                   );
                 } catch (error) {
                   console.error('Error loading folder:', error);
@@ -126,7 +126,7 @@ export function RepositoryHistory({
 
         // Show options to add to existing workspace or create new workspace
         const addToExisting = window.confirm(
-          `Do you want to add '${repo.name}' to the existing workspace?\n\nClick 'OK' to add to existing workspace, 'Cancel' to create a new workspace (replacing current content)`,
+          `Do you want to add '${repo.name}' to the existing workspace?\n\nClick 'OK' to add to existing workspace, 'Cancel' to open it in a new workspace (the current one stays in the workspace switcher)`,
         );
 
         try {
@@ -135,7 +135,7 @@ export function RepositoryHistory({
 
           if (success) {
             toast.success(
-              `Repository '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : '(workspace cleared)'}`,
+              `Repository '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : 'in a new workspace'}`,
             );
           }
         } catch (error) {
@@ -155,7 +155,7 @@ export function RepositoryHistory({
 
             await importGitRepoToWorkbench(repo.url, gitClone, addToExisting);
             toast.success(
-              `Repository '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : '(workspace cleared)'}`,
+              `Repository '${repo.name}' loaded in workbench ${addToExisting ? 'with existing content' : 'in a new workspace'}`,
             );
           } else {
             toast.info('Repository loading cancelled. You can try again later.');
@@ -0,0 +1,122 @@
+import { useStore } from '@nanostores/react';
+import { useEffect } from 'react';
+import { toast } from 'react-toastify';
+import {
+  activeWorkspaceId,
+  createAndSwitchWorkspace,
+  refreshWorkspaces,
+  removeWorkspace,
+  renameWorkspaceById,
+  switchWorkspace,
+  workspaceList,
+  workspaceSwitching,
+} from '~/lib/stores/workspaces';
+import { classNames } from '~/utils/classNames';
+
+/** Saved workspaces; picking one parks the open project and loads the other in its place. */
+export function WorkspaceSwitcher() {
+  const workspaces = useStore(workspaceList);
+  const activeId = useStore(activeWorkspaceId);
+  const switching = useStore(workspaceSwitching);
+
+  useEffect(() => {
+    refreshWorkspaces().catch((error) => toast.error(`Failed to list workspaces: ${error.message}`));
+  }, []);
+
+  const run = (action: () => Promise<void>, failure: string) => {
+    action().catch((error) => toast.error(`${failure}: ${error.message}`));
+  };
+
+  const handleCreate = () => {
+    const name = prompt('Workspace name:');
+
+    if (name?.trim()) {
+      run(() => createAndSwitchWorkspace(name.trim()), 'Failed to create workspace');
+    }
+  };
+
+  const handleRename = (id: string, current: string) => {
+    const name = prompt('Rename workspace:', current);
+
+    if (name?.trim() && name.trim() !== current) {
+      run(() => renameWorkspaceById(id, name.trim()), 'Failed to rename workspace');
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Delete workspace '${name}' and all of its files?`)) {
+      run(() => removeWorkspace(id), 'Failed to delete workspace');
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between text-sm px-1 py-2">
+        <div className="font-medium text-mindvex-elements-textSecondary">Workspaces</div>
+        <button
+          onClick={handleCreate}
+          disabled={switching}
+          className="i-ph:plus h-4 w-4 bg-transparent text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary disabled:opacity-40"
+          title="New workspace"
+        />
+      </div>
+      {workspaces.length === 0 && (
+        <div className="px-2 text-xs text-mindvex-elements-textTertiary">
+          The open project is saved here once it has files.
+        </div>
+      )}
+      {workspaces.map(({ id, name, updatedAt, chatId }) => {
+        const active = id === activeId;
+
+        return (
+          <div
+            key={id}
+            className={classNames(
+              'group flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm',
+              active
+                ? 'bg-mindvex-elements-item-backgroundActive text-mindvex-elements-item-contentAccent'
+                : 'text-mindvex-elements-textSecondary hover:bg-mindvex-elements-item-backgroundHover',
+            )}
+          >
+            <button
+              onClick={() => run(() => switchWorkspace(id), 'Failed to switch workspace')}
+              disabled={active || switching}
+              className="flex flex-1 min-w-0 items-center gap-2 bg-transparent text-left disabled:cursor-default"
+              title={active ? 'Open workspace' : `Switch to ${name}`}
+            >
+              <span
+                className={classNames(
+                  'h-4 w-4 flex-shrink-0',
+                  switching && active ? 'i-ph:circle-notch animate-spin' : 'i-ph:folder-simple',
+                )}
+              />
+              <span className="truncate">{name}</span>
+              <span className="ml-auto flex-shrink-0 text-[10px] text-mindvex-elements-textTertiary">
+                {new Date(updatedAt).toLocaleDateString()}
+              </span>
+            </button>
+            {chatId && (
+              <a
+                href={`/chat/${chatId}`}
+                className="i-ph:chat-text h-3.5 w-3.5 flex-shrink-0 opacity-0 group-hover:opacity-100"
+                title="Open the chat of this workspace"
+              />
+            )}
+            <button
+              onClick={() => handleRename(id, name)}
+              className="i-ph:pencil-simple h-3.5 w-3.5 flex-shrink-0 bg-transparent opacity-0 group-hover:opacity-100"
+              title="Rename"
+            />
+            {!active && (
+              <button
+                onClick={() => handleDelete(id, name)}
+                className="i-ph:trash h-3.5 w-3.5 flex-shrink-0 bg-transparent opacity-0 group-hover:opacity-100 hover:text-red-500"
+                title="Delete"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useStore } from '@nanostores/react';
+import { memo } from 'react';
+import type { ActionState, ActionStatus } from '~/lib/runtime/action-runner';
+import { workbenchStore, type ArtifactState } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+
+const STATUS_ICONS: Record<ActionStatus, string> = {
+  pending: 'i-ph:hourglass text-mindvex-elements-textTertiary',
+  running: 'i-ph:circle-notch animate-spin text-mindvex-elements-item-contentAccent',
+  complete: 'i-ph:check text-green-500',
+  aborted: 'i-ph:prohibit text-mindvex-elements-textTertiary',
+  failed: 'i-ph:x text-red-500',
+};
+
+/** Actions of every artifact with their state, newest artifact first, to cancel or retry them. */
+export const ActionQueuePanel = memo(() => {
+  const artifacts = useStore(workbenchStore.artifacts);
+  const list = Object.values(artifacts).reverse();
+
+  if (list.length === 0) {
+    return (
+      <div className="px-3 py-2 text-xs text-mindvex-elements-textTertiary">
+        Files and commands from the assistant are queued here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col py-1">
+      {list.map((artifact) => (
+        <ArtifactActions key={artifact.id} artifact={artifact} />
+      ))}
+    </div>
+  );
+});
+
+const ArtifactActions = memo(({ artifact }: { artifact: ArtifactState }) => {
+  const actions = useStore(artifact.runner.actions);
+  const entries = Object.entries(actions);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-b border-mindvex-elements-borderColor text-xs">
+      <div className="px-2 pt-1.5 pb-0.5 truncate font-medium text-mindvex-elements-textPrimary" title={artifact.title}>
+        {artifact.title}
+      </div>
+      {entries.map(([actionId, action]) => (
+        <div
+          key={actionId}
+          className="group flex items-center gap-2 px-2 py-0.5 hover:bg-mindvex-elements-background-depth-3"
+        >
+          <span className={classNames('shrink-0 w-3.5 h-3.5', STATUS_ICONS[action.status])} title={action.status} />
+          <span
+            className="flex-1 truncate font-mono text-mindvex-elements-textSecondary"
+            title={action.status === 'failed' ? action.error : describeAction(action)}
+          >
+            {describeAction(action)}
+          </span>
+          {(action.status === 'pending' || action.status === 'running') && (
+            <button
+              className="shrink-0 i-ph:stop-circle opacity-0 group-hover:opacity-100 text-mindvex-elements-textTertiary hover:text-red-500"
+              onClick={() => action.abort()}
+              title={action.status === 'running' ? 'Stop' : 'Cancel'}
+            />
+          )}
+          {(action.status === 'failed' || action.status === 'aborted') && (
+            <button
+              className="shrink-0 i-ph:arrow-clockwise opacity-0 group-hover:opacity-100 text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
+              onClick={() => workbenchStore.retryAction(artifact.id, actionId)}
+              title="Retry"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+function describeAction(action: ActionState) {
+  switch (action.type) {
+    case 'file':
+    case 'patch':
+      return action.filePath.startsWith(`${WORK_DIR}/`) ? action.filePath.slice(WORK_DIR.length + 1) : action.filePath;
+    case 'test':
+      return action.content.trim() ? `test ${action.content.trim()}` : 'test';
+    case 'build':
+      return 'build';
+    default:
+      return action.content.trim();
+  }
+}
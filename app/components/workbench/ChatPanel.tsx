@@ -1,28 +1,38 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { mcpChat, mcpGetWiki, mcpDescribeModule, type ChatHistoryItem } from '~/lib/mcp/mcpClient';
+import { useChat } from '@ai-sdk/react';
+import { generateId, type UIMessage } from 'ai';
+import { countTokens, formatContextPlan, type ContextPlan } from '~/lib/llm/contextBuilder';
+import { getProviderDefinition, listProviderModels, resolveConnection } from '~/lib/llm/registry';
+import { mcpGetWiki, mcpDescribeModule } from '~/lib/mcp/mcpClient';
+import { executeChatTool } from '~/lib/runtime/chat-tools';
+import { pinnedContextFiles, planChatContext } from '~/lib/stores/chatContext';
 import { repositoryHistoryStore } from '~/lib/stores/repositoryHistory';
-import { providersStore, updateProviderSettings } from '~/lib/stores/settings';
+import { enableContextOptimizationStore, providersStore, updateProviderSettings } from '~/lib/stores/settings';
 import { useStore } from '@nanostores/react';
 import { Dropdown, DropdownItem } from '~/components/ui/Dropdown';
 import { Button } from '~/components/ui/Button';
 import { ChevronDown, Bot, Sparkles } from 'lucide-react';
 import { Badge } from '~/components/ui/Badge';
+import { ContextPreview } from './ContextPreview';
+import type { ChatProviderSelection } from '~/types/chat';
+import type { ModelInfo } from '~/types/model';
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  model?: string;
-}
+// Model calls in a row, tool results included, before the chat waits for the user again
+const MAX_TOOL_STEPS = 8;
+
+// Pause in typing before the context preview is re-planned
+const CONTEXT_PREVIEW_DEBOUNCE_MS = 300;
 
 /**
- * ChatPanel — Gemini AI-powered chatbot embedded in the code editor sidebar.
- * Uses the /api/mcp/tools/chat endpoint for conversational AI with codebase context.
- * Falls back to wiki/module tools for specific commands.
+ * ChatPanel — AI chatbot embedded in the code editor sidebar.
+ * Streams replies from /api/chat with the selected provider; tool calls (read,
+ * search, list, run) are executed here against the WebContainer. With context
+ * optimization on, ranked project files are packed under the model's budget
+ * and previewed before sending.
+ * Wiki and module commands go to the MCP backend for the recent repository.
  */
 export function ChatPanel() {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [input, setInput] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [commandLoading, setCommandLoading] = useState(false);
   const [repoUrl, setRepoUrl] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
   const providers = useStore(providersStore);
@@ -51,15 +61,105 @@ export function ChatPanel() {
     return enabledProviders.find((p) => p.name === selectedProviderName) || enabledProviders[0] || null;
   }, [enabledProviders, selectedProviderName]);
 
+  // Providers without built-in models (Ollama, LM Studio, ...) list theirs through the server or the browser
+  const [listedModels, setListedModels] = useState<ModelInfo[]>([]);
+  const needsListing = !!activeProvider && activeProvider.staticModels.length === 0;
+
+  useEffect(() => {
+    if (!activeProvider || !needsListing) {
+      setListedModels([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+    const definition = getProviderDefinition(activeProvider.name);
+
+    // The server only calls URLs it knows; a URL of the user's own is listed from the browser
+    const models =
+      definition?.urlConfigurable && activeProvider.settings.baseUrl
+        ? listProviderModels(definition, resolveConnection(definition, activeProvider.settings))
+        : fetch(`/api/models?${new URLSearchParams({ provider: activeProvider.name })}`, {
+            headers: activeProvider.settings.apiKey ? { 'X-Provider-Api-Key': activeProvider.settings.apiKey } : {},
+          })
+            .then((response) => (response.ok ? (response.json() as Promise<{ models: ModelInfo[] }>) : { models: [] }))
+            .then((data) => data.models);
+
+    models.then((listed) => !cancelled && setListedModels(listed)).catch(() => !cancelled && setListedModels([]));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProvider?.name, activeProvider?.settings.baseUrl, activeProvider?.settings.apiKey, needsListing]);
+
+  const availableModels = needsListing ? listedModels : (activeProvider?.staticModels ?? []);
+
   const activeModel = useMemo(() => {
     if (!activeProvider) {
       return null;
     }
 
-    return (
-      activeProvider.settings.selectedModel || (activeProvider.staticModels && activeProvider.staticModels[0]?.name)
-    );
-  }, [activeProvider]);
+    return activeProvider.settings.selectedModel || availableModels[0]?.name;
+  }, [activeProvider, availableModels]);
+
+  const providerSelection = useMemo<ChatProviderSelection | null>(() => {
+    if (!activeProvider || !activeModel) {
+      return null;
+    }
+
+    return {
+      name: activeProvider.name,
+      model: activeModel,
+      apiKey: activeProvider.settings.apiKey,
+      baseUrl: activeProvider.settings.baseUrl,
+    };
+  }, [activeProvider, activeModel]);
+
+  const contextEnabled = useStore(enableContextOptimizationStore);
+  const pinnedFiles = useStore(pinnedContextFiles);
+  const [contextPlan, setContextPlan] = useState<ContextPlan | null>(null);
+
+  // Context of the message being answered; tool steps resend it with the growing history
+  const sentContextRef = useRef('');
+
+  const { messages, setMessages, input, setInput, append, status, stop, error } = useChat({
+    api: '/api/chat',
+    experimental_prepareRequestBody: ({ messages: chatMessages, requestBody }) => ({
+      messages: chatMessages,
+      provider: providerSelection,
+      context: sentContextRef.current || undefined,
+      ...requestBody,
+    }),
+    maxSteps: MAX_TOOL_STEPS,
+    onToolCall: ({ toolCall }) => executeChatTool(toolCall.toolName, toolCall.args as Record<string, unknown>),
+  });
+
+  const streaming = status === 'submitted' || status === 'streaming';
+  const loading = commandLoading || streaming;
+
+  const planContext = (query: string) => {
+    if (!providerSelection) {
+      return null;
+    }
+
+    const history = messages.map((message) => message.content).join('\n');
+
+    return planChatContext(query, {
+      provider: providerSelection.name,
+      model: providerSelection.model,
+      usedTokens: countTokens(history, providerSelection.model),
+    });
+  };
+
+  useEffect(() => {
+    if (!contextEnabled || !input.trim()) {
+      setContextPlan(null);
+      return undefined;
+    }
+
+    const timer = setTimeout(() => setContextPlan(planContext(input)), CONTEXT_PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [contextEnabled, input, providerSelection, messages.length, pinnedFiles]);
 
   useEffect(() => {
     const recent = repositoryHistoryStore.getRecentRepositories(1);
@@ -73,51 +173,66 @@ export function ChatPanel() {
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
   }, [messages]);
 
+  const addReply = (question: string, reply: string) => {
+    setMessages((prev) => [
+      ...prev,
+      { id: generateId(), role: 'user', content: question, parts: [{ type: 'text', text: question }] },
+      { id: generateId(), role: 'assistant', content: reply, parts: [{ type: 'text', text: reply }] },
+    ]);
+  };
+
   const handleSend = async () => {
-    if (!input?.trim() || !repoUrl) {
+    const text = input.trim();
+
+    if (!text || loading) {
+      return;
+    }
+
+    const query = text.toLowerCase();
+    const isCommand = query.includes('wiki') || query.startsWith('describe module');
+
+    if (!isCommand) {
+      if (!providerSelection) {
+        addReply(text, '⚠️ Enable a provider in the settings to chat.');
+        setInput('');
+
+        return;
+      }
+
+      const plan = contextEnabled ? planContext(text) : null;
+
+      sentContextRef.current = plan ? formatContextPlan(plan) : '';
+      setInput('');
+      await append({ role: 'user', content: text });
+
+      return;
+    }
+
+    if (!repoUrl) {
+      addReply(text, '⚠️ Wiki and module commands need a repository; import one first.');
+      setInput('');
+
       return;
     }
 
-    const userMsg: ChatMessage = { role: 'user', content: input };
-    setMessages((prev) => [...prev, userMsg]);
     setInput('');
-    setLoading(true);
+    setCommandLoading(true);
 
     try {
-      const query = input?.toLowerCase() || '';
-
-      if (query.includes('wiki') || query.startsWith('generate wiki')) {
-        // Wiki generation via dedicated endpoint
-        const wiki = await mcpGetWiki(repoUrl);
-        setMessages((prev) => [...prev, { role: 'assistant', content: wiki.content }]);
-      } else if (query.startsWith('describe module')) {
+      if (query.startsWith('describe module')) {
         // Module description via dedicated endpoint
-        const moduleName = input.replace(/describe\s+module\s*/i, '').trim();
+        const moduleName = text.replace(/describe\s+module\s*/i, '').trim();
         const desc = await mcpDescribeModule(repoUrl, moduleName);
-        setMessages((prev) => [...prev, { role: 'assistant', content: desc.description }]);
+        addReply(text, desc.description);
       } else {
-        // AI chat via Selected Provider
-        const history: ChatHistoryItem[] = messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-        const providerInfo = activeProvider
-          ? {
-              name: activeProvider.name,
-              model: activeModel || undefined,
-              apiKey: activeProvider.settings.apiKey,
-              baseUrl: activeProvider.settings.baseUrl,
-            }
-          : undefined;
-
-        const response = await mcpChat(repoUrl, input, history, providerInfo);
-        setMessages((prev) => [...prev, { role: 'assistant', content: response.reply, model: response.model }]);
+        // Wiki generation via dedicated endpoint
+        const wiki = await mcpGetWiki(repoUrl);
+        addReply(text, wiki.content);
       }
     } catch (err: any) {
-      setMessages((prev) => [...prev, { role: 'assistant', content: `⚠️ ${err.message}` }]);
+      addReply(text, `⚠️ ${err.message}`);
     } finally {
-      setLoading(false);
+      setCommandLoading(false);
     }
   };
 
@@ -162,7 +277,7 @@ export function ChatPanel() {
           </Dropdown>
 
           {/* Model Selector */}
-          {activeProvider && activeProvider.staticModels.length > 0 && (
+          {activeProvider && availableModels.length > 0 && (
             <Dropdown
               trigger={
                 <Button
@@ -175,7 +290,7 @@ export function ChatPanel() {
                 </Button>
               }
             >
-              {activeProvider.staticModels.map((m) => (
+              {availableModels.map((m) => (
                 <DropdownItem
                   key={m.name}
                   onSelect={() => updateProviderSettings(activeProvider.name, { selectedModel: m.name })}
@@ -191,7 +306,7 @@ export function ChatPanel() {
           )}
         </div>
         <span className="text-[9px] text-mindvex-elements-textTertiary bg-mindvex-elements-background-depth-3 px-1.5 py-0.5 rounded-full">
-          Gemini 2.0
+          {activeModel || 'No model'}
         </span>
       </div>
 
@@ -221,8 +336,8 @@ export function ChatPanel() {
           </div>
         )}
 
-        {messages.map((msg, i) => (
-          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+        {messages.map((msg) => (
+          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div
               className={`max-w-[90%] rounded-lg px-3 py-2 text-xs leading-relaxed ${
                 msg.role === 'user'
@@ -230,14 +345,17 @@ export function ChatPanel() {
                   : 'bg-mindvex-elements-background-depth-2 border border-mindvex-elements-borderColor text-mindvex-elements-textSecondary'
               }`}
             >
-              <div className="whitespace-pre-wrap break-words">{msg.content}</div>
-              {msg.model && msg.role === 'assistant' && (
-                <div className="mt-1.5 text-[9px] text-mindvex-elements-textTertiary opacity-60">⚡ {msg.model}</div>
-              )}
+              <MessageParts message={msg} />
             </div>
           </div>
         ))}
 
+        {error && (
+          <div className="rounded-lg px-3 py-2 text-xs border border-red-500/30 bg-red-500/10 text-red-400">
+            ⚠️ {error.message}
+          </div>
+        )}
+
         {loading && (
           <div className="flex justify-start">
             <div className="bg-mindvex-elements-background-depth-2 border border-mindvex-elements-borderColor rounded-lg px-3 py-2 text-xs text-mindvex-elements-textTertiary">
@@ -264,6 +382,7 @@ export function ChatPanel() {
             Clear chat
           </button>
         )}
+        {contextPlan && !streaming && <ContextPreview plan={contextPlan} pinned={pinnedFiles} />}
         <div className="flex gap-1.5">
           <input
             type="text"
@@ -274,14 +393,50 @@ export function ChatPanel() {
             className="flex-1 bg-mindvex-elements-background-depth-2 border border-mindvex-elements-borderColor rounded-lg px-3 py-2 text-xs text-mindvex-elements-textPrimary placeholder-mindvex-elements-textTertiary focus:outline-none focus:border-orange-500/50"
           />
           <button
-            onClick={handleSend}
-            disabled={loading || !input.trim()}
+            onClick={streaming ? stop : handleSend}
+            disabled={!streaming && (loading || !input.trim())}
+            title={streaming ? 'Stop' : 'Send'}
             className="px-3 py-2 rounded-lg bg-gradient-to-r from-orange-500 to-red-500 text-white text-xs font-medium hover:from-orange-600 hover:to-red-600 disabled:opacity-40 transition-all flex-shrink-0"
           >
-            ↑
+            {streaming ? '■' : '↑'}
           </button>
         </div>
       </div>
     </div>
   );
 }
+
+function MessageParts({ message }: { message: UIMessage }) {
+  return (
+    <>
+      {message.parts.map((part, i) => {
+        if (part.type === 'text') {
+          return (
+            <div key={i} className="whitespace-pre-wrap break-words">
+              {part.text}
+            </div>
+          );
+        }
+
+        if (part.type === 'tool-invocation') {
+          const { toolName, args, state } = part.toolInvocation;
+          const target = args?.path ?? args?.query ?? args?.command ?? '';
+
+          return (
+            <div
+              key={i}
+              className="my-1 flex items-center gap-1.5 font-mono text-[10px] text-mindvex-elements-textTertiary"
+            >
+              <span className={state === 'result' ? 'i-ph:wrench' : 'i-ph:circle-notch animate-spin'} />
+              <span className="truncate">
+                {toolName} {target}
+              </span>
+            </div>
+          );
+        }
+
+        return null;
+      })}
+    </>
+  );
+}
@@ -0,0 +1,133 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { chatId } from '~/lib/persistence';
+import type { ArtifactCheckpoint } from '~/lib/persistence/types';
+import { checkpoints, loadCheckpoints } from '~/lib/stores/checkpoints';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { checkpointsFrom, overwrittenLater } from '~/utils/checkpoints';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('CheckpointsPanel');
+
+export const CheckpointsPanel = memo(() => {
+  const currentChatId = useStore(chatId);
+  const checkpointMap = useStore(checkpoints);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadCheckpoints(currentChatId);
+  }, [currentChatId]);
+
+  const list = useMemo(
+    () =>
+      Object.values(checkpointMap)
+        .filter((checkpoint) => Object.keys(checkpoint.files).length > 0)
+        .sort((a, b) => b.timestamp - a.timestamp),
+    [checkpointMap],
+  );
+
+  const rollback = async (rolledBack: ArtifactCheckpoint[], confirmation: string) => {
+    if (busy || !window.confirm(confirmation)) {
+      return;
+    }
+
+    setBusy(true);
+
+    try {
+      const { restored, locked } = await workbenchStore.rollbackArtifacts(rolledBack.map(({ id }) => id));
+      toast.success(`Restored ${restored.length} file${restored.length === 1 ? '' : 's'}`);
+
+      if (locked.length > 0) {
+        toast.warning(
+          `Skipped locked ${locked.map(relativePath).join(', ')}. Unlock them in the Locks panel to retry.`,
+        );
+      }
+    } catch (error) {
+      logger.error('Rollback failed', error);
+      toast.error(`Rollback failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = (checkpoint: ArtifactCheckpoint) => {
+    const overwritten = overwrittenLater(list, checkpoint);
+    const warning =
+      overwritten.length > 0
+        ? `\n\nLater changes to ${overwritten.map(relativePath).join(', ')} will be lost as well.`
+        : '';
+
+    rollback([checkpoint], `Undo "${checkpoint.title}"?${warning}`);
+  };
+
+  const handleRollbackFrom = (checkpoint: ArtifactCheckpoint) => {
+    const rolledBack = checkpointsFrom(list, checkpoint);
+
+    rollback(
+      rolledBack,
+      `Undo "${checkpoint.title}" and ${rolledBack.length - 1} later change${rolledBack.length === 2 ? '' : 's'}?`,
+    );
+  };
+
+  if (list.length === 0) {
+    return (
+      <div className="px-3 py-2 text-xs text-mindvex-elements-textTertiary">
+        Files changed by the assistant can be rolled back from here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col py-1">
+      {list.map((checkpoint, index) => {
+        const filePaths = Object.keys(checkpoint.files);
+
+        return (
+          <div
+            key={checkpoint.id}
+            className="group px-2 py-1.5 border-b border-mindvex-elements-borderColor text-xs hover:bg-mindvex-elements-background-depth-3"
+          >
+            <div className="flex items-center gap-2">
+              <span className="shrink-0 i-ph:clock-counter-clockwise text-mindvex-elements-textTertiary" />
+              <span className="flex-1 truncate font-medium text-mindvex-elements-textPrimary" title={checkpoint.title}>
+                {checkpoint.title}
+              </span>
+              <span className="shrink-0 text-mindvex-elements-textTertiary">
+                {new Date(checkpoint.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+            <div className="pl-5 truncate text-mindvex-elements-textTertiary" title={filePaths.join('\n')}>
+              {filePaths.length} file{filePaths.length === 1 ? '' : 's'}: {filePaths.map(relativePath).join(', ')}
+            </div>
+            <div className="flex gap-1 pl-5 pt-1">
+              <button
+                className="px-2 py-0.5 rounded bg-mindvex-elements-button-secondary-background hover:bg-mindvex-elements-button-secondary-backgroundHover text-mindvex-elements-button-secondary-text text-xs disabled:opacity-50"
+                disabled={busy}
+                onClick={() => handleUndo(checkpoint)}
+                title="Restore the files this change touched"
+              >
+                Undo
+              </button>
+              {index > 0 && (
+                <button
+                  className="px-2 py-0.5 rounded bg-mindvex-elements-button-secondary-background hover:bg-mindvex-elements-button-secondary-backgroundHover text-mindvex-elements-button-secondary-text text-xs disabled:opacity-50"
+                  disabled={busy}
+                  onClick={() => handleRollbackFrom(checkpoint)}
+                  title="Undo this change and everything after it"
+                >
+                  Roll back to here
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+function relativePath(filePath: string) {
+  return filePath.startsWith(`${WORK_DIR}/`) ? filePath.slice(WORK_DIR.length + 1) : filePath;
+}
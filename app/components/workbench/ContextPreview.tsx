@@ -0,0 +1,82 @@
+import { memo, useState } from 'react';
+import type { ContextPlan, ContextSource } from '~/lib/llm/contextBuilder';
+import { togglePinnedContextFile } from '~/lib/stores/chatContext';
+import { classNames } from '~/utils/classNames';
+
+const SOURCE_LABELS: Record<ContextSource, string> = {
+  pinned: 'pinned',
+  'open-file': 'open',
+  diff: 'changed',
+  search: 'match',
+  graph: 'import',
+};
+
+interface ContextPreviewProps {
+  plan: ContextPlan;
+  pinned: string[];
+}
+
+/** Files the next chat message will carry, and the ones left out of the budget. */
+export const ContextPreview = memo(({ plan, pinned }: ContextPreviewProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (plan.included.length === 0 && plan.dropped.length === 0) {
+    return null;
+  }
+
+  const rows = [
+    ...plan.included.map((entry) => ({ ...entry, dropped: false })),
+    ...plan.dropped.map((entry) => ({ ...entry, truncated: false, dropped: true })),
+  ];
+
+  return (
+    <div className="mb-1.5 rounded-lg border border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-2 text-[10px]">
+      <button
+        className="flex w-full items-center gap-1.5 px-2 py-1 bg-transparent text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <span className={expanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+        <span>
+          {plan.included.length} files in context
+          {plan.dropped.length > 0 && `, ${plan.dropped.length} dropped`}
+        </span>
+        <span className="ml-auto text-mindvex-elements-textTertiary">
+          {formatTokens(plan.used)} / {formatTokens(plan.budget)} tokens
+        </span>
+      </button>
+      {expanded && (
+        <ul className="max-h-40 overflow-auto border-t border-mindvex-elements-borderColor py-0.5 modern-scrollbar">
+          {rows.map(({ path, source, tokens, truncated, dropped }) => (
+            <li
+              key={path}
+              className={classNames(
+                'flex items-center gap-1.5 px-2 py-0.5',
+                dropped ? 'text-mindvex-elements-textTertiary line-through' : 'text-mindvex-elements-textSecondary',
+              )}
+            >
+              <button
+                className={classNames(
+                  'flex-shrink-0 bg-transparent hover:text-orange-400',
+                  pinned.includes(path) ? 'i-ph:push-pin-fill text-orange-400' : 'i-ph:push-pin',
+                )}
+                onClick={() => togglePinnedContextFile(path)}
+                title={pinned.includes(path) ? 'Unpin' : 'Pin to every message'}
+              />
+              <span className="truncate font-mono" title={path}>
+                {path}
+              </span>
+              <span className="ml-auto flex-shrink-0 text-mindvex-elements-textTertiary">
+                {SOURCE_LABELS[source]} · {formatTokens(tokens)}
+                {truncated && ' · cut'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
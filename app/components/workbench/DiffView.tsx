@@ -10,6 +10,16 @@ import { diffFiles, extractRelativePath } from '~/utils/diff';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { themeStore } from '~/lib/stores/theme';
+import { appliedPatches, type AppliedPatch } from '~/lib/stores/patches';
+import { formatHunkHeader } from '~/utils/patch';
+import { toast } from 'react-toastify';
+import { getFileVersions } from '~/lib/persistence/fileHistory';
+import { fileHistoryRevision } from '~/lib/stores/fileHistory';
+import type { FileVersion, FileVersionSource } from '~/utils/fileHistory';
+import { formatSize } from '~/utils/formatSize';
+import { classNames } from '~/utils/classNames';
+import { dismissMergeConflict, mergeConflicts, type MergeConflict } from '~/lib/stores/mergeConflicts';
+import { mergeThreeWay, resolveMerge, type MergeChoice } from '~/utils/merge';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -710,6 +720,317 @@ const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }
   );
 });
 
+const AppliedPatchHunks = memo(({ patch }: { patch: AppliedPatch }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="shrink-0 border-b border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-1 text-xs">
+      <button
+        className="flex w-full items-center gap-2 bg-transparent px-2 py-1.5 text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary"
+        onClick={() => setExpanded((prev) => !prev)}
+      >
+        <div className={expanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+        <div className="i-ph:git-diff" />
+        <span>
+          Patch applied: {patch.hunks.length} hunk{patch.hunks.length === 1 ? '' : 's'}
+        </span>
+        <span className="ml-auto text-mindvex-elements-textTertiary">
+          {new Date(patch.timestamp).toLocaleTimeString()}
+        </span>
+      </button>
+      {expanded && (
+        <div className="max-h-64 overflow-auto">
+          {patch.hunks.map((hunk, index) => (
+            <div key={index} className="border-t border-mindvex-elements-borderColor">
+              <div className="flex items-center gap-2 px-2 py-1 font-mono text-mindvex-elements-textTertiary">
+                <span>{formatHunkHeader(hunk)}</span>
+                {hunk.offset !== 0 && (
+                  <span title="Lines between where the hunk said it applies and where it did">
+                    offset {hunk.offset > 0 ? `+${hunk.offset}` : hunk.offset}
+                  </span>
+                )}
+                {hunk.fuzz > 0 && <span title="Context lines ignored at each end">fuzz {hunk.fuzz}</span>}
+                {hunk.ignoredWhitespace && <span>whitespace ignored</span>}
+              </div>
+              {hunk.lines.map((line, lineIndex) => (
+                <div
+                  key={lineIndex}
+                  className={`${lineContentStyles} ${diffLineStyles[line.type === 'context' ? 'unchanged' : line.type]}`}
+                >
+                  <span className="mr-2">{line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
+                  {line.content}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+const versionSourceLabels: Record<FileVersionSource, string> = {
+  original: 'Original',
+  user: 'Saved',
+  ai: 'AI edit',
+  restore: 'Restored',
+};
+
+// A version id, or the document as it is in the editor now
+type VersionKey = number | 'current';
+
+interface VersionComparison {
+  base?: VersionKey;
+  compare?: VersionKey;
+}
+
+interface FileHistoryTimelineProps {
+  versions: FileVersion[];
+  comparison: VersionComparison;
+  onCompare: (comparison: VersionComparison) => void;
+  onRestore: (version: FileVersion) => void;
+}
+
+const FileHistoryTimeline = memo(({ versions, comparison, onCompare, onRestore }: FileHistoryTimelineProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const rows: Array<{ key: VersionKey; version?: FileVersion }> = [
+    { key: 'current' },
+    ...[...versions].reverse().map((version) => ({ key: version.id ?? version.timestamp, version })),
+  ];
+
+  const selectorClass = (selected: boolean) =>
+    classNames(
+      'rounded px-1.5 py-0.5 text-[10px] font-medium',
+      selected
+        ? 'bg-mindvex-elements-item-backgroundAccent text-mindvex-elements-item-contentAccent'
+        : 'bg-transparent text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary',
+    );
+
+  return (
+    <div className="shrink-0 border-b border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-1 text-xs">
+      <div className="flex items-center gap-2 px-2 py-1.5 text-mindvex-elements-textSecondary">
+        <button
+          className="flex flex-1 items-center gap-2 bg-transparent hover:text-mindvex-elements-textPrimary"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          <div className={expanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+          <div className="i-ph:clock-counter-clockwise" />
+          <span>
+            Local history: {versions.length} version{versions.length === 1 ? '' : 's'}
+          </span>
+        </button>
+        {(comparison.base !== undefined || comparison.compare !== undefined) && (
+          <button
+            className="bg-transparent text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
+            onClick={() => onCompare({})}
+            title="Compare the original file with the editor again"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      {expanded && (
+        <div className="max-h-48 overflow-auto">
+          {rows.map(({ key, version }) => (
+            <div
+              key={key}
+              className="flex items-center gap-2 border-t border-mindvex-elements-borderColor px-2 py-1 text-mindvex-elements-textSecondary"
+            >
+              <span className="w-36 shrink-0 text-mindvex-elements-textTertiary">
+                {version ? new Date(version.timestamp).toLocaleString() : 'Now'}
+              </span>
+              <span className="flex-1 truncate">
+                {version ? versionSourceLabels[version.source] : 'Current editor'}
+              </span>
+              {version && (
+                <span className="shrink-0 text-mindvex-elements-textTertiary">
+                  {formatSize(new Blob([version.content]).size)}
+                </span>
+              )}
+              <button
+                className={selectorClass(comparison.base === key)}
+                onClick={() => onCompare({ ...comparison, base: key })}
+                title="Show this version on the left of the diff"
+              >
+                Base
+              </button>
+              <button
+                className={selectorClass((comparison.compare ?? 'current') === key)}
+                onClick={() => onCompare({ ...comparison, compare: key })}
+                title="Show this version on the right of the diff"
+              >
+                Compare
+              </button>
+              {version ? (
+                <button
+                  className="i-ph:arrow-counter-clockwise h-3.5 w-3.5 shrink-0 bg-transparent text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
+                  onClick={() => onRestore(version)}
+                  title="Restore this version"
+                />
+              ) : (
+                <span className="h-3.5 w-3.5 shrink-0" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+const mergeChoiceLabels: Record<MergeChoice, string> = {
+  user: 'Mine',
+  ai: 'AI',
+  both: 'Both',
+};
+
+const MergeLines = memo(
+  ({ title, lines, type }: { title: string; lines: string[]; type: keyof typeof diffLineStyles }) => (
+    <div className="min-w-0 overflow-x-auto border-r border-mindvex-elements-borderColor last:border-r-0">
+      <div className="px-2 py-0.5 text-[10px] uppercase text-mindvex-elements-textTertiary">{title}</div>
+      {lines.length === 0 ? (
+        <div className="px-2 py-1 italic text-mindvex-elements-textTertiary">(no lines)</div>
+      ) : (
+        lines.map((line, index) => (
+          <div key={index} className={`${lineContentStyles} ${diffLineStyles[type]}`}>
+            {line.replace(/\n$/, '')}
+          </div>
+        ))
+      )}
+    </div>
+  ),
+);
+
+interface MergeConflictViewProps {
+  conflict: MergeConflict;
+  language: string;
+}
+
+/** Base, user and AI sides of every overlapping hunk, with a pick per hunk and the merged file below. */
+const MergeConflictView = memo(({ conflict, language }: MergeConflictViewProps) => {
+  const { chunks, conflicts } = useMemo(
+    () => mergeThreeWay(conflict.base, conflict.user, conflict.ai),
+    [conflict.base, conflict.user, conflict.ai],
+  );
+  const [choices, setChoices] = useState<Record<number, MergeChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict.timestamp]);
+
+  const autoResolved = chunks.filter((chunk) => chunk.type === 'resolved').length;
+  const unresolved = conflicts - Object.keys(choices).length;
+  const merged = useMemo(() => resolveMerge(chunks, choices), [chunks, choices]);
+
+  const chooseAll = (choice: MergeChoice) => {
+    setChoices(
+      Object.fromEntries(
+        chunks.flatMap((chunk, index) => (chunk.type === 'conflict' ? [[index, choice] as const] : [])),
+      ),
+    );
+  };
+
+  const handleApply = () => {
+    setSaving(true);
+    workbenchStore
+      .resolveMergeConflict(conflict.filePath, merged)
+      .then(() => toast.success('Merge applied'))
+      .catch((error) => toast.error(`Failed to apply merge: ${error.message}`))
+      .finally(() => setSaving(false));
+  };
+
+  const buttonClass =
+    'rounded px-2 py-0.5 bg-mindvex-elements-background-depth-3 text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary disabled:opacity-40';
+
+  let conflictNumber = 0;
+
+  return (
+    <div className="h-full overflow-hidden flex flex-col">
+      <div className="shrink-0 flex items-center gap-2 border-b border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-1 px-2 py-1.5 text-xs text-mindvex-elements-textSecondary">
+        <div className="i-ph:git-merge text-amber-500" />
+        <span>
+          Your unsaved edits and the AI edit overlap in {conflicts} hunk{conflicts === 1 ? '' : 's'}
+          {autoResolved > 0 && `, ${autoResolved} merged automatically`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button className={buttonClass} onClick={() => chooseAll('user')}>
+            All mine
+          </button>
+          <button className={buttonClass} onClick={() => chooseAll('ai')}>
+            All AI
+          </button>
+          <button
+            className={buttonClass}
+            onClick={() => dismissMergeConflict(conflict.filePath)}
+            title="Keep the file as the AI left it"
+          >
+            Dismiss
+          </button>
+          <button
+            className={classNames(buttonClass, 'text-mindvex-elements-item-contentAccent')}
+            onClick={handleApply}
+            disabled={unresolved > 0 || saving}
+            title={
+              unresolved > 0 ? `${unresolved} hunk${unresolved === 1 ? '' : 's'} left to pick` : 'Save the merged file'
+            }
+          >
+            Apply merge
+          </button>
+        </div>
+      </div>
+      <div className="shrink-0 max-h-[50%] overflow-auto text-xs">
+        {chunks.map((chunk, index) => {
+          if (chunk.type !== 'conflict') {
+            return null;
+          }
+
+          conflictNumber++;
+
+          return (
+            <div key={index} className="border-b border-mindvex-elements-borderColor">
+              <div className="flex items-center gap-2 bg-mindvex-elements-background-depth-1 px-2 py-1 text-mindvex-elements-textTertiary">
+                <span>Conflict {conflictNumber}</span>
+                <div className="ml-auto flex items-center gap-1">
+                  {(Object.keys(mergeChoiceLabels) as MergeChoice[]).map((choice) => (
+                    <button
+                      key={choice}
+                      className={classNames(
+                        'rounded px-1.5 py-0.5 text-[10px] font-medium',
+                        choices[index] === choice
+                          ? 'bg-mindvex-elements-item-backgroundAccent text-mindvex-elements-item-contentAccent'
+                          : 'bg-transparent hover:text-mindvex-elements-textPrimary',
+                      )}
+                      onClick={() => setChoices((prev) => ({ ...prev, [index]: choice }))}
+                    >
+                      {mergeChoiceLabels[choice]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-3">
+                <MergeLines title="Base" lines={chunk.base} type="unchanged" />
+                <MergeLines title="Yours" lines={chunk.user} type={choices[index] === 'ai' ? 'removed' : 'added'} />
+                <MergeLines title="AI" lines={chunk.ai} type={choices[index] === 'user' ? 'removed' : 'added'} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex-1 min-h-0">
+        <InlineDiffComparison
+          beforeCode={conflict.base}
+          afterCode={merged}
+          language={language}
+          filename={conflict.filePath}
+          lightTheme="github-light"
+          darkTheme="github-dark"
+        />
+      </div>
+    </div>
+  );
+});
+
 interface DiffViewProps {
   fileHistory: Record<string, FileHistory>;
   setFileHistory: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
@@ -720,6 +1041,58 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const patches = useStore(appliedPatches);
+  const historyRevision = useStore(fileHistoryRevision);
+  const conflicts = useStore(mergeConflicts);
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison>({});
+
+  useEffect(() => {
+    setComparison({});
+  }, [selectedFile]);
+
+  useEffect(() => {
+    if (!selectedFile) {
+      setVersions([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    getFileVersions(workbenchStore.workspaceId, selectedFile)
+      .then((loaded) => {
+        if (!cancelled) {
+          setVersions(loaded);
+        }
+      })
+      .catch((error) => console.error('Failed to load file history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile, historyRevision]);
+
+  const handleRestore = useCallback(
+    (version: FileVersion) => {
+      if (
+        !selectedFile ||
+        !confirm(
+          `Replace ${extractRelativePath(selectedFile)} with the version from ${new Date(version.timestamp).toLocaleString()}?`,
+        )
+      ) {
+        return;
+      }
+
+      workbenchStore
+        .restoreFileVersion(selectedFile, version.content)
+        .then(() => {
+          setComparison({});
+          toast.success('Version restored');
+        })
+        .catch((error) => toast.error(`Failed to restore version: ${error.message}`));
+    },
+    [selectedFile],
+  );
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -817,22 +1190,44 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
 
   const history = fileHistory[selectedFile];
   const effectiveOriginalContent = history?.originalContent || originalContent;
+  const versionContent = (key: VersionKey | undefined, fallback: string) => {
+    const version = key === undefined || key === 'current' ? undefined : versions.find((entry) => entry.id === key);
+
+    return key === 'current' ? currentContent : (version?.content ?? fallback);
+  };
   const languageFromExt = getLanguageFromExtension(selectedFile.split('.').pop() || '');
 
   // Use 'plaintext' instead of 'unknown' to avoid Shiki errors
   const language = languageFromExt === 'unknown' ? 'plaintext' : languageFromExt;
 
+  const conflict = conflicts.find((entry) => entry.filePath === selectedFile);
+
+  if (conflict) {
+    return <MergeConflictView conflict={conflict} language={language} />;
+  }
+
   try {
     return (
-      <div className="h-full overflow-hidden">
-        <InlineDiffComparison
-          beforeCode={effectiveOriginalContent}
-          afterCode={currentContent}
-          language={language}
-          filename={selectedFile}
-          lightTheme="github-light"
-          darkTheme="github-dark"
-        />
+      <div className="h-full overflow-hidden flex flex-col">
+        {patches[selectedFile] && <AppliedPatchHunks patch={patches[selectedFile]} />}
+        {versions.length > 0 && (
+          <FileHistoryTimeline
+            versions={versions}
+            comparison={comparison}
+            onCompare={setComparison}
+            onRestore={handleRestore}
+          />
+        )}
+        <div className="flex-1 min-h-0">
+          <InlineDiffComparison
+            beforeCode={versionContent(comparison.base, effectiveOriginalContent)}
+            afterCode={versionContent(comparison.compare, currentContent)}
+            language={language}
+            filename={selectedFile}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        </div>
       </div>
     );
   } catch (error) {
@@ -1,23 +1,14 @@
 import { useStore } from '@nanostores/react';
-import { memo, useMemo, useState, useEffect } from 'react';
+import { memo, useMemo, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import * as Tabs from '@radix-ui/react-tabs';
-import {
-  CodeMirrorEditor,
-  type EditorDocument,
-  type EditorSettings,
-  type OnChangeCallback as OnEditorChange,
-  type OnSaveCallback as OnEditorSave,
-  type OnScrollCallback as OnEditorScroll,
-} from '~/components/editor/codemirror/CodeMirrorEditor';
+import type { EditorDocument, OnSaveCallback as OnEditorSave } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { PanelHeader } from '~/components/ui/PanelHeader';
 import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
 import type { FileMap } from '~/lib/stores/files';
 import type { FileHistory } from '~/types/actions';
-import { themeStore } from '~/lib/stores/theme';
 import { WORK_DIR } from '~/utils/constants';
 import { renderLogger } from '~/utils/logger';
-import { isMobile } from '~/utils/mobile';
 import { FileBreadcrumb } from './FileBreadcrumb';
 import { FileTree } from './FileTree';
 import { DEFAULT_TERMINAL_SIZE, TerminalTabs } from './terminal/TerminalTabs';
@@ -25,7 +16,12 @@ import { workbenchStore } from '~/lib/stores/workbench';
 import { Search } from './Search';
 import { classNames } from '~/utils/classNames';
 import { LockManager } from './LockManager';
+import { CheckpointsPanel } from './CheckpointsPanel';
+import { ActionQueuePanel } from './ActionQueuePanel';
 import { ChatPanel } from './ChatPanel';
+import { EditorPanes } from './EditorPanes';
+import { ReferencesPanel } from './ReferencesPanel';
+import { TestResultsPanel } from './TestResultsPanel';
 
 interface EditorPanelProps {
   unsavedFiles?: Set<string>;
@@ -33,8 +29,6 @@ interface EditorPanelProps {
   selectedFile?: string | undefined;
   isStreaming?: boolean;
   fileHistory?: Record<string, FileHistory>;
-  onEditorChange?: OnEditorChange;
-  onEditorScroll?: OnEditorScroll;
   onFileSelect?: (value?: string) => void;
   onFileSave?: OnEditorSave;
   onFileReset?: () => void;
@@ -42,8 +36,6 @@ interface EditorPanelProps {
 
 const DEFAULT_EDITOR_SIZE = 100 - DEFAULT_TERMINAL_SIZE;
 
-const editorSettings: EditorSettings = { tabSize: 2 };
-
 export const EditorPanel = memo(
   ({
     unsavedFiles,
@@ -52,14 +44,11 @@ export const EditorPanel = memo(
     isStreaming,
     fileHistory,
     onFileSelect,
-    onEditorChange,
-    onEditorScroll,
     onFileSave,
     onFileReset,
   }: EditorPanelProps) => {
     renderLogger.trace('EditorPanel');
 
-    const theme = useStore(themeStore);
     const showTerminal = useStore(workbenchStore.showTerminal);
     const files = useStore(workbenchStore.files);
     const [showChat, setShowChat] = useState(false);
@@ -81,47 +70,8 @@ export const EditorPanel = memo(
       return unsavedFiles instanceof Set && unsavedFiles.has(editorDocument.filePath);
     }, [editorDocument, unsavedFiles]);
 
-    // Multi-tab functionality
-    const [openTabs, setOpenTabs] = useState<string[]>(selectedFile ? [selectedFile] : []);
-    const [activeTab, setActiveTab] = useState<string | undefined>(selectedFile);
-
-    // Handle file selection to open in a new tab
-    const handleFileSelectWithTab = (filePath: string | undefined) => {
-      if (filePath) {
-        // Add file to tabs if not already open
-        if (!openTabs.includes(filePath)) {
-          setOpenTabs((prev) => [...prev, filePath]);
-        }
-
-        setActiveTab(filePath);
-        onFileSelect?.(filePath);
-      }
-    };
-
-    // Close a tab
-    const closeTab = (filePath: string) => {
-      const newTabs = openTabs.filter((tab) => tab !== filePath);
-      setOpenTabs(newTabs);
-
-      if (activeTab === filePath) {
-        // If closing active tab, switch to another tab or clear selection
-        if (newTabs.length > 0) {
-          setActiveTab(newTabs[newTabs.length - 1]);
-          onFileSelect?.(newTabs[newTabs.length - 1]);
-        } else {
-          setActiveTab(undefined);
-          onFileSelect?.(undefined);
-        }
-      }
-    };
-
-    // Update open tabs when a new file is selected
-    useEffect(() => {
-      if (selectedFile && !openTabs.includes(selectedFile)) {
-        setOpenTabs((prev) => [...prev, selectedFile]);
-        setActiveTab(selectedFile);
-      }
-    }, [selectedFile, openTabs]);
+    const editorLayout = useStore(workbenchStore.editorLayout);
+    const hasTabs = editorLayout.panes.some((pane) => pane.tabs.length > 0);
 
     return (
       <PanelGroup direction="vertical">
@@ -157,6 +107,22 @@ export const EditorPanel = memo(
                         >
                           Locks
                         </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="history"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-mindvex-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary data-[state=active]:text-mindvex-elements-textPrimary',
+                          )}
+                        >
+                          History
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="actions"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-mindvex-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary data-[state=active]:text-mindvex-elements-textPrimary',
+                          )}
+                        >
+                          Actions
+                        </Tabs.Trigger>
                       </Tabs.List>
                     </div>
                   </PanelHeader>
@@ -171,7 +137,7 @@ export const EditorPanel = memo(
                       fileHistory={fileHistory}
                       rootFolder={WORK_DIR}
                       selectedFile={selectedFile}
-                      onFileSelect={handleFileSelectWithTab}
+                      onFileSelect={onFileSelect}
                     />
                   </Tabs.Content>
 
@@ -182,104 +148,74 @@ export const EditorPanel = memo(
                   <Tabs.Content value="locks" className="flex-grow overflow-auto focus-visible:outline-none">
                     <LockManager />
                   </Tabs.Content>
+
+                  <Tabs.Content value="history" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <CheckpointsPanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="actions" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <ActionQueuePanel />
+                  </Tabs.Content>
                 </Tabs.Root>
               </div>
             </Panel>
 
             <PanelResizeHandle />
             <Panel className="flex flex-col" defaultSize={80} minSize={20}>
-              {/* Tab bar */}
-              <div className="flex overflow-x-auto bg-mindvex-elements-background-depth-2 border-b border-mindvex-elements-borderColor">
-                {openTabs.map((filePath) => {
-                  const fileName = filePath.split('/').pop() || filePath;
-                  const isUnsaved = unsavedFiles?.has(filePath);
-
-                  return (
-                    <div
-                      key={filePath}
-                      className={`flex items-center px-3 py-2 text-sm border-r border-mindvex-elements-borderColor cursor-pointer ${
-                        activeTab === filePath
-                          ? 'bg-mindvex-elements-background-depth-1 text-mindvex-elements-textPrimary'
-                          : 'bg-mindvex-elements-background-depth-2 text-mindvex-elements-textSecondary hover:bg-mindvex-elements-background-depth-3'
-                      }`}
-                      onClick={() => {
-                        setActiveTab(filePath);
-                        onFileSelect?.(filePath);
-                      }}
-                    >
-                      <span className="truncate max-w-xs">{fileName}</span>
-                      {isUnsaved && <span className="ml-1 text-orange-500">●</span>}
-                      <button
-                        className="ml-2 text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          closeTab(filePath);
-                        }}
-                      >
-                        ×
-                      </button>
-                    </div>
-                  );
-                })}
-              </div>
-
               <div className="h-full flex flex-col overflow-hidden">
-                {activeTab ? (
+                {hasTabs ? (
                   <>
                     {/* Editor Controls */}
-                    <div className="flex items-center justify-between p-2 bg-mindvex-elements-background-depth-2 border-b border-mindvex-elements-borderColor">
-                      <div className="text-sm text-mindvex-elements-textSecondary truncate max-w-xs">
-                        {activeTab}
-                        {activeFileUnsaved && <span className="ml-2 text-orange-500">● Unsaved</span>}
-                      </div>
-                      <div className="flex space-x-2">
-                        <button
-                          onClick={onFileSave}
-                          disabled={!activeFileUnsaved}
-                          className={`px-3 py-1.5 text-xs rounded-md ${activeFileUnsaved ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-gray-600 text-gray-400 cursor-not-allowed'} transition-colors`}
-                        >
-                          <div className="flex items-center gap-1">
-                            <div className="i-ph:floppy-disk" />
-                            Save
-                          </div>
-                        </button>
-                        <button
-                          onClick={onFileReset}
-                          className="px-3 py-1.5 text-xs bg-orange-600 hover:bg-orange-700 text-white rounded-md transition-colors"
-                        >
-                          <div className="flex items-center gap-1">
-                            <div className="i-ph:clock-counter-clockwise" />
-                            Restore
-                          </div>
-                        </button>
-                        <button
-                          onClick={() => setShowChat((prev) => !prev)}
-                          className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
-                            showChat
-                              ? 'bg-orange-500/20 text-orange-400 border border-orange-500/30'
-                              : 'bg-mindvex-elements-background-depth-3 text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary'
-                          }`}
-                          title="Toggle AI Chat"
-                        >
-                          <div className="flex items-center gap-1">
-                            <div className="i-ph:chat-circle-dots" />
-                            Chat
-                          </div>
-                        </button>
+                    {editorDocument && (
+                      <div className="flex items-center justify-between p-2 bg-mindvex-elements-background-depth-2 border-b border-mindvex-elements-borderColor">
+                        <div className="text-sm text-mindvex-elements-textSecondary truncate max-w-xs">
+                          {editorDocument.filePath}
+                          {activeFileUnsaved && <span className="ml-2 text-orange-500">● Unsaved</span>}
+                        </div>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={onFileSave}
+                            disabled={!activeFileUnsaved}
+                            className={`px-3 py-1.5 text-xs rounded-md ${activeFileUnsaved ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-gray-600 text-gray-400 cursor-not-allowed'} transition-colors`}
+                          >
+                            <div className="flex items-center gap-1">
+                              <div className="i-ph:floppy-disk" />
+                              Save
+                            </div>
+                          </button>
+                          <button
+                            onClick={onFileReset}
+                            className="px-3 py-1.5 text-xs bg-orange-600 hover:bg-orange-700 text-white rounded-md transition-colors"
+                          >
+                            <div className="flex items-center gap-1">
+                              <div className="i-ph:clock-counter-clockwise" />
+                              Restore
+                            </div>
+                          </button>
+                          <button
+                            onClick={() => setShowChat((prev) => !prev)}
+                            className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                              showChat
+                                ? 'bg-orange-500/20 text-orange-400 border border-orange-500/30'
+                                : 'bg-mindvex-elements-background-depth-3 text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary'
+                            }`}
+                            title="Toggle AI Chat"
+                          >
+                            <div className="flex items-center gap-1">
+                              <div className="i-ph:chat-circle-dots" />
+                              Chat
+                            </div>
+                          </button>
+                        </div>
                       </div>
-                    </div>
+                    )}
                     <PanelGroup direction="horizontal">
-                      <Panel className="h-full overflow-hidden modern-scrollbar" minSize={30}>
-                        <CodeMirrorEditor
-                          theme={theme}
-                          editable={!isStreaming}
-                          settings={editorSettings}
-                          doc={editorDocument}
-                          autoFocusOnDocumentChange={!isMobile()}
-                          onScroll={onEditorScroll}
-                          onChange={onEditorChange}
-                          onSave={onFileSave}
-                        />
+                      <Panel className="h-full overflow-hidden modern-scrollbar flex flex-col" minSize={30}>
+                        <div className="flex-1 min-h-0">
+                          <EditorPanes isStreaming={isStreaming} unsavedFiles={unsavedFiles} onFileSave={onFileSave} />
+                        </div>
+                        <ReferencesPanel />
+                        <TestResultsPanel />
                       </Panel>
                       {showChat && (
                         <>
@@ -0,0 +1,273 @@
+import { useStore } from '@nanostores/react';
+import { Fragment, memo, useState, type DragEvent } from 'react';
+import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import {
+  CodeMirrorEditor,
+  type EditorSettings,
+  type OnSaveCallback as OnEditorSave,
+} from '~/components/editor/codemirror/CodeMirrorEditor';
+import { findAllReferences, goToDefinition } from '~/lib/stores/codeNavigationStore';
+import { themeStore } from '~/lib/stores/theme';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { MAX_EDITOR_PANES, type EditorPane, type SplitDirection } from '~/utils/editorLayout';
+import { isMobile } from '~/utils/mobile';
+
+// Drag data of a tab, so drops from elsewhere (files, text) are ignored
+const TAB_DRAG_TYPE = 'application/x-mindvex-editor-tab';
+
+// Dropping a tab this close to the right or bottom edge of an editor splits it
+const SPLIT_DROP_EDGE = 0.25;
+
+type DropTarget = 'center' | SplitDirection;
+
+interface DraggedTab {
+  paneId: string;
+  filePath: string;
+}
+
+const editorSettings: EditorSettings = { tabSize: 2 };
+
+function readDraggedTab(event: DragEvent): DraggedTab | undefined {
+  try {
+    return JSON.parse(event.dataTransfer.getData(TAB_DRAG_TYPE)) as DraggedTab;
+  } catch {
+    return undefined;
+  }
+}
+
+function dropTargetAt(event: DragEvent<HTMLElement>): DropTarget {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const x = (event.clientX - rect.left) / rect.width;
+  const y = (event.clientY - rect.top) / rect.height;
+
+  // In the bottom right corner, the edge the pointer is closer to wins
+  if (x > 1 - SPLIT_DROP_EDGE && x >= y) {
+    return 'horizontal';
+  }
+
+  if (y > 1 - SPLIT_DROP_EDGE) {
+    return 'vertical';
+  }
+
+  return 'center';
+}
+
+const dropOverlayStyles: Record<DropTarget, string> = {
+  center: 'inset-0',
+  horizontal: 'inset-y-0 right-0 w-1/2',
+  vertical: 'inset-x-0 bottom-0 h-1/2',
+};
+
+interface EditorPaneViewProps {
+  pane: EditorPane;
+  active: boolean;
+  canSplit: boolean;
+  canClose: boolean;
+  isStreaming?: boolean;
+  unsavedFiles?: Set<string>;
+  onFileSave?: OnEditorSave;
+}
+
+const EditorPaneView = memo(
+  ({ pane, active, canSplit, canClose, isStreaming, unsavedFiles, onFileSave }: EditorPaneViewProps) => {
+    const theme = useStore(themeStore);
+    const documents = useStore(workbenchStore.documents);
+    const [dropTarget, setDropTarget] = useState<DropTarget | undefined>();
+
+    const editorDocument = pane.selectedFile ? documents[pane.selectedFile] : undefined;
+    const scroll = pane.selectedFile ? pane.scroll[pane.selectedFile] : undefined;
+
+    const handleTabDragStart = (event: DragEvent, filePath: string) => {
+      event.dataTransfer.setData(TAB_DRAG_TYPE, JSON.stringify({ paneId: pane.id, filePath }));
+      event.dataTransfer.effectAllowed = 'move';
+    };
+
+    const handleTabDrop = (event: DragEvent, index?: number) => {
+      const dragged = readDraggedTab(event);
+
+      if (dragged) {
+        event.preventDefault();
+        event.stopPropagation();
+        workbenchStore.moveTab(dragged.paneId, pane.id, dragged.filePath, index);
+      }
+    };
+
+    const handleEditorDragOver = (event: DragEvent<HTMLDivElement>) => {
+      if (!event.dataTransfer.types.includes(TAB_DRAG_TYPE)) {
+        return;
+      }
+
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+
+      const target = dropTargetAt(event);
+      setDropTarget(target !== 'center' && !canSplit ? 'center' : target);
+    };
+
+    const handleEditorDrop = (event: DragEvent<HTMLDivElement>) => {
+      const dragged = readDraggedTab(event);
+      const target = dropTarget;
+
+      setDropTarget(undefined);
+
+      if (!dragged || !target) {
+        return;
+      }
+
+      event.preventDefault();
+
+      if (target === 'center') {
+        workbenchStore.moveTab(dragged.paneId, pane.id, dragged.filePath);
+      } else {
+        workbenchStore.splitWithTab(dragged.paneId, dragged.filePath, pane.id, target);
+      }
+    };
+
+    const paneButtonClass =
+      'h-4 w-4 shrink-0 bg-transparent text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary disabled:opacity-40';
+
+    return (
+      <div
+        className="h-full flex flex-col overflow-hidden"
+        onMouseDownCapture={() => workbenchStore.focusPane(pane.id)}
+        onFocusCapture={() => workbenchStore.focusPane(pane.id)}
+      >
+        {/* Tab bar */}
+        <div
+          className={classNames(
+            'flex items-center bg-mindvex-elements-background-depth-2 border-b',
+            active ? 'border-mindvex-elements-item-contentAccent' : 'border-mindvex-elements-borderColor',
+          )}
+          onDragOver={(event) => event.dataTransfer.types.includes(TAB_DRAG_TYPE) && event.preventDefault()}
+          onDrop={(event) => handleTabDrop(event)}
+        >
+          <div className="flex flex-1 overflow-x-auto">
+            {pane.tabs.map((filePath, index) => {
+              const fileName = filePath.split('/').pop() || filePath;
+              const isUnsaved = unsavedFiles?.has(filePath);
+
+              return (
+                <div
+                  key={filePath}
+                  draggable
+                  onDragStart={(event) => handleTabDragStart(event, filePath)}
+                  onDragOver={(event) => event.dataTransfer.types.includes(TAB_DRAG_TYPE) && event.preventDefault()}
+                  onDrop={(event) => handleTabDrop(event, index)}
+                  className={`flex items-center px-3 py-2 text-sm border-r border-mindvex-elements-borderColor cursor-pointer ${
+                    pane.selectedFile === filePath
+                      ? 'bg-mindvex-elements-background-depth-1 text-mindvex-elements-textPrimary'
+                      : 'bg-mindvex-elements-background-depth-2 text-mindvex-elements-textSecondary hover:bg-mindvex-elements-background-depth-3'
+                  }`}
+                  onClick={() => workbenchStore.selectInPane(pane.id, filePath)}
+                  title={filePath}
+                >
+                  <span className="truncate max-w-xs">{fileName}</span>
+                  {isUnsaved && <span className="ml-1 text-orange-500">●</span>}
+                  <button
+                    className="ml-2 text-mindvex-elements-textTertiary hover:text-mindvex-elements-textPrimary"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      workbenchStore.closeTab(pane.id, filePath);
+                    }}
+                  >
+                    ×
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex shrink-0 items-center gap-1.5 px-2">
+            <button
+              className={classNames('i-ph:square-split-horizontal', paneButtonClass)}
+              onClick={() => workbenchStore.splitPane(pane.id, 'horizontal')}
+              disabled={!canSplit || !pane.selectedFile}
+              title="Split right"
+            />
+            <button
+              className={classNames('i-ph:square-split-vertical', paneButtonClass)}
+              onClick={() => workbenchStore.splitPane(pane.id, 'vertical')}
+              disabled={!canSplit || !pane.selectedFile}
+              title="Split down"
+            />
+            {canClose && (
+              <button
+                className={classNames('i-ph:x', paneButtonClass)}
+                onClick={() => workbenchStore.closePane(pane.id)}
+                title="Close pane"
+              />
+            )}
+          </div>
+        </div>
+
+        <div
+          className="relative flex-1 min-h-0 flex flex-col"
+          onDragOver={handleEditorDragOver}
+          onDragLeave={() => setDropTarget(undefined)}
+          onDrop={handleEditorDrop}
+        >
+          {editorDocument ? (
+            <CodeMirrorEditor
+              className="flex-1 min-h-0"
+              theme={theme}
+              editable={!isStreaming}
+              settings={editorSettings}
+              doc={scroll ? { ...editorDocument, scroll } : editorDocument}
+              autoFocusOnDocumentChange={active && !isMobile()}
+              onScroll={(position) => workbenchStore.setPaneScrollPosition(pane.id, editorDocument.filePath, position)}
+              onChange={(update) => workbenchStore.setDocumentContent(editorDocument.filePath, update.content)}
+              onSave={onFileSave}
+              onGoToDefinition={({ line, character }) => goToDefinition(editorDocument.filePath, line, character)}
+              onFindReferences={({ line, character }) => findAllReferences(editorDocument.filePath, line, character)}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-mindvex-elements-textSecondary">
+              {pane.tabs.length > 0 ? 'Select a tab' : 'Select a file to edit'}
+            </div>
+          )}
+          {dropTarget && (
+            <div
+              className={classNames(
+                'pointer-events-none absolute bg-mindvex-elements-item-backgroundAccent opacity-50',
+                dropOverlayStyles[dropTarget],
+              )}
+            />
+          )}
+        </div>
+      </div>
+    );
+  },
+);
+
+interface EditorPanesProps {
+  isStreaming?: boolean;
+  unsavedFiles?: Set<string>;
+  onFileSave?: OnEditorSave;
+}
+
+/** The editor panes of the workbench, split side by side or stacked, each with its own tabs. */
+export const EditorPanes = memo(({ isStreaming, unsavedFiles, onFileSave }: EditorPanesProps) => {
+  const layout = useStore(workbenchStore.editorLayout);
+  const canSplit = layout.panes.length < MAX_EDITOR_PANES;
+
+  return (
+    <PanelGroup key={layout.direction} direction={layout.direction}>
+      {layout.panes.map((pane, index) => (
+        <Fragment key={pane.id}>
+          {index > 0 && <PanelResizeHandle />}
+          <Panel id={pane.id} order={index} minSize={15} className="overflow-hidden">
+            <EditorPaneView
+              pane={pane}
+              active={pane.id === layout.activePaneId}
+              canSplit={canSplit}
+              canClose={layout.panes.length > 1}
+              isStreaming={isStreaming}
+              unsavedFiles={unsavedFiles}
+              onFileSave={onFileSave}
+            />
+          </Panel>
+        </Fragment>
+      ))}
+    </PanelGroup>
+  );
+});
@@ -7,9 +7,18 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useStore } from '@nanostores/react';
+import {
+  countTokens,
+  fitChatHistory,
+  formatContextPlan,
+  getContextBudget,
+  type ContextPlan,
+} from '~/lib/llm/contextBuilder';
+import { getModelLimits } from '~/lib/llm/registry';
 import { mcpChat, mcpGetWiki, mcpDescribeModule, mcpSemanticSearch, type ChatHistoryItem } from '~/lib/mcp/mcpClient';
+import { pinnedContextFiles, planChatContext } from '~/lib/stores/chatContext';
 import { repositoryHistoryStore } from '~/lib/stores/repositoryHistory';
-import { providersStore } from '~/lib/stores/settings';
+import { enableContextOptimizationStore, providersStore } from '~/lib/stores/settings';
 import {
   getUnifiedParser,
   parseModeStore,
@@ -22,12 +31,19 @@ import { Card } from '~/components/ui/Card';
 import { Badge } from '~/components/ui/Badge';
 import { Brain, Zap, Info, RefreshCw, Download, Send, Trash2, MessageSquare, Sparkles } from 'lucide-react';
 import { toast } from 'react-toastify';
+import { ContextPreview } from './ContextPreview';
+
+// Pause in typing before the context preview is re-planned
+const CONTEXT_PREVIEW_DEBOUNCE_MS = 300;
 
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   model?: string;
   enhancedAnalysis?: LLMAnalysis;
+
+  // Search results, wiki pages and module descriptions are shown but never sent back to the model
+  isToolOutput?: boolean;
 }
 
 export function IntelligentChat() {
@@ -52,6 +68,67 @@ export function IntelligentChat() {
   }, [messages]);
 
   const providers = useStore(providersStore);
+  const contextEnabled = useStore(enableContextOptimizationStore);
+  const pinnedFiles = useStore(pinnedContextFiles);
+  const [contextPlan, setContextPlan] = useState<ContextPlan | null>(null);
+
+  // ─── Provider & Model Selection ─────────────────────────────────────────────
+
+  const activeProvider = Object.values(providers).find((p) => p.settings.enabled);
+  const providerInfo = activeProvider
+    ? {
+        name: activeProvider.name,
+        model:
+          activeProvider.settings.selectedModel ||
+          (activeProvider.staticModels && activeProvider.staticModels[0]?.name),
+        apiKey: activeProvider.settings.apiKey,
+        baseUrl: activeProvider.settings.baseUrl,
+      }
+    : undefined;
+  const model = providerInfo?.model ?? '';
+
+  // Search results, wiki pages and module descriptions are answered without the model
+  const asksModel = (message: string) => {
+    const query = message.toLowerCase();
+
+    return (
+      parseMode.type !== 'parser-only' &&
+      !query.startsWith('generate wiki') &&
+      query !== 'wiki' &&
+      !query.startsWith('describe module')
+    );
+  };
+
+  // The conversation goes along as far as it fits the model, latest messages first
+  const fitHistory = (message: string): ChatHistoryItem[] => {
+    const budget = getContextBudget(
+      getModelLimits(providerInfo?.name ?? '', model).maxTokenAllowed,
+      countTokens(message, model),
+    );
+
+    return fitChatHistory(
+      messages.filter((m) => !m.isToolOutput).map((m) => ({ role: m.role, content: m.content })),
+      { budget, model },
+    );
+  };
+
+  const planContext = (message: string, history: ChatHistoryItem[]) =>
+    planChatContext(message, {
+      provider: providerInfo?.name ?? '',
+      model,
+      usedTokens: countTokens([...history.map((m) => m.content), message].join('\n'), model),
+    });
+
+  useEffect(() => {
+    if (!contextEnabled || !input.trim() || !asksModel(input)) {
+      setContextPlan(null);
+      return undefined;
+    }
+
+    const timer = setTimeout(() => setContextPlan(planContext(input, fitHistory(input))), CONTEXT_PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [contextEnabled, input, parseMode.type, providers, messages.length, pinnedFiles]);
 
   const handleSend = async () => {
     if (!input.trim() || !repoUrl) {
@@ -67,11 +144,6 @@ export function IntelligentChat() {
       const query = input.toLowerCase();
       let enhancedAnalysis: LLMAnalysis | undefined;
 
-      // ─── Provider & Model Selection ─────────────────────────────────────────────
-
-      const enabledProviders = Object.values(providers).filter((p) => p.settings.enabled);
-      const activeProvider = enabledProviders[0] || null;
-
       // Handle Parser-Only Mode (Keyword Search)
       if (parseMode.type === 'parser-only') {
         try {
@@ -103,9 +175,12 @@ export function IntelligentChat() {
               .join('\n\n');
           }
 
-          setMessages((prev) => [...prev, { role: 'assistant', content: responseContent }]);
+          setMessages((prev) => [...prev, { role: 'assistant', content: responseContent, isToolOutput: true }]);
         } catch (e) {
-          setMessages((prev) => [...prev, { role: 'assistant', content: `Search failed: ${(e as Error).message}` }]);
+          setMessages((prev) => [
+            ...prev,
+            { role: 'assistant', content: `Search failed: ${(e as Error).message}`, isToolOutput: true },
+          ]);
         } finally {
           setLoading(false);
         }
@@ -125,30 +200,29 @@ export function IntelligentChat() {
 
       if (query.startsWith('generate wiki') || query === 'wiki') {
         const wiki = await mcpGetWiki(repoUrl);
-        setMessages((prev) => [...prev, { role: 'assistant', content: wiki.content, enhancedAnalysis }]);
+        setMessages((prev) => [
+          ...prev,
+          { role: 'assistant', content: wiki.content, enhancedAnalysis, isToolOutput: true },
+        ]);
       } else if (query.startsWith('describe module')) {
         const moduleName = input.replace(/describe\s+module\s*/i, '').trim();
         const desc = await mcpDescribeModule(repoUrl, moduleName);
-        setMessages((prev) => [...prev, { role: 'assistant', content: desc.description, enhancedAnalysis }]);
+        setMessages((prev) => [
+          ...prev,
+          { role: 'assistant', content: desc.description, enhancedAnalysis, isToolOutput: true },
+        ]);
       } else {
-        // AI chat via Selected Provider — primary mode
-        const history: ChatHistoryItem[] = messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-        const providerInfo = activeProvider
-          ? {
-              name: activeProvider.name,
-              model:
-                activeProvider.settings.selectedModel ||
-                (activeProvider.staticModels && activeProvider.staticModels[0]?.name),
-              apiKey: activeProvider.settings.apiKey,
-              baseUrl: activeProvider.settings.baseUrl,
-            }
-          : undefined;
-
-        const response = await mcpChat(repoUrl, input, history, providerInfo);
+        // AI chat via Selected Provider — primary mode, with the project context that fits next to the history
+        const history = fitHistory(input);
+        const plan = contextEnabled ? planContext(input, history) : null;
+
+        const response = await mcpChat(
+          repoUrl,
+          input,
+          history,
+          providerInfo,
+          plan ? formatContextPlan(plan) : undefined,
+        );
         setMessages((prev) => [
           ...prev,
           {
@@ -288,6 +362,7 @@ export function IntelligentChat() {
               <Trash2 className="h-2.5 w-2.5" /> Clear conversation
             </button>
           )}
+          {contextPlan && !loading && <ContextPreview plan={contextPlan} pinned={pinnedFiles} />}
           <div className="relative">
             <textarea
               value={input}
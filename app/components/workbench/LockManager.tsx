@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { dismissUnlockRequest, unlockRequests, type UnlockRequest } from '~/lib/stores/unlockRequests';
 import { classNames } from '~/utils/classNames';
 import { Checkbox } from '~/components/ui/Checkbox';
 import { toast } from '~/components/ui/use-toast';
@@ -14,6 +16,7 @@ export function LockManager() {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [filter, setFilter] = useState<'all' | 'files' | 'folders'>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const requests = useStore(unlockRequests);
 
   // Load locked items
   useEffect(() => {
@@ -120,6 +123,7 @@ export function LockManager() {
           workbenchStore.unlockFolder(path);
         }
 
+        dismissUnlockRequest(path);
         unlockedCount++;
       }
     });
@@ -130,6 +134,18 @@ export function LockManager() {
     }
   };
 
+  // Handle unlocking a path an action was refused on
+  const handleUnlockRequest = (request: UnlockRequest) => {
+    if (request.isFolder) {
+      workbenchStore.unlockFolder(request.lockedBy);
+    } else {
+      workbenchStore.unlockFile(request.lockedBy);
+    }
+
+    dismissUnlockRequest(request.lockedBy);
+    toast.success(`${request.lockedBy.replace('/home/project/', '')} unlocked`);
+  };
+
   // Determine the state of the "Select All" checkbox
   const isAllSelected = filteredAndSortedItems.length > 0 && selectedItems.size === filteredAndSortedItems.length;
   const isSomeSelected = selectedItems.size > 0 && selectedItems.size < filteredAndSortedItems.length;
@@ -141,6 +157,34 @@ export function LockManager() {
 
   return (
     <div className="flex flex-col h-full overflow-hidden">
+      {/* Unlock requests from refused actions */}
+      {requests.length > 0 && (
+        <div className="px-2 py-1 space-y-1 border-b border-mindvex-elements-borderColor bg-amber-500/10">
+          {requests.map((request) => (
+            <div key={request.lockedBy} className="flex items-center gap-2 text-xs">
+              <span className="shrink-0 i-ph:lock-key text-amber-500" />
+              <span className="flex-1 truncate text-mindvex-elements-textSecondary" title={request.lockedBy}>
+                Assistant tried to {request.description.replace('/home/project/', '')}
+              </span>
+              <button
+                className="px-2 py-0.5 rounded bg-mindvex-elements-button-secondary-background hover:bg-mindvex-elements-button-secondary-backgroundHover text-mindvex-elements-button-secondary-text text-xs"
+                onClick={() => handleUnlockRequest(request)}
+                title={`Unlock ${request.lockedBy}`}
+              >
+                Unlock
+              </button>
+              <button
+                className="flex items-center px-1 py-0.5 rounded bg-transparent hover:bg-mindvex-elements-background-depth-3"
+                onClick={() => dismissUnlockRequest(request.lockedBy)}
+                title="Dismiss"
+              >
+                <span className="i-ph:x text-xs" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Controls */}
       <div className="flex items-center gap-1 px-2 py-1 border-b border-mindvex-elements-borderColor">
         {/* Search Input */}
@@ -239,6 +283,7 @@ export function LockManager() {
                       workbenchStore.unlockFolder(item.path);
                     }
 
+                    dismissUnlockRequest(item.path);
                     toast.success(`${item.path.replace('/home/project/', '')} unlocked`);
                   }}
                   title="Unlock"
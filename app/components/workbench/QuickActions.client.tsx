@@ -8,6 +8,7 @@ import {
   loadExistingGraph,
   refreshGraph,
   graphCacheStatus,
+  graphCacheHydrated,
 } from '~/lib/stores/graphCacheStore';
 
 // Tool Pages
@@ -111,6 +112,7 @@ export function QuickActions() {
   const isLoading = useStore(graphCacheLoading);
   const error = useStore(graphCacheError);
   const status = useStore(graphCacheStatus);
+  const hydrated = useStore(graphCacheHydrated);
 
   // Auto-detect current repo on mount
   useEffect(() => {
@@ -148,7 +150,7 @@ export function QuickActions() {
 
   const handleRefreshGraph = () => {
     if (repoUrl && !isLoading) {
-      refreshGraph(repoUrl);
+      refreshGraph(repoUrl, { force: true });
     }
   };
 
@@ -212,7 +214,11 @@ export function QuickActions() {
               {status === 'polling' && (
                 <span className="text-xs text-blue-400 animate-pulse">Waiting for dependencies...</span>
               )}
-              {status === 'ready' && <span className="text-xs text-green-400">Graph Ready</span>}
+              {status === 'ready' && (
+                <span className="text-xs text-green-400" title={hydrated ? 'Restored from local cache' : undefined}>
+                  Graph Ready{hydrated && ' (cached)'}
+                </span>
+              )}
               {status === 'error' && <span className="text-xs text-red-400">Build Failed</span>}
 
               <button
@@ -0,0 +1,80 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo } from 'react';
+import type { CodeLocation } from '~/lib/graph/codeNavigation';
+import { closeNavigationResults, navigationResults, openLocation } from '~/lib/stores/codeNavigationStore';
+
+export const ReferencesPanel = memo(() => {
+  const results = useStore(navigationResults);
+
+  const groupedLocations = useMemo(() => {
+    const groups: Record<string, CodeLocation[]> = {};
+
+    for (const location of results?.locations ?? []) {
+      (groups[location.filePath] ??= []).push(location);
+    }
+
+    return groups;
+  }, [results]);
+
+  if (!results) {
+    return null;
+  }
+
+  const title = results.kind === 'definition' ? 'Definitions' : 'References';
+
+  return (
+    <div className="flex flex-col max-h-64 border-t border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-2">
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-mindvex-elements-textSecondary border-b border-mindvex-elements-borderColor">
+        <span className="font-medium text-mindvex-elements-textPrimary">
+          {title} of <code>{results.symbol}</code>
+        </span>
+        {!results.loading && <span>{results.locations.length}</span>}
+        <span className="ml-auto" title={results.source === 'scip' ? 'From the SCIP index' : 'From the local parser'}>
+          {results.source === 'scip' ? 'SCIP' : 'local'}
+        </span>
+        <button
+          className="i-ph:x bg-transparent text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary"
+          onClick={closeNavigationResults}
+          title="Close"
+        />
+      </div>
+      <div className="flex-1 overflow-auto py-1 modern-scrollbar">
+        {results.loading && (
+          <div className="flex items-center px-3 py-2 text-xs text-mindvex-elements-textTertiary">
+            <div className="i-ph:circle-notch animate-spin mr-2" /> Searching...
+          </div>
+        )}
+        {!results.loading && results.locations.length === 0 && (
+          <div className="px-3 py-2 text-xs text-mindvex-elements-textTertiary">
+            No {title.toLowerCase()} found for <code>{results.symbol}</code>.
+          </div>
+        )}
+        {Object.entries(groupedLocations).map(([filePath, locations]) => (
+          <div key={filePath} className="mb-1">
+            <div className="flex items-center gap-2 px-3 py-0.5 text-xs text-mindvex-elements-textSecondary">
+              <span className="font-medium">{filePath.split('/').pop()}</span>
+              <span className="truncate text-mindvex-elements-textTertiary">{filePath}</span>
+            </div>
+            {locations.map((location) => (
+              <div
+                key={`${location.line}:${location.character}`}
+                className="flex gap-2 pl-6 pr-3 py-0.5 cursor-pointer hover:bg-mindvex-elements-background-depth-3 transition-colors"
+                onClick={() => openLocation(location)}
+              >
+                <span className="shrink-0 w-10 text-right font-mono text-xs text-mindvex-elements-textTertiary">
+                  {location.line + 1}
+                </span>
+                <pre className="font-mono text-xs text-mindvex-elements-textTertiary truncate">
+                  {location.preview ?? ''}
+                </pre>
+                {location.kind === 'definition' && results.kind === 'references' && (
+                  <span className="ml-auto shrink-0 text-[10px] text-mindvex-elements-item-contentAccent">def</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
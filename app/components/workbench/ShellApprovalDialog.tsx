@@ -0,0 +1,71 @@
+import { useStore } from '@nanostores/react';
+import { memo } from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import {
+  projectShellPolicies,
+  resolveShellApproval,
+  shellApprovalRequests,
+  shellPolicyProject,
+  updateProjectShellPolicy,
+  type ShellApprovalRequest,
+} from '~/lib/stores/shellPolicy';
+import { escapeShellPattern } from '~/utils/shellPolicy';
+
+/** Asks before running assistant commands the shell policy marks as "ask", one at a time. */
+export const ShellApprovalDialog = memo(() => {
+  const requests = useStore(shellApprovalRequests);
+  const project = useStore(shellPolicyProject);
+  const request = requests[0];
+
+  const allowInProject = (approval: ShellApprovalRequest) => {
+    if (project) {
+      const policy = projectShellPolicies.get()[project] ?? {};
+
+      updateProjectShellPolicy(project, {
+        ...policy,
+        rules: [{ pattern: escapeShellPattern(approval.command), decision: 'allow' }, ...(policy.rules ?? [])],
+      });
+    }
+
+    resolveShellApproval(approval.id, true);
+  };
+
+  return (
+    <DialogRoot open={!!request}>
+      {request && (
+        <Dialog showCloseButton={false} onBackdrop={() => resolveShellApproval(request.id, false)}>
+          <div className="p-6 bg-white dark:bg-gray-950 relative z-10">
+            <DialogTitle>
+              <div className="i-ph:shield-warning text-amber-500" />
+              Run this command?
+            </DialogTitle>
+            <DialogDescription>
+              The assistant wants to run a command that the shell policy asks about: {request.evaluation.reason}.
+            </DialogDescription>
+            <pre className="mt-4 p-3 rounded-lg bg-mindvex-elements-background-depth-3 text-sm font-mono text-mindvex-elements-textPrimary whitespace-pre-wrap break-all max-h-48 overflow-auto">
+              {request.command}
+            </pre>
+            {requests.length > 1 && (
+              <div className="mt-2 text-xs text-mindvex-elements-textTertiary">
+                {requests.length - 1} more command{requests.length === 2 ? '' : 's'} waiting
+              </div>
+            )}
+            <div className="flex justify-end gap-2 mt-6">
+              <DialogButton type="danger" onClick={() => resolveShellApproval(request.id, false)}>
+                Deny
+              </DialogButton>
+              {project && (
+                <DialogButton type="secondary" onClick={() => allowInProject(request)}>
+                  Always allow in this project
+                </DialogButton>
+              )}
+              <DialogButton type="primary" onClick={() => resolveShellApproval(request.id, true)}>
+                Run once
+              </DialogButton>
+            </div>
+          </div>
+        </Dialog>
+      )}
+    </DialogRoot>
+  );
+});
@@ -0,0 +1,116 @@
+import { useStore } from '@nanostores/react';
+import { memo, useState } from 'react';
+import { closeTestRun, testRun } from '~/lib/stores/testResults';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { WORK_DIR } from '~/utils/constants';
+import { classNames } from '~/utils/classNames';
+import type { TestCaseResult, TestStatus } from '~/utils/testResults';
+
+const STATUS_ICONS: Record<TestStatus, string> = {
+  passed: 'i-ph:check-circle text-green-500',
+  failed: 'i-ph:x-circle text-red-500',
+  skipped: 'i-ph:minus-circle text-mindvex-elements-textTertiary',
+};
+
+/** Results of the last test action, failed tests first. */
+export const TestResultsPanel = memo(() => {
+  const run = useStore(testRun);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (!run) {
+    return null;
+  }
+
+  const cases = [...(run.result?.cases ?? [])].sort((a, b) => statusOrder(a) - statusOrder(b));
+
+  return (
+    <div className="flex flex-col max-h-64 border-t border-mindvex-elements-borderColor bg-mindvex-elements-background-depth-2">
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-mindvex-elements-textSecondary border-b border-mindvex-elements-borderColor">
+        <span className="font-medium text-mindvex-elements-textPrimary">Tests</span>
+        <span className="truncate font-mono text-mindvex-elements-textTertiary" title={run.command}>
+          {run.runner}
+        </span>
+        {run.result && (
+          <span className="flex items-center gap-2">
+            <span className="text-green-500">{run.result.passed} passed</span>
+            {run.result.failed > 0 && <span className="text-red-500">{run.result.failed} failed</span>}
+            {run.result.skipped > 0 && <span>{run.result.skipped} skipped</span>}
+            <span className="text-mindvex-elements-textTertiary">{formatDuration(run.result.duration)}</span>
+          </span>
+        )}
+        <button
+          className="ml-auto i-ph:x bg-transparent text-mindvex-elements-textSecondary hover:text-mindvex-elements-textPrimary"
+          onClick={closeTestRun}
+          title="Close"
+        />
+      </div>
+      <div className="flex-1 overflow-auto py-1 modern-scrollbar">
+        {run.status === 'running' && (
+          <div className="flex items-center px-3 py-2 text-xs text-mindvex-elements-textTertiary">
+            <div className="i-ph:circle-notch animate-spin mr-2" /> Running <code className="ml-1">{run.command}</code>
+          </div>
+        )}
+        {run.status === 'error' && (
+          <pre className="px-3 py-2 font-mono text-xs text-mindvex-elements-textTertiary whitespace-pre-wrap">
+            {run.output || 'The test runner produced no report.'}
+          </pre>
+        )}
+        {run.status === 'done' && cases.length === 0 && (
+          <div className="px-3 py-2 text-xs text-mindvex-elements-textTertiary">No tests found.</div>
+        )}
+        {cases.map((testCase, index) => (
+          <div key={index}>
+            <div
+              className={classNames(
+                'flex items-center gap-2 px-3 py-0.5 text-xs transition-colors',
+                testCase.message ? 'cursor-pointer hover:bg-mindvex-elements-background-depth-3' : '',
+              )}
+              onClick={() => testCase.message && setExpanded(expanded === index ? null : index)}
+            >
+              <span className={classNames('shrink-0 w-3.5 h-3.5', STATUS_ICONS[testCase.status])} />
+              <span className="truncate text-mindvex-elements-textPrimary">{testCase.name}</span>
+              {(testCase.file || testCase.suite) && (
+                <span
+                  className={classNames(
+                    'truncate text-mindvex-elements-textTertiary',
+                    testCase.file ? 'hover:underline' : '',
+                  )}
+                  onClick={(e) => {
+                    if (testCase.file) {
+                      e.stopPropagation();
+                      openTestFile(testCase.file);
+                    }
+                  }}
+                >
+                  {testCase.file ?? testCase.suite}
+                </span>
+              )}
+              {testCase.duration !== undefined && (
+                <span className="ml-auto shrink-0 text-mindvex-elements-textTertiary">
+                  {formatDuration(testCase.duration)}
+                </span>
+              )}
+            </div>
+            {expanded === index && testCase.message && (
+              <pre className="mx-3 my-1 pl-5 font-mono text-xs text-red-400 whitespace-pre-wrap">
+                {testCase.message}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+function statusOrder(testCase: TestCaseResult) {
+  return testCase.status === 'failed' ? 0 : testCase.status === 'passed' ? 1 : 2;
+}
+
+function formatDuration(duration: number) {
+  return duration >= 1000 ? `${(duration / 1000).toFixed(1)}s` : `${duration}ms`;
+}
+
+function openTestFile(file: string) {
+  workbenchStore.setSelectedFile(file.startsWith('/') ? file : `${WORK_DIR}/${file}`);
+}
@@ -8,10 +8,6 @@ import { diffLines, type Change } from 'diff';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import type { FileHistory } from '~/types/actions';
 import { DiffView } from './DiffView';
-import {
-  type OnChangeCallback as OnEditorChange,
-  type OnScrollCallback as OnEditorScroll,
-} from '~/components/editor/codemirror/CodeMirrorEditor';
 import { IconButton } from '~/components/ui/IconButton';
 import { Slider, type SliderOptions } from '~/components/ui/Slider';
 import { workbenchStore, type WorkbenchViewType } from '~/lib/stores/workbench';
@@ -22,6 +18,7 @@ import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
 import { Dashboard } from '~/components/dashboard/Dashboard.client';
 import { QuickActions } from './QuickActions.client';
+import { ShellApprovalDialog } from './ShellApprovalDialog';
 import useViewport from '~/lib/hooks';
 
 import { usePreviewStore } from '~/lib/stores/previews';
@@ -335,14 +332,6 @@ export const Workbench = memo(
       workbenchStore.setDocuments(files, false);
     }, [files]);
 
-    const onEditorChange = useCallback<OnEditorChange>((update) => {
-      workbenchStore.setCurrentDocumentContent(update.content);
-    }, []);
-
-    const onEditorScroll = useCallback<OnEditorScroll>((position) => {
-      workbenchStore.setCurrentDocumentScrollPosition(position);
-    }, []);
-
     const onFileSelect = useCallback((filePath: string | undefined) => {
       workbenchStore.setSelectedFile(filePath);
     }, []);
@@ -502,8 +491,6 @@ export const Workbench = memo(
                       unsavedFiles={unsavedFiles}
                       fileHistory={fileHistory}
                       onFileSelect={onFileSelect}
-                      onEditorScroll={onEditorScroll}
-                      onEditorChange={onEditorChange}
                       onFileSave={onFileSave}
                       onFileReset={onFileReset}
                     />
@@ -536,6 +523,7 @@ export const Workbench = memo(
               </div>
             </div>
           </div>
+          <ShellApprovalDialog />
         </motion.div>
       )
     );
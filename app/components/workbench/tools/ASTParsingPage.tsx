@@ -9,6 +9,9 @@ import React, { useEffect, useRef, useMemo, useState } from 'react';
 import cytoscape from 'cytoscape';
 import { useStore } from '@nanostores/react';
 import { graphCache } from '~/lib/stores/graphCacheStore';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
 import {
   getUnifiedParser,
   parseModeStore,
@@ -136,6 +139,10 @@ export function ASTParsingPage({ onBack }: Props) {
     const counts: Record<string, number> = {};
 
     for (const node of graphData.nodes) {
+      if (node.data.kind === 'external') {
+        continue;
+      }
+
       const lang = node.data.language || 'unknown';
       counts[lang] = (counts[lang] || 0) + 1;
     }
@@ -215,37 +222,20 @@ export function ASTParsingPage({ onBack }: Props) {
       // Get the unified parser
       const unifiedParser = await getUnifiedParser();
 
-      // Simulate file analysis based on graph data
-      const files = graphData.nodes.map((node) => {
-        const language = node.data.language || 'javascript';
-        const fileName = node.data.label || 'unknown';
-        const filePath = node.data.filePath || `${fileName}.${language}`;
-
-        return {
-          path: filePath,
-          content: `// Simulated content for ${fileName}
-// Language: ${language}
-
-class ${fileName} {
-  // Implementation
-  constructor() {
-    // Initialize
-  }
-  
-  method1() {
-    // Method implementation
-    return "result";
-  }
-  
-  method2(param) {
-    // Another method
-    if (param) {
-      return param.toString();
-    }
-    return null;
-  }
-}`,
-        };
+      // Parse the real file contents held by the workbench
+      const filesMap = workbenchStore.files.get();
+
+      const files = graphData.nodes.flatMap((node) => {
+        const filePath = node.data.filePath || node.data.id;
+
+        // Graph paths may be relative to the project root
+        const workbenchFile = filesMap[filePath] ?? filesMap[path.join(WORK_DIR, filePath)];
+
+        if (workbenchFile?.type !== 'file' || workbenchFile.isBinary) {
+          return [];
+        }
+
+        return [{ path: filePath, content: workbenchFile.content }];
       });
 
       // Perform unified analysis
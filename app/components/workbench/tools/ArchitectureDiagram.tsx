@@ -4,9 +4,12 @@ interface ArchitectureDiagramProps {
   nodes: any[];
   links: any[];
   showAiGraph: boolean;
+
+  // Layers declared in mindvex.architecture.json, in column order; nodes then carry their own `layer` and `color`
+  configLayers?: string[];
 }
 
-export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureDiagramProps) {
+export function ArchitectureDiagram({ nodes, links, showAiGraph, configLayers }: ArchitectureDiagramProps) {
   const width = 1600;
   const height = 900;
 
@@ -21,6 +24,11 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
       return ['frontend', 'backend', 'data', 'external', 'infrastructure'];
     }
 
+    if (configLayers) {
+      const used = new Set(nodes.map((n) => n.layer));
+      return [...configLayers, 'unassigned'].filter((l) => used.has(l));
+    }
+
     // Dynamic Layer Detection for Offline Mode
     const detectedLayers = new Set<string>();
     nodes.forEach((n) => {
@@ -66,7 +74,7 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
     const sortedLayers = standardOrder.filter((l) => detectedLayers.has(l));
 
     return sortedLayers.length > 0 ? sortedLayers : ['controller', 'service', 'model', 'util'];
-  }, [nodes, showAiGraph]);
+  }, [nodes, showAiGraph, configLayers]);
 
   const layerTitles: Record<string, string> = {
     frontend: 'FRONTEND',
@@ -126,6 +134,8 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
   function getLayer(node: any) {
     if (showAiGraph) {
       return node.layer || 'backend';
+    } else if (configLayers) {
+      return node.layer;
     } else {
       // Offline heuristic
       const name = (node.name || '').toLowerCase();
@@ -212,7 +222,7 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
     });
 
     return positions;
-  }, [nodes, showAiGraph]);
+  }, [nodes, showAiGraph, layerOrder]);
 
   // Sync state with initial positions when they change
   useEffect(() => {
@@ -417,13 +427,13 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
               x={layerX[layer]}
               y={90}
               textAnchor="middle"
-              fill={layerColors[layer]}
+              fill={layerColors[layer] || nodes.find((n) => n.layer === layer)?.color || '#64748B'}
               fontSize="16"
               fontWeight="bold"
               letterSpacing="2"
               style={{ opacity: 0.8 }}
             >
-              {layerTitles[layer]}
+              {layerTitles[layer] || layer.toUpperCase()}
             </text>
           </g>
         ))}
@@ -446,6 +456,13 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
            */
           const offset = ((i % 7) - 3) * 15;
           const midX = (source.x + target.x) / 2 + offset;
+          const forward = source.x < target.x;
+          const stroke = link.violation ? link.color : forward ? 'rgba(96, 165, 250, 0.8)' : 'rgba(255,255,255,0.4)';
+          const marker = link.violation
+            ? `url(#arrowhead-${link.violation})`
+            : forward
+              ? 'url(#arrowhead)'
+              : 'url(#arrowhead-dim)';
 
           return (
             <g key={i}>
@@ -453,9 +470,10 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
                 d={`M ${source.x + 80} ${source.y} 
                     C ${midX} ${source.y}, ${midX} ${target.y}, ${target.x - 80} ${target.y}`}
                 fill="none"
-                stroke={source.x < target.x ? 'rgba(96, 165, 250, 0.8)' : 'rgba(255,255,255,0.4)'}
-                strokeWidth="2"
-                markerEnd={source.x < target.x ? 'url(#arrowhead)' : 'url(#arrowhead-dim)'}
+                stroke={stroke}
+                strokeWidth={link.violation ? 3 : 2}
+                strokeDasharray={link.violation === 'warn' ? '6 4' : undefined}
+                markerEnd={marker}
                 style={{ transition: 'd 0.1s ease-out' }}
               />
             </g>
@@ -475,6 +493,12 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
           <marker id="arrowhead-dim" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
             <polygon points="0 0, 10 3.5, 0 7" fill="rgba(255, 255, 255, 0.4)" />
           </marker>
+          <marker id="arrowhead-error" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+            <polygon points="0 0, 10 3.5, 0 7" fill="#EF4444" />
+          </marker>
+          <marker id="arrowhead-warn" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+            <polygon points="0 0, 10 3.5, 0 7" fill="#F59E0B" />
+          </marker>
         </defs>
 
         {/* Nodes (Cards) */}
@@ -486,7 +510,7 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
           }
 
           const layer = getLayer(node);
-          const color = layerColors[layer] || '#64748B';
+          const color = (configLayers ? node.color : layerColors[layer]) || '#64748B';
           const isDragging = draggedNode === node.id;
 
           return (
@@ -528,8 +552,8 @@ export function ArchitectureDiagram({ nodes, links, showAiGraph }: ArchitectureD
                 height="50"
                 rx="8"
                 fill="none"
-                stroke={color}
-                strokeWidth="2"
+                stroke={node.violation ? '#EF4444' : color}
+                strokeWidth={node.violation ? 3 : 2}
               />
 
               {/* Label */}
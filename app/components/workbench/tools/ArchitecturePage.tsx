@@ -8,6 +8,14 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { useStore } from '@nanostores/react';
 import { graphCache } from '~/lib/stores/graphCacheStore';
+import {
+  architectureChecking,
+  architectureConfig,
+  architectureConfigError,
+  architectureViolations,
+  runArchitectureCheck,
+} from '~/lib/stores/architectureRulesStore';
+import { ARCHITECTURE_CONFIG_PATH, createLayerMatcher } from '~/lib/graph/architectureRules';
 import {
   getUnifiedParser,
   parseModeStore,
@@ -20,7 +28,7 @@ import {
 import { Button } from '~/components/ui/Button';
 import { Card } from '~/components/ui/Card';
 import { Badge } from '~/components/ui/Badge';
-import { Brain, Zap, Info, RefreshCw, Download, Layers, Box, RotateCw } from 'lucide-react';
+import { Brain, Zap, Info, RefreshCw, Download, Layers, Box, RotateCw, ShieldAlert } from 'lucide-react';
 import { toast } from 'react-toastify';
 import { ForceGraph2D, ForceGraph3D, SpriteText } from '~/components/ui/ForceGraph.client';
 import { ArchitectureDiagram } from './ArchitectureDiagram';
@@ -42,6 +50,11 @@ interface AnalysisResult {
   analysisTime?: number;
 }
 
+// Colours for layers declared in mindvex.architecture.json, by declaration order
+const CONFIG_LAYER_PALETTE = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#6366F1', '#14B8A6', '#F97316'];
+
+const VIOLATION_COLORS = { error: '#EF4444', warn: '#F59E0B' };
+
 export function ArchitecturePage({ onBack }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const fgRef = useRef<any>();
@@ -55,6 +68,23 @@ export function ArchitecturePage({ onBack }: Props) {
   const [showAiGraph, setShowAiGraph] = useState(false);
   const [viewMode, setViewMode] = useState<'2d' | '3d' | 'dag' | 'diagram'>('diagram');
 
+  const rulesConfig = useStore(architectureConfig);
+  const rulesError = useStore(architectureConfigError);
+  const violations = useStore(architectureViolations);
+  const isCheckingRules = useStore(architectureChecking);
+
+  useEffect(() => {
+    runArchitectureCheck().catch((error) => console.error('Architecture check failed:', error));
+  }, [graphData]);
+
+  const configLayers = useMemo(() => rulesConfig?.layers.map((layer) => layer.name), [rulesConfig]);
+  const layerOf = useMemo(() => (rulesConfig ? createLayerMatcher(rulesConfig) : null), [rulesConfig]);
+
+  const violationsByEdge = useMemo(
+    () => new Map(violations.map((violation) => [violation.edgeId, violation])),
+    [violations],
+  );
+
   // Layer Colors (Shared with ArchitectureDiagram)
   const layerColors: Record<string, string> = {
     frontend: '#3B82F6', // Blue
@@ -73,6 +103,10 @@ export function ArchitecturePage({ onBack }: Props) {
 
   // Helper to detect layer from file path/name
   const detectLayer = (name: string, path: string) => {
+    if (layerOf) {
+      return layerOf(path) ?? 'unassigned';
+    }
+
     const n = name.toLowerCase();
     const p = path.toLowerCase();
 
@@ -139,7 +173,9 @@ export function ArchitecturePage({ onBack }: Props) {
       // Add file nodes with Layer Coloring
       graphData.nodes.forEach((n) => {
         const layer = detectLayer(n.data.label, n.data.filePath || '');
-        const color = layerColors[layer] || '#10B981';
+        const color = configLayers
+          ? CONFIG_LAYER_PALETTE[configLayers.indexOf(layer)] || '#64748B'
+          : layerColors[layer] || '#10B981';
 
         const node = {
           id: n.data.id,
@@ -149,6 +185,7 @@ export function ArchitecturePage({ onBack }: Props) {
           type: 'file',
           filePath: n.data.filePath,
           layer, // Store layer for filtering/logic
+          violation: violations.some((v) => v.source === n.data.id && v.severity === 'error'),
         };
         nodeMap.set(n.data.id, node);
         nodes.push(node);
@@ -212,6 +249,7 @@ export function ArchitecturePage({ onBack }: Props) {
 
         const sourceNode = nodeMap.get(source);
         const targetNode = nodeMap.get(target);
+        const violation = violationsByEdge.get(e.data.id)?.severity;
 
         if (sourceNode && targetNode) {
           // If in Diagram Mode, filter out directory nodes
@@ -220,9 +258,10 @@ export function ArchitecturePage({ onBack }: Props) {
               links.push({
                 source,
                 target,
-                color: '#94A3B8',
+                color: violation ? VIOLATION_COLORS[violation] : '#94A3B8',
                 width: 1.5,
                 curvature: 0.2,
+                violation,
               });
             }
           } else {
@@ -230,10 +269,11 @@ export function ArchitecturePage({ onBack }: Props) {
             links.push({
               source,
               target,
-              color: '#60A5FA', // Blue-400
-              width: 1.5,
+              color: violation ? VIOLATION_COLORS[violation] : '#60A5FA', // Blue-400
+              width: violation ? 3 : 1.5,
               particles: 2,
               curvature: 0.2,
+              violation,
             });
           }
         }
@@ -257,7 +297,7 @@ export function ArchitecturePage({ onBack }: Props) {
     }
 
     return { nodes: [], links: [] };
-  }, [graphData, aiGraphData, showAiGraph, viewMode]);
+  }, [graphData, aiGraphData, showAiGraph, viewMode, layerOf, configLayers, violations, violationsByEdge]);
 
   // Adjust forces for better spreading when viewMode changes
   useEffect(() => {
@@ -305,26 +345,28 @@ export function ArchitecturePage({ onBack }: Props) {
       const { webcontainer } = await import('~/lib/webcontainer');
       const container = await webcontainer;
 
-      // Read real code from WebContainer for each file
+      // Read real code from WebContainer for each file (external packages have none)
       const files = await Promise.all(
-        graphData.nodes.map(async (node) => {
-          const language = node.data.language || 'javascript';
-          const filePath = node.data.filePath || `${node.data.label}.${language}`;
-
-          let content = '';
-
-          try {
-            content = (await container.fs.readFile(filePath, 'utf-8')) as string;
-          } catch (e) {
-            // File not found or unreadable — use empty placeholder
-            content = `// Unable to read ${filePath}`;
-          }
+        graphData.nodes
+          .filter((node) => node.data.kind !== 'external')
+          .map(async (node) => {
+            const language = node.data.language || 'javascript';
+            const filePath = node.data.filePath || `${node.data.label}.${language}`;
+
+            let content = '';
+
+            try {
+              content = (await container.fs.readFile(filePath, 'utf-8')) as string;
+            } catch (e) {
+              // File not found or unreadable — use empty placeholder
+              content = `// Unable to read ${filePath}`;
+            }
 
-          return {
-            path: filePath,
-            content,
-          };
-        }),
+            return {
+              path: filePath,
+              content,
+            };
+          }),
       );
 
       console.log(
@@ -523,6 +565,16 @@ export function ArchitecturePage({ onBack }: Props) {
           </div>
 
           <ParseModeSelector compact />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => runArchitectureCheck().catch(() => toast.error('Architecture check failed'))}
+            disabled={isCheckingRules}
+            title={`Check dependencies against ${ARCHITECTURE_CONFIG_PATH}`}
+          >
+            <ShieldAlert className={`h-3 w-3 mr-1 ${isCheckingRules ? 'animate-pulse' : ''}`} />
+            Check Rules
+          </Button>
           <Button variant="outline" size="sm" onClick={performEnhancedAnalysis} disabled={isAnalyzing}>
             {isAnalyzing ? (
               <>
@@ -616,13 +668,68 @@ export function ArchitecturePage({ onBack }: Props) {
         </Card>
       )}
 
+      {/* Architecture Rules */}
+      {(rulesConfig || rulesError) && (
+        <Card className="mb-4 p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium flex items-center gap-2 text-gray-200">
+              <ShieldAlert className="h-4 w-4" />
+              Architecture Rules
+            </h4>
+            {rulesConfig && (
+              <div className="flex gap-1">
+                <Badge variant="destructive" size="sm">
+                  {violations.filter((v) => v.severity === 'error').length} errors
+                </Badge>
+                <Badge variant="outline" size="sm" className="border-amber-500/30 text-amber-300">
+                  {violations.filter((v) => v.severity === 'warn').length} warnings
+                </Badge>
+              </div>
+            )}
+          </div>
+
+          {rulesError ? (
+            <p className="text-sm text-red-300">{rulesError}</p>
+          ) : violations.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              All dependencies follow the rules in <code>{ARCHITECTURE_CONFIG_PATH}</code>.
+            </p>
+          ) : (
+            <ul className="space-y-2 max-h-48 overflow-y-auto text-xs">
+              {violations.map((violation) => (
+                <li
+                  key={`${violation.edgeId}:${violation.rule}`}
+                  className="border-l-2 pl-2"
+                  style={{ borderColor: VIOLATION_COLORS[violation.severity] }}
+                >
+                  <div className="font-mono text-gray-200 break-all">
+                    {violation.sourceFile}
+                    {violation.line ? `:${violation.line}` : ''} → {violation.targetFile}
+                  </div>
+                  <div className="text-gray-400">
+                    {violation.fromLayer} → {violation.toLayer} · {violation.rule}
+                    {violation.comment ? ` — ${violation.comment}` : ''}
+                  </div>
+                  {violation.text && <div className="font-mono text-gray-500 truncate">{violation.text}</div>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+
       {/* Graph Visualization */}
       <div
         className="flex-1 bg-[#050505] rounded-lg border border-gray-800 overflow-hidden relative"
         ref={containerRef}
       >
         {viewMode === 'diagram' ? (
-          <ArchitectureDiagram nodes={forceGraphData.nodes} links={forceGraphData.links} showAiGraph={showAiGraph} />
+          <ArchitectureDiagram
+            nodes={forceGraphData.nodes}
+            links={forceGraphData.links}
+            showAiGraph={showAiGraph}
+            configLayers={showAiGraph ? undefined : configLayers}
+          />
         ) : viewMode === '3d' ? (
           <ForceGraph3D
             ref={fgRef}
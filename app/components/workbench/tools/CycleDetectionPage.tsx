@@ -9,6 +9,7 @@ import React, { useEffect, useRef, useState, useMemo } from 'react';
 import cytoscape from 'cytoscape';
 import { useStore } from '@nanostores/react';
 import { graphCache } from '~/lib/stores/graphCacheStore';
+import { analyzeCycles } from '~/lib/graph/cycles';
 import {
   getUnifiedParser,
   parseModeStore,
@@ -29,6 +30,10 @@ interface Props {
 
 interface CycleInfo {
   id: string;
+  componentId: string;
+
+  // Node ids in cycle order, and their file paths for display
+  nodes: string[];
   paths: string[];
   raw: string;
   llmInsight?: string;
@@ -44,84 +49,35 @@ export function CycleDetectionPage({ onBack }: Props) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [cycleInsights, setCycleInsights] = useState<Record<string, string>>({});
 
-  const [detectedCycles, setDetectedCycles] = useState<string[]>([]);
-
-  // Calculate cycles on client side if not provided by backend
-  useEffect(() => {
-    if (graphData && (!graphData.cycles || graphData.cycles.length === 0)) {
-      // Simple DFS based cycle detection
-      const adj = new Map<string, string[]>();
-      graphData.edges.forEach((e) => {
-        const src = typeof e.data.source === 'string' ? e.data.source : (e.data.source as any).id;
-        const tgt = typeof e.data.target === 'string' ? e.data.target : (e.data.target as any).id;
-
-        if (!adj.has(src)) {
-          adj.set(src, []);
-        }
-
-        adj.get(src)?.push(tgt);
-      });
-
-      const visited = new Set<string>();
-      const recStack = new Set<string>();
-      const cycles: string[] = [];
-      const path: string[] = [];
-
-      const dfs = (u: string) => {
-        visited.add(u);
-        recStack.add(u);
-        path.push(u);
-
-        const neighbors = adj.get(u) || [];
-
-        for (const v of neighbors) {
-          if (!visited.has(v)) {
-            dfs(v);
-          } else if (recStack.has(v)) {
-            // Cycle found
-            const cycleStart = path.indexOf(v);
-
-            if (cycleStart !== -1) {
-              cycles.push(path.slice(cycleStart).join(' -> ') + ' -> ' + v);
-            }
-          }
-        }
-
-        recStack.delete(u);
-        path.pop();
-      };
+  const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
 
-      graphData.nodes.forEach((n) => {
-        const id = n.data.id;
+  // Strongly-connected components, their elementary cycles and suggested cuts
+  const components = useMemo(() => (graphData ? analyzeCycles(graphData) : []), [graphData]);
 
-        if (!visited.has(id)) {
-          dfs(id);
-        }
-      });
-
-      // Deduplicate cycles (simple string set)
-      const uniqueCycles = Array.from(new Set(cycles));
-
-      // Limit to top 20 to avoid freezing UI on massive graphs
-      setDetectedCycles(uniqueCycles.slice(0, 20));
-    } else if (graphData?.cycles) {
-      setDetectedCycles(graphData.cycles);
-    }
+  const filePathOf = useMemo(() => {
+    const filePaths = new Map(graphData?.nodes.map((n) => [n.data.id, n.data.filePath || n.data.id]) ?? []);
+    return (id: string) => filePaths.get(id) ?? id;
   }, [graphData]);
 
-  // Group cycles for easier display in the side panel
-  const cycleList = useMemo(() => {
-    if (!detectedCycles || detectedCycles.length === 0) {
-      return [];
-    }
-
-    return detectedCycles.map((cycleStr, idx) => ({
-      id: `cycle-${idx}`,
-      paths: cycleStr.split(' -> '),
-      raw: cycleStr,
-      llmInsight: cycleInsights[`cycle-${idx}`],
-    }));
-  }, [detectedCycles, cycleInsights]);
+  const cycleList = useMemo<CycleInfo[]>(
+    () =>
+      components.flatMap((component) =>
+        component.cycles.map((nodes, idx) => {
+          const id = `${component.id}-${idx}`;
+          const paths = nodes.map(filePathOf);
+
+          return {
+            id,
+            componentId: component.id,
+            nodes,
+            paths,
+            raw: [...paths, paths[0]].join(' -> '),
+            llmInsight: cycleInsights[id],
+          };
+        }),
+      ),
+    [components, filePathOf, cycleInsights],
+  );
 
   useEffect(() => {
     if (containerRef.current && graphData) {
@@ -212,8 +168,10 @@ export function CycleDetectionPage({ onBack }: Props) {
       });
 
       // Apply initial cycle highlights
+      const cycleEdges = new Set(components.flatMap((component) => component.edges));
+
       cyRef.current.edges().forEach((edge) => {
-        if (edge.data('cycle')) {
+        if (edge.data('cycle') || cycleEdges.has(edge.id())) {
           edge.addClass('cycle');
           edge.source().addClass('cycle');
           edge.target().addClass('cycle');
@@ -227,9 +185,9 @@ export function CycleDetectionPage({ onBack }: Props) {
         }
       };
     }
-  }, [graphData]);
+  }, [graphData, components]);
 
-  // Handle selected cycle change
+  // Handle selected cycle / component change
   useEffect(() => {
     if (!cyRef.current || !graphData) {
       return;
@@ -238,45 +196,30 @@ export function CycleDetectionPage({ onBack }: Props) {
     const cy = cyRef.current;
     cy.elements().removeClass('selected-cycle');
 
-    if (selectedCycleId) {
-      const cycleInfo = cycleList.find((c) => c.id === selectedCycleId);
+    const cycleInfo = cycleList.find((c) => c.id === selectedCycleId);
 
-      if (!cycleInfo) {
-        return;
-      }
+    if (cycleInfo) {
+      const { nodes } = cycleInfo;
 
-      const { paths } = cycleInfo;
+      nodes.forEach((id, i) => {
+        const next = nodes[(i + 1) % nodes.length];
 
-      paths.forEach((path) => {
-        const node = cy.nodes().filter((n) => n.data('filePath') === path);
-        node.addClass('selected-cycle');
+        cy.getElementById(id).addClass('selected-cycle');
+        cy.edges()
+          .filter((e) => e.source().id() === id && e.target().id() === next)
+          .addClass('selected-cycle');
       });
 
-      for (let i = 0; i < paths.length - 1; i++) {
-        const sourcePath = paths[i];
-        const targetPath = paths[i + 1];
-        const sourceNode = cy.nodes().filter((n) => n.data('filePath') === sourcePath);
-        const targetNode = cy.nodes().filter((n) => n.data('filePath') === targetPath);
-
-        if (sourceNode.length > 0 && targetNode.length > 0) {
-          const edge = cy
-            .edges()
-            .filter((e) => e.source().id() === sourceNode.id() && e.target().id() === targetNode.id());
-          edge.addClass('selected-cycle');
-        }
-      }
+      return;
+    }
 
-      const firstNode = cy.nodes().filter((n) => n.data('filePath') === paths[0]);
-      const lastNode = cy.nodes().filter((n) => n.data('filePath') === paths[paths.length - 1]);
+    const component = components.find((c) => c.id === selectedComponentId);
 
-      if (firstNode.length > 0 && lastNode.length > 0) {
-        const closingEdge = cy
-          .edges()
-          .filter((e) => e.source().id() === lastNode.id() && e.target().id() === firstNode.id());
-        closingEdge.addClass('selected-cycle');
-      }
+    if (component) {
+      component.nodes.forEach((id) => cy.getElementById(id).addClass('selected-cycle'));
+      component.edges.forEach((id) => cy.getElementById(id).addClass('selected-cycle'));
     }
-  }, [selectedCycleId, cycleList, graphData]);
+  }, [selectedCycleId, selectedComponentId, cycleList, components, graphData]);
 
   const analyzeCycleWithAI = async (cycle: (typeof cycleList)[0]) => {
     setIsAnalyzing(true);
@@ -368,66 +311,120 @@ Please provide:
               Dependency Cycles
             </h3>
             <p className="text-sm text-gray-400">
-              {cycleList.length > 0
-                ? `Found ${cycleList.length} circular dependencies. Select one to highlight its path.`
+              {components.length > 0
+                ? `Found ${components.length} dependency tangle(s) with ${cycleList.length} circular dependencies. Select one to highlight its path.`
                 : 'Great job! No circular dependencies found in this codebase.'}
             </p>
           </div>
 
-          <div className="flex-1 overflow-y-auto space-y-3 custom-scrollbar pr-1">
-            {cycleList.map((cycle, index) => (
-              <Card
-                key={cycle.id}
-                className={`p-3 cursor-pointer transition-all border ${
-                  selectedCycleId === cycle.id
-                    ? 'bg-red-900/20 border-red-500 scale-[1.02]'
-                    : 'bg-gray-800 border-gray-700 hover:border-red-500/50'
-                }`}
-                onClick={() => setSelectedCycleId(cycle.id === selectedCycleId ? null : cycle.id)}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <span className="font-bold text-red-400 text-sm">Cycle #{index + 1}</span>
-                  <Badge variant="destructive" className="text-[10px]">
-                    {cycle.paths.length} nodes
-                  </Badge>
-                </div>
-
-                <div className="space-y-1 mb-3">
-                  {cycle.paths.map((path, i) => (
-                    <div key={i} className="flex items-start gap-2 text-[10px]">
-                      <span className="text-red-500 font-bold shrink-0">↳</span>
-                      <span className="text-gray-300 font-mono break-all">{path.split(/[/\\]/).pop()}</span>
+          <div className="flex-1 overflow-y-auto space-y-4 custom-scrollbar pr-1">
+            {components.map((component, componentIndex) => (
+              <div key={component.id} className="space-y-2">
+                <Card
+                  className={`p-3 cursor-pointer transition-all border ${
+                    selectedComponentId === component.id && !selectedCycleId
+                      ? 'bg-red-900/20 border-red-500'
+                      : 'bg-gray-900/60 border-gray-700 hover:border-red-500/50'
+                  }`}
+                  onClick={() => {
+                    setSelectedCycleId(null);
+                    setSelectedComponentId(component.id === selectedComponentId ? null : component.id);
+                  }}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-bold text-red-400 text-sm">Tangle #{componentIndex + 1}</span>
+                    <div className="flex gap-1">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {component.nodes.length} files
+                      </Badge>
+                      <Badge variant="destructive" className="text-[10px]">
+                        {component.cycles.length}
+                        {component.truncated ? '+' : ''} cycles
+                      </Badge>
                     </div>
-                  ))}
-                </div>
-
-                {parseMode.type === 'llm-enhanced' && (
-                  <div className="mt-2 pt-2 border-t border-gray-700">
-                    {!cycle.llmInsight ? (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="w-full text-xs h-7 gap-1"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          analyzeCycleWithAI(cycle);
-                        }}
-                        disabled={isAnalyzing}
-                      >
-                        <Brain className="h-3 w-3" />
-                        Analyze Break Strategy
-                      </Button>
-                    ) : (
-                      <div className="text-[10px] text-blue-300 italic">
-                        <span className="font-bold flex items-center gap-1 mb-1">
-                          <Brain className="h-2 w-2" /> AI Insight:
-                        </span>
-                        {cycle.llmInsight}
-                      </div>
-                    )}
                   </div>
-                )}
-              </Card>
+
+                  {component.truncated && (
+                    <p className="text-[10px] text-gray-400 mb-2">
+                      Only the first cycles are listed; this tangle contains more.
+                    </p>
+                  )}
+
+                  {component.suggestions.length > 0 && (
+                    <div className="space-y-1">
+                      <span className="text-[10px] font-bold text-gray-300">Suggested cuts</span>
+                      {component.suggestions.map((suggestion) => (
+                        <div key={suggestion.edgeId} className="text-[10px] text-gray-300 font-mono break-all">
+                          <span className="text-red-500 font-bold">✂ </span>
+                          {fileName(filePathOf(suggestion.source))} → {fileName(filePathOf(suggestion.target))}
+                          <span className="text-gray-500">
+                            {' '}
+                            ({suggestion.symbols.length > 0 ? suggestion.symbols.join(', ') : 'whole module'}; breaks{' '}
+                            {suggestion.cyclesBroken})
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+
+                {cycleList
+                  .filter((cycle) => cycle.componentId === component.id)
+                  .map((cycle, index) => (
+                    <Card
+                      key={cycle.id}
+                      className={`p-3 cursor-pointer transition-all border ${
+                        selectedCycleId === cycle.id
+                          ? 'bg-red-900/20 border-red-500 scale-[1.02]'
+                          : 'bg-gray-800 border-gray-700 hover:border-red-500/50'
+                      }`}
+                      onClick={() => setSelectedCycleId(cycle.id === selectedCycleId ? null : cycle.id)}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-bold text-red-400 text-sm">Cycle #{index + 1}</span>
+                        <Badge variant="destructive" className="text-[10px]">
+                          {cycle.paths.length} nodes
+                        </Badge>
+                      </div>
+
+                      <div className="space-y-1 mb-3">
+                        {cycle.paths.map((path, i) => (
+                          <div key={i} className="flex items-start gap-2 text-[10px]">
+                            <span className="text-red-500 font-bold shrink-0">↳</span>
+                            <span className="text-gray-300 font-mono break-all">{fileName(path)}</span>
+                          </div>
+                        ))}
+                      </div>
+
+                      {parseMode.type === 'llm-enhanced' && (
+                        <div className="mt-2 pt-2 border-t border-gray-700">
+                          {!cycle.llmInsight ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full text-xs h-7 gap-1"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                analyzeCycleWithAI(cycle);
+                              }}
+                              disabled={isAnalyzing}
+                            >
+                              <Brain className="h-3 w-3" />
+                              Analyze Break Strategy
+                            </Button>
+                          ) : (
+                            <div className="text-[10px] text-blue-300 italic">
+                              <span className="font-bold flex items-center gap-1 mb-1">
+                                <Brain className="h-2 w-2" /> AI Insight:
+                              </span>
+                              {cycle.llmInsight}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </Card>
+                  ))}
+              </div>
             ))}
           </div>
         </div>
@@ -435,3 +432,7 @@ Please provide:
     </div>
   );
 }
+
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() ?? filePath;
+}
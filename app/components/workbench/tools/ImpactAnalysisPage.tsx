@@ -5,10 +5,23 @@
  * and parser-only vs LLM-enhanced modes.
  */
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import cytoscape from 'cytoscape';
 import { useStore } from '@nanostores/react';
 import { graphCache } from '~/lib/stores/graphCacheStore';
+import { loadSymbolGraph, symbolGraph, symbolGraphLoading } from '~/lib/stores/symbolGraphStore';
+import { getFileSymbols, getSymbolCallers } from '~/lib/graph/symbolGraph';
+import {
+  computeImpact,
+  impactReportToJson,
+  impactReportToMarkdown,
+  normalizeRepoPath,
+  type ImpactReport,
+  type ImpactRisk,
+} from '~/lib/graph/impactAnalysis';
+import { generateImpactReport, impactReport, impactReportLoading } from '~/lib/stores/impactReportStore';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { getGitChangedFiles } from '~/lib/hooks/useGit';
 import {
   getUnifiedParser,
   parseModeStore,
@@ -31,7 +44,7 @@ interface ImpactNode {
   id: string;
   label: string;
   type?: string;
-  risk?: 'low' | 'medium' | 'high';
+  risk?: ImpactRisk;
 }
 
 interface ImpactAnalysisResult {
@@ -50,6 +63,35 @@ export function ImpactAnalysisPage({ onBack }: Props) {
   const [analysisResult, setAnalysisResult] = useState<ImpactAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showLLMDetails, setShowLLMDetails] = useState(false);
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [view, setView] = useState<'node' | 'report'>('node');
+  const [changeSource, setChangeSource] = useState<'workbench' | 'git'>('workbench');
+  const report = useStore(impactReport);
+  const reportLoading = useStore(impactReportLoading);
+  const symbols = useStore(symbolGraph);
+  const symbolsLoading = useStore(symbolGraphLoading);
+
+  const fileSymbols = useMemo(
+    () => (symbols && analysisResult ? getFileSymbols(symbols, analysisResult.selectedNode.id) : []),
+    [symbols, analysisResult?.selectedNode.id],
+  );
+
+  const symbolCallers = useMemo(
+    () => (symbols && selectedSymbol ? getSymbolCallers(symbols, selectedSymbol) : []),
+    [symbols, selectedSymbol],
+  );
+
+  // Outline the files whose symbols use the selected symbol
+  useEffect(() => {
+    const cy = cyRef.current;
+
+    if (!cy) {
+      return;
+    }
+
+    cy.nodes().removeClass('caller');
+    symbolCallers.forEach(({ node }) => cy.getElementById(node.data.id.split('#')[0]).addClass('caller'));
+  }, [symbolCallers]);
 
   useEffect(() => {
     if (containerRef.current && graphData) {
@@ -109,6 +151,13 @@ export function ImpactAnalysisPage({ onBack }: Props) {
               height: 35,
             },
           },
+          {
+            selector: 'node.caller',
+            style: {
+              'border-width': 3,
+              'border-color': '#60a5fa', // blue-400
+            },
+          },
           {
             selector: 'edge.impact-path',
             style: {
@@ -143,11 +192,13 @@ export function ImpactAnalysisPage({ onBack }: Props) {
 
         // Highlight clicked node
         node.addClass('selected');
+        setSelectedSymbol(null);
+        loadSymbolGraph().catch(() => toast.error('Failed to load symbols'));
 
-        // Find successors (files that depend on this one)
-        const successors = node.successors();
-        successors.nodes().addClass('impacted');
-        successors.edges().addClass('impact-path');
+        // Predecessors are the files that (transitively) import this one
+        const dependents = node.predecessors();
+        dependents.nodes().addClass('impacted');
+        dependents.edges().addClass('impact-path');
 
         const selected: ImpactNode = {
           id: node.id(),
@@ -155,13 +206,23 @@ export function ImpactAnalysisPage({ onBack }: Props) {
           type: node.data('type'),
         };
 
-        const impacted = successors.nodes().map((n: cytoscape.NodeSingular) => ({
-          id: n.id(),
-          label: n.data('label'),
-          type: n.data('type'),
-          risk: Math.random() > 0.7 ? 'high' : Math.random() > 0.4 ? 'medium' : ('low' as const),
-        }));
-
+        const ranking = computeImpact(graphData, node.data('filePath') ? [node.data('filePath')] : [], {
+          maxDepth: Infinity,
+        });
+        const ranked = new Map([...ranking.modules, ...ranking.tests].map((module) => [module.id, module]));
+
+        const score = (id: string) => ranked.get(id)?.score ?? 0;
+        const impacted: ImpactNode[] = dependents
+          .nodes()
+          .sort((a: cytoscape.NodeSingular, b: cytoscape.NodeSingular) => score(b.id()) - score(a.id()))
+          .map((n: cytoscape.NodeSingular) => ({
+            id: n.id(),
+            label: n.data('label'),
+            type: n.data('type'),
+            risk: ranked.get(n.id())?.risk ?? 'low',
+          }));
+
+        setView('node');
         setAnalysisResult({
           selectedNode: selected,
           impactedNodes: impacted,
@@ -183,6 +244,72 @@ export function ImpactAnalysisPage({ onBack }: Props) {
     }
   }, [graphData, parseMode]);
 
+  const generateReport = async () => {
+    try {
+      const changedFiles =
+        changeSource === 'git' ? await getGitChangedFiles() : Object.keys(workbenchStore.getModifiedFiles() ?? {});
+
+      if (!changedFiles) {
+        toast.warning('No git repository found for this project');
+        return;
+      }
+
+      if (changedFiles.length === 0) {
+        toast.info('No changed files to analyze');
+        return;
+      }
+
+      const result = await generateImpactReport(changedFiles);
+
+      if (result) {
+        setView('report');
+        highlightReport(result);
+      }
+    } catch (error) {
+      console.error('Impact report failed:', error);
+      toast.error('Impact report failed: ' + (error as Error).message);
+    }
+  };
+
+  const highlightReport = (result: ImpactReport) => {
+    const cy = cyRef.current;
+
+    if (!cy) {
+      return;
+    }
+
+    const changed = new Set(result.changedFiles);
+
+    cy.elements().removeClass('selected impacted impact-path caller');
+    cy.nodes()
+      .filter((n) => changed.has(normalizeRepoPath(n.data('filePath'))))
+      .addClass('selected');
+    [...result.modules, ...result.tests].forEach((module) => cy.getElementById(module.id).addClass('impacted'));
+    cy.edges()
+      .filter((e) => e.source().is('.impacted') && (e.target().is('.impacted') || e.target().is('.selected')))
+      .addClass('impact-path');
+  };
+
+  const exportReport = (format: 'markdown' | 'json') => {
+    if (!report) {
+      return;
+    }
+
+    const isMarkdown = format === 'markdown';
+    const blob = new Blob([isMarkdown ? impactReportToMarkdown(report) : impactReportToJson(report)], {
+      type: isMarkdown ? 'text/markdown' : 'application/json',
+    });
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `impact-report-${Date.now()}.${isMarkdown ? 'md' : 'json'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const performAIImpactAnalysis = async (selected: ImpactNode, impacted: ImpactNode[]) => {
     setIsAnalyzing(true);
 
@@ -258,6 +385,23 @@ class ${selected.label.split('.')[0]} {
         </div>
 
         <div className="flex items-center gap-2">
+          <select
+            value={changeSource}
+            onChange={(e) => setChangeSource(e.target.value as 'workbench' | 'git')}
+            className="bg-gray-800 border border-gray-700 rounded-md text-xs text-gray-300 px-2 py-1.5"
+            title="Which changes to analyze"
+          >
+            <option value="workbench">Unsaved & modified files</option>
+            <option value="git">Git diff (vs HEAD)</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={generateReport} disabled={reportLoading}>
+            {reportLoading ? (
+              <RefreshCw className="h-3 w-3 animate-spin mr-1" />
+            ) : (
+              <Microscope className="h-3 w-3 mr-1" />
+            )}
+            Blast Radius
+          </Button>
           <ParseModeSelector compact />
         </div>
       </div>
@@ -266,7 +410,9 @@ class ${selected.label.split('.')[0]} {
         <div ref={containerRef} className="flex-1 h-full cursor-crosshair" />
 
         <div className="w-80 border-l border-gray-700 bg-gray-800/80 backdrop-blur p-4 overflow-y-auto flex flex-col">
-          {!analysisResult ? (
+          {view === 'report' && report ? (
+            <ImpactReportPanel report={report} onExport={exportReport} onClose={() => setView('node')} />
+          ) : !analysisResult ? (
             <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-400 opacity-60">
               <div className="text-4xl mb-3">🖱️</div>
               <p>Click any node in the graph to see other files that depend on it.</p>
@@ -286,6 +432,55 @@ class ${selected.label.split('.')[0]} {
                 </Card>
               </div>
 
+              <div>
+                <h3 className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2 flex justify-between items-center">
+                  <span>Symbols</span>
+                  {symbolsLoading ? (
+                    <RefreshCw className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <Badge variant="secondary">{fileSymbols.length}</Badge>
+                  )}
+                </h3>
+
+                {!symbolsLoading && fileSymbols.length === 0 ? (
+                  <p className="text-sm text-gray-400 italic">No functions or classes found in this file.</p>
+                ) : (
+                  <div className="space-y-1 max-h-[240px] overflow-y-auto pr-2 custom-scrollbar">
+                    {fileSymbols.map((symbol) => (
+                      <div key={symbol.data.id}>
+                        <button
+                          onClick={() => setSelectedSymbol(selectedSymbol === symbol.data.id ? null : symbol.data.id)}
+                          className={`w-full text-left p-2 rounded text-sm font-mono flex justify-between items-center gap-2 transition-colors ${
+                            selectedSymbol === symbol.data.id
+                              ? 'bg-blue-500/20 text-blue-200'
+                              : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                          }`}
+                        >
+                          <span className="truncate">{symbol.data.label}</span>
+                          <span className="text-xs text-gray-500 flex-shrink-0">{symbol.data.kind}</span>
+                        </button>
+
+                        {selectedSymbol === symbol.data.id && (
+                          <div className="ml-3 mt-1 mb-2 space-y-1 border-l border-blue-500/30 pl-2">
+                            {symbolCallers.length === 0 ? (
+                              <p className="text-xs text-gray-500 italic">No callers found.</p>
+                            ) : (
+                              symbolCallers.map(({ node, type }) => (
+                                <div key={node.data.id} className="text-xs text-gray-300 font-mono break-all">
+                                  <span className="text-gray-500">{type === 'calls' ? 'called by' : 'used by'}</span>{' '}
+                                  {node.data.label}
+                                  <span className="text-gray-500"> · {node.data.filePath.split('/').pop()}</span>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {analysisResult.llmAnalysis && (
                 <div>
                   <h3 className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2 flex items-center gap-2">
@@ -342,3 +537,94 @@ class ${selected.label.split('.')[0]} {
     </div>
   );
 }
+
+const RISK_STYLES: Record<ImpactRisk, string> = {
+  high: 'text-red-300 border-red-500/40',
+  medium: 'text-orange-300 border-orange-500/40',
+  low: 'text-green-300 border-green-500/40',
+};
+
+function ImpactReportPanel({
+  report,
+  onExport,
+  onClose,
+}: {
+  report: ImpactReport;
+  onExport: (format: 'markdown' | 'json') => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs text-gray-500 uppercase font-bold tracking-wider">Blast Radius</h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            ✕
+          </Button>
+        </div>
+        <Card className="p-3 bg-pink-500/10 border-pink-500/30 text-sm text-gray-300">
+          {report.changedFiles.length + report.unmatchedFiles.length} changed file(s) affect{' '}
+          <strong className="text-pink-300">{report.modules.length}</strong> module(s) and{' '}
+          <strong className="text-pink-300">{report.tests.length}</strong> test file(s).
+          <div className="text-xs text-gray-400 mt-1">Impact Score: {report.riskScore.toFixed(1)}%</div>
+        </Card>
+        <div className="flex gap-2 mt-2">
+          <Button variant="outline" size="sm" onClick={() => onExport('markdown')}>
+            <Download className="h-3 w-3 mr-1" />
+            Markdown
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport('json')}>
+            <Download className="h-3 w-3 mr-1" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2 flex justify-between items-center">
+          <span>Affected Modules</span>
+          <Badge variant="secondary">{report.modules.length}</Badge>
+        </h3>
+        {report.modules.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No other modules depend on the changed files.</p>
+        ) : (
+          <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
+            {report.modules.map((module) => (
+              <div
+                key={module.id}
+                className="bg-gray-700/50 p-2 rounded text-sm text-gray-300 font-mono border border-gray-700/50"
+                title={`via ${module.via}`}
+              >
+                <div className="flex justify-between items-center gap-2">
+                  <span className="truncate">{module.filePath}</span>
+                  <Badge variant="outline" className={`text-xs flex-shrink-0 ${RISK_STYLES[module.risk]}`}>
+                    {module.risk}
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  depth {module.depth} · churn {module.churn.toFixed(1)} · score {module.score.toFixed(2)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {report.tests.length > 0 && (
+        <div>
+          <h3 className="text-xs text-gray-500 uppercase font-bold tracking-wider mb-2 flex justify-between items-center">
+            <span>Likely Affected Tests</span>
+            <Badge variant="secondary">{report.tests.length}</Badge>
+          </h3>
+          <ul className="text-xs text-gray-400 space-y-1 font-mono">
+            {report.tests.map((test) => (
+              <li key={test.id} className="truncate">
+                {test.filePath}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
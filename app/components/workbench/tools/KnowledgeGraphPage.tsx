@@ -9,6 +9,9 @@ import React, { useEffect, useRef, useState, useMemo } from 'react';
 import { useStore } from '@nanostores/react';
 import { ClientOnly } from 'remix-utils/client-only';
 import { graphCache } from '~/lib/stores/graphCacheStore';
+import { loadSymbolGraph, symbolGraph, symbolGraphLoading } from '~/lib/stores/symbolGraphStore';
+import { getFileSymbols, getSymbolCallers } from '~/lib/graph/symbolGraph';
+import type { GraphResponse } from '~/lib/graph/graphClient';
 import { workbenchStore } from '~/lib/stores/workbench';
 import {
   getUnifiedParser,
@@ -44,6 +47,49 @@ interface AnalysisResult {
   analysisTime?: number;
 }
 
+const SYMBOL_STYLES: Record<string, { color: string; val: number }> = {
+  class: { color: '#F472B6', val: 6 }, // Pink for classes
+  interface: { color: '#C084FC', val: 6 }, // Purple for interfaces
+  function: { color: '#60A5FA', val: 4 }, // Blue for functions
+  method: { color: '#22D3EE', val: 3 }, // Cyan for methods
+  external: { color: '#6B7280', val: 3 }, // Gray for external packages
+};
+
+const EDGE_COLORS: Record<string, string> = {
+  calls: '#60A5FA',
+  references: '#94A3B8',
+  extends: '#F472B6',
+  implements: '#C084FC',
+  defines: '#1E293B',
+};
+
+/** A file, its symbols, and the symbols on either side of their calls / references. */
+function focusOnFile(graph: GraphResponse, fileId: string | null): GraphResponse {
+  if (!fileId) {
+    return graph;
+  }
+
+  const symbols = getFileSymbols(graph, fileId);
+  const symbolIds = new Set(symbols.map((node) => node.data.id));
+  const ids = new Set([fileId, ...symbolIds]);
+
+  for (const symbol of symbols) {
+    getSymbolCallers(graph, symbol.data.id).forEach(({ node }) => ids.add(node.data.id));
+  }
+
+  for (const edge of graph.edges) {
+    if (symbolIds.has(edge.data.source) && (edge.data.type === 'calls' || edge.data.type === 'references')) {
+      ids.add(edge.data.target);
+    }
+  }
+
+  return {
+    ...graph,
+    nodes: graph.nodes.filter((node) => ids.has(node.data.id)),
+    edges: graph.edges.filter((edge) => ids.has(edge.data.source) && ids.has(edge.data.target)),
+  };
+}
+
 export function KnowledgeGraphPage({ onBack }: Props) {
   const graphRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -56,7 +102,9 @@ export function KnowledgeGraphPage({ onBack }: Props) {
   const [viewMode, setViewMode] = useState<'2d' | '3d'>('2d');
   const [granularity, setGranularity] = useState<'file' | 'symbol'>('file');
   const [originalASTGraph, setOriginalASTGraph] = useState<any>(null);
-  const [symbolGraphData, setSymbolGraphData] = useState<any>(null);
+  const [focusedFile, setFocusedFile] = useState<string | null>(null);
+  const symbolGraphData = useStore(symbolGraph);
+  const symbolGraphBuilding = useStore(symbolGraphLoading);
 
   // Load initial graph data into originalASTGraph when it first arrives
   useEffect(() => {
@@ -68,114 +116,9 @@ export function KnowledgeGraphPage({ onBack }: Props) {
   // Handle Granularity Change
   useEffect(() => {
     if (granularity === 'symbol' && !symbolGraphData && graphData) {
-      generateSymbolGraph();
-    }
-  }, [granularity, graphData]);
-
-  const generateSymbolGraph = async () => {
-    setIsAnalyzing(true);
-
-    try {
-      const unifiedParser = await getUnifiedParser();
-
-      // Set to parser-only for symbol generation to be fast and deterministic
-      const originalMode = parseMode;
-
-      /*
-       * We don't change the global store, just the instance behavior if possible,
-       * but here we just use the parser part of unifiedParser.
-       */
-
-      const filesMap = workbenchStore.files.get();
-      const newNodes: any[] = [];
-      const newEdges: any[] = [];
-
-      // Copy existing file nodes
-      graphData?.nodes.forEach((n) => {
-        newNodes.push({ ...n, data: { ...n.data, type: 'file' } });
-      });
-
-      // Process each file to find symbols
-      for (const node of graphData?.nodes || []) {
-        const filePath = node.data.filePath;
-        const dirent = filesMap[filePath];
-        const language = node.data.language || 'javascript';
-
-        if (dirent?.type === 'file') {
-          const fileContent = dirent.content;
-
-          try {
-            // Force parser-only for AST extraction
-            const parseResult = await unifiedParser.parseCode(fileContent, language);
-
-            // Add Class nodes
-            parseResult.metadata.classes.forEach((cls) => {
-              const clsId = `${filePath}#${cls.name}`;
-              newNodes.push({
-                data: {
-                  id: clsId,
-                  label: cls.name,
-                  type: 'class',
-                  filePath,
-                  language,
-                  complexity: cls.methods.reduce((acc, m) => acc + m.complexity, 0),
-                },
-              });
-
-              // Edge from File to Class
-              newEdges.push({
-                data: {
-                  source: node.data.id,
-                  target: clsId,
-                  label: 'contains',
-                  type: 'contains',
-                },
-              });
-            });
-
-            // Add Function nodes
-            parseResult.metadata.functions.forEach((func) => {
-              const funcId = `${filePath}#${func.name}`;
-              newNodes.push({
-                data: {
-                  id: funcId,
-                  label: func.name,
-                  type: 'function',
-                  filePath,
-                  language,
-                  complexity: func.complexity,
-                },
-              });
-
-              // Edge from File to Function
-              newEdges.push({
-                data: {
-                  source: node.data.id,
-                  target: funcId,
-                  label: 'contains',
-                  type: 'contains',
-                },
-              });
-            });
-          } catch (e) {
-            console.warn(`Failed to parse ${filePath}`, e);
-          }
-        }
-      }
-
-      // Add original edges (file dependencies)
-      graphData?.edges.forEach((e) => {
-        newEdges.push(e);
-      });
-
-      setSymbolGraphData({ nodes: newNodes, edges: newEdges });
-    } catch (error) {
-      console.error('Symbol graph generation failed:', error);
-      toast.error('Failed to generate symbol graph');
-    } finally {
-      setIsAnalyzing(false);
+      loadSymbolGraph().catch(() => toast.error('Failed to generate symbol graph'));
     }
-  };
+  }, [granularity, graphData, symbolGraphData]);
 
   // Sync with parseMode and handle switching back
   useEffect(() => {
@@ -200,7 +143,7 @@ export function KnowledgeGraphPage({ onBack }: Props) {
 
   // Format data for react-force-graph
   const forceGraphData = useMemo(() => {
-    const data = granularity === 'symbol' && symbolGraphData ? symbolGraphData : graphData;
+    const data = granularity === 'symbol' && symbolGraphData ? focusOnFile(symbolGraphData, focusedFile) : graphData;
 
     if (!data) {
       return { nodes: [], links: [] };
@@ -212,15 +155,12 @@ export function KnowledgeGraphPage({ onBack }: Props) {
       // Normalize ID: trim whitespace
       const id = n.data.id.trim();
 
+      const type = n.data.type || n.data.kind || 'file';
       let color = getLanguageColor(n.data.language);
       let val = ((n.data as any).complexity || 1) + 8;
 
-      if (n.data.type === 'class') {
-        color = '#F472B6'; // Pink for classes
-        val = 6;
-      } else if (n.data.type === 'function') {
-        color = '#60A5FA'; // Blue for functions
-        val = 4;
+      if (SYMBOL_STYLES[type]) {
+        ({ color, val } = SYMBOL_STYLES[type]);
       }
 
       nodeMap.set(id, {
@@ -230,7 +170,7 @@ export function KnowledgeGraphPage({ onBack }: Props) {
         color,
         language: n.data.language,
         filePath: n.data.filePath,
-        type: n.data.type || 'file',
+        type,
       });
     });
 
@@ -272,7 +212,15 @@ export function KnowledgeGraphPage({ onBack }: Props) {
       nodes: Array.from(nodeMap.values()),
       links,
     };
-  }, [graphData, symbolGraphData, granularity]);
+  }, [graphData, symbolGraphData, granularity, focusedFile]);
+
+  // Clicking a file drills into the symbols it defines and their callers
+  const handleNodeClick = (node: any) => {
+    if (node.type === 'file') {
+      setFocusedFile(node.id);
+      setGranularity('symbol');
+    }
+  };
 
   function getLanguageColor(lang: string = ''): string {
     const safeLang = lang || '';
@@ -633,6 +581,25 @@ export function KnowledgeGraphPage({ onBack }: Props) {
         </div>
 
         <div className="flex items-center gap-2">
+          {focusedFile && granularity === 'symbol' && (
+            <Badge variant="outline" className="cursor-pointer" onClick={() => setFocusedFile(null)}>
+              {focusedFile.split('/').pop()} ✕
+            </Badge>
+          )}
+          <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+            {(['file', 'symbol'] as const).map((level) => (
+              <button
+                key={level}
+                onClick={() => setGranularity(level)}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  granularity === level ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {level === 'symbol' && symbolGraphBuilding && <RefreshCw className="w-3 h-3 animate-spin" />}
+                {level === 'file' ? 'Files' : 'Symbols'}
+              </button>
+            ))}
+          </div>
           <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700 mr-2">
             <button
               onClick={() => setViewMode('2d')}
@@ -815,7 +782,8 @@ export function KnowledgeGraphPage({ onBack }: Props) {
                   linkDirectionalArrowRelPos={1}
                   linkCurvature={0.25}
                   backgroundColor="#020617"
-                  linkColor={() => '#475569'}
+                  linkColor={(link: any) => EDGE_COLORS[link.type] ?? '#475569'}
+                  onNodeClick={handleNodeClick}
                   linkLabel="label"
                 />
               ) : (
@@ -866,7 +834,8 @@ export function KnowledgeGraphPage({ onBack }: Props) {
                   linkDirectionalArrowRelPos={1}
                   linkCurvature={0.25}
                   backgroundColor="#020617"
-                  linkColor={() => '#334155'}
+                  linkColor={(link: any) => EDGE_COLORS[link.type] ?? '#334155'}
+                  onNodeClick={handleNodeClick}
                   linkLabel="label"
                 />
               )
@@ -15,6 +15,10 @@ import {
   parseModeStore,
   ParseModeSelector,
   ParseModeStatus,
+  ParseProgressIndicator,
+  projectAnalysisStore,
+  lastAnalysisChangeStore,
+  watchProjectFiles,
   type ProjectAnalysis,
   type LLMAnalysis,
 } from '~/lib/unifiedParser';
@@ -44,7 +48,8 @@ export function RealTimeGraphPage({ onBack }: Props) {
   const repoUrl = useStore(graphCacheRepoUrl);
   const isLoading = useStore(graphCacheLoading);
   const parseMode = useStore(parseModeStore);
-  const files = useStore(workbenchStore.files);
+  const analysis = useStore(projectAnalysisStore);
+  const lastChange = useStore(lastAnalysisChangeStore);
 
   const [localGraphData, setLocalGraphData] = useState<typeof graphData>(null);
 
@@ -56,7 +61,6 @@ export function RealTimeGraphPage({ onBack }: Props) {
   });
 
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [processedFiles] = useState<Set<string>>(new Set());
 
   // Initialize local graph data
   useEffect(() => {
@@ -65,97 +69,66 @@ export function RealTimeGraphPage({ onBack }: Props) {
     }
   }, [graphData]);
 
+  // Keep the project analysis in sync with the workbench; only changed files are re-parsed
+  useEffect(() => watchProjectFiles(workbenchStore.files), []);
+
   // Handle Real-Time Updates
   useEffect(() => {
-    const handleFileChange = async () => {
-      // Detect modified files since last check
-      const modifiedFiles = Array.from(workbenchStore.modifiedFiles);
-
-      if (modifiedFiles.length === 0) {
-        return;
-      }
-
-      const parser = await getUnifiedParser();
-      let changes = 0;
-      const startTime = Date.now();
-
-      for (const filePath of modifiedFiles) {
-        const dirent = files[filePath];
+    if (!lastChange || !analysis) {
+      return;
+    }
 
-        // Check if processed already for this version (naive check)
-        const fileKey = filePath + (dirent?.type === 'file' ? dirent.content.length : '0');
+    const touched = new Set([...lastChange.changed, ...lastChange.removed]);
+    const changedResults = analysis.files.filter((file) => touched.has(file.filePath));
 
-        if (processedFiles.has(fileKey)) {
-          continue;
-        }
+    setLocalGraphData((current) => {
+      if (!current) {
+        return current;
+      }
 
-        processedFiles.add(fileKey);
-        changes++;
-
-        if (dirent?.type === 'file') {
-          try {
-            // Parse the changed file
-            const result = await parser.parseCode(dirent.content, filePath);
-
-            // Update graph edges based on new imports
-            if (localGraphData) {
-              const newEdges = [...localGraphData.edges];
-              const newNodes = [...localGraphData.nodes];
-
-              // Remove old edges from this source
-              const filteredEdges = newEdges.filter((e) => e.data.source !== filePath);
-
-              // Add new edges
-              result.metadata.imports.forEach((imp) => {
-                // Find target node (naive matching by filename)
-                const targetNode = newNodes.find((n) => n.data.filePath?.includes(imp.module));
-
-                if (targetNode) {
-                  filteredEdges.push({
-                    data: {
-                      id: `${filePath}-${targetNode.data.id}`,
-                      source: filePath,
-                      target: targetNode.data.id,
-                      type: 'import',
-                      cycle: false,
-                      label: 'imports', // Custom prop
-                      strength: 1, // Custom prop
-                    } as any,
-                  });
-                }
-              });
-
-              setLocalGraphData({
-                ...localGraphData,
-                edges: filteredEdges,
-              });
-            }
-          } catch (e) {
-            console.error('Failed to parse changed file', e);
+      // Remove old edges from the touched sources
+      const edges = current.edges.filter((e) => !touched.has(e.data.source));
+
+      // Add new edges
+      for (const result of changedResults) {
+        result.metadata.imports.forEach((imp) => {
+          // Find target node (naive matching by filename)
+          const targetNode = current.nodes.find((n) => n.data.filePath?.includes(imp.module));
+
+          if (targetNode) {
+            edges.push({
+              data: {
+                id: `${result.filePath}-${targetNode.data.id}`,
+                source: result.filePath,
+                target: targetNode.data.id,
+                type: 'import',
+                cycle: false,
+                label: 'imports', // Custom prop
+                strength: 1, // Custom prop
+              } as any,
+            });
           }
-        }
+        });
       }
 
-      if (changes > 0) {
-        setStats((prev) => ({
-          ...prev,
-          lastUpdated: new Date(),
-          changesDetected: prev.changesDetected + changes,
-          filesAnalyzed: prev.filesAnalyzed + changes,
-          averageTime: (Date.now() - startTime) / changes,
-        }));
+      return { ...current, edges };
+    });
 
-        if (parseMode.type === 'llm-enhanced') {
-          // Trigger AI analysis for impact
-          toast.info(`AI analyzing impact of ${changes} changed files...`);
-        }
-      }
-    };
+    const totalTime = changedResults.reduce((sum, file) => sum + (file.analysisTime || 0), 0);
 
-    const timeoutId = setTimeout(handleFileChange, 2000);
+    setStats((prev) => ({
+      ...prev,
+      lastUpdated: new Date(lastChange.at),
+      changesDetected: prev.changesDetected + touched.size,
+      filesAnalyzed: analysis.files.length,
+      averageTime: changedResults.length > 0 ? totalTime / changedResults.length : prev.averageTime,
+    }));
 
-    return () => clearTimeout(timeoutId);
-  }, [files, parseMode]); // Debounce on files change
+    if (parseMode.type === 'llm-enhanced') {
+      // Trigger AI analysis for impact
+      toast.info(`AI analyzing impact of ${touched.size} changed files...`);
+    }
+  }, [lastChange]);
 
   useEffect(() => {
     if (containerRef.current && localGraphData) {
@@ -225,17 +198,18 @@ export function RealTimeGraphPage({ onBack }: Props) {
       try {
         const unifiedParser = await getUnifiedParser();
 
-        // Force sync with backend
-        const currentUrl = repoUrl;
-        graphCacheRepoUrl.set(null);
-        await refreshGraph(currentUrl);
+        // Force sync with backend, bypassing the persisted graph cache
+        await refreshGraph(repoUrl, { force: true });
 
         // If LLM mode is enabled, perform additional analysis
-        if (parseMode.type === 'llm-enhanced' && graphData) {
-          const files = graphData.nodes.slice(0, 5).map((node) => ({
-            path: node.data.filePath || 'unknown',
-            content: `// Simulated content for ${node.data.label}\n// Monitoring for changes...`,
-          }));
+        if (parseMode.type === 'llm-enhanced') {
+          const files = Object.entries(workbenchStore.files.get())
+            .flatMap(([path, dirent]) =>
+              dirent?.type === 'file' && !dirent.isBinary && unifiedParser.isSupportedFile(path)
+                ? [{ path, content: dirent.content }]
+                : [],
+            )
+            .slice(0, 5);
 
           const analysis = await unifiedParser.parseProject(files);
 
@@ -292,6 +266,7 @@ export function RealTimeGraphPage({ onBack }: Props) {
             <span className={isLoading || isAnalyzing ? 'animate-spin' : ''}>🔄</span> Real-Time Graph Update
           </h2>
           <ParseModeStatus />
+          <ParseProgressIndicator />
         </div>
 
         <div className="flex items-center gap-2">
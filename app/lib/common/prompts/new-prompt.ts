@@ -168,6 +168,8 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - patch: Small edits to large existing files (add filePath; content is a unified diff or <<<<<<< SEARCH / ======= / >>>>>>> REPLACE blocks)
+    - test: Run the project's tests with the detected runner (content: optional test file or extra arguments)
 
   File Action Rules:
     - Only include new/modified files
@@ -43,6 +43,15 @@ export async function decrypt(key: string, payload: string) {
   return decoder.decode(plaintext);
 }
 
+/**
+ * Hex-encoded SHA-256 digest of a string, used to key caches by content.
+ */
+export async function hashContent(data: string) {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(data));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 async function getKey(key: string) {
   return await crypto.subtle.importKey('raw', encodeBase64(key), { name: 'AES-CBC' }, false, ['encrypt', 'decrypt']);
 }
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphResponse } from './graphClient';
+import {
+  checkArchitecture,
+  findImportLine,
+  globToRegExp,
+  NOT_IN_ALLOWED_RULE,
+  parseArchitectureConfig,
+} from './architectureRules';
+
+function graph(imports: Array<[string, string]>): GraphResponse {
+  const files = new Set(imports.flat());
+
+  return {
+    nodes: [...files].map((filePath) => ({
+      data: { id: filePath, label: filePath.split('/').pop()!, filePath, language: 'typescript' },
+    })),
+    edges: imports.map(([source, target]) => ({
+      data: { id: `${source}->${target}`, source, target, type: 'import', cycle: false },
+    })),
+    cycles: [],
+  };
+}
+
+describe('globToRegExp', () => {
+  it('matches directories, segments and alternations', () => {
+    expect(globToRegExp('app/components/**').test('app/components/chat/Chat.tsx')).toBe(true);
+    expect(globToRegExp('**/*.spec.ts').test('a.spec.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+    expect(globToRegExp('src/{api,routes}/**').test('src/routes/index.ts')).toBe(true);
+  });
+});
+
+describe('checkArchitecture', () => {
+  const config = parseArchitectureConfig(
+    JSON.stringify({
+      layers: [
+        { name: 'ui', patterns: ['/src/ui/**'] },
+        { name: 'domain', patterns: ['src/domain/**'] },
+        { name: 'db', patterns: ['src/db/**'] },
+      ],
+      forbidden: [{ name: 'domain-not-to-ui', from: 'domain', to: 'ui', comment: 'Keep domain headless' }],
+      allowed: [
+        { from: 'ui', to: 'domain' },
+        { from: 'domain', to: 'db' },
+      ],
+    }),
+  );
+
+  it('reports forbidden and unlisted dependencies, errors first', () => {
+    const violations = checkArchitecture(
+      graph([
+        ['/src/ui/App.tsx', '/src/domain/users.ts'],
+        ['/src/ui/App.tsx', '/src/db/client.ts'],
+        ['/src/domain/users.ts', '/src/ui/format.ts'],
+        ['/src/domain/users.ts', '/src/domain/types.ts'],
+        ['/src/scripts/seed.ts', '/src/ui/App.tsx'],
+      ]),
+      config,
+    );
+
+    expect(violations.map((v) => [v.sourceFile, v.targetFile, v.rule, v.severity])).toEqual([
+      ['src/domain/users.ts', 'src/ui/format.ts', 'domain-not-to-ui', 'error'],
+      ['src/ui/App.tsx', 'src/db/client.ts', NOT_IN_ALLOWED_RULE, 'warn'],
+    ]);
+  });
+
+  it('rejects rules that name unknown layers', () => {
+    expect(() =>
+      parseArchitectureConfig('{"layers":[{"name":"a","patterns":[]}],"forbidden":[{"from":"a","to":"b"}]}'),
+    ).toThrow('forbidden[0].to refers to unknown layer "b"');
+  });
+});
+
+describe('findImportLine', () => {
+  it('locates the import of a module or its index file', () => {
+    const content = "import React from 'react';\nimport { format } from '../ui/format';\nimport db from '../db';\n";
+
+    expect(findImportLine(content, 'src/ui/format.ts')).toEqual({
+      line: 2,
+      text: "import { format } from '../ui/format';",
+    });
+    expect(findImportLine(content, 'src/db/index.ts')?.line).toBe(3);
+    expect(findImportLine(content, 'src/ui/other.ts')).toBeUndefined();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * architectureRules.ts — layer dependency rules for a file graph.
+ *
+ * A project declares its layers in `mindvex.architecture.json` by mapping glob
+ * patterns to layer names, then lists which layers may (`allowed`) or must not
+ * (`forbidden`) depend on which, in the spirit of dependency-cruiser:
+ *
+ *   {
+ *     "layers": [
+ *       { "name": "ui", "patterns": ["app/components/**"] },
+ *       { "name": "lib", "patterns": ["app/lib/**", "app/utils/**"] }
+ *     ],
+ *     "forbidden": [{ "name": "lib-not-to-ui", "from": "lib", "to": "ui" }],
+ *     "allowed": [{ "from": "ui", "to": "lib" }]
+ *   }
+ *
+ * A file belongs to the first layer with a matching pattern. Dependencies
+ * inside one layer are always fine; when `allowed` is given, any other
+ * dependency between two layered files must match one of its rules.
+ */
+
+import type { GraphResponse, SymbolEdgeType } from './graphClient';
+import { normalizeRepoPath } from './impactAnalysis';
+
+export type RuleSeverity = 'error' | 'warn';
+
+export interface ArchitectureLayer {
+  name: string;
+  patterns: string[];
+  description?: string;
+}
+
+export interface ArchitectureRule {
+  name?: string;
+
+  // Layer names, or '*' for any layer
+  from: string | string[];
+  to: string | string[];
+  severity?: RuleSeverity;
+  comment?: string;
+}
+
+export interface ArchitectureConfig {
+  layers: ArchitectureLayer[];
+  forbidden?: ArchitectureRule[];
+  allowed?: ArchitectureRule[];
+
+  // Severity of dependencies that no `allowed` rule covers
+  allowedSeverity?: RuleSeverity;
+}
+
+export interface ArchitectureViolation {
+  edgeId: string;
+  source: string;
+  target: string;
+  sourceFile: string;
+  targetFile: string;
+  fromLayer: string;
+  toLayer: string;
+  rule: string;
+  severity: RuleSeverity;
+  comment?: string;
+
+  // 1-based line of the offending import in the source file, when it could be located
+  line?: number;
+  text?: string;
+}
+
+export const ARCHITECTURE_CONFIG_PATH = 'mindvex.architecture.json';
+
+export const NOT_IN_ALLOWED_RULE = 'not-in-allowed';
+
+const SYMBOL_EDGE_TYPES: ReadonlySet<string> = new Set<SymbolEdgeType>([
+  'defines',
+  'calls',
+  'extends',
+  'implements',
+  'references',
+]);
+
+/**
+ * Validate the contents of `mindvex.architecture.json`. Throws with a message
+ * that points at the offending entry.
+ */
+export function parseArchitectureConfig(text: string): ArchitectureConfig {
+  let raw: any;
+
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${ARCHITECTURE_CONFIG_PATH} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!raw || !Array.isArray(raw.layers) || raw.layers.length === 0) {
+    throw new Error(`${ARCHITECTURE_CONFIG_PATH} must declare a non-empty "layers" array`);
+  }
+
+  const names = new Set<string>();
+
+  raw.layers.forEach((layer: any, i: number) => {
+    if (typeof layer?.name !== 'string' || !layer.name || layer.name === '*') {
+      throw new Error(`layers[${i}] needs a "name"`);
+    }
+
+    if (names.has(layer.name)) {
+      throw new Error(`Layer "${layer.name}" is declared twice`);
+    }
+
+    if (!Array.isArray(layer.patterns) || !layer.patterns.every((p: unknown) => typeof p === 'string')) {
+      throw new Error(`Layer "${layer.name}" needs a "patterns" array of globs`);
+    }
+
+    names.add(layer.name);
+  });
+
+  for (const key of ['forbidden', 'allowed'] as const) {
+    if (raw[key] === undefined) {
+      continue;
+    }
+
+    if (!Array.isArray(raw[key])) {
+      throw new Error(`"${key}" must be an array of rules`);
+    }
+
+    raw[key].forEach((rule: any, i: number) => {
+      for (const side of ['from', 'to'] as const) {
+        const layers = toList(rule?.[side]);
+
+        if (layers.length === 0) {
+          throw new Error(`${key}[${i}] needs a "${side}" layer`);
+        }
+
+        const unknown = layers.find((layer) => layer !== '*' && !names.has(layer));
+
+        if (unknown) {
+          throw new Error(`${key}[${i}].${side} refers to unknown layer "${unknown}"`);
+        }
+      }
+
+      if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warn') {
+        throw new Error(`${key}[${i}].severity must be "error" or "warn"`);
+      }
+    });
+  }
+
+  return raw as ArchitectureConfig;
+}
+
+/**
+ * Regular expression for a glob: `**` spans directories, `*` and `?` stay
+ * within one path segment and `{a,b}` is an alternation.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${glob
+          .slice(i + 1, end)
+          .split(',')
+          .map((option) => globToRegExp(option).source.slice(1, -1))
+          .join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/** Layer resolver for a config; returns null for files no pattern covers. */
+export function createLayerMatcher(config: ArchitectureConfig): (filePath: string) => string | null {
+  const layers = config.layers.map((layer) => ({
+    name: layer.name,
+    patterns: layer.patterns.map((pattern) => globToRegExp(normalizeRepoPath(pattern))),
+  }));
+
+  return (filePath) => {
+    const path = normalizeRepoPath(filePath);
+    return layers.find((layer) => layer.patterns.some((pattern) => pattern.test(path)))?.name ?? null;
+  };
+}
+
+/** Every dependency edge of `graph` that breaks a rule of `config`. */
+export function checkArchitecture(graph: GraphResponse, config: ArchitectureConfig): ArchitectureViolation[] {
+  const layerOf = createLayerMatcher(config);
+  const filePaths = new Map(graph.nodes.map((node) => [node.data.id, node.data.filePath || node.data.id]));
+  const violations: ArchitectureViolation[] = [];
+
+  for (const edge of graph.edges) {
+    const { id, source, target, type } = edge.data;
+    const sourceFile = filePaths.get(source);
+    const targetFile = filePaths.get(target);
+
+    if (SYMBOL_EDGE_TYPES.has(type) || !sourceFile || !targetFile || source === target) {
+      continue;
+    }
+
+    const fromLayer = layerOf(sourceFile);
+    const toLayer = layerOf(targetFile);
+
+    if (!fromLayer || !toLayer || fromLayer === toLayer) {
+      continue;
+    }
+
+    const violation = {
+      edgeId: id,
+      source,
+      target,
+      sourceFile: normalizeRepoPath(sourceFile),
+      targetFile: normalizeRepoPath(targetFile),
+      fromLayer,
+      toLayer,
+    };
+
+    const forbidden = config.forbidden?.find((rule) => matchesRule(rule, fromLayer, toLayer));
+
+    if (forbidden) {
+      violations.push({
+        ...violation,
+        rule: forbidden.name ?? `${fromLayer}-not-to-${toLayer}`,
+        severity: forbidden.severity ?? 'error',
+        comment: forbidden.comment,
+      });
+    } else if (config.allowed && !config.allowed.some((rule) => matchesRule(rule, fromLayer, toLayer))) {
+      violations.push({
+        ...violation,
+        rule: NOT_IN_ALLOWED_RULE,
+        severity: config.allowedSeverity ?? 'warn',
+        comment: `"${fromLayer}" is not allowed to depend on "${toLayer}"`,
+      });
+    }
+  }
+
+  return violations.sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+      a.sourceFile.localeCompare(b.sourceFile) ||
+      a.targetFile.localeCompare(b.targetFile),
+  );
+}
+
+/**
+ * Best guess at the line of `content` that imports `targetFile`: an import-like
+ * line that names the target's module (its file name without extension, or
+ * its directory for index files).
+ */
+export function findImportLine(content: string, targetFile: string): { line: number; text: string } | undefined {
+  const parts = normalizeRepoPath(targetFile).split('/');
+  const stem = parts[parts.length - 1].replace(/\.[^.]+$/, '');
+  const name = stem === 'index' || stem === '__init__' || stem === 'mod' ? parts[parts.length - 2] : stem;
+
+  if (!name) {
+    return undefined;
+  }
+
+  const mentions = new RegExp(`(^|[^\\w-])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\w-])`);
+  const lines = content.split('\n');
+  const index = lines.findIndex(
+    (line) => /\b(import|from|require|include|use|using)\b|#include/.test(line) && mentions.test(line),
+  );
+
+  return index === -1 ? undefined : { line: index + 1, text: lines[index].trim() };
+}
+
+function matchesRule(rule: ArchitectureRule, fromLayer: string, toLayer: string): boolean {
+  const matches = (layers: string[], layer: string) => layers.includes('*') || layers.includes(layer);
+  return matches(toList(rule.from), fromLayer) && matches(toList(rule.to), toLayer);
+}
+
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ParseResult } from '~/lib/unifiedParser/treeSitterParser';
+import type { ReferenceResult } from './graphClient';
+import {
+  buildLocalSymbolIndex,
+  filesMentioning,
+  findLocalDefinitions,
+  findOccurrenceAt,
+  findWordOccurrences,
+  identifierAt,
+  scipSymbolFile,
+} from './codeNavigation';
+
+function parsed(filePath: string, functions: Array<[string, number]>, imports: Array<[string, string[]]> = []) {
+  return {
+    filePath,
+    language: 'typescript',
+    ast: { type: 'program', text: '', startLine: 0, startCol: 0, endLine: 0, endCol: 0, children: [] },
+    metadata: {
+      functions: functions.map(([name, line]) => ({
+        name,
+        startLine: line,
+        endLine: line,
+        parameters: [],
+        modifiers: [],
+        complexity: 1,
+      })),
+      classes: [],
+      imports: imports.map(([module, symbols]) => ({ module, symbols, type: 'named' as const, line: 0 })),
+      exports: [],
+      variables: [],
+      complexity: 1,
+      linesOfCode: 1,
+      commentLines: 0,
+      dependencies: [],
+      patterns: [],
+    },
+  } satisfies ParseResult;
+}
+
+describe('SCIP lookups', () => {
+  it('reads the defining file from a global symbol', () => {
+    expect(scipSymbolFile('scip-typescript npm app 1.0.0 src/`util.ts`/format().')).toBe('src/util.ts');
+    expect(scipSymbolFile('scip-typescript npm app 1.0.0 src/`components`/`Button.tsx`/Button#')).toBe(
+      'src/components/Button.tsx',
+    );
+    expect(scipSymbolFile('local 4')).toBeNull();
+  });
+
+  it('picks the innermost occurrence at a position', () => {
+    const occurrence = (symbol: string, startChar: number, endChar: number): ReferenceResult => ({
+      filePath: 'a.ts',
+      startLine: 2,
+      startChar,
+      endLine: 2,
+      endChar,
+      symbol,
+      roleFlags: 2,
+    });
+
+    expect(findOccurrenceAt([occurrence('outer', 0, 20), occurrence('inner', 4, 9)], 2, 6)?.symbol).toBe('inner');
+    expect(findOccurrenceAt([occurrence('outer', 0, 20)], 3, 0)).toBeUndefined();
+  });
+});
+
+describe('local symbol index', () => {
+  const contents = new Map([
+    ['src/a.ts', "import { format } from './util';\n\nexport const label = format(1); // format here\n"],
+    ['src/util.ts', 'export function format(n: number) {\n  return String(n);\n}\n'],
+    ['src/other.ts', 'function format() {}\n'],
+  ]);
+  const index = buildLocalSymbolIndex(
+    [
+      parsed('src/a.ts', [], [['./util', ['format']]]),
+      parsed('src/util.ts', [['format', 0]]),
+      parsed('src/other.ts', [['format', 0]]),
+    ],
+    contents,
+  );
+
+  it('prefers the definition in the file the name is imported from', () => {
+    expect(findLocalDefinitions(index, 'format', 'src/a.ts', ['src/util.ts'])).toMatchObject([
+      { filePath: 'src/util.ts', line: 0, character: 16 },
+    ]);
+    expect(findLocalDefinitions(index, 'format', 'src/a.ts')).toHaveLength(2);
+  });
+
+  it('finds whole-word references outside comments', () => {
+    expect(filesMentioning(index, 'format').sort()).toEqual(['src/a.ts', 'src/other.ts', 'src/util.ts']);
+    expect(
+      findWordOccurrences(contents.get('src/a.ts')!, 'format', 'src/a.ts').map((l) => [l.line, l.character]),
+    ).toEqual([
+      [0, 9],
+      [2, 21],
+    ]);
+    expect(identifierAt('  return format(n);', 12)).toEqual({ name: 'format', start: 9 });
+  });
+});
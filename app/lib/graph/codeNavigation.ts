@@ -0,0 +1,238 @@
+/**
+ * codeNavigation.ts — go-to-definition and find-references lookups.
+ *
+ * SCIP occurrences from the backend are used when the repository has been
+ * indexed. Otherwise a local index built from unified-parser results supplies
+ * the definitions, and references are whole-word matches in the files that
+ * define or import the name.
+ */
+
+import type { ParseResult } from '~/lib/unifiedParser/treeSitterParser';
+import type { ReferenceResult } from './graphClient';
+
+export interface CodeLocation {
+  // Repository-relative path
+  filePath: string;
+
+  // 0-based, like SCIP ranges
+  line: number;
+  character: number;
+  endLine: number;
+  endCharacter: number;
+  kind: 'definition' | 'reference';
+
+  // Trimmed text of the line, for result lists
+  preview?: string;
+}
+
+export interface LocalSymbolIndex {
+  definitions: Map<string, CodeLocation[]>;
+
+  // File -> names it imports, by module specifier
+  imports: Map<string, Map<string, string[]>>;
+}
+
+const IDENTIFIER_CHAR = /[\w$]/;
+
+/** Identifier around `character` on a line, or null when the cursor is not on one. */
+export function identifierAt(lineText: string, character: number): { name: string; start: number } | null {
+  let start = character;
+  let end = character;
+
+  while (start > 0 && IDENTIFIER_CHAR.test(lineText[start - 1])) {
+    start--;
+  }
+
+  while (end < lineText.length && IDENTIFIER_CHAR.test(lineText[end])) {
+    end++;
+  }
+
+  const name = lineText.slice(start, end);
+
+  return name && !/^\d/.test(name) ? { name, start } : null;
+}
+
+// ─── SCIP ─────────────────────────────────────────────────────────────────────
+
+/** Innermost occurrence whose range contains the position. */
+export function findOccurrenceAt(
+  occurrences: ReferenceResult[],
+  line: number,
+  character: number,
+): ReferenceResult | undefined {
+  return occurrences
+    .filter((o) => contains(o, line, character))
+    .sort(
+      (a, b) =>
+        a.endLine - a.startLine - (b.endLine - b.startLine) || a.endChar - a.startChar - (b.endChar - b.startChar),
+    )[0];
+}
+
+/**
+ * File that defines a global SCIP symbol, read from its descriptors:
+ * `scip-typescript npm app 1.0.0 src/`util.ts`/format().` -> `src/util.ts`.
+ * Returns null for local symbols and symbols outside the project.
+ */
+export function scipSymbolFile(symbol: string): string | null {
+  if (symbol.startsWith('local ')) {
+    return null;
+  }
+
+  // Scheme, manager, package name and version come first; spaces inside them are escaped as double spaces
+  const parts = symbol.match(/(?:[^ ]|  )+/g) ?? [];
+  const descriptors = parts.slice(4).join(' ');
+  const namespaces: string[] = [];
+  const descriptorRegex = /`([^`]+)`\/|([^`/]+)\//y;
+
+  descriptorRegex.lastIndex = 0;
+
+  for (let match = descriptorRegex.exec(descriptors); match; match = descriptorRegex.exec(descriptors)) {
+    namespaces.push(match[1] ?? match[2]);
+  }
+
+  const filePath = namespaces.join('/');
+
+  return /\.[a-z0-9]+$/i.test(filePath) ? filePath : null;
+}
+
+export function occurrenceToLocation(occurrence: ReferenceResult, content?: string): CodeLocation {
+  return {
+    filePath: occurrence.filePath,
+    line: occurrence.startLine,
+    character: occurrence.startChar,
+    endLine: occurrence.endLine,
+    endCharacter: occurrence.endChar,
+    kind: occurrence.roleFlags & 1 ? 'definition' : 'reference',
+    preview: content?.split('\n')[occurrence.startLine]?.trim(),
+  };
+}
+
+// ─── Local index ──────────────────────────────────────────────────────────────
+
+/**
+ * Definitions (classes, interfaces, functions, methods, top-level variables)
+ * and imported names of every parsed file. `contents` supplies line text so
+ * definitions can point at the name itself rather than the line start.
+ */
+export function buildLocalSymbolIndex(results: ParseResult[], contents: Map<string, string>): LocalSymbolIndex {
+  const definitions = new Map<string, CodeLocation[]>();
+  const imports = new Map<string, Map<string, string[]>>();
+
+  for (const result of results) {
+    const lines = contents.get(result.filePath)?.split('\n') ?? [];
+    const add = (name: string, line: number) => {
+      const text = lines[line] ?? '';
+      const character = Math.max(0, findWord(text, name));
+      const location: CodeLocation = {
+        filePath: result.filePath,
+        line,
+        character,
+        endLine: line,
+        endCharacter: character + name.length,
+        kind: 'definition',
+        preview: text.trim(),
+      };
+
+      definitions.set(name, [...(definitions.get(name) ?? []), location]);
+    };
+
+    const { classes, functions, variables } = result.metadata;
+
+    for (const cls of classes) {
+      add(cls.name, cls.startLine);
+      cls.methods.forEach((method) => add(method.name, method.startLine));
+      cls.properties.forEach((property) => add(property.name, property.line));
+    }
+
+    functions.forEach((fn) => add(fn.name, fn.startLine));
+    variables
+      .filter((variable) => variable.scope === 'global')
+      .forEach((variable) => add(variable.name, variable.line));
+
+    const fileImports = new Map<string, string[]>();
+
+    for (const info of result.metadata.imports) {
+      fileImports.set(info.module, [...(fileImports.get(info.module) ?? []), ...info.symbols]);
+    }
+
+    imports.set(result.filePath, fileImports);
+  }
+
+  return { definitions, imports };
+}
+
+/**
+ * Definitions of `name` as seen from `fromFile`: one in the same file wins,
+ * then ones in `importSources` (the files `fromFile` imports the name from),
+ * then every definition in the project.
+ */
+export function findLocalDefinitions(
+  index: LocalSymbolIndex,
+  name: string,
+  fromFile: string,
+  importSources: string[] = [],
+): CodeLocation[] {
+  const candidates = index.definitions.get(name) ?? [];
+  const local = candidates.filter((location) => location.filePath === fromFile);
+
+  if (local.length > 0) {
+    return local;
+  }
+
+  const imported = candidates.filter((location) => importSources.includes(location.filePath));
+
+  return imported.length > 0 ? imported : candidates;
+}
+
+/** Files worth scanning for references to `name`: those that define or import it. */
+export function filesMentioning(index: LocalSymbolIndex, name: string): string[] {
+  const files = new Set((index.definitions.get(name) ?? []).map((location) => location.filePath));
+
+  for (const [filePath, fileImports] of index.imports) {
+    if ([...fileImports.values()].some((names) => names.includes(name))) {
+      files.add(filePath);
+    }
+  }
+
+  return [...files];
+}
+
+/** Whole-word occurrences of `name` in a file, skipping line comments. */
+export function findWordOccurrences(content: string, name: string, filePath: string): CodeLocation[] {
+  const locations: CodeLocation[] = [];
+  const word = new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`, 'g');
+
+  content.split('\n').forEach((text, line) => {
+    const code = text.replace(/(^|\s)(\/\/|#).*$/, '');
+
+    for (const match of code.matchAll(word)) {
+      locations.push({
+        filePath,
+        line,
+        character: match.index!,
+        endLine: line,
+        endCharacter: match.index! + name.length,
+        kind: 'reference',
+        preview: text.trim(),
+      });
+    }
+  });
+
+  return locations;
+}
+
+function contains(occurrence: ReferenceResult, line: number, character: number): boolean {
+  const afterStart =
+    line > occurrence.startLine || (line === occurrence.startLine && character >= occurrence.startChar);
+  const beforeEnd = line < occurrence.endLine || (line === occurrence.endLine && character <= occurrence.endChar);
+
+  return afterStart && beforeEnd;
+}
+
+function findWord(text: string, name: string): number {
+  return text.search(new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
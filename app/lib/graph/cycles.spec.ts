@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphResponse } from './graphClient';
+import { analyzeCycles, findElementaryCycles, markCycles } from './cycles';
+
+function graph(imports: Array<[string, string, string[]?]>): GraphResponse {
+  const files = new Set(imports.flatMap(([source, target]) => [source, target]));
+
+  return {
+    nodes: [...files].map((filePath) => ({
+      data: { id: filePath, label: filePath, filePath, language: 'typescript' },
+    })),
+    edges: imports.map(([source, target, symbols]) => ({
+      data: { id: `${source}->${target}`, source, target, type: 'import', cycle: false, symbols },
+    })),
+    cycles: [],
+  };
+}
+
+describe('analyzeCycles', () => {
+  // a <-> b, b -> c -> a, and an acyclic tail d -> a
+  const project = graph([
+    ['a', 'b', ['x', 'y', 'z']],
+    ['b', 'a', ['w']],
+    ['b', 'c', ['v', 'u']],
+    ['c', 'a', ['t']],
+    ['d', 'a', ['r']],
+  ]);
+
+  it('groups cyclic files into components and lists their elementary cycles', () => {
+    const [component, ...rest] = analyzeCycles(project);
+
+    expect(rest).toEqual([]);
+    expect([...component.nodes].sort()).toEqual(['a', 'b', 'c']);
+    expect(component.cycles.map((cycle) => cycle.join(' '))).toEqual(['a b', 'a b c']);
+    expect(component.truncated).toBe(false);
+  });
+
+  it('suggests the cheapest imports that break every cycle', () => {
+    const [component] = analyzeCycles(project);
+
+    // a -> b breaks both cycles but imports three names; b -> a and c -> a are cheaper together
+    expect(component.suggestions.map((s) => [s.source, s.target, s.cyclesBroken])).toEqual([
+      ['b', 'a', 1],
+      ['c', 'a', 1],
+    ]);
+  });
+
+  it('flags edges inside a component and renders cycle paths', () => {
+    const marked = markCycles(project);
+
+    expect(marked.edges.filter((edge) => edge.data.cycle).map((edge) => edge.data.id)).toEqual([
+      'a->b',
+      'b->a',
+      'b->c',
+      'c->a',
+    ]);
+    expect(marked.cycles).toEqual(['a -> b -> a', 'a -> b -> c -> a']);
+  });
+});
+
+describe('findElementaryCycles', () => {
+  it('stops at the cycle and length bounds', () => {
+    const complete = ['a', 'b', 'c', 'd'];
+    const adjacency = new Map(complete.map((node) => [node, complete.filter((other) => other !== node)]));
+
+    expect(findElementaryCycles(complete, adjacency).cycles).toHaveLength(20);
+    expect(findElementaryCycles(complete, adjacency, { maxCycles: 5 })).toMatchObject({ truncated: true });
+    expect(findElementaryCycles(complete, adjacency, { maxLength: 2 }).cycles.every((c) => c.length <= 2)).toBe(true);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * cycles.ts — local circular-dependency detection over a file graph.
+ *
+ * Tarjan's algorithm finds the strongly-connected components (every import
+ * edge inside a component lies on some cycle); Johnson's algorithm then
+ * enumerates the elementary cycles of each component up to a bound, and a
+ * greedy cover proposes the cheapest set of imports to cut.
+ */
+
+import type { CyEdge, GraphResponse, SymbolEdgeType } from './graphClient';
+
+export interface CycleOptions {
+  // Elementary cycles listed per component before giving up
+  maxCycles?: number;
+
+  // Longest cycle (in files) that is enumerated
+  maxLength?: number;
+}
+
+export interface CycleBreakSuggestion {
+  edgeId: string;
+  source: string;
+  target: string;
+
+  // Names imported across the edge, when the graph records them
+  symbols: string[];
+
+  // Number of enumerated cycles of the component that no longer exist once this import is gone
+  cyclesBroken: number;
+}
+
+export interface StronglyConnectedComponent {
+  id: string;
+  nodes: string[];
+  edges: string[];
+
+  // Node ids, without repeating the first node at the end
+  cycles: string[][];
+
+  // True when the bounds cut enumeration short, so `cycles` is a sample
+  truncated: boolean;
+  suggestions: CycleBreakSuggestion[];
+}
+
+export const DEFAULT_MAX_CYCLES = 50;
+export const DEFAULT_MAX_CYCLE_LENGTH = 12;
+
+const MAX_SUGGESTIONS = 10;
+
+const SYMBOL_EDGE_TYPES: ReadonlySet<string> = new Set<SymbolEdgeType>([
+  'defines',
+  'calls',
+  'extends',
+  'implements',
+  'references',
+]);
+
+/**
+ * Strongly-connected components with at least two nodes, largest first.
+ * Iterative, so deep import chains cannot overflow the stack.
+ */
+export function findStronglyConnectedComponents(nodes: string[], adjacency: Map<string, string[]>): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let index = 0;
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+  };
+
+  for (const root of nodes) {
+    if (indices.has(root)) {
+      continue;
+    }
+
+    visit(root);
+
+    const work = [{ node: root, next: 0 }];
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const successors = adjacency.get(frame.node) ?? [];
+
+      if (frame.next < successors.length) {
+        const successor = successors[frame.next++];
+
+        if (!indices.has(successor)) {
+          visit(successor);
+          work.push({ node: successor, next: 0 });
+        } else if (onStack.has(successor)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(successor)!));
+        }
+
+        continue;
+      }
+
+      work.pop();
+
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+      }
+
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (component.length > 1) {
+          components.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Johnson's algorithm restricted to one component: every elementary cycle is
+ * found once, from its first node in `component` order.
+ */
+export function findElementaryCycles(
+  component: string[],
+  adjacency: Map<string, string[]>,
+  options: CycleOptions = {},
+): { cycles: string[][]; truncated: boolean } {
+  const maxCycles = options.maxCycles ?? DEFAULT_MAX_CYCLES;
+  const maxLength = options.maxLength ?? DEFAULT_MAX_CYCLE_LENGTH;
+  const order = new Map(component.map((node, i) => [node, i]));
+  const cycles: string[][] = [];
+  let lengthLimited = false;
+
+  for (const start of component) {
+    const startOrder = order.get(start)!;
+    const successors = (node: string) =>
+      (adjacency.get(node) ?? []).filter((next) => order.has(next) && order.get(next)! >= startOrder);
+
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (node: string) => {
+      blocked.delete(node);
+
+      for (const waiting of blockedBy.get(node) ?? []) {
+        if (blocked.has(waiting)) {
+          unblock(waiting);
+        }
+      }
+
+      blockedBy.delete(node);
+    };
+
+    const circuit = (node: string): boolean => {
+      let found = false;
+
+      path.push(node);
+      blocked.add(node);
+
+      for (const next of successors(node)) {
+        if (cycles.length >= maxCycles) {
+          found = true;
+          break;
+        }
+
+        if (next === start) {
+          cycles.push([...path]);
+          found = true;
+        } else if (!blocked.has(next)) {
+          // Past the length bound, pretend a cycle was found so nothing stays wrongly blocked
+          if (path.length >= maxLength) {
+            lengthLimited = true;
+            found = true;
+          } else if (circuit(next)) {
+            found = true;
+          }
+        }
+      }
+
+      if (found) {
+        unblock(node);
+      } else {
+        for (const next of successors(node)) {
+          const waiting = blockedBy.get(next) ?? new Set<string>();
+          waiting.add(node);
+          blockedBy.set(next, waiting);
+        }
+      }
+
+      path.pop();
+
+      return found;
+    };
+
+    circuit(start);
+
+    if (cycles.length >= maxCycles) {
+      break;
+    }
+  }
+
+  return { cycles, truncated: lengthLimited || cycles.length >= maxCycles };
+}
+
+/**
+ * Greedy cut set: repeatedly pick the import that breaks the most remaining
+ * cycles per imported symbol, preferring imports with fewer symbols on ties.
+ */
+export function suggestCycleBreaks(cycles: string[][], edges: Map<string, CyEdge>): CycleBreakSuggestion[] {
+  const remaining = new Set(cycles.map((_, i) => i));
+  const edgeCycles = new Map<string, number[]>();
+
+  cycles.forEach((cycle, i) => {
+    cycle.forEach((source, j) => {
+      const id = edgeKey(source, cycle[(j + 1) % cycle.length]);
+      edgeCycles.set(id, [...(edgeCycles.get(id) ?? []), i]);
+    });
+  });
+
+  const weight = (key: string) => Math.max(1, edges.get(key)?.data.symbols?.length ?? 1);
+  const suggestions: CycleBreakSuggestion[] = [];
+
+  while (remaining.size > 0 && suggestions.length < MAX_SUGGESTIONS) {
+    let best: { key: string; broken: number[] } | null = null;
+
+    for (const [key, indices] of edgeCycles) {
+      const broken = indices.filter((i) => remaining.has(i));
+
+      if (broken.length === 0) {
+        continue;
+      }
+
+      const better =
+        !best ||
+        broken.length / weight(key) > best.broken.length / weight(best.key) ||
+        (broken.length / weight(key) === best.broken.length / weight(best.key) && weight(key) < weight(best.key));
+
+      if (better) {
+        best = { key, broken };
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+
+    const edge = edges.get(best.key)!;
+
+    best.broken.forEach((i) => remaining.delete(i));
+    suggestions.push({
+      edgeId: edge.data.id,
+      source: edge.data.source,
+      target: edge.data.target,
+      symbols: edge.data.symbols ?? [],
+      cyclesBroken: best.broken.length,
+    });
+  }
+
+  return suggestions;
+}
+
+/** Components, their cycles and the suggested cuts for a file graph. */
+export function analyzeCycles(graph: GraphResponse, options: CycleOptions = {}): StronglyConnectedComponent[] {
+  const nodeIds = new Set(graph.nodes.map((node) => node.data.id));
+  const adjacency = new Map<string, string[]>();
+  const edges = new Map<string, CyEdge>();
+
+  for (const edge of graph.edges) {
+    const { source, target, type } = edge.data;
+
+    if (SYMBOL_EDGE_TYPES.has(type) || source === target || !nodeIds.has(source) || !nodeIds.has(target)) {
+      continue;
+    }
+
+    const key = edgeKey(source, target);
+
+    if (!edges.has(key)) {
+      edges.set(key, edge);
+      adjacency.set(source, [...(adjacency.get(source) ?? []), target]);
+    }
+  }
+
+  return findStronglyConnectedComponents([...nodeIds], adjacency).map((nodes, i) => {
+    const members = new Set(nodes);
+    const { cycles, truncated } = findElementaryCycles(nodes, adjacency, options);
+
+    return {
+      id: `scc-${i}`,
+      nodes,
+      edges: [...edges.entries()]
+        .filter(([, edge]) => members.has(edge.data.source) && members.has(edge.data.target))
+        .map(([, edge]) => edge.data.id),
+      cycles,
+      truncated,
+      suggestions: suggestCycleBreaks(cycles, edges),
+    };
+  });
+}
+
+/**
+ * Copy of `graph` with `cycle: true` on every edge inside a component and
+ * `cycles` listing the elementary cycles as `a -> b -> a` file paths.
+ */
+export function markCycles(graph: GraphResponse, options: CycleOptions = {}): GraphResponse {
+  const components = analyzeCycles(graph, options);
+  const cycleEdges = new Set(components.flatMap((component) => component.edges));
+  const filePaths = new Map(graph.nodes.map((node) => [node.data.id, node.data.filePath || node.data.id]));
+
+  return {
+    ...graph,
+    edges: graph.edges.map((edge) => (cycleEdges.has(edge.data.id) ? { data: { ...edge.data, cycle: true } } : edge)),
+    cycles: components.flatMap((component) =>
+      component.cycles.map((cycle) => [...cycle, cycle[0]].map((id) => filePaths.get(id)).join(' -> ')),
+    ),
+  };
+}
+
+function edgeKey(source: string, target: string): string {
+  return `${source}\u0000${target}`;
+}
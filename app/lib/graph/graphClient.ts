@@ -7,22 +7,47 @@ const BASE_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:8080';
 import { webcontainer } from '~/lib/webcontainer';
 import { path as pathUtils } from '~/utils/path';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import {
+  createDefaultResolvers,
+  createResolverContext,
+  findResolver,
+  type ModuleResolver,
+  type Resolution,
+} from './resolvers';
+import { markCycles } from './cycles';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+export type SymbolKind = 'function' | 'class' | 'method' | 'interface';
+
+export type NodeKind = 'file' | 'external' | SymbolKind;
+
+export type SymbolEdgeType = 'defines' | 'calls' | 'extends' | 'implements' | 'references';
+
 export interface CyNodeData {
   id: string;
   label: string;
   filePath: string;
   language: string;
+
+  // 'external' nodes stand for packages outside the project and have no filePath
+  kind?: NodeKind;
+
+  // Symbol nodes only: id of the defining file or class, and 0-based line range
+  parent?: string;
+  startLine?: number;
+  endLine?: number;
 }
 
 export interface CyEdgeData {
   id: string;
   source: string;
   target: string;
-  type: string; // 'import' | 'reference'
+  type: string; // 'import' | 'reference' | SymbolEdgeType
   cycle: boolean;
+
+  // Import edges only: names imported across the edge, or the specifier for whole-module imports
+  symbols?: string[];
 }
 
 export interface CyNode {
@@ -51,6 +76,19 @@ export interface ReferenceResult {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+const IGNORED_DIRECTORIES = [
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  '.cache',
+  '__pycache__',
+  '.venv',
+  'venv',
+  '.gradle',
+  'target',
+];
+
 function authHeaders(): HeadersInit {
   const token = localStorage.getItem('auth_token');
   return { Authorization: token ? `Bearer ${token}` : '' };
@@ -91,14 +129,24 @@ export async function getDependencies(repoUrl: string, rootFile?: string, depth
   return request(`/api/graph/dependencies?${params}`);
 }
 
+/**
+ * Fetch SCIP occurrences (definitions and references) recorded for a file.
+ */
+export async function getReferences(repoUrl: string, filePath: string): Promise<ReferenceResult[]> {
+  const params = new URLSearchParams({ repoUrl, filePath });
+  return request(`/api/graph/references?${params}`);
+}
+
 /**
  * Generates a fallback graph from the WebContainer filesystem when SCIP data is missing.
+ * Imports are resolved by the given module resolvers; packages that are not part of
+ * the project become `external` nodes. Cycles are detected locally.
  */
-export async function getFallbackGraph(): Promise<GraphResponse> {
+export async function getFallbackGraph(resolvers: ModuleResolver[] = createDefaultResolvers()): Promise<GraphResponse> {
   const container = await webcontainer;
   const nodes: CyNode[] = [];
   const edges: CyEdge[] = [];
-  const fileNameToPath = new Map<string, string>();
+  const allFiles: string[] = [];
 
   async function walk(dir: string) {
     const entries = await container.fs.readdir(dir, { withFileTypes: true });
@@ -107,10 +155,12 @@ export async function getFallbackGraph(): Promise<GraphResponse> {
       const fullPath = pathUtils.join(dir, entry.name);
 
       if (entry.isDirectory()) {
-        if (!['node_modules', '.git', 'dist', 'build', '.cache'].includes(entry.name)) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name)) {
           await walk(fullPath);
         }
       } else {
+        allFiles.push(fullPath);
+
         const ext = pathUtils.extname(entry.name).slice(1);
         const language = getLanguageFromExtension(ext);
 
@@ -121,11 +171,9 @@ export async function getFallbackGraph(): Promise<GraphResponse> {
               label: entry.name,
               filePath: fullPath,
               language,
+              kind: 'file',
             },
           });
-
-          // Register filename -> path map to assist resolving bare imports later
-          fileNameToPath.set(entry.name, fullPath);
         }
       }
     }
@@ -133,108 +181,72 @@ export async function getFallbackGraph(): Promise<GraphResponse> {
 
   await walk('/');
 
-  // Second pass: read each file and try to resolve imports to other files we found
-  for (const node of nodes) {
-    const src = node.data.filePath;
-
-    try {
-      const content = (await container.fs.readFile(src, 'utf-8')) as string;
+  const context = createResolverContext(allFiles, (filePath) => container.fs.readFile(filePath, 'utf-8'));
 
-      const importTargets: string[] = [];
+  for (const resolver of resolvers) {
+    await resolver.prepare?.(context);
+  }
 
-      // Match common import patterns (JS/TS and require)
-      const fromRegex = /from\s+["'](.+?)["']/g;
-      const importRegex = /import\s+(?:.+?\s+from\s+)?["'](.+?)["']/g;
-      const requireRegex = /require\(\s*["'](.+?)["']\s*\)/g;
-      const javaImportRegex = /import\s+([\w\.]+);/g;
+  const externalNodes = new Map<string, CyNode>();
+  const edgesById = new Map<string, CyEdge>();
 
-      let m: RegExpExecArray | null;
+  // Second pass: read each file and resolve its imports to other files we found
+  for (const node of [...nodes]) {
+    const src = node.data.filePath;
+    const resolver = findResolver(resolvers, src);
+    const content = resolver ? await context.readFile(src) : null;
 
-      while ((m = fromRegex.exec(content))) {
-        importTargets.push(m[1]);
-      }
+    if (!resolver || content === null) {
+      continue;
+    }
 
-      while ((m = importRegex.exec(content))) {
-        importTargets.push(m[1]);
-      }
+    for (const request of resolver.extractImports(content, src)) {
+      let resolutions: Resolution[];
 
-      while ((m = requireRegex.exec(content))) {
-        importTargets.push(m[1]);
+      try {
+        resolutions = await resolver.resolve(request, src, context);
+      } catch {
+        continue;
       }
 
-      // Java imports: map package.Class to a basename.Class or Class.java
-      while ((m = javaImportRegex.exec(content))) {
-        const pkg = m[1];
-        const parts = pkg.split('.');
-        const className = parts[parts.length - 1];
-        importTargets.push(className);
-      }
+      for (const resolution of resolutions) {
+        const target = resolution.kind === 'file' ? resolution.path : `external:${resolution.name}`;
 
-      for (const target of importTargets) {
-        let resolvedTarget: string | null = null;
+        if (resolution.kind === 'external' && !externalNodes.has(target)) {
+          const externalNode: CyNode = {
+            data: { id: target, label: resolution.name, filePath: '', language: node.data.language, kind: 'external' },
+          };
 
-        // Relative paths: resolve against src dir
-        if (target.startsWith('./') || target.startsWith('../')) {
-          const base = pathUtils.dirname(src);
-          const candidate = pathUtils.join(base, target);
+          externalNodes.set(target, externalNode);
+          nodes.push(externalNode);
+        }
 
-          // Try with common extensions
-          const tryExt = ['', '.ts', '.tsx', '.js', '.jsx', '.java', '.py', '.json'];
+        if (target === src) {
+          continue;
+        }
 
-          for (const ext of tryExt) {
-            const p = candidate + ext;
+        const id = `${src}->${target}`;
+        let edge = edgesById.get(id);
 
-            try {
-              // try reading to confirm existence
-              await container.fs.readFile(p, 'utf-8');
-              resolvedTarget = p;
-              break;
-            } catch (e) {
-              // continue
-            }
-          }
-        } else {
-          // Bare imports or package-like imports: try to resolve by basename
-          const last = target.split('/').pop() || target;
-
-          // strip extensions if present
-          const baseName = last.replace(/\.(ts|tsx|js|jsx|java|py)$/, '');
-
-          // direct filename match
-          if (fileNameToPath.has(last)) {
-            resolvedTarget = fileNameToPath.get(last)!;
-          } else if (fileNameToPath.has(baseName + '.ts')) {
-            resolvedTarget = fileNameToPath.get(baseName + '.ts') || null;
-          } else if (fileNameToPath.has(baseName + '.java')) {
-            resolvedTarget = fileNameToPath.get(baseName + '.java') || null;
-          } else if (fileNameToPath.has(baseName + '.js')) {
-            resolvedTarget = fileNameToPath.get(baseName + '.js') || null;
-          } else if (fileNameToPath.has(baseName)) {
-            resolvedTarget = fileNameToPath.get(baseName) || null;
-          }
+        if (!edge) {
+          edge = { data: { id, source: src, target, type: 'import', cycle: false, symbols: [] } };
+          edgesById.set(id, edge);
+          edges.push(edge);
         }
 
-        if (resolvedTarget) {
-          edges.push({
-            data: {
-              id: `${src}->${resolvedTarget}`,
-              source: src,
-              target: resolvedTarget,
-              type: 'import',
-              cycle: false,
-            },
-          });
+        for (const symbol of request.names ?? [request.specifier]) {
+          if (!edge.data.symbols!.includes(symbol)) {
+            edge.data.symbols!.push(symbol);
+          }
         }
       }
-    } catch (e) {
-      // skip unreadable files
     }
   }
 
-  return {
+  return markCycles({
     nodes,
     edges,
     cycles: [],
     isFallback: true,
-  };
+  });
 }
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphResponse } from './graphClient';
+import { computeImpact, impactReportToMarkdown, normalizeRepoPath } from './impactAnalysis';
+
+function graph(files: string[], imports: Array<[string, string]>): GraphResponse {
+  return {
+    nodes: files.map((filePath) => ({
+      data: { id: filePath, label: filePath.split('/').pop()!, filePath, language: 'typescript' },
+    })),
+    edges: imports.map(([source, target]) => ({
+      data: { id: `${source}->${target}`, source, target, type: 'import', cycle: false },
+    })),
+    cycles: [],
+  };
+}
+
+describe('computeImpact', () => {
+  const project = graph(
+    ['/src/db.ts', '/src/users.ts', '/src/api.ts', '/src/app.ts', '/src/unrelated.ts', '/src/db.spec.ts'],
+    [
+      ['/src/users.ts', '/src/db.ts'],
+      ['/src/api.ts', '/src/users.ts'],
+      ['/src/app.ts', '/src/api.ts'],
+      ['/src/db.ts', '/src/unrelated.ts'],
+    ],
+  );
+
+  it('walks reverse dependencies transitively, up to the depth limit', () => {
+    const report = computeImpact(project, ['/home/project/src/db.ts', 'README.md']);
+
+    expect(report.changedFiles).toEqual(['src/db.ts']);
+    expect(report.unmatchedFiles).toEqual(['README.md']);
+    expect(report.modules.map((module) => [module.filePath, module.depth, module.via])).toEqual([
+      ['src/users.ts', 1, 'src/db.ts'],
+      ['src/api.ts', 2, 'src/users.ts'],
+      ['src/app.ts', 3, 'src/api.ts'],
+    ]);
+    expect(report.tests.map((test) => test.filePath)).toEqual(['src/db.spec.ts']);
+
+    expect(computeImpact(project, ['src/db.ts'], { maxDepth: 1 }).modules).toHaveLength(1);
+  });
+
+  it('ranks modules with more churn higher at the same distance', () => {
+    const fanIn = graph(
+      ['/a.ts', '/b.ts', '/c.ts'],
+      [
+        ['/b.ts', '/a.ts'],
+        ['/c.ts', '/a.ts'],
+      ],
+    );
+    const hotspot = { avgChurnRate: 40, totalCommits: 9, totalLinesAdded: 0, totalLinesDeleted: 0, weeklyTrend: [] };
+    const report = computeImpact(fanIn, ['a.ts'], { hotspots: [{ filePath: 'c.ts', ...hotspot }] });
+
+    expect(report.modules.map((module) => [module.filePath, module.risk])).toEqual([
+      ['c.ts', 'high'],
+      ['b.ts', 'medium'],
+    ]);
+    expect(impactReportToMarkdown(report)).toContain('| 🔴 high | `c.ts` | 1 | `a.ts` | 40.0 | 2.00 |');
+  });
+});
+
+describe('normalizeRepoPath', () => {
+  it('strips the work dir and leading slashes', () => {
+    expect(normalizeRepoPath('/home/project/src/a.ts')).toBe('src/a.ts');
+    expect(normalizeRepoPath('/src/a.ts')).toBe('src/a.ts');
+    expect(normalizeRepoPath('./src/a.ts')).toBe('src/a.ts');
+  });
+});
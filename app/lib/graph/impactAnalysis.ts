@@ -0,0 +1,291 @@
+/**
+ * impactAnalysis.ts — transitive change-impact ("blast radius") engine.
+ *
+ * Starting from a set of changed files, walks the file graph against the
+ * direction of its import edges to find every module that depends on them,
+ * ranks those modules by distance and git churn, and renders the result as a
+ * Markdown or JSON report.
+ */
+
+import type { HotspotResult } from '~/lib/analytics/analyticsClient';
+import { WORK_DIR } from '~/utils/constants';
+import type { CyNode, GraphResponse, SymbolEdgeType } from './graphClient';
+
+export type ImpactRisk = 'low' | 'medium' | 'high';
+
+export interface ImpactedModule {
+  id: string;
+  filePath: string;
+  label: string;
+
+  // 1 = imports a changed file directly
+  depth: number;
+
+  // The changed file (or intermediate dependent) this module was reached through
+  via: string;
+
+  // Average weekly churn from git history, 0 when unknown
+  churn: number;
+  score: number;
+  risk: ImpactRisk;
+  isTest: boolean;
+}
+
+export interface ImpactReport {
+  generatedAt: string;
+  changedFiles: string[];
+
+  // Changed files with no node in the graph (new files, assets, ...)
+  unmatchedFiles: string[];
+  maxDepth: number;
+  modules: ImpactedModule[];
+  tests: ImpactedModule[];
+  riskScore: number;
+}
+
+export interface ImpactOptions {
+  maxDepth?: number;
+  hotspots?: HotspotResult[];
+}
+
+export const DEFAULT_IMPACT_DEPTH = 6;
+
+// Edges between symbols are not module dependencies
+const SYMBOL_EDGE_TYPES: ReadonlySet<string> = new Set<SymbolEdgeType>([
+  'defines',
+  'calls',
+  'extends',
+  'implements',
+  'references',
+]);
+
+const TEST_FILE_REGEX =
+  /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[cm]?[jt]sx?$|(^|\/)test_[^/]+\.py$|_test\.(py|go)$|Tests?\.(java|kt)$/;
+
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE_REGEX.test(filePath);
+}
+
+/**
+ * Repository-relative form of a path, so that workbench paths
+ * (`/home/project/src/a.ts`), WebContainer paths (`/src/a.ts`) and backend
+ * paths (`src/a.ts`) compare equal.
+ */
+export function normalizeRepoPath(filePath: string): string {
+  const withoutWorkDir = filePath.startsWith(`${WORK_DIR}/`) ? filePath.slice(WORK_DIR.length) : filePath;
+  return withoutWorkDir.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+}
+
+/**
+ * Rank every module that transitively depends on one of `changedFiles`.
+ * Closer modules and modules with more churn score higher.
+ */
+export function computeImpact(graph: GraphResponse, changedFiles: string[], options: ImpactOptions = {}): ImpactReport {
+  const maxDepth = options.maxDepth ?? DEFAULT_IMPACT_DEPTH;
+  const fileNodes = graph.nodes.filter((node) => (node.data.kind ?? 'file') === 'file' && node.data.filePath);
+  const byPath = new Map(fileNodes.map((node) => [normalizeRepoPath(node.data.filePath), node]));
+  const byId = new Map(fileNodes.map((node) => [node.data.id, node]));
+
+  const churn = new Map<string, number>();
+
+  for (const hotspot of options.hotspots ?? []) {
+    churn.set(normalizeRepoPath(hotspot.filePath), hotspot.avgChurnRate);
+  }
+
+  const maxChurn = Math.max(0, ...churn.values());
+
+  // Importer -> imported, so dependents of X are the sources of edges into X
+  const dependents = new Map<string, string[]>();
+
+  for (const edge of graph.edges) {
+    if (!SYMBOL_EDGE_TYPES.has(edge.data.type) && byId.has(edge.data.source) && byId.has(edge.data.target)) {
+      dependents.set(edge.data.target, [...(dependents.get(edge.data.target) ?? []), edge.data.source]);
+    }
+  }
+
+  const changed: string[] = [];
+  const unmatchedFiles: string[] = [];
+
+  for (const filePath of new Set(changedFiles.map(normalizeRepoPath))) {
+    const node = byPath.get(filePath);
+
+    if (node) {
+      changed.push(node.data.id);
+    } else {
+      unmatchedFiles.push(filePath);
+    }
+  }
+
+  const visited = new Set(changed);
+  const modules: ImpactedModule[] = [];
+  let frontier = changed;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const id of frontier) {
+      for (const dependent of dependents.get(id) ?? []) {
+        if (visited.has(dependent)) {
+          continue;
+        }
+
+        visited.add(dependent);
+        next.push(dependent);
+        modules.push(toImpactedModule(byId.get(dependent)!, depth, byId.get(id)!, churn, maxChurn));
+      }
+    }
+
+    frontier = next;
+  }
+
+  modules.sort((a, b) => b.score - a.score || a.depth - b.depth || a.filePath.localeCompare(b.filePath));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    changedFiles: changed.map((id) => normalizeRepoPath(byId.get(id)!.data.filePath)),
+    unmatchedFiles,
+    maxDepth,
+    modules: modules.filter((module) => !module.isTest),
+    tests: [...modules.filter((module) => module.isTest), ...conventionalTests(changed, byId, visited)],
+    riskScore: fileNodes.length > 0 ? (modules.length / fileNodes.length) * 100 : 0,
+  };
+}
+
+function toImpactedModule(
+  node: CyNode,
+  depth: number,
+  via: CyNode,
+  churn: Map<string, number>,
+  maxChurn: number,
+): ImpactedModule {
+  const filePath = normalizeRepoPath(node.data.filePath);
+  const fileChurn = churn.get(filePath) ?? 0;
+  const score = (1 / depth) * (1 + (maxChurn > 0 ? fileChurn / maxChurn : 0));
+
+  return {
+    id: node.data.id,
+    filePath,
+    label: node.data.label,
+    depth,
+    via: normalizeRepoPath(via.data.filePath),
+    churn: fileChurn,
+    score: Math.round(score * 100) / 100,
+    risk: score >= 1.2 ? 'high' : score >= 0.5 ? 'medium' : 'low',
+    isTest: isTestFile(filePath),
+  };
+}
+
+/** Tests that do not import a changed file but are named after one (`a.ts` -> `a.spec.ts`, `test_a.py`). */
+function conventionalTests(changed: string[], byId: Map<string, CyNode>, visited: Set<string>): ImpactedModule[] {
+  const stems = new Map<string, CyNode>();
+
+  for (const id of changed) {
+    const node = byId.get(id)!;
+    const stem = baseStem(node.data.filePath);
+
+    if (!isTestFile(node.data.filePath)) {
+      stems.set(stem.toLowerCase(), node);
+    }
+  }
+
+  const tests: ImpactedModule[] = [];
+
+  for (const [id, node] of byId) {
+    if (visited.has(id) || !isTestFile(node.data.filePath)) {
+      continue;
+    }
+
+    const stem = baseStem(node.data.filePath)
+      .replace(/\.(test|spec)$|^test_|_test$|Tests?$/, '')
+      .toLowerCase();
+    const source = stems.get(stem);
+
+    if (source) {
+      tests.push({ ...toImpactedModule(node, 1, source, new Map(), 0), score: 0, risk: 'low' });
+    }
+  }
+
+  return tests;
+}
+
+function baseStem(filePath: string): string {
+  const name = filePath.split('/').pop() ?? filePath;
+  return name.replace(/\.[^.]+$/, '');
+}
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+const RISK_ICONS: Record<ImpactRisk, string> = { high: '🔴', medium: '🟠', low: '🟢' };
+
+export function impactReportToMarkdown(report: ImpactReport, options: { limit?: number } = {}): string {
+  const limit = options.limit ?? Infinity;
+  const lines = [
+    '## Change impact report',
+    '',
+    `${report.changedFiles.length} changed file(s) affect **${report.modules.length}** module(s) and ` +
+      `**${report.tests.length}** test file(s) (blast radius ${report.riskScore.toFixed(1)}% of the project, ` +
+      `depth ≤ ${report.maxDepth}).`,
+    '',
+    '### Changed files',
+    '',
+    ...report.changedFiles.map((filePath) => `- \`${filePath}\``),
+    ...report.unmatchedFiles.map((filePath) => `- \`${filePath}\` _(not in dependency graph)_`),
+  ];
+
+  if (report.modules.length > 0) {
+    lines.push(
+      '',
+      '### Affected modules',
+      '',
+      '| Risk | Module | Depth | Via | Churn | Score |',
+      '| --- | --- | --- | --- | --- | --- |',
+    );
+
+    for (const module of report.modules.slice(0, limit)) {
+      lines.push(
+        `| ${RISK_ICONS[module.risk]} ${module.risk} | \`${module.filePath}\` | ${module.depth} | \`${module.via}\` | ` +
+          `${module.churn.toFixed(1)} | ${module.score.toFixed(2)} |`,
+      );
+    }
+
+    if (report.modules.length > limit) {
+      lines.push('', `_…and ${report.modules.length - limit} more._`);
+    }
+  }
+
+  if (report.tests.length > 0) {
+    lines.push(
+      '',
+      '### Likely affected tests',
+      '',
+      ...report.tests.slice(0, limit).map((test) => `- \`${test.filePath}\``),
+    );
+
+    if (report.tests.length > limit) {
+      lines.push(`- _…and ${report.tests.length - limit} more._`);
+    }
+  }
+
+  lines.push('', `_Generated ${report.generatedAt}_`, '');
+
+  return lines.join('\n');
+}
+
+/** A few lines for a commit message body. */
+export function impactReportSummary(report: ImpactReport, limit = 5): string {
+  const high = report.modules.filter((module) => module.risk === 'high').length;
+  const lines = [
+    `Impact: ${report.modules.length} module(s) affected (${high} high risk), ${report.tests.length} test file(s)`,
+    ...report.modules.slice(0, limit).map((module) => `- ${module.filePath} (${module.risk}, depth ${module.depth})`),
+  ];
+
+  if (report.modules.length > limit) {
+    lines.push(`- …and ${report.modules.length - limit} more`);
+  }
+
+  return lines.join('\n');
+}
+
+export function impactReportToJson(report: ImpactReport): string {
+  return JSON.stringify(report, null, 2);
+}
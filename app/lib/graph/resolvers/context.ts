@@ -0,0 +1,104 @@
+import { path as pathUtils } from '~/utils/path';
+import type { ResolverContext } from './types';
+
+/**
+ * Build a resolver context over a fixed list of absolute file paths. File
+ * contents are read lazily and cached, so resolvers can probe config files
+ * freely.
+ */
+export function createResolverContext(
+  filePaths: Iterable<string>,
+  readFile: (filePath: string) => Promise<string>,
+): ResolverContext {
+  const files = new Set<string>();
+  const directories = new Set<string>(['/']);
+  const byDirectory = new Map<string, string[]>();
+  const contents = new Map<string, Promise<string | null>>();
+
+  for (const filePath of filePaths) {
+    files.add(filePath);
+
+    const dir = pathUtils.dirname(filePath);
+    const siblings = byDirectory.get(dir);
+
+    if (siblings) {
+      siblings.push(filePath);
+    } else {
+      byDirectory.set(dir, [filePath]);
+    }
+
+    for (let current = dir; !directories.has(current); current = pathUtils.dirname(current)) {
+      directories.add(current);
+    }
+  }
+
+  return {
+    files,
+    directories,
+    listDirectory: (dir) => byDirectory.get(dir) ?? [],
+    readFile(filePath) {
+      if (!files.has(filePath)) {
+        return Promise.resolve(null);
+      }
+
+      let content = contents.get(filePath);
+
+      if (!content) {
+        content = readFile(filePath).catch(() => null);
+        contents.set(filePath, content);
+      }
+
+      return content;
+    },
+  };
+}
+
+/** Parse JSON that may contain comments and trailing commas (tsconfig, jsconfig). */
+export function parseJsonc(text: string): unknown {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+
+      if (char === '\\') {
+        output += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+export async function readJson(context: ResolverContext, filePath: string): Promise<any> {
+  const content = await context.readFile(filePath);
+
+  if (content === null) {
+    return null;
+  }
+
+  try {
+    return parseJsonc(content);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,21 @@
+import { path as pathUtils } from '~/utils/path';
+import { createJvmResolver } from './jvmResolver';
+import { createNodeResolver } from './nodeResolver';
+import { createPythonResolver } from './pythonResolver';
+import type { ModuleResolver } from './types';
+
+export * from './types';
+export { createResolverContext, parseJsonc } from './context';
+export { createNodeResolver, matchExports, matchPaths, packageName } from './nodeResolver';
+export { createPythonResolver } from './pythonResolver';
+export { createJvmResolver } from './jvmResolver';
+
+/** The resolvers used by the fallback graph unless others are supplied. */
+export function createDefaultResolvers(): ModuleResolver[] {
+  return [createNodeResolver(), createPythonResolver(), createJvmResolver()];
+}
+
+export function findResolver(resolvers: ModuleResolver[], filePath: string): ModuleResolver | undefined {
+  const ext = pathUtils.extname(filePath).slice(1);
+  return resolvers.find((resolver) => resolver.extensions.includes(ext));
+}
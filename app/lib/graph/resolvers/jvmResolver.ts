@@ -0,0 +1,133 @@
+/**
+ * Java / Kotlin resolution: fully-qualified imports mapped onto the source
+ * roots of the project (`src/main/java`, `src/test/kotlin`, ... plus any root
+ * implied by a file's `package` declaration).
+ */
+
+import { path as pathUtils } from '~/utils/path';
+import type { ModuleResolver, Resolution, ResolverContext } from './types';
+
+const IMPORT_REGEX = /^[ \t]*import[ \t]+(?:static[ \t]+)?(\w+(?:\.\w+)*(?:\.\*)?)/gm;
+const PACKAGE_REGEX = /^[ \t]*package[ \t]+([\w.]+)/m;
+const CONVENTIONAL_ROOT_REGEX = /\/src\/[\w-]+\/(java|kotlin)$/;
+const SOURCE_EXTENSIONS = ['.java', '.kt', '.kts'];
+
+export function createJvmResolver(): ModuleResolver {
+  let sourceRoots: string[] = [];
+
+  function sourceFiles(context: ResolverContext, dir: string): string[] {
+    return context.listDirectory(dir).filter((file) => SOURCE_EXTENSIONS.includes(pathUtils.extname(file)));
+  }
+
+  function findClass(context: ResolverContext, parts: string[]): string | null {
+    for (const root of sourceRoots) {
+      for (const ext of SOURCE_EXTENSIONS) {
+        const candidate = pathUtils.join(root, ...parts) + ext;
+
+        if (context.files.has(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  function isLocalPackage(context: ResolverContext, parts: string[]): boolean {
+    return sourceRoots.some((root) => context.directories.has(pathUtils.join(root, ...parts)));
+  }
+
+  return {
+    name: 'jvm',
+    extensions: ['java', 'kt', 'kts'],
+
+    async prepare(context) {
+      const roots = new Set<string>();
+
+      for (const dir of context.directories) {
+        if (CONVENTIONAL_ROOT_REGEX.test(dir)) {
+          roots.add(dir);
+        }
+      }
+
+      // A file declaring `package a.b` in `<root>/a/b/` tells us where <root> is
+      for (const filePath of context.files) {
+        if (!SOURCE_EXTENSIONS.includes(pathUtils.extname(filePath))) {
+          continue;
+        }
+
+        const content = await context.readFile(filePath);
+        const packageName = content?.match(PACKAGE_REGEX)?.[1];
+        const dir = pathUtils.dirname(filePath);
+
+        if (!packageName) {
+          roots.add(dir);
+          continue;
+        }
+
+        const packagePath = `/${packageName.split('.').join('/')}`;
+
+        if (dir.endsWith(packagePath)) {
+          roots.add(dir.slice(0, -packagePath.length) || '/');
+        }
+      }
+
+      sourceRoots = Array.from(roots);
+    },
+
+    extractImports(content) {
+      return Array.from(content.matchAll(IMPORT_REGEX), (match) => ({ specifier: match[1] }));
+    },
+
+    async resolve({ specifier }, _fromFile, context): Promise<Resolution[]> {
+      const parts = specifier.split('.');
+
+      if (parts[parts.length - 1] === '*') {
+        const packageParts = parts.slice(0, -1);
+
+        // `import a.b.*` depends on every class in the package...
+        for (const root of sourceRoots) {
+          const files = sourceFiles(context, pathUtils.join(root, ...packageParts));
+
+          if (files.length > 0) {
+            return files.map((path) => ({ kind: 'file', path }));
+          }
+        }
+
+        // ...or, for `import a.b.Outer.*`, on the enclosing class
+        const outer = findClass(context, packageParts);
+
+        return outer ? [{ kind: 'file', path: outer }] : [{ kind: 'external', name: packageParts.join('.') }];
+      }
+
+      // Drop trailing segments to cover nested classes and static members (`a.b.Outer.Inner`, `a.b.Util.method`)
+      for (let length = parts.length; length > 0; length--) {
+        const found = findClass(context, parts.slice(0, length));
+
+        if (found) {
+          return [{ kind: 'file', path: found }];
+        }
+      }
+
+      const packageParts = externalPackage(parts);
+
+      // A project package without a matching class file (e.g. a Kotlin top-level function) is not external
+      if (isLocalPackage(context, packageParts)) {
+        return [];
+      }
+
+      return [{ kind: 'external', name: packageParts.join('.') }];
+    },
+  };
+}
+
+/** Package part of a qualified name, by convention everything before the first capitalised segment. */
+function externalPackage(parts: string[]): string[] {
+  const classIndex = parts.findIndex((part) => /^[A-Z]/.test(part));
+
+  if (classIndex > 0) {
+    return parts.slice(0, classIndex);
+  }
+
+  return parts.length > 1 ? parts.slice(0, -1) : parts;
+}
@@ -0,0 +1,419 @@
+/**
+ * JavaScript / TypeScript resolution: relative paths, tsconfig `paths` and
+ * `baseUrl`, directory index files and workspace packages (`package.json`
+ * `exports`, `module`, `main`). Anything else is an external package.
+ */
+
+import { path as pathUtils } from '~/utils/path';
+import { readJson } from './context';
+import type { ImportRequest, ModuleResolver, Resolution, ResolverContext } from './types';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// TypeScript ESM sources import their compiled name (`./util.js` for `util.ts`)
+const COMPILED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// Conditions we accept in `exports` maps; the first one listed in the map wins, as in Node
+const EXPORT_CONDITIONS = new Set([
+  'source',
+  'types',
+  'import',
+  'module',
+  'browser',
+  'development',
+  'default',
+  'require',
+  'node',
+]);
+
+const STATIC_IMPORT_REGEX =
+  /(?:^|[\s;}])(?:import|export)\s+(?:type\s+)?(?:([\w*{}\s,$]+?)\s+from\s+)?["']([^"'\n]+)["']/g;
+const CALL_IMPORT_REGEX = /\b(?:require|import)\s*\(\s*["']([^"'\n]+)["']\s*\)/g;
+
+interface TsConfig {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+
+  // Directory `paths` entries are relative to when there is no baseUrl
+  pathsBase: string;
+}
+
+export function createNodeResolver(): ModuleResolver {
+  const tsConfigs = new Map<string, Promise<TsConfig | null>>();
+  const workspacePackages = new Map<string, string>();
+
+  async function loadTsConfig(context: ResolverContext, configPath: string, depth = 0): Promise<TsConfig | null> {
+    const json = await readJson(context, configPath);
+
+    if (!json || depth > 5) {
+      return null;
+    }
+
+    const configDir = pathUtils.dirname(configPath);
+    let config: TsConfig = { pathsBase: configDir };
+
+    // Only project-relative `extends` can be followed; shared configs live in node_modules
+    const parents = (Array.isArray(json.extends) ? json.extends : [json.extends]).filter(
+      (parent: unknown): parent is string => typeof parent === 'string' && parent.startsWith('.'),
+    );
+
+    for (const parent of parents) {
+      let parentPath = pathUtils.join(configDir, parent);
+
+      if (!parentPath.endsWith('.json')) {
+        parentPath += '.json';
+      }
+
+      const inherited = await loadTsConfig(context, parentPath, depth + 1);
+
+      if (inherited) {
+        config = { ...config, ...inherited };
+      }
+    }
+
+    const options = json.compilerOptions ?? {};
+
+    if (typeof options.baseUrl === 'string') {
+      config.baseUrl = pathUtils.join(configDir, options.baseUrl);
+    }
+
+    if (options.paths && typeof options.paths === 'object') {
+      config.paths = options.paths;
+      config.pathsBase = configDir;
+    }
+
+    return config;
+  }
+
+  /** Nearest tsconfig.json / jsconfig.json above a file. */
+  function tsConfigFor(context: ResolverContext, filePath: string): Promise<TsConfig | null> {
+    let dir = pathUtils.dirname(filePath);
+
+    while (true) {
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const candidate = pathUtils.join(dir, name);
+
+        if (context.files.has(candidate)) {
+          let config = tsConfigs.get(candidate);
+
+          if (!config) {
+            config = loadTsConfig(context, candidate);
+            tsConfigs.set(candidate, config);
+          }
+
+          return config;
+        }
+      }
+
+      if (dir === '/') {
+        return Promise.resolve(null);
+      }
+
+      dir = pathUtils.dirname(dir);
+    }
+  }
+
+  function resolveFile(context: ResolverContext, candidate: string): string | null {
+    if (context.files.has(candidate)) {
+      return candidate;
+    }
+
+    const ext = pathUtils.extname(candidate);
+
+    for (const sourceExt of COMPILED_TO_SOURCE[ext] ?? []) {
+      const sourcePath = candidate.slice(0, -ext.length) + sourceExt;
+
+      if (context.files.has(sourcePath)) {
+        return sourcePath;
+      }
+    }
+
+    for (const sourceExt of SOURCE_EXTENSIONS) {
+      if (context.files.has(candidate + sourceExt)) {
+        return candidate + sourceExt;
+      }
+    }
+
+    return null;
+  }
+
+  async function resolveFileOrDirectory(context: ResolverContext, candidate: string): Promise<string | null> {
+    const file = resolveFile(context, candidate);
+
+    if (file || !context.directories.has(candidate)) {
+      return file;
+    }
+
+    if (context.files.has(pathUtils.join(candidate, 'package.json'))) {
+      const entry = await resolvePackage(context, candidate, '.');
+
+      if (entry) {
+        return entry;
+      }
+    }
+
+    return resolveFile(context, pathUtils.join(candidate, 'index'));
+  }
+
+  async function resolvePackage(context: ResolverContext, packageDir: string, subpath: string): Promise<string | null> {
+    const pkg = await readJson(context, pathUtils.join(packageDir, 'package.json'));
+    const targets: string[] = [];
+
+    if (pkg?.exports !== undefined) {
+      const exported = matchExports(pkg.exports, subpath);
+
+      if (exported) {
+        targets.push(exported);
+      }
+    } else if (subpath === '.') {
+      targets.push(...['source', 'types', 'typings', 'module', 'main'].map((field) => pkg?.[field]));
+    } else {
+      targets.push(subpath);
+    }
+
+    for (const target of targets) {
+      if (typeof target !== 'string') {
+        continue;
+      }
+
+      const resolved = await resolveFileOrDirectory(context, pathUtils.join(packageDir, target));
+
+      if (resolved) {
+        return resolved;
+      }
+
+      // Workspace packages often export their build output, which is not part of the project
+      const sourceTarget = target.replace(/^(\.\/)?(dist|build|lib|out)\//, './src/');
+
+      if (sourceTarget !== target) {
+        const source = await resolveFileOrDirectory(context, pathUtils.join(packageDir, sourceTarget));
+
+        if (source) {
+          return source;
+        }
+      }
+    }
+
+    return subpath === '.' ? resolveFile(context, pathUtils.join(packageDir, 'index')) : null;
+  }
+
+  return {
+    name: 'node',
+    extensions: ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'],
+
+    async prepare(context) {
+      tsConfigs.clear();
+      workspacePackages.clear();
+
+      for (const filePath of context.files) {
+        if (pathUtils.basename(filePath) !== 'package.json') {
+          continue;
+        }
+
+        const pkg = await readJson(context, filePath);
+
+        if (typeof pkg?.name === 'string') {
+          workspacePackages.set(pkg.name, pathUtils.dirname(filePath));
+        }
+      }
+    },
+
+    extractImports(content) {
+      const imports = new Map<string, Set<string>>();
+      const add = (specifier: string, names: string[]) => {
+        const existing = imports.get(specifier) ?? new Set<string>();
+        names.forEach((name) => existing.add(name));
+        imports.set(specifier, existing);
+      };
+
+      for (const match of content.matchAll(STATIC_IMPORT_REGEX)) {
+        add(match[2], importedNames(match[1] ?? ''));
+      }
+
+      for (const match of content.matchAll(CALL_IMPORT_REGEX)) {
+        add(match[1], []);
+      }
+
+      return Array.from(imports, ([specifier, names]) =>
+        names.size > 0 ? { specifier, names: [...names] } : { specifier },
+      );
+    },
+
+    async resolve({ specifier }: ImportRequest, fromFile, context): Promise<Resolution[]> {
+      if (specifier.startsWith('.') || specifier.startsWith('/')) {
+        const candidate = specifier.startsWith('/')
+          ? specifier
+          : pathUtils.join(pathUtils.dirname(fromFile), specifier);
+        const resolved = await resolveFileOrDirectory(context, candidate);
+
+        return resolved ? [{ kind: 'file', path: resolved }] : [];
+      }
+
+      const tsConfig = await tsConfigFor(context, fromFile);
+
+      if (tsConfig?.paths) {
+        const base = tsConfig.baseUrl ?? tsConfig.pathsBase;
+
+        for (const substitution of matchPaths(tsConfig.paths, specifier)) {
+          const resolved = await resolveFileOrDirectory(context, pathUtils.join(base, substitution));
+
+          if (resolved) {
+            return [{ kind: 'file', path: resolved }];
+          }
+        }
+      }
+
+      if (tsConfig?.baseUrl) {
+        const resolved = await resolveFileOrDirectory(context, pathUtils.join(tsConfig.baseUrl, specifier));
+
+        if (resolved) {
+          return [{ kind: 'file', path: resolved }];
+        }
+      }
+
+      const name = packageName(specifier);
+      const packageDir = workspacePackages.get(name);
+
+      if (packageDir) {
+        const subpath = specifier === name ? '.' : `.${specifier.slice(name.length)}`;
+        const resolved = await resolvePackage(context, packageDir, subpath);
+
+        return resolved ? [{ kind: 'file', path: resolved }] : [];
+      }
+
+      return [{ kind: 'external', name }];
+    },
+  };
+}
+
+/** Bindings of an import / export clause: `a, { b as c, type D }` -> `a`, `b`, `D`; `* as ns` -> `*` */
+function importedNames(clause: string): string[] {
+  return clause
+    .split(/[{},]/)
+    .map(
+      (part) =>
+        part
+          .trim()
+          .replace(/^type\s+/, '')
+          .split(/\s+as\s+/)[0],
+    )
+    .filter(Boolean);
+}
+
+/** `@scope/pkg/sub` -> `@scope/pkg`, `lodash/fp` -> `lodash`, `node:fs` -> `fs` */
+export function packageName(specifier: string): string {
+  const bare = specifier.replace(/^node:/, '');
+  const parts = bare.split('/');
+
+  return bare.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/** Expand a tsconfig `paths` map for a specifier, most specific pattern first. */
+export function matchPaths(paths: Record<string, string[]>, specifier: string): string[] {
+  const matches: Array<{ prefixLength: number; substitutions: string[] }> = [];
+
+  for (const [pattern, substitutions] of Object.entries(paths)) {
+    const star = pattern.indexOf('*');
+
+    if (star === -1) {
+      if (pattern === specifier) {
+        matches.push({ prefixLength: Infinity, substitutions });
+      }
+
+      continue;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+      matches.push({
+        prefixLength: prefix.length,
+        substitutions: substitutions.map((substitution) => substitution.replace('*', captured)),
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.prefixLength - a.prefixLength).flatMap((match) => match.substitutions);
+}
+
+/** Resolve a subpath (`.` or `./feature`) against a package.json `exports` field. */
+export function matchExports(exports: unknown, subpath: string): string | null {
+  const isSubpathMap =
+    exports !== null &&
+    typeof exports === 'object' &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveConditions(exports) : null;
+  }
+
+  const map = exports as Record<string, unknown>;
+
+  if (subpath in map) {
+    return resolveConditions(map[subpath]);
+  }
+
+  for (const [pattern, target] of Object.entries(map)) {
+    const star = pattern.indexOf('*');
+
+    if (star === -1) {
+      continue;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+      const resolved = resolveConditions(target);
+      const captured = subpath.slice(prefix.length, subpath.length - suffix.length);
+
+      return resolved ? resolved.replace(/\*/g, captured) : null;
+    }
+  }
+
+  return null;
+}
+
+function resolveConditions(target: unknown): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveConditions(item);
+
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      if (EXPORT_CONDITIONS.has(condition)) {
+        const resolved = resolveConditions(value);
+
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+  }
+
+  return null;
+}
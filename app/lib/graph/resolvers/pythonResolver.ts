@@ -0,0 +1,144 @@
+/**
+ * Python resolution: relative imports, packages (`__init__.py`) and modules
+ * under the project's source roots. Unresolved top-level modules are treated
+ * as external packages (including the standard library).
+ */
+
+import { path as pathUtils } from '~/utils/path';
+import type { ImportRequest, ModuleResolver, Resolution, ResolverContext } from './types';
+
+const FROM_IMPORT_REGEX = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm;
+const IMPORT_REGEX = /^[ \t]*import[ \t]+([^\n#]+)/gm;
+
+// Files that mark a directory as the root of a Python project
+const PROJECT_MARKERS = ['pyproject.toml', 'setup.py', 'setup.cfg'];
+
+export function createPythonResolver(): ModuleResolver {
+  let sourceRoots: string[] = ['/'];
+
+  /** `pkg/mod` -> `pkg/mod.py` or `pkg/mod/__init__.py` */
+  function moduleFile(context: ResolverContext, modulePath: string): string | null {
+    for (const candidate of [`${modulePath}.py`, `${modulePath}.pyi`, pathUtils.join(modulePath, '__init__.py')]) {
+      if (context.files.has(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a module and, for `from module import a, b`, any of the names that
+   * are submodules. The module itself is linked when at least one name is not.
+   */
+  function resolveModule(context: ResolverContext, modulePath: string, names: string[]): string[] {
+    const resolved: string[] = [];
+    let needsModule = names.length === 0;
+
+    for (const name of names) {
+      const submodule = name === '*' ? null : moduleFile(context, pathUtils.join(modulePath, name));
+
+      if (submodule) {
+        resolved.push(submodule);
+      } else {
+        needsModule = true;
+      }
+    }
+
+    if (needsModule) {
+      const parent = moduleFile(context, modulePath);
+
+      if (parent) {
+        resolved.push(parent);
+      } else if (resolved.length === 0) {
+        return [];
+      }
+    }
+
+    return resolved;
+  }
+
+  return {
+    name: 'python',
+    extensions: ['py', 'pyi'],
+
+    async prepare(context) {
+      const roots = new Set<string>(['/']);
+
+      for (const dir of context.directories) {
+        if (PROJECT_MARKERS.some((marker) => context.files.has(pathUtils.join(dir, marker)))) {
+          roots.add(dir);
+        }
+      }
+
+      // src-layout projects keep their packages one level down
+      for (const root of Array.from(roots)) {
+        const srcDir = pathUtils.join(root, 'src');
+
+        if (context.directories.has(srcDir)) {
+          roots.add(srcDir);
+        }
+      }
+
+      // Deepest roots first so nested projects win over the workspace root
+      sourceRoots = Array.from(roots).sort((a, b) => b.length - a.length);
+    },
+
+    extractImports(content) {
+      const requests: ImportRequest[] = [];
+
+      for (const match of content.matchAll(FROM_IMPORT_REGEX)) {
+        const names = match[2]
+          .replace(/[()\\]/g, '')
+          .split(',')
+          .map((name) => name.trim().split(/\s+as\s+/)[0])
+          .filter(Boolean);
+
+        requests.push({ specifier: match[1], names });
+      }
+
+      for (const match of content.matchAll(IMPORT_REGEX)) {
+        for (const part of match[1].split(',')) {
+          const specifier = part.trim().split(/\s+as\s+/)[0];
+
+          if (/^[\w.]+$/.test(specifier)) {
+            requests.push({ specifier });
+          }
+        }
+      }
+
+      return requests;
+    },
+
+    async resolve({ specifier, names = [] }, fromFile, context): Promise<Resolution[]> {
+      const dots = specifier.match(/^\.*/)![0].length;
+      const moduleParts = specifier.slice(dots).split('.').filter(Boolean);
+
+      if (dots > 0) {
+        let base = pathUtils.dirname(fromFile);
+
+        for (let i = 1; i < dots; i++) {
+          base = pathUtils.dirname(base);
+        }
+
+        return resolveModule(context, pathUtils.join(base, ...moduleParts), names).map((path) => ({
+          kind: 'file',
+          path,
+        }));
+      }
+
+      // Scripts can also import siblings from their own directory (sys.path[0])
+      const searchRoots = [...sourceRoots, pathUtils.dirname(fromFile)];
+
+      for (const root of searchRoots) {
+        const resolved = resolveModule(context, pathUtils.join(root, ...moduleParts), names);
+
+        if (resolved.length > 0) {
+          return resolved.map((path) => ({ kind: 'file', path }));
+        }
+      }
+
+      return [{ kind: 'external', name: moduleParts[0] }];
+    },
+  };
+}
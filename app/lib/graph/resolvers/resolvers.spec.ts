@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createJvmResolver,
+  createNodeResolver,
+  createPythonResolver,
+  createResolverContext,
+  matchExports,
+  type ModuleResolver,
+} from '.';
+
+async function resolveAll(resolver: ModuleResolver, files: Record<string, string>, fromFile: string) {
+  const context = createResolverContext(Object.keys(files), async (filePath) => files[filePath]);
+  await resolver.prepare?.(context);
+
+  const results = [];
+
+  for (const request of resolver.extractImports(files[fromFile], fromFile)) {
+    results.push(...(await resolver.resolve(request, fromFile, context)));
+  }
+
+  return results;
+}
+
+describe('createNodeResolver', () => {
+  it('resolves relative files, index directories and compiled extensions', async () => {
+    const results = await resolveAll(
+      createNodeResolver(),
+      {
+        '/src/app.ts': `import { a } from './a';\nimport b from './lib';\nexport * from './c.js';`,
+        '/src/a.ts': '',
+        '/src/lib/index.tsx': '',
+        '/src/c.ts': '',
+      },
+      '/src/app.ts',
+    );
+
+    expect(results).toEqual([
+      { kind: 'file', path: '/src/a.ts' },
+      { kind: 'file', path: '/src/lib/index.tsx' },
+      { kind: 'file', path: '/src/c.ts' },
+    ]);
+  });
+
+  it('resolves tsconfig paths from an extended config', async () => {
+    const results = await resolveAll(
+      createNodeResolver(),
+      {
+        '/tsconfig.base.json': `{
+          // shared options
+          "compilerOptions": { "paths": { "~/*": ["./app/*"] }, },
+        }`,
+        '/tsconfig.json': '{ "extends": "./tsconfig.base" }',
+        '/app/routes/index.ts': `import { x } from '~/utils/x';`,
+        '/app/utils/x.ts': '',
+      },
+      '/app/routes/index.ts',
+    );
+
+    expect(results).toEqual([{ kind: 'file', path: '/app/utils/x.ts' }]);
+  });
+
+  it('resolves workspace packages through exports and marks other packages external', async () => {
+    const results = await resolveAll(
+      createNodeResolver(),
+      {
+        '/packages/ui/package.json': JSON.stringify({
+          name: '@acme/ui',
+          exports: { '.': { import: './dist/index.js' }, './button': './src/button.tsx' },
+        }),
+        '/packages/ui/src/index.ts': '',
+        '/packages/ui/src/button.tsx': '',
+        '/apps/web/main.ts': `import '@acme/ui';\nimport { Button } from '@acme/ui/button';\nconst fs = require('node:fs');\nimport('@tanstack/react-query/devtools');`,
+      },
+      '/apps/web/main.ts',
+    );
+
+    expect(results).toEqual([
+      { kind: 'file', path: '/packages/ui/src/index.ts' },
+      { kind: 'file', path: '/packages/ui/src/button.tsx' },
+      { kind: 'external', name: 'fs' },
+      { kind: 'external', name: '@tanstack/react-query' },
+    ]);
+  });
+
+  it('drops relative imports that do not match a real file', async () => {
+    const results = await resolveAll(
+      createNodeResolver(),
+      { '/src/app.ts': `import './missing';\nimport './utils';`, '/lib/utils.ts': '' },
+      '/src/app.ts',
+    );
+
+    expect(results).toEqual([]);
+  });
+});
+
+describe('matchExports', () => {
+  it('supports sugar, subpath patterns and nested conditions', () => {
+    expect(matchExports('./index.js', '.')).toBe('./index.js');
+    expect(matchExports({ './features/*': './src/features/*.ts' }, './features/a')).toBe('./src/features/a.ts');
+    expect(matchExports({ node: { require: './cjs.js' }, default: './esm.js' }, '.')).toBe('./cjs.js');
+    expect(matchExports({ '.': './index.js' }, './other')).toBeNull();
+  });
+});
+
+describe('createPythonResolver', () => {
+  it('resolves packages, submodules and relative imports', async () => {
+    const results = await resolveAll(
+      createPythonResolver(),
+      {
+        '/pyproject.toml': '',
+        '/src/app/__init__.py': '',
+        '/src/app/models.py': '',
+        '/src/app/services/__init__.py': '',
+        '/src/app/services/users.py':
+          'from ..models import User\nfrom . import (\n  helpers,\n)\nimport os, app.models as m\nfrom app import services',
+        '/src/app/services/helpers.py': '',
+      },
+      '/src/app/services/users.py',
+    );
+
+    expect(results).toEqual([
+      { kind: 'file', path: '/src/app/models.py' },
+      { kind: 'file', path: '/src/app/services/helpers.py' },
+      { kind: 'file', path: '/src/app/services/__init__.py' },
+      { kind: 'external', name: 'os' },
+      { kind: 'file', path: '/src/app/models.py' },
+    ]);
+  });
+});
+
+describe('createJvmResolver', () => {
+  it('maps qualified names onto source roots', async () => {
+    const results = await resolveAll(
+      createJvmResolver(),
+      {
+        '/src/main/java/com/acme/App.java':
+          'package com.acme;\nimport com.acme.util.Strings;\nimport static com.acme.util.Strings.trim;\nimport com.acme.model.*;\nimport java.util.List;',
+        '/src/main/java/com/acme/util/Strings.java': 'package com.acme.util;',
+        '/src/main/kotlin/com/acme/model/User.kt': 'package com.acme.model',
+        '/src/main/kotlin/com/acme/model/Role.kt': 'package com.acme.model',
+      },
+      '/src/main/java/com/acme/App.java',
+    );
+
+    expect(results).toEqual([
+      { kind: 'file', path: '/src/main/java/com/acme/util/Strings.java' },
+      { kind: 'file', path: '/src/main/java/com/acme/util/Strings.java' },
+      { kind: 'file', path: '/src/main/kotlin/com/acme/model/User.kt' },
+      { kind: 'file', path: '/src/main/kotlin/com/acme/model/Role.kt' },
+      { kind: 'external', name: 'java.util' },
+    ]);
+  });
+});
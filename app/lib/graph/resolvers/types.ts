@@ -0,0 +1,42 @@
+/**
+ * Shared types for the pluggable module resolvers used by the fallback graph.
+ */
+
+/** An import found in a source file, before resolution. */
+export interface ImportRequest {
+  specifier: string;
+
+  /*
+   * Imported names (`import { a, b }`, `from m import a, b`). Python also resolves
+   * them, since a name may itself be a module (`from pkg import mod`).
+   */
+  names?: string[];
+}
+
+/**
+ * Outcome of resolving one import. Imports that point inside the project but
+ * do not match a real file resolve to nothing rather than a guess.
+ */
+export type Resolution = { kind: 'file'; path: string } | { kind: 'external'; name: string };
+
+/** Read-only view of the project filesystem shared by all resolvers. */
+export interface ResolverContext {
+  files: ReadonlySet<string>;
+  directories: ReadonlySet<string>;
+  listDirectory(dir: string): string[];
+  readFile(filePath: string): Promise<string | null>;
+}
+
+export interface ModuleResolver {
+  name: string;
+
+  // File extensions (without the dot) this resolver is responsible for
+  extensions: string[];
+
+  /** One-off project scan, e.g. to discover config files or source roots. */
+  prepare?(context: ResolverContext): Promise<void>;
+
+  extractImports(content: string, filePath: string): ImportRequest[];
+
+  resolve(request: ImportRequest, fromFile: string, context: ResolverContext): Promise<Resolution[]>;
+}
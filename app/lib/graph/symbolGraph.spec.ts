@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { ClassInfo, FunctionInfo, ParseResult } from '~/lib/unifiedParser/treeSitterParser';
+import type { GraphResponse } from './graphClient';
+import { buildSymbolGraph, getFileSymbols, getSymbolCallers, mergeScipReferences } from './symbolGraph';
+
+function fn(name: string, startLine: number, endLine: number, extra: Partial<FunctionInfo> = {}): FunctionInfo {
+  return { name, parameters: [], modifiers: [], startLine, endLine, complexity: 1, ...extra };
+}
+
+function parse(filePath: string, functions: FunctionInfo[], classes: ClassInfo[] = []): ParseResult {
+  return {
+    filePath,
+    language: 'typescript',
+    ast: { type: 'program', startPosition: { row: 0, column: 0 }, endPosition: { row: 0, column: 0 }, children: [] },
+    metadata: { functions, classes, imports: [], exports: [], variables: [], complexity: 1, linesOfCode: 10 },
+  } as unknown as ParseResult;
+}
+
+const fileGraph: GraphResponse = {
+  nodes: [
+    { data: { id: '/src/app.ts', label: 'app.ts', filePath: '/src/app.ts', language: 'typescript' } },
+    { data: { id: '/src/util.ts', label: 'util.ts', filePath: '/src/util.ts', language: 'typescript' } },
+  ],
+  edges: [
+    {
+      data: {
+        id: '/src/app.ts->/src/util.ts',
+        source: '/src/app.ts',
+        target: '/src/util.ts',
+        type: 'import',
+        cycle: false,
+      },
+    },
+  ],
+  cycles: [],
+};
+
+describe('buildSymbolGraph', () => {
+  const save = fn('save', 3, 5, { calls: ['validate', 'format'] });
+  const validate = fn('validate', 6, 8);
+  const repository: ClassInfo = {
+    name: 'UserRepository',
+    methods: [save, validate],
+    properties: [],
+    startLine: 2,
+    endLine: 9,
+    inheritance: ['Base<User>'],
+    interfaces: ['Repository'],
+  };
+
+  const graph = buildSymbolGraph(fileGraph, [
+    {
+      fileId: '/src/app.ts',
+      result: parse(
+        '/src/app.ts',
+        [save, validate, fn('main', 11, 14, { references: ['UserRepository'] })],
+        [repository],
+      ),
+    },
+    {
+      fileId: '/src/util.ts',
+      result: parse(
+        '/src/util.ts',
+        [fn('format', 0, 2)],
+        [
+          { ...repository, name: 'Base', methods: [], inheritance: [], interfaces: [] },
+          { ...repository, name: 'Repository', kind: 'interface', methods: [], inheritance: [], interfaces: [] },
+        ],
+      ),
+    },
+  ]);
+
+  const edges = (type: string) =>
+    graph.edges.filter((edge) => edge.data.type === type).map((edge) => `${edge.data.source} -> ${edge.data.target}`);
+
+  it('nests methods under their class and keeps free functions at file level', () => {
+    expect(getFileSymbols(graph, '/src/app.ts').map((node) => [node.data.label, node.data.kind])).toEqual([
+      ['UserRepository', 'class'],
+      ['UserRepository.save', 'method'],
+      ['UserRepository.validate', 'method'],
+      ['main', 'function'],
+    ]);
+  });
+
+  it('resolves calls, heritage and references through the class, the file and its imports', () => {
+    expect(edges('calls')).toEqual([
+      '/src/app.ts#UserRepository.save -> /src/app.ts#UserRepository.validate',
+      '/src/app.ts#UserRepository.save -> /src/util.ts#format',
+    ]);
+    expect(edges('extends')).toEqual(['/src/app.ts#UserRepository -> /src/util.ts#Base']);
+    expect(edges('implements')).toEqual(['/src/app.ts#UserRepository -> /src/util.ts#Repository']);
+    expect(getSymbolCallers(graph, '/src/app.ts#UserRepository').map(({ node, type }) => [node.data.id, type])).toEqual(
+      [['/src/app.ts#main', 'references']],
+    );
+  });
+
+  it('links SCIP references to the enclosing symbol', () => {
+    const merged = mergeScipReferences(graph, [
+      { filePath: 'src/util.ts', startLine: 0, startChar: 9, endLine: 0, endChar: 15, symbol: 'fmt', roleFlags: 1 },
+      { filePath: 'src/app.ts', startLine: 12, startChar: 2, endLine: 12, endChar: 8, symbol: 'fmt', roleFlags: 2 },
+    ]);
+
+    expect(getSymbolCallers(merged, '/src/util.ts#format').map(({ node, type }) => [node.data.id, type])).toEqual([
+      ['/src/app.ts#UserRepository.save', 'calls'],
+      ['/src/app.ts#main', 'references'],
+    ]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * symbolGraph.ts — symbol-level knowledge graph.
+ *
+ * Extends a file graph with function / class / method / interface nodes and
+ * `defines`, `calls`, `extends`, `implements` and `references` edges, derived
+ * from unified-parser results and optionally refined with SCIP occurrences.
+ */
+
+import type { ClassInfo, FunctionInfo, ParseResult } from '~/lib/unifiedParser/treeSitterParser';
+import type { CyEdge, CyNode, GraphResponse, ReferenceResult, SymbolEdgeType, SymbolKind } from './graphClient';
+
+export interface SymbolSource {
+  // Id of the file node in the file graph
+  fileId: string;
+  result: ParseResult;
+}
+
+export interface SymbolUsage {
+  node: CyNode;
+  type: SymbolEdgeType;
+}
+
+interface SymbolEntry {
+  id: string;
+  fileId: string;
+  name: string;
+  kind: SymbolKind;
+  owner?: string;
+  info: FunctionInfo | ClassInfo;
+}
+
+const SYMBOL_KINDS = new Set<string>(['function', 'class', 'method', 'interface']);
+
+export function isSymbolNode(node: CyNode): boolean {
+  return SYMBOL_KINDS.has(node.data.kind ?? '');
+}
+
+/**
+ * Build the symbol graph on top of `fileGraph`. Names are resolved against the
+ * enclosing class, then the same file, then files it imports, and finally
+ * project-wide for class / interface names that are unique.
+ */
+export function buildSymbolGraph(fileGraph: GraphResponse, sources: SymbolSource[]): GraphResponse {
+  const nodes: CyNode[] = [...fileGraph.nodes];
+  const edges: CyEdge[] = [...fileGraph.edges];
+  const edgeIds = new Set(edges.map((edge) => edge.data.id));
+  const fileNodes = new Map(fileGraph.nodes.map((node) => [node.data.id, node]));
+
+  const entries: SymbolEntry[] = [];
+  const entryIds = new Set<string>();
+  const topLevel = new Map<string, Map<string, SymbolEntry>>();
+  const methods = new Map<string, Map<string, SymbolEntry>>();
+  const types = new Map<string, SymbolEntry[]>();
+
+  const addEdge = (type: SymbolEdgeType | 'import', source: string, target: string) => {
+    const id = type === 'import' ? `${source}->${target}` : `${type}:${source}->${target}`;
+
+    if (source !== target && !edgeIds.has(id)) {
+      edgeIds.add(id);
+      edges.push({ data: { id, source, target, type, cycle: false } });
+    }
+  };
+
+  const addSymbol = (entry: SymbolEntry, parent: string) => {
+    if (entryIds.has(entry.id)) {
+      return false;
+    }
+
+    const file = fileNodes.get(entry.fileId);
+
+    entryIds.add(entry.id);
+    entries.push(entry);
+    nodes.push({
+      data: {
+        id: entry.id,
+        label: entry.kind === 'method' ? `${entry.owner?.split('#').pop()}.${entry.name}` : entry.name,
+        filePath: file?.data.filePath ?? entry.fileId,
+        language: file?.data.language ?? '',
+        kind: entry.kind,
+        parent,
+        startLine: entry.info.startLine,
+        endLine: entry.info.endLine,
+      },
+    });
+    addEdge('defines', parent, entry.id);
+
+    return true;
+  };
+
+  for (const { fileId, result } of sources) {
+    const fileSymbols = new Map<string, SymbolEntry>();
+    const methodKeys = new Set<string>();
+
+    topLevel.set(fileId, fileSymbols);
+
+    for (const cls of result.metadata.classes) {
+      const entry: SymbolEntry = {
+        id: `${fileId}#${cls.name}`,
+        fileId,
+        name: cls.name,
+        kind: cls.kind ?? 'class',
+        info: cls,
+      };
+
+      if (!addSymbol(entry, fileId)) {
+        continue;
+      }
+
+      fileSymbols.set(cls.name, entry);
+      types.set(cls.name, [...(types.get(cls.name) ?? []), entry]);
+
+      const classMethods = new Map<string, SymbolEntry>();
+      methods.set(entry.id, classMethods);
+
+      for (const method of cls.methods) {
+        methodKeys.add(`${method.startLine}:${method.name}`);
+
+        const methodEntry: SymbolEntry = {
+          id: `${entry.id}.${method.name}`,
+          fileId,
+          name: method.name,
+          kind: 'method',
+          owner: entry.id,
+          info: method,
+        };
+
+        if (addSymbol(methodEntry, entry.id)) {
+          classMethods.set(method.name, methodEntry);
+        }
+      }
+    }
+
+    // `functions` also lists every method; only free functions are added here
+    for (const fn of result.metadata.functions) {
+      if (methodKeys.has(`${fn.startLine}:${fn.name}`)) {
+        continue;
+      }
+
+      const entry: SymbolEntry = { id: `${fileId}#${fn.name}`, fileId, name: fn.name, kind: 'function', info: fn };
+
+      if (addSymbol(entry, fileId)) {
+        fileSymbols.set(fn.name, entry);
+      }
+    }
+  }
+
+  const imports = new Map<string, string[]>();
+
+  for (const edge of fileGraph.edges) {
+    if (edge.data.type === 'import') {
+      imports.set(edge.data.source, [...(imports.get(edge.data.source) ?? []), edge.data.target]);
+    }
+  }
+
+  const resolve = (rawName: string, from: SymbolEntry): SymbolEntry | undefined => {
+    // `Base<T>`, `pkg.Base`, `mod::Base` -> `Base`
+    const name = rawName.replace(/<.*$/s, '').split(/\.|::/).pop()?.trim() ?? rawName;
+
+    const candidate =
+      (from.owner ? methods.get(from.owner)?.get(name) : undefined) ??
+      topLevel.get(from.fileId)?.get(name) ??
+      (imports.get(from.fileId) ?? []).map((fileId) => topLevel.get(fileId)?.get(name)).find(Boolean);
+
+    if (candidate) {
+      return candidate;
+    }
+
+    const sameName = types.get(name);
+
+    return sameName?.length === 1 ? sameName[0] : undefined;
+  };
+
+  for (const entry of entries) {
+    if (entry.kind === 'class' || entry.kind === 'interface') {
+      const cls = entry.info as ClassInfo;
+
+      for (const base of cls.inheritance ?? []) {
+        const target = resolve(base, entry);
+
+        if (target) {
+          addEdge('extends', entry.id, target.id);
+        }
+      }
+
+      for (const contract of cls.interfaces ?? []) {
+        const target = resolve(contract, entry);
+
+        if (target) {
+          addEdge('implements', entry.id, target.id);
+        }
+      }
+
+      continue;
+    }
+
+    const fn = entry.info as FunctionInfo;
+    const called = new Set<string>();
+
+    for (const name of fn.calls ?? []) {
+      const target = resolve(name, entry);
+
+      if (target) {
+        called.add(target.id);
+        addEdge('calls', entry.id, target.id);
+      }
+    }
+
+    for (const name of fn.references ?? []) {
+      const target = resolve(name, entry);
+
+      if (target && !called.has(target.id) && target.id !== entry.owner) {
+        addEdge('references', entry.id, target.id);
+      }
+    }
+  }
+
+  return { ...fileGraph, nodes, edges };
+}
+
+/**
+ * Add `references` edges from SCIP occurrences. Each reference is attributed to
+ * the innermost symbol enclosing it and linked to the symbol whose definition
+ * SCIP recorded for the same SCIP symbol.
+ */
+export function mergeScipReferences(graph: GraphResponse, occurrences: ReferenceResult[]): GraphResponse {
+  const symbolsByFile = new Map<string, CyNode[]>();
+
+  for (const node of graph.nodes) {
+    if (isSymbolNode(node)) {
+      const key = normalizePath(node.data.filePath);
+      symbolsByFile.set(key, [...(symbolsByFile.get(key) ?? []), node]);
+    }
+  }
+
+  const enclosing = (filePath: string, line: number) =>
+    (symbolsByFile.get(normalizePath(filePath)) ?? [])
+      .filter((node) => (node.data.startLine ?? Infinity) <= line && line <= (node.data.endLine ?? -Infinity))
+      .sort((a, b) => a.data.endLine! - a.data.startLine! - (b.data.endLine! - b.data.startLine!))[0];
+
+  const definitions = new Map<string, string>();
+
+  for (const occurrence of occurrences) {
+    if (occurrence.roleFlags & 1) {
+      const node = enclosing(occurrence.filePath, occurrence.startLine);
+
+      if (node) {
+        definitions.set(occurrence.symbol, node.data.id);
+      }
+    }
+  }
+
+  const edges = [...graph.edges];
+  const edgeIds = new Set(edges.map((edge) => edge.data.id));
+
+  for (const occurrence of occurrences) {
+    if (!(occurrence.roleFlags & 2)) {
+      continue;
+    }
+
+    const source = enclosing(occurrence.filePath, occurrence.startLine)?.data.id;
+    const target = definitions.get(occurrence.symbol);
+
+    if (!source || !target || source === target || edgeIds.has(`calls:${source}->${target}`)) {
+      continue;
+    }
+
+    const id = `references:${source}->${target}`;
+
+    if (!edgeIds.has(id)) {
+      edgeIds.add(id);
+      edges.push({ data: { id, source, target, type: 'references', cycle: false } });
+    }
+  }
+
+  return { ...graph, edges };
+}
+
+/** Symbols defined in a file, classes followed by their methods. */
+export function getFileSymbols(graph: GraphResponse, fileId: string): CyNode[] {
+  const byId = new Map(graph.nodes.map((node) => [node.data.id, node]));
+  const children = (parentId: string) =>
+    graph.edges
+      .filter((edge) => edge.data.type === 'defines' && edge.data.source === parentId)
+      .map((edge) => byId.get(edge.data.target))
+      .filter((node): node is CyNode => !!node);
+
+  return children(fileId).flatMap((node) => [node, ...children(node.data.id)]);
+}
+
+/** Symbols that call or otherwise reference `symbolId`. */
+export function getSymbolCallers(graph: GraphResponse, symbolId: string): SymbolUsage[] {
+  const byId = new Map(graph.nodes.map((node) => [node.data.id, node]));
+
+  return graph.edges.flatMap((edge) => {
+    const type = edge.data.type as SymbolEdgeType;
+    const node = byId.get(edge.data.source);
+
+    if (edge.data.target !== symbolId || !node || (type !== 'calls' && type !== 'references')) {
+      return [];
+    }
+
+    return [{ node, type }];
+  });
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/^\/+/, '');
+}
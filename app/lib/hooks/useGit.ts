@@ -181,7 +181,9 @@ export function useGit() {
           data[key] = value;
         }
 
-        return { workdir: webcontainer.workdir, data };
+        const commitHash = await git.resolveRef({ fs, dir: webcontainer.workdir, ref: 'HEAD' }).catch(() => undefined);
+
+        return { workdir: webcontainer.workdir, data, commitHash };
       } catch (error) {
         console.error('Git clone error:', error);
 
@@ -489,3 +491,25 @@ const pathUtils = {
     return relativeParts.length === 0 ? '.' : relativeParts.join('/');
   },
 };
+
+/**
+ * Files that differ from HEAD in the repository cloned into the WebContainer,
+ * relative to the project root. Returns null when there is no repository.
+ */
+export async function getGitChangedFiles(): Promise<string[] | null> {
+  const container = await webcontainerPromise;
+
+  try {
+    const matrix = await git.statusMatrix({
+      fs: getFs(container, { current: {} }),
+      dir: container.workdir,
+      filter: (filePath) => !filePath.startsWith('node_modules/'),
+    });
+
+    // [filepath, head, workdir, stage]; equal head/workdir status means unchanged
+    return matrix.filter(([, head, workdir]) => head !== workdir).map(([filePath]) => filePath);
+  } catch (error) {
+    console.log('No git repository to diff:', error);
+    return null;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildContextPlan,
+  countTokens,
+  findSearchCandidates,
+  fitChatHistory,
+  formatContextPlan,
+  getContextBudget,
+  type ContextCandidate,
+} from './contextBuilder';
+
+const MODEL = 'gpt-4o';
+
+// `lines` lines of 39 characters and a newline, 10 tokens each for gpt-4o
+const text = (lines: number) => Array.from({ length: lines }, (_, i) => `line ${i}`.padEnd(39, '.')).join('\n') + '\n';
+
+describe('context builder', () => {
+  it('counts tokens per model family and caps the budget', () => {
+    expect(countTokens('x'.repeat(400), 'gpt-4o')).toBe(100);
+    expect(countTokens('x'.repeat(340), 'llama3.1:8b')).toBe(100);
+    expect(getContextBudget(8192, 1000)).toBe(3096);
+    expect(getContextBudget(8192, 5000)).toBe(0);
+    expect(getContextBudget(2_000_000)).toBe(32_000);
+  });
+
+  it('packs by source rank, keeps the best source per file and drops what does not fit', () => {
+    const candidates: ContextCandidate[] = [
+      { path: 'src/graph.ts', content: text(50), source: 'graph' },
+      { path: 'src/search.ts', content: text(30), source: 'search', relevance: 1 },
+      { path: 'src/open.ts', content: text(20), source: 'open-file' },
+      { path: 'src/open.ts', content: text(20), source: 'search', relevance: 1 },
+      { path: 'src/empty.ts', content: '  \n', source: 'diff' },
+    ];
+
+    const plan = buildContextPlan(candidates, { budget: 600, model: MODEL });
+
+    expect(plan.included.map(({ path, source }) => [path, source])).toEqual([
+      ['src/open.ts', 'open-file'],
+      ['src/search.ts', 'search'],
+    ]);
+    expect(plan.dropped).toEqual([{ path: 'src/graph.ts', source: 'graph', tokens: 500 }]);
+    expect(plan.used).toBeLessThanOrEqual(plan.budget);
+  });
+
+  it('cuts pinned and open files to the remaining budget at a line boundary', () => {
+    const plan = buildContextPlan([{ path: 'big.ts', content: text(100), source: 'open-file' }], {
+      budget: 312,
+      model: MODEL,
+    });
+
+    const [entry] = plan.included;
+
+    expect(entry.truncated).toBe(true);
+    expect(entry.content.split('\n')).toHaveLength(30);
+    expect(plan.used).toBeLessThanOrEqual(312);
+    expect(formatContextPlan(plan)).toContain('<file path="big.ts" source="open-file" truncated="true">');
+  });
+
+  it('keeps the latest messages of the history that fit the budget', () => {
+    const history = [
+      { role: 'user', content: text(20) },
+      { role: 'assistant', content: text(5) },
+      { role: 'user', content: text(3) },
+    ];
+
+    expect(fitChatHistory(history, { budget: 80, model: MODEL })).toEqual(history.slice(1));
+    expect(fitChatHistory(history, { budget: 20, model: MODEL })).toEqual([]);
+  });
+
+  it('ranks search hits by the share of query terms they mention', () => {
+    const files = [
+      { path: 'src/auth/session.ts', content: 'export function refreshSession(token) {}' },
+      { path: 'src/auth/login.ts', content: 'export function login() { /* session token */ }' },
+      { path: 'README.md', content: 'Nothing relevant' },
+    ];
+
+    const hits = findSearchCandidates(files, 'How does the login session token work?');
+
+    expect(hits.map(({ path }) => path)).toEqual(['src/auth/login.ts', 'src/auth/session.ts']);
+    expect(hits[0].relevance).toBe(1);
+    expect(findSearchCandidates(files, 'what does this do')).toEqual([]);
+  });
+});
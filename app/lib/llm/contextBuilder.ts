@@ -0,0 +1,213 @@
+/**
+ * contextBuilder.ts — picks the project context sent along with a chat message.
+ *
+ * Candidates come from the open file, files the user pinned, unsaved diffs,
+ * text search hits and graph neighbours of the open file. They are ranked by
+ * source and relevance, counted in tokens of the target model and packed
+ * greedily under a budget; whatever does not fit is reported as dropped so the
+ * user can see it before sending.
+ */
+
+export type ContextSource = 'pinned' | 'open-file' | 'diff' | 'search' | 'graph';
+
+export interface ContextCandidate {
+  path: string;
+  content: string;
+  source: ContextSource;
+
+  // 0..1 within its source, e.g. the share of query terms a search hit matches
+  relevance?: number;
+}
+
+export interface ContextEntry {
+  path: string;
+  source: ContextSource;
+  content: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface DroppedContext {
+  path: string;
+  source: ContextSource;
+  tokens: number;
+}
+
+export interface ContextPlan {
+  budget: number;
+  used: number;
+  included: ContextEntry[];
+  dropped: DroppedContext[];
+}
+
+// Higher sources always outrank lower ones; relevance orders within a source
+const SOURCE_RANK: Record<ContextSource, number> = {
+  pinned: 4,
+  'open-file': 3,
+  diff: 2,
+  search: 1,
+  graph: 0,
+};
+
+// Sources cut down to fit instead of being dropped whole
+const TRUNCATABLE: ReadonlySet<ContextSource> = new Set(['pinned', 'open-file']);
+
+// Smallest cut-down file worth sending
+const MIN_TRUNCATED_TOKENS = 200;
+
+// Tokens of the wrapper around each file in the formatted context
+const ENTRY_OVERHEAD_TOKENS = 12;
+
+// Share of the context window left to the conversation and the reply
+const CONTEXT_WINDOW_SHARE = 0.5;
+
+// Upper bound, so large windows do not turn every message into a slow, costly request
+const MAX_CONTEXT_TOKENS = 32_000;
+
+/*
+ * Characters per token by model family. Estimates measured on source code;
+ * close enough for budgeting without shipping a tokenizer per provider.
+ */
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/claude/i, 3.5],
+  [/gpt-4o|o\d|chatgpt/i, 4],
+  [/gpt/i, 3.7],
+  [/gemini/i, 4],
+  [/llama|mixtral|mistral|qwen|deepseek/i, 3.4],
+];
+
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+// Words too common in questions to say anything about which file is meant
+const STOP_WORDS = new Set(
+  'the and for with this that what where when which does how why are was not can you your from into about work works file files code project function'.split(
+    ' ',
+  ),
+);
+
+function charsPerToken(model: string) {
+  return CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+}
+
+/** Estimated token count of `text` for `model`. */
+export function countTokens(text: string, model: string): number {
+  return Math.ceil(text.length / charsPerToken(model));
+}
+
+/** Tokens available for context in a model with `maxTokenAllowed`, after `usedTokens` of conversation. */
+export function getContextBudget(maxTokenAllowed: number, usedTokens = 0): number {
+  return Math.max(0, Math.min(MAX_CONTEXT_TOKENS, Math.floor(maxTokenAllowed * CONTEXT_WINDOW_SHARE) - usedTokens));
+}
+
+export function buildContextPlan(
+  candidates: ContextCandidate[],
+  { budget, model }: { budget: number; model: string },
+): ContextPlan {
+  const best = new Map<string, ContextCandidate>();
+
+  for (const candidate of candidates) {
+    const current = best.get(candidate.path);
+
+    if (candidate.content.trim() && (!current || rank(candidate) > rank(current))) {
+      best.set(candidate.path, candidate);
+    }
+  }
+
+  const ranked = [...best.values()]
+    .map((candidate) => ({ candidate, tokens: countTokens(candidate.content, model) }))
+    .sort((a, b) => rank(b.candidate) - rank(a.candidate) || a.tokens - b.tokens);
+
+  const plan: ContextPlan = { budget, used: 0, included: [], dropped: [] };
+
+  for (const { candidate, tokens } of ranked) {
+    const { path, source, content } = candidate;
+    const available = budget - plan.used - ENTRY_OVERHEAD_TOKENS;
+
+    if (tokens <= available) {
+      plan.included.push({ path, source, content, tokens, truncated: false });
+      plan.used += tokens + ENTRY_OVERHEAD_TOKENS;
+    } else if (TRUNCATABLE.has(source) && available >= MIN_TRUNCATED_TOKENS) {
+      const kept = truncateToTokens(content, available, model);
+
+      plan.included.push({ path, source, content: kept, tokens: countTokens(kept, model), truncated: true });
+      plan.used += countTokens(kept, model) + ENTRY_OVERHEAD_TOKENS;
+    } else {
+      plan.dropped.push({ path, source, tokens });
+    }
+  }
+
+  return plan;
+}
+
+/** The included entries as text for the system prompt. */
+export function formatContextPlan(plan: ContextPlan): string {
+  if (plan.included.length === 0) {
+    return '';
+  }
+
+  const files = plan.included.map(
+    ({ path, source, content, truncated }) =>
+      `<file path="${path}" source="${source}"${truncated ? ' truncated="true"' : ''}>\n${content}\n</file>`,
+  );
+
+  return `Project files relevant to the conversation:\n\n${files.join('\n\n')}`;
+}
+
+/** The latest messages of `history` whose tokens fit in `budget`, oldest first. */
+export function fitChatHistory<T extends { content: string }>(
+  history: T[],
+  { budget, model }: { budget: number; model: string },
+): T[] {
+  const kept: T[] = [];
+  let used = 0;
+
+  for (const message of [...history].reverse()) {
+    used += countTokens(message.content, model);
+
+    if (used > budget) {
+      break;
+    }
+
+    kept.unshift(message);
+  }
+
+  return kept;
+}
+
+/** Files that mention terms of `query`, best match first, as search candidates. */
+export function findSearchCandidates(
+  files: Array<{ path: string; content: string }>,
+  query: string,
+  limit = 8,
+): ContextCandidate[] {
+  const terms = [
+    ...new Set((query.toLowerCase().match(/[a-z_$][\w$.-]{2,}/g) ?? []).filter((term) => !STOP_WORDS.has(term))),
+  ];
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  return files
+    .map(({ path, content }) => {
+      const haystack = `${path}\n${content}`.toLowerCase();
+      const matched = terms.filter((term) => haystack.includes(term)).length;
+
+      return { path, content, source: 'search' as const, relevance: matched / terms.length };
+    })
+    .filter(({ relevance }) => relevance > 0)
+    .sort((a, b) => b.relevance - a.relevance || a.content.length - b.content.length)
+    .slice(0, limit);
+}
+
+function rank(candidate: ContextCandidate) {
+  return SOURCE_RANK[candidate.source] + Math.min(Math.max(candidate.relevance ?? 0, 0), 0.99);
+}
+
+// Whole lines from the top of `content` that fit in `tokens`
+function truncateToTokens(content: string, tokens: number, model: string) {
+  const limit = Math.floor(tokens * charsPerToken(model));
+  const cut = content.lastIndexOf('\n', limit);
+
+  return content.slice(0, cut > 0 ? cut : limit);
+}
@@ -0,0 +1,65 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { createOllama } from 'ollama-ai-provider';
+import type { ChatProviderSelection } from '~/types/chat';
+import { getProviderDefinition, resolveConnection } from './registry';
+import { STUB_BASE_URL, stubFetch } from './stub';
+
+export class ChatProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatProviderError';
+    Object.setPrototypeOf(this, ChatProviderError.prototype);
+  }
+}
+
+/**
+ * Language model for a provider of the registry. The key and URL sent by the
+ * client win over the ones in the server environment; a URL sent by the client
+ * is called with the client's key only.
+ */
+export function getChatModel(provider: ChatProviderSelection, env: Record<string, string | undefined>): LanguageModel {
+  const definition = getProviderDefinition(provider.name);
+
+  if (!definition) {
+    throw new ChatProviderError(`Unknown provider: ${provider.name}`);
+  }
+
+  const { apiKey, baseUrl } = resolveConnection(definition, provider, env);
+
+  if (definition.category === 'cloud' && !apiKey) {
+    throw new ChatProviderError(`No API key configured for ${provider.name}`);
+  }
+
+  switch (provider.name) {
+    case 'Anthropic':
+      return createAnthropic({ apiKey, baseURL: baseUrl })(provider.model);
+    case 'Google':
+      return createGoogleGenerativeAI({ apiKey, baseURL: baseUrl })(provider.model);
+    case 'Groq':
+    case 'XAI':
+      return createOpenAI({ apiKey, baseURL: baseUrl, compatibility: 'compatible' })(provider.model);
+    case 'OpenAI':
+      return createOpenAI({ apiKey, baseURL: baseUrl, compatibility: 'strict' })(provider.model);
+    case 'Ollama':
+      return createOllama({ baseURL: `${baseUrl}/api` })(provider.model);
+    case 'LMStudio':
+      return createOpenAI({ apiKey: 'lm-studio', baseURL: `${baseUrl}/v1`, compatibility: 'compatible' })(
+        provider.model,
+      );
+    case 'OpenAILike':
+      if (!baseUrl) {
+        throw new ChatProviderError('No base URL configured for OpenAILike');
+      }
+
+      return createOpenAI({ apiKey: apiKey ?? '', baseURL: baseUrl, compatibility: 'compatible' })(provider.model);
+    case 'Stub':
+      return createOpenAI({ apiKey: 'stub', baseURL: STUB_BASE_URL, compatibility: 'compatible', fetch: stubFetch })(
+        provider.model,
+      );
+    default:
+      throw new ChatProviderError(`No model factory for ${provider.name}`);
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConfiguredProviders, getProviderDefinition, listProviderModels, resolveConnection } from './registry';
+
+describe('provider registry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports the providers the server env configures', () => {
+    const configured = getConfiguredProviders({
+      OPENAI_API_KEY: 'sk-test',
+      OLLAMA_API_BASE_URL: 'http://ollama:11434',
+      ANTHROPIC_API_KEY: '',
+    });
+
+    const byName = Object.fromEntries(configured.map((provider) => [provider.name, provider.configMethod]));
+
+    expect(byName).toMatchObject({ OpenAI: 'environment', Ollama: 'environment', Anthropic: 'none', Stub: 'none' });
+  });
+
+  it('prefers the user settings over the env and keeps fixed URLs fixed', () => {
+    const ollama = getProviderDefinition('Ollama')!;
+    const openai = getProviderDefinition('OpenAI')!;
+    const env = { OLLAMA_API_BASE_URL: 'http://env:11434/', OPENAI_API_KEY: 'sk-env' };
+
+    expect(resolveConnection(ollama, {}, env)).toEqual({ apiKey: undefined, baseUrl: 'http://env:11434' });
+    expect(resolveConnection(ollama, { baseUrl: 'http://mine:1' }, env).baseUrl).toBe('http://mine:1');
+    expect(resolveConnection(openai, { apiKey: 'sk-user', baseUrl: 'http://evil' }, env)).toEqual({
+      apiKey: 'sk-user',
+      baseUrl: 'https://api.openai.com/v1',
+    });
+  });
+
+  it('only sends the server key to the env or default URL', () => {
+    const openaiLike = getProviderDefinition('OpenAILike')!;
+    const env = { OPENAI_LIKE_API_KEY: 'sk-env', OPENAI_LIKE_API_BASE_URL: 'http://env/v1' };
+
+    expect(resolveConnection(openaiLike, {}, env)).toEqual({ apiKey: 'sk-env', baseUrl: 'http://env/v1' });
+    expect(resolveConnection(openaiLike, { baseUrl: 'http://evil/v1' }, env)).toEqual({
+      apiKey: undefined,
+      baseUrl: 'http://evil/v1',
+    });
+    expect(resolveConnection(openaiLike, { apiKey: 'sk-user', baseUrl: 'http://mine/v1' }, env).apiKey).toBe('sk-user');
+  });
+
+  it('adds listed models to the static ones and falls back to them on failure', async () => {
+    const groq = getProviderDefinition('Groq')!;
+    const fetchMock = vi.fn(async () =>
+      Response.json({ data: [{ id: 'llama-3.1-8b-instant' }, { id: 'gemma2-9b-it', context_window: 8192 }] }),
+    );
+
+    vi.stubGlobal('fetch', fetchMock);
+
+    const models = await listProviderModels(groq, { apiKey: 'gsk', baseUrl: 'https://api.groq.com/openai/v1' });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.groq.com/openai/v1/models', expect.anything());
+    expect(models.map(({ name }) => name)).toEqual([...groq.staticModels.map(({ name }) => name), 'gemma2-9b-it']);
+    expect(models.at(-1)?.maxTokenAllowed).toBe(8192);
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('nope', { status: 500 })),
+    );
+
+    expect(await listProviderModels(groq, { apiKey: 'gsk', baseUrl: 'https://api.groq.com/openai/v1' })).toEqual(
+      groq.staticModels,
+    );
+  });
+});
@@ -0,0 +1,297 @@
+import type { IProviderSetting, ModelInfo, ProviderInfo } from '~/types/model';
+
+/**
+ * Every LLM provider the app knows about. `PROVIDER_LIST`, the provider
+ * settings tabs, `/api/configured-providers` and the chat route all read from
+ * here, so adding a provider means adding an entry (and a case in `getChatModel`).
+ * Safe to import in the browser: nothing here touches a provider SDK.
+ */
+
+export type ProviderCategory = 'cloud' | 'local';
+
+export interface ProviderDefinition {
+  name: string;
+  category: ProviderCategory;
+
+  // Server env variable holding the API key; providers without one need no key
+  apiKeyEnv?: string;
+
+  // Server env variable overriding `baseUrl`
+  baseUrlEnv?: string;
+  baseUrl?: string;
+
+  // Whether the user may point the provider at another URL
+  urlConfigurable?: boolean;
+
+  staticModels: ModelInfo[];
+
+  // Context window assumed for listed models that do not report one
+  defaultMaxTokens: number;
+
+  // Models the provider serves right now, from its API
+  listModels?: (connection: ProviderConnection) => Promise<ModelInfo[]>;
+
+  getApiKeyLink?: string;
+  labelForGetApiKey?: string;
+}
+
+export interface ProviderConnection {
+  apiKey?: string;
+  baseUrl: string;
+}
+
+export interface ConfiguredProvider {
+  name: string;
+  isConfigured: boolean;
+  configMethod: 'environment' | 'none';
+}
+
+const model = (provider: string, name: string, label: string, maxTokenAllowed: number): ModelInfo => ({
+  name,
+  label,
+  provider,
+  maxTokenAllowed,
+});
+
+export const PROVIDER_REGISTRY: ProviderDefinition[] = [
+  {
+    name: 'Anthropic',
+    category: 'cloud',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    baseUrl: 'https://api.anthropic.com/v1',
+    staticModels: [
+      model('Anthropic', 'claude-3-5-sonnet-latest', 'Claude 3.5 Sonnet', 200000),
+      model('Anthropic', 'claude-3-5-haiku-latest', 'Claude 3.5 Haiku', 200000),
+      model('Anthropic', 'claude-3-opus-latest', 'Claude 3 Opus', 200000),
+    ],
+    defaultMaxTokens: 200000,
+    listModels: async ({ apiKey, baseUrl }) => {
+      const data = await getJson<{ data: Array<{ id: string; display_name?: string }> }>(`${baseUrl}/models`, {
+        'x-api-key': apiKey ?? '',
+        'anthropic-version': '2023-06-01',
+      });
+
+      return data.data.map(({ id, display_name: displayName }) => model('Anthropic', id, displayName ?? id, 200000));
+    },
+    getApiKeyLink: 'https://console.anthropic.com/settings/keys',
+    labelForGetApiKey: 'Get Anthropic API Key',
+  },
+  {
+    name: 'Google',
+    category: 'cloud',
+    apiKeyEnv: 'GOOGLE_GENERATIVE_AI_API_KEY',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    staticModels: [
+      model('Google', 'gemini-1.5-pro-latest', 'Gemini 1.5 Pro', 2000000),
+      model('Google', 'gemini-1.5-flash-latest', 'Gemini 1.5 Flash', 1000000),
+    ],
+    defaultMaxTokens: 1000000,
+    listModels: async ({ apiKey, baseUrl }) => {
+      const data = await getJson<{
+        models: Array<{
+          name: string;
+          displayName?: string;
+          inputTokenLimit?: number;
+          outputTokenLimit?: number;
+          supportedGenerationMethods?: string[];
+        }>;
+      }>(`${baseUrl}/models?key=${encodeURIComponent(apiKey ?? '')}`);
+
+      return data.models
+        .filter(({ supportedGenerationMethods }) => supportedGenerationMethods?.includes('generateContent') ?? true)
+        .map(({ name, displayName, inputTokenLimit, outputTokenLimit }) => ({
+          ...model('Google', name.replace(/^models\//, ''), displayName ?? name, inputTokenLimit ?? 1000000),
+          maxCompletionTokens: outputTokenLimit,
+        }));
+    },
+    getApiKeyLink: 'https://aistudio.google.com/app/apikey',
+    labelForGetApiKey: 'Get Google AI Key',
+  },
+  {
+    name: 'Groq',
+    category: 'cloud',
+    apiKeyEnv: 'GROQ_API_KEY',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    staticModels: [
+      model('Groq', 'llama-3.1-70b-versatile', 'Llama 3.1 70B', 131072),
+      model('Groq', 'llama-3.1-8b-instant', 'Llama 3.1 8B', 131072),
+      model('Groq', 'mixtral-8x7b-32768', 'Mixtral 8x7B', 32768),
+    ],
+    defaultMaxTokens: 131072,
+    listModels: (connection) => listOpenAICompatibleModels('Groq', connection, 131072),
+    getApiKeyLink: 'https://console.groq.com/keys',
+    labelForGetApiKey: 'Get Groq API Key',
+  },
+  {
+    name: 'XAI',
+    category: 'cloud',
+    apiKeyEnv: 'XAI_API_KEY',
+    baseUrl: 'https://api.x.ai/v1',
+    staticModels: [model('XAI', 'grok-beta', 'Grok Beta', 131072)],
+    defaultMaxTokens: 131072,
+    listModels: (connection) => listOpenAICompatibleModels('XAI', connection, 131072),
+    getApiKeyLink: 'https://console.x.ai/',
+    labelForGetApiKey: 'Get xAI API Key',
+  },
+  {
+    name: 'OpenAI',
+    category: 'cloud',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrl: 'https://api.openai.com/v1',
+    staticModels: [model('OpenAI', 'gpt-4o', 'GPT-4o', 128000), model('OpenAI', 'gpt-4o-mini', 'GPT-4o Mini', 128000)],
+    defaultMaxTokens: 128000,
+    listModels: async (connection) =>
+      (await listOpenAICompatibleModels('OpenAI', connection, 128000)).filter(({ name }) =>
+        /^(gpt|o\d|chatgpt)/.test(name),
+      ),
+    getApiKeyLink: 'https://platform.openai.com/api-keys',
+    labelForGetApiKey: 'Get OpenAI API Key',
+  },
+  {
+    name: 'Ollama',
+    category: 'local',
+    baseUrlEnv: 'OLLAMA_API_BASE_URL',
+    baseUrl: 'http://127.0.0.1:11434',
+    urlConfigurable: true,
+    staticModels: [],
+    defaultMaxTokens: 32768,
+    listModels: async ({ baseUrl }) => {
+      const data = await getJson<{ models: Array<{ name: string }> }>(`${baseUrl}/api/tags`);
+      return data.models.map(({ name }) => model('Ollama', name, name, 32768));
+    },
+  },
+  {
+    name: 'LMStudio',
+    category: 'local',
+    baseUrlEnv: 'LMSTUDIO_API_BASE_URL',
+    baseUrl: 'http://127.0.0.1:1234',
+    urlConfigurable: true,
+    staticModels: [],
+    defaultMaxTokens: 32768,
+    listModels: ({ apiKey, baseUrl }) =>
+      listOpenAICompatibleModels('LMStudio', { apiKey, baseUrl: `${baseUrl}/v1` }, 32768),
+  },
+  {
+    name: 'OpenAILike',
+    category: 'local',
+    apiKeyEnv: 'OPENAI_LIKE_API_KEY',
+    baseUrlEnv: 'OPENAI_LIKE_API_BASE_URL',
+    urlConfigurable: true,
+    staticModels: [],
+    defaultMaxTokens: 32768,
+    listModels: (connection) => listOpenAICompatibleModels('OpenAILike', connection, 32768),
+  },
+  {
+    // Scripted OpenAI-compatible endpoint for trying the chat offline
+    name: 'Stub',
+    category: 'local',
+    staticModels: [model('Stub', 'stub-echo', 'Stub Echo', 8192)],
+    defaultMaxTokens: 8192,
+  },
+];
+
+export function getProviderDefinition(name: string) {
+  return PROVIDER_REGISTRY.find((provider) => provider.name === name);
+}
+
+/** The provider as the settings store and the UI see it. */
+export function toProviderInfo(provider: ProviderDefinition): ProviderInfo {
+  return {
+    name: provider.name,
+    category: provider.category,
+    urlConfigurable: provider.urlConfigurable,
+    staticModels: provider.staticModels,
+    getDynamicModels: provider.listModels
+      ? (_providerName, apiKeys, providerSettings, serverEnv) =>
+          listProviderModels(provider, resolveConnection(provider, providerSettings, serverEnv, apiKeys))
+      : undefined,
+    getApiKeyLink: provider.getApiKeyLink,
+    labelForGetApiKey: provider.labelForGetApiKey,
+  };
+}
+
+/**
+ * Key and URL to reach a provider with: the user's settings first, then the
+ * keys from the cookie, then the server env, then the registry default. The
+ * server's key is never sent to a URL the client chose; that takes the
+ * client's own key.
+ */
+export function resolveConnection(
+  provider: ProviderDefinition,
+  settings?: IProviderSetting,
+  env: Record<string, string | undefined> = {},
+  apiKeys: Record<string, string> = {},
+): ProviderConnection {
+  const clientBaseUrl = provider.urlConfigurable ? settings?.baseUrl : undefined;
+  const clientApiKey = settings?.apiKey || apiKeys[provider.name];
+  const apiKey = clientApiKey || (!clientBaseUrl && provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined);
+  const baseUrl =
+    clientBaseUrl || (provider.baseUrlEnv ? env[provider.baseUrlEnv] : undefined) || provider.baseUrl || '';
+
+  return { apiKey: apiKey || undefined, baseUrl: baseUrl.replace(/\/+$/, '') };
+}
+
+/** Static models plus the ones the provider lists, without duplicates. Listing failures leave the static ones. */
+export async function listProviderModels(
+  provider: ProviderDefinition,
+  connection: ProviderConnection,
+): Promise<ModelInfo[]> {
+  if (!provider.listModels || !connection.baseUrl || (provider.category === 'cloud' && !connection.apiKey)) {
+    return provider.staticModels;
+  }
+
+  try {
+    const listed = await provider.listModels(connection);
+    const known = new Set(provider.staticModels.map(({ name }) => name));
+
+    return [...provider.staticModels, ...listed.filter(({ name }) => !known.has(name))];
+  } catch {
+    return provider.staticModels;
+  }
+}
+
+/** Which providers the server env sets up: a key for cloud providers, a key or URL for local ones. */
+export function getConfiguredProviders(env: Record<string, string | undefined>): ConfiguredProvider[] {
+  return PROVIDER_REGISTRY.map((provider) => {
+    const envKeys = [provider.apiKeyEnv, provider.category === 'local' ? provider.baseUrlEnv : undefined];
+    const isConfigured = envKeys.some((key) => key && env[key]);
+
+    return { name: provider.name, isConfigured, configMethod: isConfigured ? 'environment' : 'none' };
+  });
+}
+
+/** Token limits of a model, falling back to the provider's default for unknown ones. */
+export function getModelLimits(providerName: string, modelName: string) {
+  const provider = getProviderDefinition(providerName);
+  const known = provider?.staticModels.find(({ name }) => name === modelName);
+
+  return {
+    maxTokenAllowed: known?.maxTokenAllowed ?? provider?.defaultMaxTokens ?? 8192,
+    maxCompletionTokens: known?.maxCompletionTokens,
+  };
+}
+
+async function listOpenAICompatibleModels(
+  provider: string,
+  { apiKey, baseUrl }: ProviderConnection,
+  maxTokenAllowed: number,
+): Promise<ModelInfo[]> {
+  const data = await getJson<{ data: Array<{ id: string; context_window?: number }> }>(
+    `${baseUrl}/models`,
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  );
+
+  return data.data.map(({ id, context_window: contextWindow }) =>
+    model(provider, id, id, contextWindow ?? maxTokenAllowed),
+  );
+}
+
+async function getJson<T>(url: string, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(10_000) });
+
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
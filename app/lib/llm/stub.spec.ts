@@ -0,0 +1,58 @@
+import { streamText } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { getChatModel } from './model';
+import { chatTools } from './tools';
+
+const stubModel = () => getChatModel({ name: 'Stub', model: 'stub-echo' }, {});
+
+describe('offline stub provider', () => {
+  it('streams a reply through the AI SDK', async () => {
+    const result = streamText({ model: stubModel(), messages: [{ role: 'user', content: 'Hello there' }] });
+    const chunks: string[] = [];
+
+    for await (const chunk of result.textStream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe('Stub reply to: Hello there');
+    expect(await result.finishReason).toBe('stop');
+  });
+
+  it('calls a tool and answers with its result', async () => {
+    const call = streamText({
+      model: stubModel(),
+      messages: [{ role: 'user', content: '/read src/index.ts' }],
+      tools: chatTools,
+    });
+
+    await call.consumeStream();
+    expect(await call.finishReason).toBe('tool-calls');
+
+    const [toolCall] = await call.toolCalls;
+
+    expect(toolCall).toMatchObject({ toolName: 'readFile', args: { path: 'src/index.ts' } });
+
+    const answer = streamText({
+      model: stubModel(),
+      messages: [
+        { role: 'user', content: '/read src/index.ts' },
+        { role: 'assistant', content: [toolCall] },
+        {
+          role: 'tool',
+          content: [
+            { type: 'tool-result', toolCallId: toolCall.toolCallId, toolName: 'readFile', result: 'export {};' },
+          ],
+        },
+      ],
+      tools: chatTools,
+    });
+
+    await answer.consumeStream();
+    expect(await answer.text).toBe('`readFile` returned:\n\n```\nexport {};\n```');
+  });
+
+  it('refuses providers without a key', () => {
+    expect(() => getChatModel({ name: 'OpenAI', model: 'gpt-4o' }, {})).toThrow('No API key configured for OpenAI');
+  });
+});
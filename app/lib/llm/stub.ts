@@ -0,0 +1,187 @@
+/**
+ * OpenAI-compatible chat completions endpoint with scripted answers, so the
+ * chat can be exercised without network access or an API key. It echoes the
+ * last user message, and calls a tool when the message starts with one of
+ * `COMMANDS`, e.g. `/read package.json`. After a tool result it quotes it back.
+ */
+
+export const STUB_BASE_URL = 'http://stub.local/v1';
+
+const COMMANDS: Record<string, { tool: string; argument?: string }> = {
+  '/read': { tool: 'readFile', argument: 'path' },
+  '/ls': { tool: 'listDirectory', argument: 'path' },
+  '/search': { tool: 'searchFiles', argument: 'query' },
+  '/run': { tool: 'runCommand', argument: 'command' },
+};
+
+// Longest tool result quoted back
+const MAX_QUOTE_LENGTH = 2000;
+
+interface StubMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content?: string | Array<{ type: string; text?: string }> | null;
+  tool_calls?: Array<{ id: string; function: { name: string } }>;
+  tool_call_id?: string;
+}
+
+interface StubRequest {
+  model: string;
+  messages: StubMessage[];
+  stream?: boolean;
+  tools?: Array<{ function: { name: string } }>;
+}
+
+type StubReply = { content: string } | { toolCall: { id: string; name: string; arguments: string } };
+
+export const stubFetch: typeof fetch = (input, init) => handleStubCompletion(new Request(input, init));
+
+export async function handleStubCompletion(request: Request): Promise<Response> {
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  let body: StubRequest;
+
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: { message: 'Invalid JSON body' } }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.messages)) {
+    return Response.json({ error: { message: '`messages` is required' } }, { status: 400 });
+  }
+
+  const reply = scriptReply(body);
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const usage = { prompt_tokens: countTokens(body.messages), completion_tokens: countReplyTokens(reply) };
+  const finishReason = 'toolCall' in reply ? 'tool_calls' : 'stop';
+
+  if (!body.stream) {
+    const message =
+      'toolCall' in reply
+        ? {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: reply.toolCall.id, type: 'function', function: toFunction(reply.toolCall) }],
+          }
+        : { role: 'assistant', content: reply.content };
+
+    return Response.json({
+      id,
+      object: 'chat.completion',
+      created,
+      model: body.model,
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens },
+    });
+  }
+
+  const chunk = (delta: Record<string, unknown>, finish: string | null = null, extra: Record<string, unknown> = {}) =>
+    `data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finish }],
+      ...extra,
+    })}\n\n`;
+
+  const events = [chunk({ role: 'assistant', content: '' })];
+
+  if ('toolCall' in reply) {
+    events.push(
+      chunk({
+        tool_calls: [{ index: 0, id: reply.toolCall.id, type: 'function', function: toFunction(reply.toolCall) }],
+      }),
+    );
+  } else {
+    for (const word of reply.content.match(/\S+\s*|\s+/g) ?? []) {
+      events.push(chunk({ content: word }));
+    }
+  }
+
+  events.push(
+    chunk({}, finishReason, { usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens } }),
+  );
+  events.push('data: [DONE]\n\n');
+
+  const encoder = new TextEncoder();
+
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(event));
+        }
+
+        controller.close();
+      },
+    }),
+    { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } },
+  );
+}
+
+function scriptReply({ messages, tools = [] }: StubRequest): StubReply {
+  const last = messages[messages.length - 1];
+
+  if (last?.role === 'tool') {
+    const call = messages
+      .flatMap((message) => message.tool_calls ?? [])
+      .find((toolCall) => toolCall.id === last.tool_call_id);
+    const result = unquote(textOf(last.content));
+    const quoted = result.length > MAX_QUOTE_LENGTH ? `${result.slice(0, MAX_QUOTE_LENGTH)}\n…` : result;
+
+    return { content: `\`${call?.function.name ?? 'tool'}\` returned:\n\n\`\`\`\n${quoted}\n\`\`\`` };
+  }
+
+  const text = textOf([...messages].reverse().find((message) => message.role === 'user')?.content).trim();
+  const [command, ...rest] = text.split(/\s+/);
+  const script = COMMANDS[command];
+
+  if (script && tools.some(({ function: { name } }) => name === script.tool)) {
+    const argument = rest.join(' ');
+
+    return {
+      toolCall: {
+        id: `call_stub_${messages.length}`,
+        name: script.tool,
+        arguments: JSON.stringify(argument && script.argument ? { [script.argument]: argument } : {}),
+      },
+    };
+  }
+
+  return { content: text ? `Stub reply to: ${text}` : 'Stub reply.' };
+}
+
+function textOf(content: StubMessage['content']) {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return (content ?? []).map((part) => part.text ?? '').join('');
+}
+
+// Tool results arrive JSON-encoded; string results read better without the quotes
+function unquote(result: string) {
+  try {
+    const value = JSON.parse(result);
+    return typeof value === 'string' ? value : result;
+  } catch {
+    return result;
+  }
+}
+
+function toFunction({ name, arguments: args }: { name: string; arguments: string }) {
+  return { name, arguments: args };
+}
+
+// Rough count, enough for usage numbers: about four characters a token
+function countTokens(messages: StubMessage[]) {
+  return messages.reduce((total, message) => total + Math.ceil(textOf(message.content).length / 4), 0);
+}
+
+function countReplyTokens(reply: StubReply) {
+  return Math.ceil(('toolCall' in reply ? reply.toolCall.arguments : reply.content).length / 4);
+}
@@ -0,0 +1,42 @@
+import { tool, type Tool } from 'ai';
+import { z } from 'zod';
+import type { ChatToolName } from '~/types/chat';
+
+/**
+ * Tools offered to the model. None of them has an `execute` function: the
+ * WebContainer lives in the browser, so the stream ends at a tool call and the
+ * client runs it and sends the result back with the next request.
+ */
+export const chatTools: Record<ChatToolName, Tool> = {
+  readFile: tool({
+    description: 'Read a file of the project. Paths are relative to the project root.',
+    parameters: z.object({
+      path: z.string().describe('Path of the file, e.g. src/index.ts'),
+    }),
+  }),
+  searchFiles: tool({
+    description: 'Search the text of all project files and return the matching lines with their paths.',
+    parameters: z.object({
+      query: z.string().describe('Text to look for'),
+      isRegex: z.boolean().optional().describe('Treat the query as a regular expression'),
+      caseSensitive: z.boolean().optional(),
+    }),
+  }),
+  listDirectory: tool({
+    description: 'List the files and folders in a directory of the project.',
+    parameters: z.object({
+      path: z.string().optional().describe('Directory relative to the project root; the root when left out'),
+    }),
+  }),
+  runCommand: tool({
+    description:
+      'Run a shell command in the project directory and return its output and exit code. The user may have to approve it.',
+    parameters: z.object({
+      command: z.string().describe('Command line, e.g. npm test'),
+    }),
+  }),
+};
+
+export const CHAT_SYSTEM_PROMPT = `You are MindVex AI, an assistant for the project open in the user's editor.
+Answer questions about the code and help the user change it. Use the tools to look at files instead of guessing
+their contents, and keep command runs short; long-running servers are not supported. Reply in markdown.`;
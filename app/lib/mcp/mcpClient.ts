@@ -107,6 +107,10 @@ export interface ChatHistoryItem {
   content: string;
 }
 
+/**
+ * `context` is project context picked in the browser; the chat tool has no
+ * field for it, so it goes ahead of the question in the message.
+ */
 export async function mcpChat(
   repoUrl: string,
   message: string,
@@ -117,11 +121,16 @@ export async function mcpChat(
     apiKey?: string;
     baseUrl?: string;
   },
+  context?: string,
 ): Promise<McpChatResponse> {
   const res = await fetch(`${BASE_URL}/api/mcp/tools/chat?repoUrl=${encodeURIComponent(repoUrl)}`, {
     method: 'POST',
     headers: authHeaders(),
-    body: JSON.stringify({ message, history, provider: providerInfo }),
+    body: JSON.stringify({
+      message: context ? `${context}\n\nQuestion: ${message}` : message,
+      history,
+      provider: providerInfo,
+    }),
   });
 
   if (!res.ok) {
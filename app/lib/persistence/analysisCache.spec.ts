@@ -0,0 +1,162 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearAnalysisCache,
+  enforceCacheLimit,
+  getCachedAnalysis,
+  getCachedGraph,
+  getCachedParse,
+  invalidateRepoCache,
+  setCachedAnalysis,
+  setCachedGraph,
+  setCachedParse,
+} from './analysisCache';
+import type { GraphResponse } from '~/lib/graph/graphClient';
+import type { ParseResult } from '~/lib/unifiedParser/treeSitterParser';
+import type { ProjectAnalysis } from '~/lib/unifiedParser/unifiedParser';
+
+type StoredRecord = Record<string, unknown>;
+
+interface FakeRequest<T> {
+  result?: T;
+  onsuccess?: (event: { target: unknown }) => void;
+}
+
+interface FakeTransaction {
+  oncomplete?: () => void;
+  objectStore(name: string): ReturnType<typeof objectStore>;
+}
+
+/*
+ * In-memory stand-in for the part of IndexedDB the cache uses. Requests
+ * succeed on a microtask and a transaction completes once none are left.
+ */
+const records = new Map<string, Map<unknown, StoredRecord>>();
+const keyPaths = new Map<string, string | undefined>();
+
+function objectStore(name: string, track: <T>(run: () => T) => FakeRequest<T>) {
+  const store = records.get(name)!;
+
+  return {
+    get: (key: unknown) => track(() => store.get(key)),
+    put: (value: StoredRecord, key?: unknown) => track(() => store.set(key ?? value[keyPaths.get(name)!], value)),
+    delete: (key: unknown) => track(() => store.delete(key)),
+    clear: () => track(() => store.clear()),
+    index: (field: string) => ({
+      getAll: (query?: unknown) =>
+        track(() =>
+          [...store.values()]
+            .filter((value) => query === undefined || value[field] === query)
+            .sort((a, b) => Number(a[field]) - Number(b[field])),
+        ),
+    }),
+  };
+}
+
+function transaction(): FakeTransaction {
+  let pending = 0;
+
+  const tx: FakeTransaction = {
+    objectStore: (name) => objectStore(name, track),
+  };
+
+  function track<T>(run: () => T): FakeRequest<T> {
+    const request: FakeRequest<T> = {};
+
+    pending++;
+    queueMicrotask(() => {
+      request.result = run();
+      request.onsuccess?.({ target: request });
+
+      if (--pending === 0) {
+        // Later requests of the same transaction are made from the callbacks above
+        setTimeout(() => pending === 0 && tx.oncomplete?.());
+      }
+    });
+
+    return request;
+  }
+
+  return tx;
+}
+
+const database = {
+  objectStoreNames: { contains: (name: string) => records.has(name) },
+  createObjectStore(name: string, options?: { keyPath?: string }) {
+    records.set(name, new Map());
+    keyPaths.set(name, options?.keyPath);
+
+    return { createIndex: () => undefined };
+  },
+  transaction,
+};
+
+const fakeIndexedDB = {
+  open() {
+    const request = { result: database } as FakeRequest<typeof database> & {
+      onupgradeneeded?: (event: unknown) => void;
+    };
+
+    queueMicrotask(() => {
+      request.onupgradeneeded?.({ target: request });
+      request.onsuccess?.({ target: request });
+    });
+
+    return request;
+  },
+};
+
+const parse = (filePath: string) => ({ filePath }) as unknown as ParseResult;
+const size = JSON.stringify(parse('a.ts')).length;
+
+describe('analysisCache', () => {
+  let now = 0;
+
+  beforeAll(() => {
+    vi.stubGlobal('indexedDB', fakeIndexedDB);
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+    await clearAnalysisCache();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('evicts the least recently used entries first', async () => {
+    await setCachedParse('a', 'typescript', parse('a.ts'));
+    await setCachedParse('b', 'typescript', parse('b.ts'));
+    await setCachedParse('c', 'typescript', parse('c.ts'));
+
+    // Reading `a` makes `b` the oldest entry
+    await getCachedParse('a', 'typescript');
+    await enforceCacheLimit(size * 2);
+
+    expect(await getCachedParse('a', 'typescript')).toEqual(parse('a.ts'));
+    expect(await getCachedParse('b', 'typescript')).toBeUndefined();
+    expect(await getCachedParse('c', 'typescript')).toEqual(parse('c.ts'));
+  });
+
+  it('keeps only the latest commit of a repository until it is invalidated', async () => {
+    const repo = 'https://github.com/acme/app';
+    const graph = { nodes: [] } as unknown as GraphResponse;
+    const analysis = { files: [] } as unknown as ProjectAnalysis;
+
+    await setCachedGraph(repo, 'first', graph);
+    await setCachedGraph(repo, 'second', graph);
+    await setCachedAnalysis(repo, 'second', analysis);
+    await setCachedParse('a', 'typescript', parse('a.ts'));
+
+    expect(await getCachedGraph(repo, 'first')).toBeUndefined();
+    expect(await getCachedGraph(repo, 'second')).toEqual(graph);
+
+    await invalidateRepoCache(repo);
+
+    expect(await getCachedGraph(repo, 'second')).toBeUndefined();
+    expect(await getCachedAnalysis(repo, 'second')).toBeUndefined();
+
+    // Parse results are shared between repositories
+    expect(await getCachedParse('a', 'typescript')).toEqual(parse('a.ts'));
+  });
+});
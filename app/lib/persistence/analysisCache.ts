@@ -0,0 +1,318 @@
+/**
+ * analysisCache.ts
+ *
+ * IndexedDB-backed cache for code analysis results so re-opening a repository
+ * does not rebuild its graph or re-parse unchanged files.
+ *
+ * - graphs / analyses are keyed by repo URL + commit hash
+ * - parse results are keyed by file content hash + language
+ *
+ * Every entry is tracked in the `entries` store with its approximate size and
+ * last access time; the least recently used entries are evicted once the
+ * cache grows past `MAX_CACHE_BYTES`.
+ */
+
+import type { GraphResponse } from '~/lib/graph/graphClient';
+import type { ProjectAnalysis } from '~/lib/unifiedParser/unifiedParser';
+import type { ParseResult, SupportedLanguage } from '~/lib/unifiedParser/treeSitterParser';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('AnalysisCache');
+
+const DB_NAME = 'mindvexAnalysisCache';
+const DB_VERSION = 1;
+
+const EVICTION_DELAY_MS = 2000;
+
+// Bump when the shape of ParseResult changes so stale parses are not reused
+const PARSE_RESULT_VERSION = 2;
+
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+
+type PayloadStore = 'graphs' | 'analyses' | 'parses';
+
+interface CacheEntry {
+  // `${store}:${key}`
+  id: string;
+  store: PayloadStore;
+  key: string;
+  repoUrl?: string;
+  size: number;
+  accessedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | undefined> | null = null;
+let evictionTimer: ReturnType<typeof setTimeout> | null = null;
+
+function openAnalysisDatabase(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(undefined);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        for (const name of ['graphs', 'analyses', 'parses']) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+
+        if (!db.objectStoreNames.contains('entries')) {
+          const entries = db.createObjectStore('entries', { keyPath: 'id' });
+          entries.createIndex('accessedAt', 'accessedAt');
+          entries.createIndex('repoUrl', 'repoUrl');
+        }
+      };
+
+      request.onsuccess = (event: Event) => {
+        resolve((event.target as IDBOpenDBRequest).result);
+      };
+
+      request.onerror = (event: Event) => {
+        logger.error((event.target as IDBOpenDBRequest).error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+export function repoCacheKey(repoUrl: string, commitHash?: string): string {
+  return `${repoUrl}@${commitHash || 'HEAD'}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function readEntry<T>(store: PayloadStore, key: string): Promise<T | undefined> {
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return undefined;
+  }
+
+  try {
+    const transaction = db.transaction([store, 'entries'], 'readwrite');
+    const value = await requestToPromise<T | undefined>(transaction.objectStore(store).get(key));
+
+    if (value !== undefined) {
+      // Touch the entry so it survives the next eviction pass
+      const entries = transaction.objectStore('entries');
+      const entry = await requestToPromise<CacheEntry | undefined>(entries.get(`${store}:${key}`));
+
+      if (entry) {
+        entries.put({ ...entry, accessedAt: Date.now() });
+      }
+    }
+
+    await transactionDone(transaction);
+
+    return value;
+  } catch (error) {
+    logger.error(`Failed to read ${store} cache entry`, error);
+    return undefined;
+  }
+}
+
+async function writeEntry(store: PayloadStore, key: string, value: unknown, repoUrl?: string): Promise<void> {
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  try {
+    const size = JSON.stringify(value).length;
+
+    // A single entry larger than the whole cache would just evict everything else
+    if (size > MAX_CACHE_BYTES) {
+      logger.warn(`Skipping ${store} cache entry of ${size} bytes`);
+      return;
+    }
+
+    const transaction = db.transaction([store, 'entries'], 'readwrite');
+    transaction.objectStore(store).put(value, key);
+    transaction.objectStore('entries').put({
+      id: `${store}:${key}`,
+      store,
+      key,
+      repoUrl,
+      size,
+      accessedAt: Date.now(),
+    } satisfies CacheEntry);
+
+    await transactionDone(transaction);
+    scheduleEviction();
+  } catch (error) {
+    logger.error(`Failed to write ${store} cache entry`, error);
+  }
+}
+
+async function deleteEntries(db: IDBDatabase, entries: CacheEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const transaction = db.transaction(['graphs', 'analyses', 'parses', 'entries'], 'readwrite');
+
+  for (const entry of entries) {
+    transaction.objectStore(entry.store).delete(entry.key);
+    transaction.objectStore('entries').delete(entry.id);
+  }
+
+  await transactionDone(transaction);
+}
+
+async function getRepoEntries(db: IDBDatabase, repoUrl: string): Promise<CacheEntry[]> {
+  const transaction = db.transaction('entries', 'readonly');
+  const index = transaction.objectStore('entries').index('repoUrl');
+
+  return requestToPromise<CacheEntry[]>(index.getAll(repoUrl));
+}
+
+/**
+ * Store a repo-level entry and drop the entries cached for other commits of
+ * the same repository, which can never be hit again once the repo moved on.
+ */
+async function writeRepoEntry(
+  store: 'graphs' | 'analyses',
+  repoUrl: string,
+  commitHash: string | undefined,
+  value: unknown,
+) {
+  const key = repoCacheKey(repoUrl, commitHash);
+  await writeEntry(store, key, value, repoUrl);
+
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  try {
+    const stale = (await getRepoEntries(db, repoUrl)).filter((entry) => entry.store === store && entry.key !== key);
+    await deleteEntries(db, stale);
+  } catch (error) {
+    logger.error('Failed to prune stale cache entries', error);
+  }
+}
+
+function scheduleEviction() {
+  if (evictionTimer) {
+    return;
+  }
+
+  evictionTimer = setTimeout(() => {
+    evictionTimer = null;
+    enforceCacheLimit().catch((error) => logger.error('Cache eviction failed', error));
+  }, EVICTION_DELAY_MS);
+}
+
+/**
+ * Evict least recently used entries until the cache fits in `maxBytes`.
+ */
+export async function enforceCacheLimit(maxBytes = MAX_CACHE_BYTES): Promise<void> {
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction('entries', 'readonly');
+  const entries = await requestToPromise<CacheEntry[]>(transaction.objectStore('entries').index('accessedAt').getAll());
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: CacheEntry[] = [];
+
+  // `getAll` on the index returns entries oldest first
+  for (const entry of entries) {
+    if (total <= maxBytes) {
+      break;
+    }
+
+    evicted.push(entry);
+    total -= entry.size;
+  }
+
+  if (evicted.length > 0) {
+    logger.info(`Evicting ${evicted.length} analysis cache entries`);
+    await deleteEntries(db, evicted);
+  }
+}
+
+export function getCachedGraph(repoUrl: string, commitHash?: string): Promise<GraphResponse | undefined> {
+  return readEntry<GraphResponse>('graphs', repoCacheKey(repoUrl, commitHash));
+}
+
+export function setCachedGraph(repoUrl: string, commitHash: string | undefined, graph: GraphResponse) {
+  return writeRepoEntry('graphs', repoUrl, commitHash, graph);
+}
+
+export function getCachedAnalysis(repoUrl: string, commitHash?: string): Promise<ProjectAnalysis | undefined> {
+  return readEntry<ProjectAnalysis>('analyses', repoCacheKey(repoUrl, commitHash));
+}
+
+export function setCachedAnalysis(repoUrl: string, commitHash: string | undefined, analysis: ProjectAnalysis) {
+  return writeRepoEntry('analyses', repoUrl, commitHash, analysis);
+}
+
+export function getCachedParse(contentHash: string, language: SupportedLanguage): Promise<ParseResult | undefined> {
+  return readEntry<ParseResult>('parses', `v${PARSE_RESULT_VERSION}:${language}:${contentHash}`);
+}
+
+export function setCachedParse(contentHash: string, language: SupportedLanguage, result: ParseResult) {
+  return writeEntry('parses', `v${PARSE_RESULT_VERSION}:${language}:${contentHash}`, result);
+}
+
+/**
+ * Drop everything cached for a repository (all commits). Parse results are
+ * shared between repositories by content hash and are left to LRU eviction.
+ */
+export async function invalidateRepoCache(repoUrl: string): Promise<void> {
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  try {
+    await deleteEntries(db, await getRepoEntries(db, repoUrl));
+  } catch (error) {
+    logger.error('Failed to invalidate repository cache', error);
+  }
+}
+
+/** Remove every cached graph, analysis and parse result. */
+export async function clearAnalysisCache(): Promise<void> {
+  const db = await openAnalysisDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction(['graphs', 'analyses', 'parses', 'entries'], 'readwrite');
+
+  for (const name of ['graphs', 'analyses', 'parses', 'entries']) {
+    transaction.objectStore(name).clear();
+  }
+
+  await transactionDone(transaction);
+}
@@ -1,7 +1,7 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
-import type { Snapshot } from './types'; // Import Snapshot type
+import type { ArtifactCheckpoint, Snapshot } from './types'; // Import Snapshot type
 
 export interface IChatMetadata {
   gitUrl: string;
@@ -19,7 +19,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('mindvexHistory', 2);
+    const request = indexedDB.open('mindvexHistory', 3);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +38,13 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        if (!db.objectStoreNames.contains('checkpoints')) {
+          const store = db.createObjectStore('checkpoints', { keyPath: 'id' });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -123,10 +130,13 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
+    const transaction = db.transaction(['chats', 'snapshots', 'checkpoints'], 'readwrite'); // Add snapshots store to transaction
     const chatStore = transaction.objectStore('chats');
     const snapshotStore = transaction.objectStore('snapshots');
 
+    // Checkpoints go with the chat; the transaction fails as a whole if this does
+    deleteCheckpointsByChat(transaction.objectStore('checkpoints'), id);
+
     const deleteChatRequest = chatStore.delete(id);
     const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
 
@@ -341,3 +351,50 @@ export async function deleteSnapshot(db: IDBDatabase, chatId: string): Promise<v
     };
   });
 }
+
+export async function getCheckpoints(db: IDBDatabase, chatId: string): Promise<ArtifactCheckpoint[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readonly');
+    const store = transaction.objectStore('checkpoints');
+    const request = store.index('chatId').getAll(chatId);
+
+    request.onsuccess = () => resolve(request.result as ArtifactCheckpoint[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setCheckpoint(db: IDBDatabase, checkpoint: ArtifactCheckpoint): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readwrite');
+    const store = transaction.objectStore('checkpoints');
+    const request = store.put(checkpoint);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteCheckpoints(db: IDBDatabase, ids: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('checkpoints', 'readwrite');
+    const store = transaction.objectStore('checkpoints');
+
+    ids.forEach((id) => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function deleteCheckpointsByChat(store: IDBObjectStore, chatId: string) {
+  const request = store.index('chatId').openKeyCursor(IDBKeyRange.only(chatId));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
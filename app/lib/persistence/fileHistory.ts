@@ -0,0 +1,159 @@
+/**
+ * fileHistory.ts
+ *
+ * IndexedDB-backed local history of file contents, kept outside the project
+ * tree. One record per version in `versions`, indexed by workspace id + path.
+ * Snapshots are throttled, deduplicated and pruned by the rules in
+ * `~/utils/fileHistory`.
+ */
+
+import { expiredVersions, planSnapshot, type FileVersion, type FileVersionSource } from '~/utils/fileHistory';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('FileHistory');
+
+const DB_NAME = 'mindvexFileHistory';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase | undefined> | null = null;
+
+function openHistoryDatabase(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(undefined);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('versions')) {
+          const versions = db.createObjectStore('versions', { keyPath: 'id', autoIncrement: true });
+          versions.createIndex('file', ['workspaceId', 'path']);
+          versions.createIndex('workspaceId', 'workspaceId');
+        }
+      };
+
+      request.onsuccess = (event: Event) => {
+        resolve((event.target as IDBOpenDBRequest).result);
+      };
+
+      request.onerror = (event: Event) => {
+        logger.error((event.target as IDBOpenDBRequest).error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Versions of a file, oldest first. */
+export async function getFileVersions(workspaceId: string, path: string): Promise<FileVersion[]> {
+  const db = await openHistoryDatabase();
+
+  if (!db) {
+    return [];
+  }
+
+  const index = db.transaction('versions', 'readonly').objectStore('versions').index('file');
+  const versions = await requestToPromise<FileVersion[]>(index.getAll([workspaceId, path]));
+
+  return versions.sort((a, b) => a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Snapshot `content` of a file. `baseline` is what the file held before the
+ * save; it becomes the first version of a file with no history yet.
+ * Resolves with whether anything was written.
+ */
+export async function recordFileVersion(
+  workspaceId: string,
+  path: string,
+  content: string,
+  source: FileVersionSource,
+  baseline?: string,
+): Promise<boolean> {
+  const db = await openHistoryDatabase();
+
+  if (!db) {
+    return false;
+  }
+
+  try {
+    const transaction = db.transaction('versions', 'readwrite');
+    const store = transaction.objectStore('versions');
+    const versions = await requestToPromise<FileVersion[]>(store.index('file').getAll([workspaceId, path]));
+    const now = Date.now();
+
+    versions.sort((a, b) => a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0));
+
+    if (versions.length === 0 && baseline !== undefined && baseline !== content) {
+      const original: FileVersion = { workspaceId, path, timestamp: now - 1, content: baseline, source: 'original' };
+      original.id = await requestToPromise(store.add(original) as IDBRequest<number>);
+      versions.push(original);
+    }
+
+    const plan = planSnapshot(versions, content, source, now);
+
+    if (plan.action === 'skip') {
+      await transactionDone(transaction);
+      return false;
+    }
+
+    const version: FileVersion = { workspaceId, path, timestamp: now, content, source };
+
+    if (plan.action === 'replace') {
+      store.put({ ...version, id: plan.id });
+      versions[versions.length - 1] = { ...version, id: plan.id };
+    } else {
+      version.id = await requestToPromise(store.add(version) as IDBRequest<number>);
+      versions.push(version);
+    }
+
+    for (const id of expiredVersions(versions, now)) {
+      store.delete(id);
+    }
+
+    await transactionDone(transaction);
+
+    return true;
+  } catch (error) {
+    logger.error(`Failed to record a version of ${path}`, error);
+    return false;
+  }
+}
+
+/** Drop the history of every file of a workspace. */
+export async function deleteWorkspaceHistory(workspaceId: string): Promise<void> {
+  const db = await openHistoryDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction('versions', 'readwrite');
+  const store = transaction.objectStore('versions');
+  const keys = await requestToPromise(store.index('workspaceId').getAllKeys(workspaceId));
+
+  keys.forEach((key) => store.delete(key));
+
+  await transactionDone(transaction);
+}
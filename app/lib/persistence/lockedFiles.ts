@@ -171,7 +171,7 @@ export function addLockedFile(chatId: string, filePath: string): void {
  * Add a folder to the locked items list
  */
 export function addLockedFolder(chatId: string, folderPath: string): void {
-  addLockedItem(chatId, folderPath);
+  addLockedItem(chatId, folderPath, true);
 }
 
 /**
@@ -302,12 +302,15 @@ function checkParentFolderLocks(chatId: string, path: string): { locked: boolean
     return { locked: false };
   }
 
-  // Check each parent folder
+  // Check each parent folder, keeping the leading slash of absolute paths
   const pathParts = path.split('/');
-  let currentPath = '';
 
-  for (let i = 0; i < pathParts.length - 1; i++) {
-    currentPath = currentPath ? `${currentPath}/${pathParts[i]}` : pathParts[i];
+  for (let i = 1; i < pathParts.length; i++) {
+    const currentPath = pathParts.slice(0, i).join('/');
+
+    if (!currentPath) {
+      continue;
+    }
 
     const folderLock = chatMap.get(currentPath);
 
@@ -5,3 +5,17 @@ export interface Snapshot {
   files: FileMap;
   summary?: string;
 }
+
+/**
+ * Content of every file an artifact touched, as it was before the artifact's
+ * first action on it ran. `null` marks files the artifact created.
+ */
+export interface ArtifactCheckpoint {
+  // Artifact id
+  id: string;
+  chatId?: string;
+  messageId: string;
+  title: string;
+  timestamp: number;
+  files: Record<string, string | Uint8Array | null>;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { File, FileMap } from '~/lib/stores/files';
+import { diffWorkspaceFiles, parseLegacyWorkspace } from './workspaces';
+
+const text = (content: string): File => ({ type: 'file', content, isBinary: false });
+
+describe('workspace store', () => {
+  it('writes only changed files and removes deleted ones', () => {
+    const logo: File = { type: 'file', content: '', isBinary: true };
+    const previous = new Map<string, File>([
+      ['/home/project/a.ts', text('a')],
+      ['/home/project/b.ts', text('b')],
+      ['/home/project/logo.png', logo],
+      ['/home/project/gone.ts', text('gone')],
+    ]);
+    const current: FileMap = {
+      '/home/project': { type: 'folder' },
+      '/home/project/a.ts': text('a'),
+      '/home/project/b.ts': text('b changed'),
+      '/home/project/logo.png': logo,
+      '/home/project/icon.png': { type: 'file', content: '', isBinary: true },
+      '/home/project/gone.ts': undefined,
+    };
+
+    expect(diffWorkspaceFiles(previous, current)).toEqual({
+      changed: ['/home/project/b.ts', '/home/project/icon.png'],
+      removed: ['/home/project/gone.ts'],
+    });
+
+    // A binary rewritten on disk gets a new entry even though its content is unchanged
+    current['/home/project/logo.png'] = { ...logo };
+    expect(diffWorkspaceFiles(previous, current).changed).toContain('/home/project/logo.png');
+  });
+
+  it('migrates the legacy localStorage blob with binaries as bytes', () => {
+    const legacy = JSON.stringify({
+      files: {
+        '/home/project/index.ts': { content: 'export {};', isBinary: false },
+        '/home/project/data.bin': { content: btoa('\x00\x01\xff'), isBinary: true },
+        '/home/project/lost.png': { content: '', isBinary: true },
+      },
+      selectedFile: '/home/project/index.ts',
+      unsavedFiles: ['/home/project/index.ts'],
+      timestamp: 1,
+    });
+
+    const { put, remove, meta } = parseLegacyWorkspace(legacy);
+
+    expect(put).toEqual([
+      { path: '/home/project/index.ts', content: 'export {};', isBinary: false },
+      { path: '/home/project/data.bin', content: new Uint8Array([0, 1, 255]), isBinary: true },
+    ]);
+    expect(remove).toEqual([]);
+    expect(meta).toEqual({ selectedFile: '/home/project/index.ts', unsavedFiles: ['/home/project/index.ts'] });
+    expect(parseLegacyWorkspace('not json').put).toEqual([]);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * workspaces.ts
+ *
+ * IndexedDB-backed storage for the files of the editor workspaces.
+ *
+ * - `workspaces` holds one record per named workspace (selected file, unsaved files)
+ * - `files` holds one record per file, keyed by workspace id + path, with
+ *   binary files stored as bytes rather than text
+ *
+ * Writes are incremental: callers pass only the files that changed or went
+ * away since the last write. The single `mindvex-workspace-state` blob the
+ * workbench used to keep in localStorage is migrated on first load.
+ */
+
+import type { FileMap, File } from '~/lib/stores/files';
+import { createScopedLogger } from '~/utils/logger';
+import type { EditorLayout } from '~/utils/editorLayout';
+
+const logger = createScopedLogger('Workspaces');
+
+const DB_NAME = 'mindvexWorkspaces';
+const DB_VERSION = 1;
+
+const LEGACY_STATE_KEY = 'mindvex-workspace-state';
+const ACTIVE_WORKSPACE_KEY = 'mindvex-active-workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  selectedFile?: string;
+  unsavedFiles: string[];
+
+  // Tabs of the single editor of records saved before split panes
+  openTabs?: string[];
+  editorLayout?: EditorLayout;
+
+  // Chat the workspace was last used with
+  chatId?: string;
+  lockedItems?: Array<{ path: string; isFolder: boolean }>;
+
+  // Commands typed into the workspace's terminals, oldest first
+  terminalHistory?: string[];
+}
+
+export type WorkspaceMeta = Partial<Omit<WorkspaceRecord, 'id' | 'name' | 'createdAt' | 'updatedAt'>>;
+
+export interface WorkspaceFileRecord {
+  workspaceId: string;
+  path: string;
+  content: string | Uint8Array;
+  isBinary: boolean;
+}
+
+export interface WorkspaceSnapshot {
+  workspace: WorkspaceRecord;
+  files: WorkspaceFileRecord[];
+}
+
+interface LegacyWorkspaceState {
+  files?: Record<string, { content: string; isBinary?: boolean }>;
+  selectedFile?: string;
+  unsavedFiles?: string[];
+  timestamp?: number;
+}
+
+let dbPromise: Promise<IDBDatabase | undefined> | null = null;
+
+function openWorkspaceDatabase(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(undefined);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('workspaces')) {
+          db.createObjectStore('workspaces', { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains('files')) {
+          const files = db.createObjectStore('files', { keyPath: ['workspaceId', 'path'] });
+          files.createIndex('workspaceId', 'workspaceId');
+        }
+      };
+
+      request.onsuccess = (event: Event) => {
+        resolve((event.target as IDBOpenDBRequest).result);
+      };
+
+      request.onerror = (event: Event) => {
+        logger.error((event.target as IDBOpenDBRequest).error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getActiveWorkspaceId(): string {
+  if (typeof localStorage === 'undefined') {
+    return DEFAULT_WORKSPACE_ID;
+  }
+
+  return localStorage.getItem(ACTIVE_WORKSPACE_KEY) || DEFAULT_WORKSPACE_ID;
+}
+
+export function setActiveWorkspaceId(id: string) {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+}
+
+export async function listWorkspaces(): Promise<WorkspaceRecord[]> {
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return [];
+  }
+
+  const workspaces = await requestToPromise<WorkspaceRecord[]>(
+    db.transaction('workspaces', 'readonly').objectStore('workspaces').getAll(),
+  );
+
+  return workspaces.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function createWorkspace(name: string, id: string = crypto.randomUUID()): Promise<WorkspaceRecord> {
+  const now = Date.now();
+  const workspace: WorkspaceRecord = { id, name, createdAt: now, updatedAt: now, unsavedFiles: [] };
+  const db = await openWorkspaceDatabase();
+
+  if (db) {
+    const transaction = db.transaction('workspaces', 'readwrite');
+    transaction.objectStore('workspaces').put(workspace);
+    await transactionDone(transaction);
+  }
+
+  return workspace;
+}
+
+export async function renameWorkspace(id: string, name: string): Promise<void> {
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction('workspaces', 'readwrite');
+  const store = transaction.objectStore('workspaces');
+  const workspace = await requestToPromise<WorkspaceRecord | undefined>(store.get(id));
+  const now = Date.now();
+
+  // The default workspace has no record until it is first saved
+  store.put({ ...(workspace ?? { id, createdAt: now, unsavedFiles: [] }), name, updatedAt: now });
+
+  await transactionDone(transaction);
+}
+
+/** Remove a workspace and every file stored for it. */
+export async function deleteWorkspace(id: string): Promise<void> {
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction(['workspaces', 'files'], 'readwrite');
+  transaction.objectStore('workspaces').delete(id);
+  transaction.objectStore('files').delete(workspaceFileRange(id));
+
+  await transactionDone(transaction);
+}
+
+/** The workspace record and all of its files, or `undefined` if it was never saved. */
+export async function loadWorkspace(id: string): Promise<WorkspaceSnapshot | undefined> {
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return undefined;
+  }
+
+  const transaction = db.transaction(['workspaces', 'files'], 'readonly');
+  const [workspace, files] = await Promise.all([
+    requestToPromise<WorkspaceRecord | undefined>(transaction.objectStore('workspaces').get(id)),
+    requestToPromise<WorkspaceFileRecord[]>(transaction.objectStore('files').index('workspaceId').getAll(id)),
+  ]);
+
+  return workspace ? { workspace, files } : undefined;
+}
+
+/**
+ * Store the files that changed and drop the ones removed since the last write,
+ * together with the workspace metadata, in a single transaction.
+ */
+export async function writeWorkspaceChanges(
+  id: string,
+  changes: {
+    put: Array<Omit<WorkspaceFileRecord, 'workspaceId'>>;
+    remove: string[];
+    meta: WorkspaceMeta;
+  },
+): Promise<void> {
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction(['workspaces', 'files'], 'readwrite');
+  const workspaces = transaction.objectStore('workspaces');
+  const files = transaction.objectStore('files');
+  const existing = await requestToPromise<WorkspaceRecord | undefined>(workspaces.get(id));
+  const now = Date.now();
+
+  workspaces.put({
+    ...(existing ?? { id, name: id === DEFAULT_WORKSPACE_ID ? 'Default' : id, createdAt: now, unsavedFiles: [] }),
+    ...changes.meta,
+    updatedAt: now,
+  } satisfies WorkspaceRecord);
+
+  for (const file of changes.put) {
+    files.put({ ...file, workspaceId: id } satisfies WorkspaceFileRecord);
+  }
+
+  for (const path of changes.remove) {
+    files.delete([id, path]);
+  }
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Move the localStorage blob of older versions into the default workspace.
+ * Runs once: the blob is removed afterwards, and never overwrites a workspace
+ * that already exists.
+ */
+export async function migrateLegacyWorkspace(): Promise<boolean> {
+  if (typeof localStorage === 'undefined') {
+    return false;
+  }
+
+  const raw = localStorage.getItem(LEGACY_STATE_KEY);
+
+  if (!raw) {
+    return false;
+  }
+
+  const db = await openWorkspaceDatabase();
+
+  if (!db) {
+    return false;
+  }
+
+  try {
+    if (!(await loadWorkspace(DEFAULT_WORKSPACE_ID))) {
+      const legacy = parseLegacyWorkspace(raw);
+
+      await writeWorkspaceChanges(DEFAULT_WORKSPACE_ID, legacy);
+      logger.info(`Migrated ${legacy.put.length} files from localStorage`);
+    }
+
+    localStorage.removeItem(LEGACY_STATE_KEY);
+
+    return true;
+  } catch (error) {
+    logger.error('Failed to migrate the localStorage workspace', error);
+    return false;
+  }
+}
+
+/** Files and metadata of the legacy localStorage blob, binaries decoded from base64. */
+export function parseLegacyWorkspace(raw: string) {
+  let state: LegacyWorkspaceState;
+
+  try {
+    state = JSON.parse(raw);
+  } catch {
+    state = {};
+  }
+
+  const put: Array<Omit<WorkspaceFileRecord, 'workspaceId'>> = [];
+
+  for (const [path, file] of Object.entries(state.files ?? {})) {
+    if (typeof file?.content !== 'string') {
+      continue;
+    }
+
+    if (!file.isBinary) {
+      put.push({ path, content: file.content, isBinary: false });
+    } else if (file.content) {
+      // Binaries from the watcher were saved without content and cannot be recovered
+      put.push({ path, content: Uint8Array.from(atob(file.content), (char) => char.charCodeAt(0)), isBinary: true });
+    }
+  }
+
+  return {
+    put,
+    remove: [],
+    meta: {
+      selectedFile: state.selectedFile,
+      unsavedFiles: Array.isArray(state.unsavedFiles) ? state.unsavedFiles : [],
+    },
+  };
+}
+
+/**
+ * Paths to write and to remove to bring the stored copy from `previous` to
+ * `current`. Text files compare by content; binaries carry no content in the
+ * file map, so they compare by the identity of their entry.
+ */
+export function diffWorkspaceFiles(previous: Map<string, File>, current: FileMap) {
+  const changed: string[] = [];
+  const removed: string[] = [];
+
+  for (const [path, dirent] of Object.entries(current)) {
+    if (dirent?.type !== 'file') {
+      continue;
+    }
+
+    const stored = previous.get(path);
+    const same =
+      stored?.isBinary === dirent.isBinary &&
+      (dirent.isBinary ? stored === dirent : stored?.content === dirent.content);
+
+    if (!same) {
+      changed.push(path);
+    }
+  }
+
+  for (const path of previous.keys()) {
+    if (current[path]?.type !== 'file') {
+      removed.push(path);
+    }
+  }
+
+  return { changed, removed };
+}
+
+function workspaceFileRange(id: string) {
+  return IDBKeyRange.bound([id, ''], [id, '\uffff']);
+}
@@ -1,21 +1,27 @@
 import type { WebContainer } from '@webcontainer/api';
 import { path as nodePath } from '~/utils/path';
 import { atom, map, type MapStore } from 'nanostores';
-import type {
-  ActionAlert,
-  MindvexAction,
-  DeployAlert,
-  FileHistory,
-  SupabaseAction,
-  SupabaseAlert,
-} from '~/types/actions';
+import type { ActionAlert, MindvexAction, DeployAlert, SupabaseAction, SupabaseAlert } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { applyPatch, PatchApplyError } from '~/utils/patch';
+import { FileLockedError, findLockedPath } from '~/utils/fileLocks';
+import { appliedPatches } from '~/lib/stores/patches';
+import { requestUnlock } from '~/lib/stores/unlockRequests';
+import { checkShellCommand } from '~/lib/stores/shellPolicy';
+import { getShellWriteTargets, ShellCommandBlockedError } from '~/utils/shellPolicy';
+import { detectTestCommand, TEST_CONFIG_FILES } from '~/utils/projectCommands';
+import { formatTestFailures, parseTestReport, type TestRunResult } from '~/utils/testResults';
+import { testRun } from '~/lib/stores/testResults';
 import type { ActionCallbackData } from './message-parser';
+import { isServerReadyOutput } from './action-scheduler';
 import type { MindvexShell } from '~/utils/shell';
 
 const logger = createScopedLogger('ActionRunner');
 
+// How long a `start` action may go without looking ready before later actions run anyway
+const START_READY_TIMEOUT = 30_000;
+
 export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
 
 export type BaseActionState = MindvexAction & {
@@ -70,10 +76,25 @@ class ActionCommandError extends Error {
   }
 }
 
+class TestRunError extends Error {
+  readonly title: string;
+  readonly output: string;
+
+  constructor(title: string, message: string, output: string) {
+    super(message);
+
+    this.title = title;
+    this.output = output;
+
+    Object.setPrototypeOf(this, TestRunError.prototype);
+    this.name = 'TestRunError';
+  }
+}
+
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
-  #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => MindvexShell;
+  #getFileContent?: (filePath: string) => string | undefined;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
@@ -87,12 +108,14 @@ export class ActionRunner {
     onAlert?: (alert: ActionAlert) => void,
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
     onDeployAlert?: (alert: DeployAlert) => void,
+    getFileContent?: (filePath: string) => string | undefined,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
     this.onSupabaseAlert = onSupabaseAlert;
     this.onDeployAlert = onDeployAlert;
+    this.#getFileContent = getFileContent;
   }
 
   addAction(data: ActionCallbackData) {
@@ -106,22 +129,32 @@ export class ActionRunner {
       return;
     }
 
-    const abortController = new AbortController();
+    this.#setPending(actionId, data.action);
+  }
 
-    this.actions.setKey(actionId, {
-      ...data.action,
-      status: 'pending',
-      executed: false,
-      abort: () => {
-        abortController.abort();
-        this.#updateAction(actionId, { status: 'aborted' });
-      },
-      abortSignal: abortController.signal,
-    });
+  /**
+   * Put a failed, cancelled or finished action back in the pending state so it
+   * can run again. Returns the action, or `undefined` while it is still queued or running.
+   */
+  resetAction(actionId: string): MindvexAction | undefined {
+    const state = this.actions.get()[actionId];
 
-    this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
-    });
+    if (!state || state.status === 'pending' || state.status === 'running') {
+      return undefined;
+    }
+
+    const {
+      status: _status,
+      executed: _executed,
+      abort: _abort,
+      abortSignal: _abortSignal,
+      error: _error,
+      ...action
+    } = state as FailedActionState;
+
+    this.#setPending(actionId, action as MindvexAction);
+
+    return action as MindvexAction;
   }
 
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -132,7 +165,7 @@ export class ActionRunner {
       unreachable(`Action ${actionId} not found`);
     }
 
-    if (action.executed) {
+    if (action.executed || action.status === 'aborted') {
       return; // No return value here
     }
 
@@ -142,15 +175,10 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
-    this.#currentExecutionPromise = this.#currentExecutionPromise
-      .then(() => {
-        return this.#executeAction(actionId, isStreaming);
-      })
-      .catch((error) => {
-        logger.error('Action execution promise failed:', error);
-      });
-
-    await this.#currentExecutionPromise;
+    // Ordering against other actions is up to the caller, see `ActionScheduler`
+    await this.#executeAction(actionId, isStreaming).catch((error) => {
+      logger.error('Action execution promise failed:', error);
+    });
 
     return;
   }
@@ -170,6 +198,14 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(actionId, action);
+          break;
+        }
+        case 'test': {
+          await this.#runTestAction(actionId, action);
+          break;
+        }
         case 'supabase': {
           try {
             await this.handleSupabaseAction(action as SupabaseAction);
@@ -195,16 +231,27 @@ export class ActionRunner {
         case 'start': {
           // making the start app non blocking
 
-          this.#runStartAction(action)
+          let markSpawned: () => void = () => undefined;
+          const spawned = new Promise<void>((resolve) => (markSpawned = resolve));
+
+          const started = this.#runStartAction(action, markSpawned)
             .then(() => this.#updateAction(actionId, { status: 'complete' }))
             .catch((err: Error) => {
               if (action.abortSignal.aborted) {
                 return;
               }
 
-              this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+              this.#updateAction(actionId, {
+                status: 'failed',
+                error: err instanceof ShellCommandBlockedError ? err.message : 'Action failed',
+              });
               logger.error(`[${action.type}]:Action failed\n\n`, err);
 
+              if (err instanceof ShellCommandBlockedError) {
+                this.#alertBlockedCommand(err);
+                return;
+              }
+
               if (!(err instanceof ActionCommandError)) {
                 return;
               }
@@ -217,11 +264,7 @@ export class ActionRunner {
               });
             });
 
-          /*
-           * adding a delay to avoid any race condition between 2 start actions
-           * i am up for a better approach
-           */
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+          await this.#waitForServer(action, started, spawned);
 
           return;
         }
@@ -235,9 +278,58 @@ export class ActionRunner {
         return;
       }
 
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      this.#updateAction(actionId, {
+        status: 'failed',
+        error:
+          error instanceof PatchApplyError ||
+          error instanceof FileLockedError ||
+          error instanceof ShellCommandBlockedError ||
+          error instanceof TestRunError
+            ? error.message
+            : 'Action failed',
+      });
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
+      if (error instanceof ShellCommandBlockedError) {
+        this.#alertBlockedCommand(error);
+        return;
+      }
+
+      if (error instanceof TestRunError) {
+        this.onAlert?.({
+          type: 'error',
+          title: error.title,
+          description: error.message,
+          content: error.output,
+          source: 'terminal',
+        });
+
+        return;
+      }
+
+      if (error instanceof FileLockedError) {
+        requestUnlock({ ...error.match, description: this.#describeAction(action) });
+        this.onAlert?.({
+          type: 'error',
+          title: 'File Locked',
+          description: error.message,
+          content: 'Unlock it in the Locks panel to let the assistant change it, then retry.',
+        });
+
+        return;
+      }
+
+      if (error instanceof PatchApplyError && action.type === 'patch') {
+        this.onAlert?.({
+          type: 'error',
+          title: 'Patch Failed',
+          description: `Could not apply the changes to ${action.filePath}`,
+          content: error.message,
+        });
+
+        return;
+      }
+
       if (!(error instanceof ActionCommandError)) {
         return;
       }
@@ -274,10 +366,19 @@ export class ActionRunner {
       action.content = validationResult.modifiedCommand;
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
+    // Locks and the policy apply to the command that actually runs
+    const { workdir } = await this.#webcontainer;
+
+    await this.#assertUnlocked(getShellWriteTargets(action.content, workdir), 'write, move or delete');
+    await checkShellCommand(action.content, workdir);
+
+    const stopInterrupting = this.#interruptOnAbort(action, shell);
+    const resp = await shell
+      .executeCommand(this.runnerId.get(), action.content, () => {
+        logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+        action.abort();
+      })
+      .finally(stopInterrupting);
     logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
     if (resp?.exitCode != 0) {
@@ -286,7 +387,7 @@ export class ActionRunner {
     }
   }
 
-  async #runStartAction(action: ActionState) {
+  async #runStartAction(action: ActionState, onSpawned?: () => void) {
     if (action.type !== 'start') {
       unreachable('Expected shell action');
     }
@@ -302,10 +403,17 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
+    await checkShellCommand(action.content, (await this.#webcontainer).workdir);
+
+    const stopInterrupting = this.#interruptOnAbort(action, shell);
+    const execution = shell.executeCommand(this.runnerId.get(), action.content, () => {
       logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
       action.abort();
     });
+
+    onSpawned?.();
+
+    const resp = await execution.finally(stopInterrupting);
     logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
     if (resp?.exitCode != 0) {
@@ -320,6 +428,8 @@ export class ActionRunner {
       unreachable('Expected file action');
     }
 
+    await this.#assertUnlocked([action.filePath], 'write');
+
     const webcontainer = await this.#webcontainer;
     const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
 
@@ -345,39 +455,264 @@ export class ActionRunner {
     }
   }
 
-  #updateAction(id: string, newState: ActionStateUpdate) {
-    const actions = this.actions.get();
+  /**
+   * Apply a diff to the file as it is now: the open editor document when there
+   * is one (so unsaved edits are kept), otherwise the file on disk.
+   */
+  async #runPatchAction(actionId: string, action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
 
-    this.actions.setKey(id, { ...actions[id], ...newState });
+    await this.#assertUnlocked([action.filePath], 'patch');
+
+    const webcontainer = await this.#webcontainer;
+    const fullPath = this.#absolutePath(webcontainer, action.filePath);
+    const relativePath = nodePath.relative(webcontainer.workdir, fullPath);
+    let original = this.#getFileContent?.(fullPath);
+
+    if (original === undefined) {
+      try {
+        original = await webcontainer.fs.readFile(relativePath, 'utf-8');
+      } catch {
+        throw new PatchApplyError(`Cannot patch ${relativePath}: the file does not exist`);
+      }
+    }
+
+    const { content, hunks } = applyPatch(original, action.content);
+
+    await webcontainer.fs.writeFile(relativePath, content);
+    logger.debug(`Patched ${relativePath} (${hunks.length} hunk(s))`);
+
+    appliedPatches.setKey(fullPath, { actionId, hunks, content, timestamp: Date.now() });
   }
 
-  async getFileHistory(filePath: string): Promise<FileHistory | null> {
-    try {
-      const webcontainer = await this.#webcontainer;
-      const historyPath = this.#getHistoryPath(filePath);
-      const content = await webcontainer.fs.readFile(historyPath, 'utf-8');
+  /**
+   * Run the project's tests with the runner `detectTestCommand` finds and
+   * publish the parsed report to the test results panel. Failing tests end
+   * the action with a `TestRunError` listing them.
+   */
+  async #runTestAction(actionId: string, action: ActionState) {
+    if (action.type !== 'test') {
+      unreachable('Expected test action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const files = [];
+
+    for (const name of TEST_CONFIG_FILES) {
+      try {
+        files.push({ path: name, content: await webcontainer.fs.readFile(name, 'utf-8') });
+      } catch {
+        // not part of this project
+      }
+    }
 
-      return JSON.parse(content);
+    const testCommand = await detectTestCommand(files, action.content);
+
+    if (!testCommand) {
+      throw new TestRunError(
+        'No Test Runner Found',
+        'Could not find a test runner for this project',
+        'Add vitest, jest or mocha to package.json, a pytest configuration or a go.mod to run tests.',
+      );
+    }
+
+    const shell = this.#shellTerminal();
+    await shell.ready();
+
+    if (!shell || !shell.terminal || !shell.process) {
+      unreachable('Shell terminal not found');
+    }
+
+    await checkShellCommand(testCommand.command, webcontainer.workdir);
+
+    const { runner, command, format, reportPath } = testCommand;
+    const run = { actionId, runner, command, timestamp: Date.now() };
+
+    testRun.set({ ...run, status: 'running' });
+
+    if (reportPath) {
+      // a report left over from an earlier run must not be mistaken for this one
+      await webcontainer.fs.rm(reportPath, { force: true });
+      await webcontainer.fs.mkdir(nodePath.dirname(reportPath), { recursive: true });
+    }
+
+    const stopInterrupting = this.#interruptOnAbort(action, shell);
+    const resp = await shell
+      .executeCommand(this.runnerId.get(), command, () => {
+        logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+        action.abort();
+      })
+      .finally(stopInterrupting);
+
+    if (action.abortSignal.aborted) {
+      testRun.set(null);
+      return;
+    }
+
+    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+
+    let report = resp?.output;
+
+    if (reportPath) {
+      report = await webcontainer.fs.readFile(reportPath, 'utf-8').catch(() => undefined);
+    }
+
+    let result: TestRunResult | undefined;
+
+    try {
+      result = report ? parseTestReport(format, report) : undefined;
     } catch (error) {
-      logger.error('Failed to get file history:', error);
-      return null;
+      logger.warn(`Could not parse the ${format} report of ${runner}`, error);
+    }
+
+    if (!result || (result.cases.length === 0 && resp?.exitCode !== 0)) {
+      testRun.set({ ...run, status: 'error', output: resp?.output });
+      throw new TestRunError(
+        'Tests Did Not Run',
+        `${command} exited with code ${resp?.exitCode} without a test report`,
+        resp?.output || 'No Output Available',
+      );
+    }
+
+    testRun.set({ ...run, status: 'done', result });
+
+    if (result.failed > 0) {
+      throw new TestRunError(
+        'Tests Failed',
+        `${result.failed} of ${result.cases.length} tests failed`,
+        formatTestFailures(result),
+      );
+    }
+  }
+
+  /**
+   * Throws a `FileLockedError` when any of the paths (relative to the workdir
+   * or absolute) is locked in the current chat.
+   */
+  async #assertUnlocked(filePaths: string[], operation: string) {
+    if (filePaths.length === 0) {
+      return;
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const match = findLockedPath(filePaths.map((filePath) => this.#absolutePath(webcontainer, filePath)));
+
+    if (match) {
+      throw new FileLockedError(match, operation);
+    }
+  }
+
+  /**
+   * Resolves once the dev server of a `start` action accepts requests: a port
+   * opens or its output says it is ready. Also resolves when the command ends,
+   * the action is cancelled or `START_READY_TIMEOUT` passes after `spawned`
+   * without a sign of readiness.
+   */
+  async #waitForServer(action: ActionState, started: Promise<unknown>, spawned: Promise<void>) {
+    const webcontainer = await this.#webcontainer;
+    const shell = this.#shellTerminal();
+    const disposers: Array<() => void> = [];
+    let waiting = true;
+
+    await new Promise<void>((resolve) => {
+      let output = '';
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+
+      disposers.push(() => clearTimeout(timeout));
+      disposers.push(webcontainer.on('port', (_port, type) => type === 'open' && resolve()));
+      disposers.push(webcontainer.on('server-ready', () => resolve()));
+
+      // the clock starts with the command, not while it waits for approval
+      spawned.then(() => {
+        if (!waiting) {
+          return;
+        }
+
+        timeout ??= setTimeout(() => {
+          logger.warn(`No sign of readiness from \`${action.content.trim()}\`, continuing`);
+          resolve();
+        }, START_READY_TIMEOUT);
+      });
+
+      disposers.push(
+        shell.onOutput((chunk) => {
+          output = (output + chunk).slice(-4096);
+
+          if (isServerReadyOutput(output)) {
+            resolve();
+          }
+        }),
+      );
+
+      action.abortSignal.addEventListener('abort', () => resolve(), { once: true });
+      started.finally(() => resolve());
+    });
+
+    waiting = false;
+    disposers.forEach((dispose) => dispose());
+  }
+
+  // Cancelling an action stops the command it runs
+  #interruptOnAbort(action: ActionState, shell: MindvexShell) {
+    const interrupt = () => shell.interrupt();
+
+    action.abortSignal.addEventListener('abort', interrupt, { once: true });
+
+    return () => action.abortSignal.removeEventListener('abort', interrupt);
+  }
+
+  #alertBlockedCommand(error: ShellCommandBlockedError) {
+    // Commands the user just turned down need no further alert
+    if (error.rejected) {
+      return;
+    }
+
+    this.onAlert?.({
+      type: 'error',
+      title: 'Command Blocked',
+      description: `The shell policy does not allow \`${error.command}\``,
+      content: `${error.evaluation.reason}. Change the shell command policy in Settings to allow it.`,
+    });
+  }
+
+  #absolutePath(webcontainer: WebContainer, filePath: string) {
+    const absolutePath = nodePath.isAbsolute(filePath) ? filePath : nodePath.join(webcontainer.workdir, filePath);
+
+    return nodePath.normalize(absolutePath).replace(/(.)\/+$/, '$1');
+  }
+
+  #describeAction(action: ActionState) {
+    switch (action.type) {
+      case 'file':
+        return `write ${action.filePath}`;
+      case 'patch':
+        return `patch ${action.filePath}`;
+      default:
+        return `run \`${action.content.trim()}\``;
     }
   }
 
-  async saveFileHistory(filePath: string, history: FileHistory) {
-    // const webcontainer = await this.#webcontainer;
-    const historyPath = this.#getHistoryPath(filePath);
+  #setPending(actionId: string, action: MindvexAction) {
+    const abortController = new AbortController();
 
-    await this.#runFileAction({
-      type: 'file',
-      filePath: historyPath,
-      content: JSON.stringify(history),
-      changeSource: 'auto-save',
-    } as any);
+    this.actions.setKey(actionId, {
+      ...action,
+      status: 'pending',
+      executed: false,
+      abort: () => {
+        abortController.abort();
+        this.#updateAction(actionId, { status: 'aborted' });
+      },
+      abortSignal: abortController.signal,
+    });
   }
 
-  #getHistoryPath(filePath: string) {
-    return nodePath.join('.history', filePath);
+  #updateAction(id: string, newState: ActionStateUpdate) {
+    const actions = this.actions.get();
+
+    this.actions.setKey(id, { ...actions[id], ...newState });
   }
 
   async #runBuildAction(action: ActionState) {
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ActionScheduler, getActionScope, isServerReadyOutput, type ActionScope } from './action-scheduler';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+
+  return { promise, resolve };
+}
+
+describe('ActionScheduler', () => {
+  it('runs writes to different paths side by side and the same path in order', async () => {
+    const scheduler = new ActionScheduler();
+    const events: string[] = [];
+    const first = deferred();
+
+    const paths = (...list: string[]): ActionScope => ({ kind: 'paths', paths: list });
+
+    const a = scheduler.schedule(paths('a.ts'), async () => {
+      events.push('a:start');
+      await first.promise;
+      events.push('a:end');
+    });
+    const b = scheduler.schedule(paths('b.ts'), async () => {
+      events.push('b');
+    });
+    const a2 = scheduler.schedule(paths('a.ts'), async () => {
+      events.push('a2');
+    });
+
+    await b;
+    expect(events).toEqual(['a:start', 'b']);
+
+    first.resolve();
+    await Promise.all([a, a2]);
+    expect(events).toEqual(['a:start', 'b', 'a:end', 'a2']);
+  });
+
+  it('runs exclusive actions alone', async () => {
+    const scheduler = new ActionScheduler();
+    const events: string[] = [];
+    const write = deferred();
+    const command = deferred();
+
+    const done = [
+      scheduler.schedule({ kind: 'paths', paths: ['package.json'] }, async () => {
+        await write.promise;
+        events.push('write');
+      }),
+      scheduler.schedule({ kind: 'exclusive' }, async () => {
+        events.push('install:start');
+        await command.promise;
+        events.push('install:end');
+      }),
+      scheduler.schedule({ kind: 'paths', paths: ['src/app.ts'] }, async () => {
+        events.push('app');
+      }),
+    ];
+
+    write.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(['write', 'install:start']);
+
+    command.resolve();
+    await Promise.all(done);
+    expect(events).toEqual(['write', 'install:start', 'install:end', 'app']);
+  });
+
+  it('keeps going after a failed action', async () => {
+    const scheduler = new ActionScheduler();
+    const ran: string[] = [];
+
+    scheduler.schedule({ kind: 'exclusive' }, async () => {
+      throw new Error('exit code 1');
+    });
+    await scheduler.schedule({ kind: 'exclusive' }, async () => {
+      ran.push('next');
+    });
+
+    expect(ran).toEqual(['next']);
+  });
+});
+
+describe('getActionScope', () => {
+  it('gives relative and absolute paths of the same file the same key', () => {
+    const scope = (filePath: string) => getActionScope({ type: 'file', filePath, content: '' }, '/home/project');
+
+    expect(scope('src/app.ts')).toEqual({ kind: 'paths', paths: ['/home/project/src/app.ts'] });
+    expect(scope('/home/project/src/app.ts')).toEqual(scope('src/app.ts'));
+    expect(scope('./src//app.ts')).toEqual(scope('src/app.ts'));
+    expect(getActionScope({ type: 'shell', content: 'npm install' })).toEqual({ kind: 'exclusive' });
+  });
+});
+
+describe('isServerReadyOutput', () => {
+  it('recognises dev servers that are up', () => {
+    expect(isServerReadyOutput('\u001b[32m  VITE v5.4.0\u001b[39m  ready in \u001b[1m312\u001b[22m ms')).toBe(true);
+    expect(isServerReadyOutput('  ➜  Local:   http://localhost:5173/')).toBe(true);
+    expect(isServerReadyOutput('Server listening on port 3000')).toBe(true);
+    expect(isServerReadyOutput('added 212 packages in 9s')).toBe(false);
+  });
+});
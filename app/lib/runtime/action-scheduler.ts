@@ -0,0 +1,81 @@
+import type { MindvexAction } from '~/types/actions';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { path } from '~/utils/path';
+
+const logger = createScopedLogger('ActionScheduler');
+
+/**
+ * What an action may touch. File writes and patches only touch their own path;
+ * everything else runs in the shared shell or can change any file, so it waits
+ * for every earlier action and holds back every later one.
+ */
+export type ActionScope = { kind: 'paths'; paths: string[] } | { kind: 'exclusive' };
+
+// Dev server output that means it is accepting requests
+const READY_OUTPUT_PATTERNS = [
+  /\bready in\b/i,
+  /\blocal:\s+https?:\/\//i,
+  /\blistening (?:on|at)\b/i,
+  /\bserver (?:is )?(?:running|started|listening)\b/i,
+  /\bcompiled successfully\b/i,
+  /\bstarted server on\b/i,
+  /\bready - started\b/i,
+];
+
+/**
+ * Scope of `action`. Paths are resolved against `workdir`, so a relative path
+ * and its absolute form share a key.
+ */
+export function getActionScope(action: MindvexAction, workdir: string = WORK_DIR): ActionScope {
+  if (action.type === 'file' || action.type === 'patch') {
+    const filePath = path.isAbsolute(action.filePath) ? action.filePath : path.join(workdir, action.filePath);
+
+    return { kind: 'paths', paths: [path.normalize(filePath).replace(/(.)\/+$/, '$1')] };
+  }
+
+  return { kind: 'exclusive' };
+}
+
+export function isServerReadyOutput(output: string): boolean {
+  const text = output.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+  return READY_OUTPUT_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Orders actions by what they touch instead of one after another: actions on
+ * different paths run side by side, actions on the same path run in order and
+ * exclusive actions run alone. A task counts as done when its promise settles,
+ * so long-running `start` actions should resolve once the server is ready.
+ */
+export class ActionScheduler {
+  #barrier: Promise<void> = Promise.resolve();
+  #pathTails = new Map<string, Promise<void>>();
+  #inFlight = new Set<Promise<void>>();
+
+  schedule(scope: ActionScope, task: () => Promise<void>): Promise<void> {
+    const waitFor =
+      scope.kind === 'exclusive'
+        ? [...this.#inFlight]
+        : [this.#barrier, ...scope.paths.flatMap((path) => this.#pathTails.get(path) ?? [])];
+
+    const done = Promise.all(waitFor)
+      .then(() => task())
+      .catch((error) => {
+        logger.error('Scheduled action failed:', error);
+      });
+
+    this.#inFlight.add(done);
+    done.then(() => this.#inFlight.delete(done));
+
+    if (scope.kind === 'exclusive') {
+      // everything before is covered by the barrier now
+      this.#barrier = done;
+      this.#pathTails.clear();
+    } else {
+      scope.paths.forEach((path) => this.#pathTails.set(path, done));
+    }
+
+    return done;
+  }
+}
@@ -0,0 +1,147 @@
+import type { WebContainer } from '@webcontainer/api';
+import { checkShellCommand } from '~/lib/stores/shellPolicy';
+import { webcontainer } from '~/lib/webcontainer';
+import type { ChatToolName } from '~/types/chat';
+import { TOOL_EXECUTION_DENIED, TOOL_EXECUTION_ERROR, WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { path } from '~/utils/path';
+import { cleanTerminalOutput } from '~/utils/shell';
+import { ShellCommandBlockedError } from '~/utils/shellPolicy';
+
+const logger = createScopedLogger('ChatTools');
+
+// Longest tool result sent back to the model; the rest is cut off
+const MAX_RESULT_LENGTH = 30_000;
+
+const MAX_SEARCH_MATCHES = 100;
+
+// How long `runCommand` waits before it stops the command
+const RUN_COMMAND_TIMEOUT = 60_000;
+
+const SEARCH_EXCLUDES = ['**/node_modules/**', '**/package-lock.json', '**/.git/**', '**/dist/**', '**/*.lock'];
+
+/**
+ * Run a tool the chat model called and return what it sees as the result.
+ * Failures are results too, so the model can react to them.
+ */
+export async function executeChatTool(toolName: string, args: Record<string, unknown>): Promise<string> {
+  try {
+    const instance = await webcontainer;
+    const result = await runTool(instance, toolName as ChatToolName, args);
+
+    return result.length > MAX_RESULT_LENGTH ? `${result.slice(0, MAX_RESULT_LENGTH)}\n[truncated]` : result;
+  } catch (error) {
+    if (error instanceof ShellCommandBlockedError) {
+      return `${TOOL_EXECUTION_DENIED}: ${error.message}`;
+    }
+
+    logger.error(`Tool ${toolName} failed`, error);
+
+    return `${TOOL_EXECUTION_ERROR}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+async function runTool(instance: WebContainer, toolName: ChatToolName, args: Record<string, unknown>) {
+  switch (toolName) {
+    case 'readFile':
+      return instance.fs.readFile(projectPath(args.path), 'utf-8');
+    case 'listDirectory': {
+      const entries = await instance.fs.readdir(projectPath(args.path ?? '.'), { withFileTypes: true });
+
+      return entries
+        .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+        .sort()
+        .join('\n');
+    }
+    case 'searchFiles':
+      return searchFiles(instance, String(args.query ?? ''), Boolean(args.isRegex), Boolean(args.caseSensitive));
+    case 'runCommand':
+      return runCommand(instance, String(args.command ?? ''));
+    default:
+      throw new Error(`Unknown tool: ${toolName}`);
+  }
+}
+
+// Path relative to the WebContainer workdir, refusing anything outside the project
+function projectPath(value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error('A path is required');
+  }
+
+  const absolute = path.normalize(path.isAbsolute(value) ? value : path.join(WORK_DIR, value));
+
+  if (absolute !== WORK_DIR && !absolute.startsWith(`${WORK_DIR}/`)) {
+    throw new Error(`${value} is outside the project`);
+  }
+
+  return path.relative(WORK_DIR, absolute) || '.';
+}
+
+async function searchFiles(instance: WebContainer, query: string, isRegex: boolean, caseSensitive: boolean) {
+  if (!query) {
+    throw new Error('A query is required');
+  }
+
+  const lines: string[] = [];
+
+  await instance.internal.textSearch(
+    query,
+    {
+      folders: [WORK_DIR],
+      homeDir: WORK_DIR,
+      includes: ['**/*.*'],
+      excludes: SEARCH_EXCLUDES,
+      gitignore: true,
+      requireGit: false,
+      globalIgnoreFiles: true,
+      ignoreSymlinks: false,
+      resultLimit: MAX_SEARCH_MATCHES,
+      isRegex,
+      caseSensitive,
+      isWordMatch: false,
+    },
+    (filePath, matches) => {
+      for (const match of matches) {
+        const previewLines = match.preview.text.split('\n');
+        const firstLine = match.preview.matches[0]?.startLineNumber ?? 0;
+
+        for (const range of match.ranges) {
+          const line = previewLines[range.startLineNumber - firstLine] ?? previewLines[0] ?? '';
+          lines.push(`${path.relative(WORK_DIR, filePath)}:${range.startLineNumber}: ${line.trim()}`);
+        }
+      }
+    },
+  );
+
+  return lines.length > 0 ? lines.slice(0, MAX_SEARCH_MATCHES).join('\n') : 'No matches';
+}
+
+async function runCommand(instance: WebContainer, command: string) {
+  if (!command.trim()) {
+    throw new Error('A command is required');
+  }
+
+  await checkShellCommand(command, instance.workdir);
+
+  const child = await instance.spawn('jsh', ['-c', command], { env: { npm_config_yes: true } });
+  let output = '';
+  let timedOut = false;
+
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    child.kill();
+  }, RUN_COMMAND_TIMEOUT);
+
+  child.output.pipeTo(
+    new WritableStream({
+      write(data) {
+        output += data;
+      },
+    }),
+  );
+
+  const exitCode = await child.exit.finally(() => clearTimeout(timeout));
+  const status = timedOut ? `stopped after ${RUN_COMMAND_TIMEOUT / 1000}s` : `exit code ${exitCode}`;
+
+  return `${status}\n${cleanTerminalOutput(output)}`;
+}
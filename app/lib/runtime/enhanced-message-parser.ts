@@ -54,6 +54,13 @@ export class EnhancedStreamingMessageParser extends StreamingMessageParser {
     return input.includes('<mindvexArtifact') || input.includes('</mindvexArtifact>');
   }
 
+  /*
+   * Runs on plain markdown, before any markup exists: it rewrites fenced code
+   * blocks into artifact markup, which `super.parse` then reads with the
+   * incremental tokenizer. The tokenizer only knows artifact, action and
+   * quick-action tags, so this pass stays a separate text rewrite and takes
+   * the whole message again on every call.
+   */
   private _detectAndWrapCodeBlocks(messageId: string, input: string): string {
     // Initialize processed blocks for this message if not exists
     if (!this._processedCodeBlocks.has(messageId)) {
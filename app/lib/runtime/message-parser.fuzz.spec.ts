@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingMessageParser } from './message-parser';
+
+/**
+ * Messages the parser has to handle, well-formed or not. Every one is parsed
+ * whole, one character at a time and cut at random places; the output and the
+ * artifact/action events must come out the same every time.
+ */
+const CORPUS: Array<{ name: string; message: string; expected?: { output: string; events: string[] } }> = [
+  {
+    name: 'plain text with html and a code block',
+    message: 'Use <strong>this</strong>:\n\n```ts\nconst a = 1 < 2;\n```\n\nDone.',
+    expected: { output: 'Use <strong>this</strong>:\n\n```ts\nconst a = 1 < 2;\n```\n\nDone.', events: [] },
+  },
+  {
+    name: 'artifact with a shell and a file action',
+    message:
+      'Setting up.\n\n<mindvexArtifact id="app" title="App">\n<mindvexAction type="shell">npm install</mindvexAction>\n<mindvexAction type="file" filePath="src/index.js">console.log(1 > 0);</mindvexAction>\n</mindvexArtifact>\n\nRun it.',
+    expected: {
+      output: 'Setting up.\n\n[artifact]\n\nRun it.',
+      events: [
+        'artifactOpen App',
+        'actionOpen shell',
+        'actionClose shell npm install',
+        'actionOpen file src/index.js',
+        'actionClose file src/index.js console.log(1 > 0);\n',
+        'artifactClose App',
+      ],
+    },
+  },
+  {
+    name: 'attributes across lines and in single quotes',
+    message:
+      '<mindvexArtifact\n  id="multi"\n  title="Fix > crash"\n>\n<mindvexAction\n  type=\'file\'\n  filePath="a b/c.ts"\n>x</mindvexAction></mindvexArtifact>',
+    expected: {
+      output: '[artifact]',
+      events: [
+        'artifactOpen Fix > crash',
+        'actionOpen file a b/c.ts',
+        'actionClose file a b/c.ts x\n',
+        'artifactClose Fix > crash',
+      ],
+    },
+  },
+  {
+    name: 'artifact wrapped in a markdown fence',
+    message:
+      'Here:\n```xml\n<mindvexArtifact id="x" title="Wrapped"><mindvexAction type="shell">ls</mindvexAction></mindvexArtifact>\n```\nBye',
+    expected: {
+      output: 'Here:\n[artifact]\nBye',
+      events: ['artifactOpen Wrapped', 'actionOpen shell', 'actionClose shell ls', 'artifactClose Wrapped'],
+    },
+  },
+  {
+    name: 'artifact after a closed code block',
+    message: '```js\nfoo();\n```\n<mindvexArtifact title="After"></mindvexArtifact>',
+    expected: { output: '```js\nfoo();\n```\n[artifact]', events: ['artifactOpen After', 'artifactClose After'] },
+  },
+  {
+    name: 'action without a closing tag',
+    message:
+      '<mindvexArtifact title="Unclosed"><mindvexAction type="shell">npm i<mindvexAction type="start">npm run dev</mindvexAction></mindvexArtifact>',
+    expected: {
+      output: '[artifact]',
+      events: [
+        'artifactOpen Unclosed',
+        'actionOpen shell',
+        'actionClose shell npm i',
+        'actionOpen start',
+        'actionClose start npm run dev',
+        'artifactClose Unclosed',
+      ],
+    },
+  },
+  {
+    name: 'artifact opened inside another one',
+    message:
+      '<mindvexArtifact title="Outer"><mindvexAction type="shell">a</mindvexAction><mindvexArtifact title="Inner"><mindvexAction type="shell">b</mindvexAction></mindvexArtifact> end',
+    expected: {
+      output: '[artifact][artifact] end',
+      events: [
+        'artifactOpen Outer',
+        'actionOpen shell',
+        'actionClose shell a',
+        'artifactClose Outer',
+        'artifactOpen Inner',
+        'actionOpen shell',
+        'actionClose shell b',
+        'artifactClose Inner',
+      ],
+    },
+  },
+  {
+    name: 'unbalanced quote in a tag',
+    message: `<mindvexArtifact title="Broken>text</mindvexArtifact>${' tail'.repeat(500)}`,
+    expected: {
+      output: `[artifact]${' tail'.repeat(500)}`,
+      events: ['artifactOpen undefined', 'artifactClose undefined'],
+    },
+  },
+  {
+    name: 'look-alike tags',
+    message: 'a <mindvexArtifacts> b <mindvex-quick-actionz> c </mindvexArtifact> d <mindvexActio',
+    expected: {
+      output: 'a <mindvexArtifacts> b <mindvex-quick-actionz> c </mindvexArtifact> d <mindvexActio',
+      events: [],
+    },
+  },
+  {
+    name: 'quick actions',
+    message:
+      'Done!\n<mindvex-quick-actions>\n<mindvex-quick-action type="message" message="Add tests">Add tests</mindvex-quick-action>\n</mindvex-quick-actions>',
+    expected: {
+      output:
+        'Done!\n<div class="__mindvexQuickAction__" data-mindvex-quick-action="true"><button class="__mindvexQuickAction__" data-mindvex-quick-action="true" data-type="message" data-message="Add tests" data-path="" data-href="">Add tests</button></div>',
+      events: [],
+    },
+  },
+  {
+    name: 'file content with markup and a fence',
+    message:
+      '<mindvexArtifact title="Html"><mindvexAction type="file" filePath="index.html">\n```html\n<div class="a">&lt;b&gt;</div>\n```\n</mindvexAction></mindvexArtifact>',
+    expected: {
+      output: '[artifact]',
+      events: [
+        'artifactOpen Html',
+        'actionOpen file index.html',
+        'actionClose file index.html <div class="a"><b></div>\n',
+        'artifactClose Html',
+      ],
+    },
+  },
+  {
+    name: 'message cut off inside an action',
+    message: 'Start <mindvexArtifact title="Cut"><mindvexAction type="file" filePath="a.js">const a = 1;</mindvexA',
+    expected: { output: 'Start [artifact]', events: ['artifactOpen Cut', 'actionOpen file a.js'] },
+  },
+  {
+    name: 'self-closing action',
+    message: '<mindvexArtifact title="Empty"><mindvexAction type="shell" /></mindvexArtifact>',
+    expected: {
+      output: '[artifact]',
+      events: ['artifactOpen Empty', 'actionOpen shell', 'actionClose shell ', 'artifactClose Empty'],
+    },
+  },
+];
+
+describe('StreamingMessageParser fuzzing', () => {
+  it.each(CORPUS)('parses "$name" the same however it is streamed', ({ message, expected }) => {
+    const whole = parseInChunks([message]);
+
+    if (expected) {
+      expect(whole).toEqual(expected);
+    }
+
+    expect(parseInChunks(message.split(''))).toEqual(whole);
+
+    const random = seededRandom(message.length);
+
+    for (let run = 0; run < 25; run++) {
+      expect(parseInChunks(splitRandomly(message, random))).toEqual(whole);
+    }
+  });
+});
+
+function parseInChunks(chunks: string[]) {
+  const events: string[] = [];
+  const describeAction = ({ type, filePath }: { type: string; filePath?: string }) =>
+    filePath ? `${type} ${filePath}` : type;
+
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '[artifact]',
+    callbacks: {
+      onArtifactOpen: ({ title }) => events.push(`artifactOpen ${title}`),
+      onArtifactClose: ({ title }) => events.push(`artifactClose ${title}`),
+      onActionOpen: ({ action }) => events.push(`actionOpen ${describeAction(action as any)}`),
+      onActionClose: ({ action }) => events.push(`actionClose ${describeAction(action as any)} ${action.content}`),
+    },
+  });
+
+  let message = '';
+  let output = '';
+
+  for (const chunk of chunks) {
+    message += chunk;
+    output += parser.parse('message_1', message);
+  }
+
+  return { output, events };
+}
+
+function splitRandomly(message: string, random: () => number) {
+  const chunks: string[] = [];
+  let position = 0;
+
+  while (position < message.length) {
+    const size = 1 + Math.floor(random() * 12);
+
+    chunks.push(message.slice(position, position + size));
+    position += size;
+  }
+
+  return chunks;
+}
+
+// mulberry32, so failures can be reproduced
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
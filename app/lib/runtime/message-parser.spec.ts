@@ -156,6 +156,20 @@ describe('StreamingMessageParser', () => {
     ])('should correctly parse chunks and strip out mindvex artifacts (%#)', (input, expected) => {
       runTest(input, expected);
     });
+
+    it('should parse patch actions and strip the diff code fence', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+      const diff = '@@ -1,2 +1,2 @@\n const a = 1;\n-const b = 2;\n+const b = 3;';
+
+      parser.parse(
+        'message_1',
+        `<mindvexArtifact title="Fix" id="fix"><mindvexAction type="patch" filePath="src/b.js">\n\`\`\`diff\n${diff}\n\`\`\`\n</mindvexAction></mindvexArtifact>`,
+      );
+
+      expect(onActionClose).toHaveBeenCalledOnce();
+      expect(onActionClose.mock.calls[0][0].action).toEqual({ type: 'patch', filePath: 'src/b.js', content: diff });
+    });
   });
 });
 
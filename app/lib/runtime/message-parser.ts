@@ -3,19 +3,14 @@ import type {
   MindvexAction,
   MindvexActionData,
   FileAction,
+  PatchAction,
   ShellAction,
   SupabaseAction,
 } from '~/types/actions';
 import type { MindvexArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
-
-const ARTIFACT_TAG_OPEN = '<mindvexArtifact';
-const ARTIFACT_TAG_CLOSE = '</mindvexArtifact>';
-const ARTIFACT_ACTION_TAG_OPEN = '<mindvexAction';
-const ARTIFACT_ACTION_TAG_CLOSE = '</mindvexAction>';
-const MINDVEX_QUICK_ACTIONS_OPEN = '<mindvex-quick-actions>';
-const MINDVEX_QUICK_ACTIONS_CLOSE = '</mindvex-quick-actions>';
+import { MessageTokenizer, type TagAttributes } from './message-tokenizer';
 
 const logger = createScopedLogger('MessageParser');
 
@@ -55,9 +50,7 @@ export interface StreamingMessageParserOptions {
 }
 
 interface MessageState {
-  position: number;
-  insideArtifact: boolean;
-  insideAction: boolean;
+  tokenizer: MessageTokenizer;
   artifactCounter: number;
   currentArtifact?: MindvexArtifactData;
   currentAction: MindvexActionData;
@@ -91,9 +84,7 @@ export class StreamingMessageParser {
 
     if (!state) {
       state = {
-        position: 0,
-        insideAction: false,
-        insideArtifact: false,
+        tokenizer: new MessageTokenizer(),
         artifactCounter: 0,
         currentAction: { content: '' },
         actionId: 0,
@@ -103,238 +94,150 @@ export class StreamingMessageParser {
     }
 
     let output = '';
-    let i = state.position;
-    let earlyBreak = false;
-
-    while (i < input.length) {
-      if (input.startsWith(MINDVEX_QUICK_ACTIONS_OPEN, i)) {
-        const actionsBlockEnd = input.indexOf(MINDVEX_QUICK_ACTIONS_CLOSE, i);
-
-        if (actionsBlockEnd !== -1) {
-          const actionsBlockContent = input.slice(i + MINDVEX_QUICK_ACTIONS_OPEN.length, actionsBlockEnd);
-
-          // Find all <mindvex-quick-action ...>label</mindvex-quick-action> inside
-          const quickActionRegex = /<mindvex-quick-action([^>]*)>([\s\S]*?)<\/mindvex-quick-action>/g;
-          let match;
-          const buttons = [];
-
-          while ((match = quickActionRegex.exec(actionsBlockContent)) !== null) {
-            const tagAttrs = match[1];
-            const label = match[2];
-            const type = this.#extractAttribute(tagAttrs, 'type');
-            const message = this.#extractAttribute(tagAttrs, 'message');
-            const path = this.#extractAttribute(tagAttrs, 'path');
-            const href = this.#extractAttribute(tagAttrs, 'href');
-            buttons.push(
-              createQuickActionElement(
-                { type: type || '', message: message || '', path: path || '', href: href || '' },
-                label,
-              ),
-            );
-          }
-          output += createQuickActionGroup(buttons);
-          i = actionsBlockEnd + MINDVEX_QUICK_ACTIONS_CLOSE.length;
-          continue;
-        }
-      }
-
-      if (state.insideArtifact) {
-        const currentArtifact = state.currentArtifact;
 
-        if (currentArtifact === undefined) {
-          unreachable('Artifact not initialized');
+    for (const token of state.tokenizer.next(input)) {
+      switch (token.type) {
+        case 'text': {
+          output += token.value;
+          break;
         }
+        case 'quickActions': {
+          const buttons = token.actions.map(({ attributes, label }) =>
+            createQuickActionElement(
+              {
+                type: attributes.type ?? '',
+                message: attributes.message ?? '',
+                path: attributes.path ?? '',
+                href: attributes.href ?? '',
+              },
+              label,
+            ),
+          );
 
-        if (state.insideAction) {
-          const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
-
-          const currentAction = state.currentAction;
-
-          if (closeIndex !== -1) {
-            currentAction.content += input.slice(i, closeIndex);
-
-            let content = currentAction.content.trim();
+          output += createQuickActionGroup(buttons);
+          break;
+        }
+        case 'artifactOpen': {
+          const artifactTitle = token.attributes.title;
+          const type = token.attributes.type;
 
-            if ('type' in currentAction && currentAction.type === 'file') {
-              // Remove markdown code block syntax if present and file is not markdown
-              if (!currentAction.filePath.endsWith('.md')) {
-                content = cleanoutMarkdownSyntax(content);
-                content = cleanEscapedTags(content);
-              }
+          // const artifactId = token.attributes.id;
+          const artifactId = `${messageId}-${state.artifactCounter++}`;
 
-              content += '\n';
-            }
+          if (!artifactTitle) {
+            logger.warn('Artifact title missing');
+          }
 
-            currentAction.content = content;
+          const currentArtifact = {
+            id: artifactId,
+            title: artifactTitle,
+            type,
+          } satisfies MindvexArtifactData;
 
-            this._options.callbacks?.onActionClose?.({
-              artifactId: currentArtifact.id,
-              messageId,
+          state.currentArtifact = currentArtifact;
 
-              /**
-               * We decrement the id because it's been incremented already
-               * when `onActionOpen` was emitted to make sure the ids are
-               * the same.
-               */
-              actionId: String(state.actionId - 1),
+          this._options.callbacks?.onArtifactOpen?.({
+            messageId,
+            artifactId: currentArtifact.id,
+            ...currentArtifact,
+          });
 
-              action: currentAction as MindvexAction,
-            });
+          const artifactFactory = this._options.artifactElement ?? createArtifactElement;
 
-            state.insideAction = false;
-            state.currentAction = { content: '' };
-
-            i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
-          } else {
-            if ('type' in currentAction && currentAction.type === 'file') {
-              let content = input.slice(i);
-
-              if (!currentAction.filePath.endsWith('.md')) {
-                content = cleanoutMarkdownSyntax(content);
-                content = cleanEscapedTags(content);
-              }
-
-              this._options.callbacks?.onActionStream?.({
-                artifactId: currentArtifact.id,
-                messageId,
-                actionId: String(state.actionId - 1),
-                action: {
-                  ...(currentAction as FileAction),
-                  content,
-                  filePath: currentAction.filePath,
-                },
-              });
-            }
+          output += artifactFactory({ messageId, artifactId });
+          break;
+        }
+        case 'artifactClose': {
+          const currentArtifact = state.currentArtifact;
 
-            break;
+          if (currentArtifact === undefined) {
+            unreachable('Artifact not initialized');
           }
-        } else {
-          const actionOpenIndex = input.indexOf(ARTIFACT_ACTION_TAG_OPEN, i);
-          const artifactCloseIndex = input.indexOf(ARTIFACT_TAG_CLOSE, i);
-
-          if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
-            const actionEndIndex = input.indexOf('>', actionOpenIndex);
 
-            if (actionEndIndex !== -1) {
-              state.insideAction = true;
+          this._options.callbacks?.onArtifactClose?.({
+            messageId,
+            artifactId: currentArtifact.id,
+            ...currentArtifact,
+          });
 
-              state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+          state.currentArtifact = undefined;
+          break;
+        }
+        case 'actionOpen': {
+          state.currentAction = this.#parseActionTag(token.attributes);
+
+          this._options.callbacks?.onActionOpen?.({
+            artifactId: this.#artifactId(state),
+            messageId,
+            actionId: String(state.actionId++),
+            action: state.currentAction as MindvexAction,
+          });
+          break;
+        }
+        case 'actionContent': {
+          const currentAction = state.currentAction;
 
-              this._options.callbacks?.onActionOpen?.({
-                artifactId: currentArtifact.id,
-                messageId,
-                actionId: String(state.actionId++),
-                action: state.currentAction as MindvexAction,
-              });
+          if ('type' in currentAction && currentAction.type === 'file') {
+            let content = token.content;
 
-              i = actionEndIndex + 1;
-            } else {
-              break;
+            if (!currentAction.filePath.endsWith('.md')) {
+              content = cleanoutMarkdownSyntax(content);
+              content = cleanEscapedTags(content);
             }
-          } else if (artifactCloseIndex !== -1) {
-            this._options.callbacks?.onArtifactClose?.({
+
+            this._options.callbacks?.onActionStream?.({
+              artifactId: this.#artifactId(state),
               messageId,
-              artifactId: currentArtifact.id,
-              ...currentArtifact,
+              actionId: String(state.actionId - 1),
+              action: {
+                ...(currentAction as FileAction),
+                content,
+                filePath: currentAction.filePath,
+              },
             });
-
-            state.insideArtifact = false;
-            state.currentArtifact = undefined;
-
-            i = artifactCloseIndex + ARTIFACT_TAG_CLOSE.length;
-          } else {
-            break;
           }
-        }
-      } else if (input[i] === '<' && input[i + 1] !== '/') {
-        let j = i;
-        let potentialTag = '';
-
-        while (j < input.length && potentialTag.length < ARTIFACT_TAG_OPEN.length) {
-          potentialTag += input[j];
 
-          if (potentialTag === ARTIFACT_TAG_OPEN) {
-            const nextChar = input[j + 1];
+          break;
+        }
+        case 'actionClose': {
+          const currentAction = state.currentAction;
+          let content = token.content.trim();
 
-            if (nextChar && nextChar !== '>' && nextChar !== ' ') {
-              output += input.slice(i, j + 1);
-              i = j + 1;
-              break;
+          if ('type' in currentAction && currentAction.type === 'file') {
+            // Remove markdown code block syntax if present and file is not markdown
+            if (!currentAction.filePath.endsWith('.md')) {
+              content = cleanoutMarkdownSyntax(content);
+              content = cleanEscapedTags(content);
             }
 
-            const openTagEnd = input.indexOf('>', j);
-
-            if (openTagEnd !== -1) {
-              const artifactTag = input.slice(i, openTagEnd + 1);
-
-              const artifactTitle = this.#extractAttribute(artifactTag, 'title') as string;
-              const type = this.#extractAttribute(artifactTag, 'type') as string;
-
-              // const artifactId = this.#extractAttribute(artifactTag, 'id') as string;
-              const artifactId = `${messageId}-${state.artifactCounter++}`;
-
-              if (!artifactTitle) {
-                logger.warn('Artifact title missing');
-              }
-
-              if (!artifactId) {
-                logger.warn('Artifact id missing');
-              }
-
-              state.insideArtifact = true;
-
-              const currentArtifact = {
-                id: artifactId,
-                title: artifactTitle,
-                type,
-              } satisfies MindvexArtifactData;
-
-              state.currentArtifact = currentArtifact;
-
-              this._options.callbacks?.onArtifactOpen?.({
-                messageId,
-                artifactId: currentArtifact.id,
-                ...currentArtifact,
-              });
+            content += '\n';
+          } else if ('type' in currentAction && currentAction.type === 'patch') {
+            // Diffs are often wrapped in a ```diff fence
+            content = cleanEscapedTags(cleanoutMarkdownSyntax(content));
+          }
 
-              const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+          currentAction.content = content;
 
-              output += artifactFactory({ messageId, artifactId });
+          this._options.callbacks?.onActionClose?.({
+            artifactId: this.#artifactId(state),
+            messageId,
 
-              i = openTagEnd + 1;
-            } else {
-              earlyBreak = true;
-            }
+            /**
+             * We decrement the id because it's been incremented already
+             * when `onActionOpen` was emitted to make sure the ids are
+             * the same.
+             */
+            actionId: String(state.actionId - 1),
 
-            break;
-          } else if (!ARTIFACT_TAG_OPEN.startsWith(potentialTag)) {
-            output += input.slice(i, j + 1);
-            i = j + 1;
-            break;
-          }
+            action: currentAction as MindvexAction,
+          });
 
-          j++;
-        }
-
-        if (j === input.length && ARTIFACT_TAG_OPEN.startsWith(potentialTag)) {
+          state.currentAction = { content: '' };
           break;
         }
-      } else {
-        /*
-         * Note: Auto-file-creation from code blocks is now handled by EnhancedMessageParser
-         * to avoid duplicate processing and provide better shell command detection
-         */
-        output += input[i];
-        i++;
-      }
-
-      if (earlyBreak) {
-        break;
       }
     }
 
-    state.position = i;
-
     return output;
   }
 
@@ -342,10 +245,16 @@ export class StreamingMessageParser {
     this.#messages.clear();
   }
 
-  #parseActionTag(input: string, actionOpenIndex: number, actionEndIndex: number) {
-    const actionTag = input.slice(actionOpenIndex, actionEndIndex + 1);
+  #artifactId(state: MessageState) {
+    if (state.currentArtifact === undefined) {
+      unreachable('Artifact not initialized');
+    }
 
-    const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
+    return state.currentArtifact.id;
+  }
+
+  #parseActionTag(attributes: TagAttributes) {
+    const actionType = attributes.type as ActionType;
 
     const actionAttributes = {
       type: actionType,
@@ -353,7 +262,7 @@ export class StreamingMessageParser {
     };
 
     if (actionType === 'supabase') {
-      const operation = this.#extractAttribute(actionTag, 'operation');
+      const operation = attributes.operation;
 
       if (!operation || !['migration', 'query'].includes(operation)) {
         logger.warn(`Invalid or missing operation for Supabase action: ${operation}`);
@@ -363,7 +272,7 @@ export class StreamingMessageParser {
       (actionAttributes as SupabaseAction).operation = operation as 'migration' | 'query';
 
       if (operation === 'migration') {
-        const filePath = this.#extractAttribute(actionTag, 'filePath');
+        const filePath = attributes.filepath;
 
         if (!filePath) {
           logger.warn('Migration requires a filePath');
@@ -372,24 +281,19 @@ export class StreamingMessageParser {
 
         (actionAttributes as SupabaseAction).filePath = filePath;
       }
-    } else if (actionType === 'file') {
-      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+    } else if (actionType === 'file' || actionType === 'patch') {
+      const filePath = attributes.filepath;
 
       if (!filePath) {
         logger.debug('File path not specified');
       }
 
-      (actionAttributes as FileAction).filePath = filePath;
-    } else if (!['shell', 'start'].includes(actionType)) {
+      (actionAttributes as FileAction | PatchAction).filePath = filePath;
+    } else if (!['shell', 'test', 'start'].includes(actionType)) {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
-  }
-
-  #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
-    return match ? match[1] : undefined;
+    return actionAttributes as FileAction | PatchAction | ShellAction;
   }
 }
 
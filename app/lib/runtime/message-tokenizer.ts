@@ -0,0 +1,424 @@
+/**
+ * Incremental tokenizer for the markup in assistant messages: artifacts, their
+ * actions and quick-action groups. It is fed the whole message so far on every
+ * call and returns the tokens completed since the previous call. Input that
+ * could still turn into a tag, like a trailing `<mindv`, is held back until a
+ * later call decides it, so the tokens never depend on where the stream was cut.
+ *
+ * Malformed markup is recovered from the same way every time:
+ * - attribute values may span lines; a tag with an unbalanced quote ends at its
+ *   first `>`, and one without a `>` within `MAX_TAG_LENGTH` characters is text
+ * - an artifact opened inside another one closes the outer artifact first
+ * - an action that is never closed ends where the next action starts or its artifact ends
+ * - a markdown fence wrapped around an artifact is dropped together with its closing fence
+ */
+
+const ARTIFACT_TAG = 'mindvexArtifact';
+const ACTION_TAG = 'mindvexAction';
+const QUICK_ACTIONS_TAG = 'mindvex-quick-actions';
+const QUICK_ACTIONS_CLOSE = `</${QUICK_ACTIONS_TAG}>`;
+
+// Longest opening tag, from `<` to `>`, before the input is taken as text instead
+const MAX_TAG_LENGTH = 2048;
+
+// Longest quick-action group held back while waiting for its closing tag
+const MAX_QUICK_ACTIONS_LENGTH = 8192;
+
+// Ends of an action's content; only the first is well-formed, the others recover a missing close tag
+const ACTION_END_REGEX = /<\/mindvexAction\s*>|<\/mindvexArtifact\s*>|<mindvexArtifact[\s>]|<mindvexAction[\s>/]/g;
+const ACTION_END_PREFIXES = ['</mindvexAction>', '</mindvexArtifact>', '<mindvexArtifact ', '<mindvexAction '];
+
+export type TagAttributes = Record<string, string>;
+
+export interface QuickAction {
+  attributes: TagAttributes;
+  label: string;
+}
+
+export type MessageToken =
+  | { type: 'text'; value: string }
+  | { type: 'artifactOpen'; attributes: TagAttributes }
+  | { type: 'artifactClose' }
+  | { type: 'actionOpen'; attributes: TagAttributes }
+
+  // Content of the open action so far, while its closing tag has not arrived
+  | { type: 'actionContent'; content: string }
+  | { type: 'actionClose'; content: string }
+  | { type: 'quickActions'; actions: QuickAction[] };
+
+type TagMatch =
+  | { status: 'incomplete' }
+  | { status: 'none' }
+  | { status: 'tag'; name: string; closing: boolean; selfClosing: boolean; attributes: TagAttributes; end: number };
+
+type Mode = 'text' | 'artifact' | 'action' | 'fenceEnd';
+
+export class MessageTokenizer {
+  #position = 0;
+  #mode: Mode = 'text';
+
+  // Whether the text so far has an open markdown code fence
+  #inFence = false;
+
+  // Whether the open artifact sits in a markdown fence that was dropped
+  #fencedArtifact = false;
+
+  /** Tokens completed by `input`, the whole message so far. */
+  next(input: string): MessageToken[] {
+    const tokens: MessageToken[] = [];
+
+    while (this.#position < input.length) {
+      const step =
+        this.#mode === 'action'
+          ? this.#readAction(input, tokens)
+          : this.#mode === 'artifact'
+            ? this.#readArtifact(input, tokens)
+            : this.#mode === 'fenceEnd'
+              ? this.#readFenceEnd(input)
+              : this.#readText(input, tokens);
+
+      if (!step) {
+        break;
+      }
+    }
+
+    return tokens;
+  }
+
+  #readText(input: string, tokens: MessageToken[]): boolean {
+    const start = this.#position;
+
+    if (input[start] === '<') {
+      const tag = readTag(input, start, [ARTIFACT_TAG, QUICK_ACTIONS_TAG], false);
+
+      if (tag.status === 'incomplete') {
+        return false;
+      }
+
+      if (tag.status === 'none') {
+        pushText(tokens, '<');
+        this.#position = start + 1;
+
+        return true;
+      }
+
+      if (tag.name === ARTIFACT_TAG) {
+        this.#openArtifact(tag, tokens);
+        return true;
+      }
+
+      const closeIndex = input.indexOf(QUICK_ACTIONS_CLOSE, tag.end);
+
+      if (closeIndex === -1) {
+        if (input.length - start <= MAX_QUICK_ACTIONS_LENGTH) {
+          return false;
+        }
+
+        pushText(tokens, '<');
+        this.#position = start + 1;
+
+        return true;
+      }
+
+      tokens.push({ type: 'quickActions', actions: parseQuickActions(input.slice(tag.end, closeIndex)) });
+      this.#position = closeIndex + QUICK_ACTIONS_CLOSE.length;
+
+      return true;
+    }
+
+    if (input[start] === '`' && isLineStart(input, start)) {
+      return this.#readFence(input, tokens);
+    }
+
+    let end = start + 1;
+
+    while (end < input.length && input[end] !== '<' && !(input[end] === '`' && isLineStart(input, end))) {
+      end++;
+    }
+
+    pushText(tokens, input.slice(start, end));
+    this.#position = end;
+
+    return true;
+  }
+
+  // A line starting with a backtick: a code fence, possibly wrapped around an artifact
+  #readFence(input: string, tokens: MessageToken[]): boolean {
+    const start = this.#position;
+    const lineEnd = input.indexOf('\n', start);
+
+    if (lineEnd === -1) {
+      if (/^(`{1,2}|```[\w-]*[ \t]*)$/.test(input.slice(start))) {
+        return false;
+      }
+
+      pushText(tokens, '`');
+      this.#position = start + 1;
+
+      return true;
+    }
+
+    const line = input.slice(start, lineEnd + 1);
+
+    if (!/^```[\w-]*[ \t]*\r?\n$/.test(line)) {
+      pushText(tokens, '`');
+      this.#position = start + 1;
+
+      return true;
+    }
+
+    if (!this.#inFence) {
+      const next = skipWhitespace(input, lineEnd + 1);
+
+      if (next === input.length) {
+        return false;
+      }
+
+      if (input[next] === '<') {
+        const tag = readTag(input, next, [ARTIFACT_TAG], false);
+
+        if (tag.status === 'incomplete') {
+          return false;
+        }
+
+        if (tag.status === 'tag') {
+          this.#openArtifact(tag, tokens);
+          this.#fencedArtifact = true;
+
+          return true;
+        }
+      }
+    }
+
+    pushText(tokens, line);
+    this.#inFence = !this.#inFence;
+    this.#position = lineEnd + 1;
+
+    return true;
+  }
+
+  // Skips the closing fence of a fenced artifact, if there is one
+  #readFenceEnd(input: string): boolean {
+    const next = skipWhitespace(input, this.#position);
+    const rest = input.slice(next);
+
+    if (rest.length < 3 && '```'.startsWith(rest)) {
+      return false;
+    }
+
+    if (rest.startsWith('```')) {
+      this.#position = next + 3;
+    }
+
+    this.#mode = 'text';
+
+    return true;
+  }
+
+  #readArtifact(input: string, tokens: MessageToken[]): boolean {
+    // text between actions is not part of the message
+    const start = input.indexOf('<', this.#position);
+
+    if (start === -1) {
+      this.#position = input.length;
+      return false;
+    }
+
+    this.#position = start;
+
+    const tag = readTag(input, start, [ARTIFACT_TAG, ACTION_TAG], true);
+
+    if (tag.status === 'incomplete') {
+      return false;
+    }
+
+    if (tag.status === 'none') {
+      this.#position = start + 1;
+      return true;
+    }
+
+    if (tag.name === ARTIFACT_TAG) {
+      tokens.push({ type: 'artifactClose' });
+
+      if (tag.closing) {
+        this.#mode = this.#fencedArtifact ? 'fenceEnd' : 'text';
+        this.#fencedArtifact = false;
+        this.#position = tag.end;
+      } else {
+        this.#openArtifact(tag, tokens);
+      }
+
+      return true;
+    }
+
+    this.#position = tag.end;
+
+    // a stray `</mindvexAction>` has nothing to close
+    if (!tag.closing) {
+      tokens.push({ type: 'actionOpen', attributes: tag.attributes });
+
+      if (tag.selfClosing) {
+        tokens.push({ type: 'actionClose', content: '' });
+      } else {
+        this.#mode = 'action';
+      }
+    }
+
+    return true;
+  }
+
+  #readAction(input: string, tokens: MessageToken[]): boolean {
+    const start = this.#position;
+
+    ACTION_END_REGEX.lastIndex = start;
+
+    const end = ACTION_END_REGEX.exec(input);
+
+    if (!end) {
+      tokens.push({ type: 'actionContent', content: input.slice(start, withoutPartialTag(input, start)) });
+      return false;
+    }
+
+    tokens.push({ type: 'actionClose', content: input.slice(start, end.index) });
+    this.#mode = 'artifact';
+
+    // recovered ends are tags of their own for the artifact to read
+    this.#position = end[0].startsWith('</mindvexAction') ? end.index + end[0].length : end.index;
+
+    return true;
+  }
+
+  #openArtifact(tag: Extract<TagMatch, { status: 'tag' }>, tokens: MessageToken[]) {
+    tokens.push({ type: 'artifactOpen', attributes: tag.attributes });
+    this.#mode = 'artifact';
+    this.#position = tag.end;
+
+    if (tag.selfClosing) {
+      tokens.push({ type: 'artifactClose' });
+      this.#mode = 'text';
+    }
+  }
+}
+
+/**
+ * Reads the tag starting at `input[start] === '<'` if it is one of `names`.
+ * Says `incomplete` while the input ends before that can be decided.
+ */
+function readTag(input: string, start: number, names: string[], allowClosing: boolean): TagMatch {
+  const closing = input[start + 1] === '/';
+
+  if (closing && !allowClosing) {
+    return { status: 'none' };
+  }
+
+  const nameStart = start + (closing ? 2 : 1);
+  let nameEnd = nameStart;
+
+  while (nameEnd < input.length && /[\w-]/.test(input[nameEnd])) {
+    nameEnd++;
+  }
+
+  const name = input.slice(nameStart, nameEnd);
+
+  if (nameEnd === input.length) {
+    return names.some((candidate) => candidate.startsWith(name)) ? { status: 'incomplete' } : { status: 'none' };
+  }
+
+  if (!names.includes(name) || !/[\s>/]/.test(input[nameEnd])) {
+    return { status: 'none' };
+  }
+
+  const tagEnd = findTagEnd(input, nameEnd);
+
+  if (tagEnd === 'incomplete' || tagEnd === 'none') {
+    return { status: tagEnd };
+  }
+
+  const source = input.slice(nameEnd, tagEnd);
+
+  return {
+    status: 'tag',
+    name,
+    closing,
+    selfClosing: !closing && source.trimEnd().endsWith('/'),
+    attributes: closing ? {} : parseAttributes(source),
+    end: tagEnd + 1,
+  };
+}
+
+function findTagEnd(input: string, from: number): number | 'incomplete' | 'none' {
+  const limit = Math.min(input.length, from + MAX_TAG_LENGTH);
+  let quote: string | undefined;
+
+  for (let i = from; i < limit; i++) {
+    const char = input[i];
+
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+
+  if (limit === input.length) {
+    return 'incomplete';
+  }
+
+  // an unbalanced quote: the first `>` ends the tag after all
+  const end = input.indexOf('>', from);
+
+  return end !== -1 && end < limit ? end : 'none';
+}
+
+function parseAttributes(source: string): TagAttributes {
+  const attributes: TagAttributes = {};
+
+  for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted;
+  }
+
+  return attributes;
+}
+
+function parseQuickActions(source: string): QuickAction[] {
+  return [...source.matchAll(/<mindvex-quick-action\b([^>]*)>([\s\S]*?)<\/mindvex-quick-action>/g)].map(
+    ([, attributes, label]) => ({ attributes: parseAttributes(attributes), label }),
+  );
+}
+
+function pushText(tokens: MessageToken[], value: string) {
+  const last = tokens[tokens.length - 1];
+
+  if (last?.type === 'text') {
+    last.value += value;
+  } else {
+    tokens.push({ type: 'text', value });
+  }
+}
+
+function isLineStart(input: string, index: number) {
+  return index === 0 || input[index - 1] === '\n';
+}
+
+function skipWhitespace(input: string, index: number) {
+  while (index < input.length && /\s/.test(input[index])) {
+    index++;
+  }
+
+  return index;
+}
+
+// End of the streamed action content, leaving out a tag that may be arriving
+function withoutPartialTag(input: string, start: number) {
+  const lastOpen = input.lastIndexOf('<');
+
+  if (lastOpen < start) {
+    return input.length;
+  }
+
+  const tail = input.slice(lastOpen);
+
+  return ACTION_END_PREFIXES.some((prefix) => prefix.startsWith(tail)) ? lastOpen : input.length;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { countIndexedFiles, detectScipIndexer, SCIP_OUTPUT_PATH } from './scipIndexer';
+
+describe('detectScipIndexer', () => {
+  it('picks scip-typescript and infers a tsconfig when there is none', () => {
+    const indexer = detectScipIndexer(['package.json', 'src/index.js', 'src/app.jsx', 'scripts/seed.py']);
+
+    expect(indexer?.language).toBe('typescript');
+    expect(indexer?.args).toContain('--infer-tsconfig');
+    expect(indexer?.args.slice(-2)).toEqual(['--output', SCIP_OUTPUT_PATH]);
+    expect(detectScipIndexer(['tsconfig.json', 'src/a.ts'])?.args).not.toContain('--infer-tsconfig');
+  });
+
+  it('picks scip-python for Python projects, with an explicit environment', () => {
+    const indexer = detectScipIndexer(['pyproject.toml', 'app/main.py', 'web/static/app.js'], 'api');
+
+    expect(indexer?.language).toBe('python');
+    expect(indexer?.args).toContain('--project-name=api');
+    expect(Object.values(indexer!.setupFiles)).toEqual(['[]']);
+    expect(detectScipIndexer(['README.md', 'Cargo.toml', 'src/main.rs'])).toBeNull();
+  });
+});
+
+describe('countIndexedFiles', () => {
+  it('counts documents reported by either indexer', () => {
+    expect(countIndexedFiles('+ src/a.ts (12ms)\n+ src/b.ts (3ms)\ndone\n')).toBe(2);
+    expect(countIndexedFiles('Indexing file: app/main.py\nIndexing file: app/db.py')).toBe(2);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * scipIndexer.ts
+ *
+ * Produces a `.scip` index for the project inside the WebContainer by running
+ * scip-typescript or scip-python through npx. Both indexers are Node programs,
+ * so no native toolchain is needed.
+ */
+
+import type { WebContainer } from '@webcontainer/api';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ScipLanguage = 'typescript' | 'python';
+
+export interface ScipIndexerCommand {
+  language: ScipLanguage;
+  command: string;
+  args: string[];
+
+  // Extra files the indexer expects, written before it starts
+  setupFiles: Record<string, string>;
+}
+
+export interface ScipIndexerProgress {
+  indexedFiles: number;
+  line: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const SCIP_OUTPUT_PATH = '.mindvex/index.scip';
+
+const PYTHON_ENVIRONMENT_PATH = '.mindvex/scip-python-env.json';
+
+// Kill the indexer if it runs longer than this
+const INDEXER_TIMEOUT_MS = 10 * 60 * 1000;
+
+const TS_FILE_REGEX = /\.[cm]?[jt]sx?$/;
+
+const PY_FILE_REGEX = /\.py$/;
+
+// ─── Detection ────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the indexer for a project from its (WebContainer-relative) file list:
+ * Python when Python sources outnumber JS/TS ones or a Python manifest exists
+ * without a package.json. Returns null when neither language is present.
+ */
+export function detectScipIndexer(filePaths: string[], projectName = 'project'): ScipIndexerCommand | null {
+  const names = new Set(filePaths.map((filePath) => filePath.replace(/^\.?\/+/, '')));
+  const tsFiles = filePaths.filter((filePath) => TS_FILE_REGEX.test(filePath)).length;
+  const pyFiles = filePaths.filter((filePath) => PY_FILE_REGEX.test(filePath)).length;
+  const hasPythonManifest = ['pyproject.toml', 'setup.py', 'requirements.txt'].some((name) => names.has(name));
+
+  if (pyFiles > tsFiles || (hasPythonManifest && !names.has('package.json') && pyFiles > 0)) {
+    return {
+      language: 'python',
+      command: 'npx',
+      args: [
+        '--yes',
+        '@sourcegraph/scip-python',
+        'index',
+        '.',
+        `--project-name=${projectName}`,
+        `--environment=${PYTHON_ENVIRONMENT_PATH}`,
+        `--output=${SCIP_OUTPUT_PATH}`,
+      ],
+
+      // An explicit (empty) environment stops scip-python from shelling out to pip
+      setupFiles: { [PYTHON_ENVIRONMENT_PATH]: '[]' },
+    };
+  }
+
+  if (tsFiles === 0) {
+    return null;
+  }
+
+  return {
+    language: 'typescript',
+    command: 'npx',
+    args: [
+      '--yes',
+      '@sourcegraph/scip-typescript',
+      'index',
+      ...(names.has('tsconfig.json') ? [] : ['--infer-tsconfig']),
+      '--no-progress-bar',
+      '--output',
+      SCIP_OUTPUT_PATH,
+    ],
+    setupFiles: {},
+  };
+}
+
+/**
+ * Count indexed documents from indexer output. scip-typescript prints
+ * `+ path (N ms)` per document, scip-python `Indexing file: path`.
+ */
+export function countIndexedFiles(output: string): number {
+  return output.split('\n').filter((line) => /^\s*\+ \S|Indexing file/i.test(line)).length;
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run `indexer` in the WebContainer and return the bytes of the index it wrote.
+ * Throws with the tail of the indexer output when it fails.
+ */
+export async function runScipIndexer(
+  container: WebContainer,
+  indexer: ScipIndexerCommand,
+  onProgress?: (progress: ScipIndexerProgress) => void,
+): Promise<Uint8Array> {
+  await container.fs.mkdir('.mindvex', { recursive: true });
+
+  for (const [filePath, content] of Object.entries(indexer.setupFiles)) {
+    await container.fs.writeFile(filePath, content);
+  }
+
+  const process = await container.spawn(indexer.command, indexer.args);
+  const timeout = setTimeout(() => process.kill(), INDEXER_TIMEOUT_MS);
+
+  let output = '';
+
+  process.output.pipeTo(
+    new WritableStream({
+      write(data) {
+        output += data;
+        onProgress?.({ indexedFiles: countIndexedFiles(output), line: data.trim().split('\n').pop() ?? '' });
+      },
+    }),
+  );
+
+  try {
+    const exitCode = await process.exit;
+
+    if (exitCode !== 0) {
+      throw new Error(`scip-${indexer.language} exited with code ${exitCode}: ${output.slice(-500)}`);
+    }
+
+    const index = await container.fs.readFile(SCIP_OUTPUT_PATH);
+
+    await container.fs.rm(SCIP_OUTPUT_PATH, { force: true });
+
+    return index;
+  } finally {
+    clearTimeout(timeout);
+
+    for (const filePath of Object.keys(indexer.setupFiles)) {
+      await container.fs.rm(filePath, { force: true }).catch(() => undefined);
+    }
+  }
+}
@@ -10,6 +10,7 @@ const RATE_LIMITS = {
 
   // LLM API (more restrictive)
   '/api/llmcall': { windowMs: 60 * 1000, maxRequests: 10 }, // 10 requests per minute
+  '/api/chat': { windowMs: 60 * 1000, maxRequests: 30 }, // 30 requests per minute, tool calls take one each
 
   // GitHub API endpoints
   '/api/github-*': { windowMs: 60 * 1000, maxRequests: 30 }, // 30 requests per minute
@@ -0,0 +1,158 @@
+/**
+ * architectureRulesStore.ts
+ *
+ * Loads `mindvex.architecture.json` from the project and checks the cached
+ * file graph against it. Used by the Architecture page and before pushes.
+ */
+import { atom } from 'nanostores';
+import {
+  ARCHITECTURE_CONFIG_PATH,
+  checkArchitecture,
+  findImportLine,
+  parseArchitectureConfig,
+  type ArchitectureConfig,
+  type ArchitectureViolation,
+} from '~/lib/graph/architectureRules';
+import { graphCache } from '~/lib/stores/graphCacheStore';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ArchitectureRules');
+
+// null when the project has no config file
+export const architectureConfig = atom<ArchitectureConfig | null>(null);
+export const architectureConfigError = atom<string | null>(null);
+export const architectureViolations = atom<ArchitectureViolation[]>([]);
+export const architectureChecking = atom<boolean>(false);
+
+/**
+ * Re-read the config and check the current graph. Returns null when there is
+ * no graph, no config or the config is invalid (see `architectureConfigError`).
+ */
+export async function runArchitectureCheck(): Promise<ArchitectureViolation[] | null> {
+  const graph = graphCache.get();
+
+  architectureChecking.set(true);
+
+  try {
+    const { webcontainer } = await import('~/lib/webcontainer');
+    const container = await webcontainer;
+    const config = await loadConfig((path) => container.fs.readFile(path, 'utf-8'));
+
+    if (!graph || !config) {
+      architectureViolations.set([]);
+      return null;
+    }
+
+    const violations = checkArchitecture(graph, config);
+    const contents = new Map<string, Promise<string | null>>();
+
+    // Point each violation at its import statement
+    await Promise.all(
+      violations.map(async (violation) => {
+        if (!contents.has(violation.sourceFile)) {
+          contents.set(
+            violation.sourceFile,
+            container.fs.readFile(violation.sourceFile, 'utf-8').catch(() => null),
+          );
+        }
+
+        const content = await contents.get(violation.sourceFile);
+        Object.assign(violation, content ? findImportLine(content, violation.targetFile) : undefined);
+      }),
+    );
+
+    architectureViolations.set(violations);
+
+    return violations;
+  } finally {
+    architectureChecking.set(false);
+  }
+}
+
+/**
+ * Pre-push check: the violations split by severity plus a short summary, or
+ * null when the project declares no rules. Never throws.
+ */
+export async function checkArchitectureBeforePush(): Promise<{
+  errors: ArchitectureViolation[];
+  warnings: ArchitectureViolation[];
+  summary: string;
+} | null> {
+  try {
+    const violations = await runArchitectureCheck();
+
+    if (!violations) {
+      return null;
+    }
+
+    const errors = violations.filter((violation) => violation.severity === 'error');
+    const warnings = violations.filter((violation) => violation.severity === 'warn');
+    const summary = [
+      `Architecture: ${errors.length} error(s), ${warnings.length} warning(s)`,
+      ...errors
+        .slice(0, 5)
+        .map(
+          (violation) =>
+            `- ${violation.sourceFile}${violation.line ? `:${violation.line}` : ''} -> ${violation.targetFile} (${violation.rule})`,
+        ),
+    ].join('\n');
+
+    return { errors, warnings, summary };
+  } catch (error) {
+    logger.error('Architecture check failed', error);
+    return null;
+  }
+}
+
+/**
+ * The layer rule policy of every push path: warnings go to the log, errors
+ * let the push go ahead only once the user confirms it. Resolves to whether
+ * the push may go ahead.
+ */
+export async function confirmPushArchitecture(
+  confirm: (message: string) => boolean = (message) => window.confirm(message),
+): Promise<boolean> {
+  const architecture = await checkArchitectureBeforePush();
+
+  if (!architecture) {
+    return true;
+  }
+
+  if (architecture.warnings.length > 0) {
+    logger.warn(architecture.summary);
+  }
+
+  if (architecture.errors.length === 0) {
+    return true;
+  }
+
+  return confirm(`This push breaks the project's architecture rules:\n\n${architecture.summary}\n\nPush anyway?`);
+}
+
+async function loadConfig(readFile: (path: string) => Promise<string>): Promise<ArchitectureConfig | null> {
+  let text: string;
+
+  try {
+    text = await readFile(ARCHITECTURE_CONFIG_PATH);
+  } catch {
+    architectureConfig.set(null);
+    architectureConfigError.set(null);
+
+    return null;
+  }
+
+  try {
+    const config = parseArchitectureConfig(text);
+
+    architectureConfig.set(config);
+    architectureConfigError.set(null);
+
+    return config;
+  } catch (error) {
+    logger.warn('Invalid architecture config', error);
+    architectureConfig.set(null);
+    architectureConfigError.set((error as Error).message);
+
+    return null;
+  }
+}
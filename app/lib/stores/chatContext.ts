@@ -0,0 +1,117 @@
+import { atom } from 'nanostores';
+import { normalizeRepoPath } from '~/lib/graph/impactAnalysis';
+import {
+  buildContextPlan,
+  findSearchCandidates,
+  getContextBudget,
+  type ContextCandidate,
+  type ContextPlan,
+} from '~/lib/llm/contextBuilder';
+import { getModelLimits } from '~/lib/llm/registry';
+import { graphCache } from '~/lib/stores/graphCacheStore';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { ig } from '~/utils/fileUtils';
+
+// Graph neighbours of the open file offered as context
+const MAX_GRAPH_NEIGHBOURS = 6;
+
+// Files larger than this are never searched or offered whole
+const MAX_FILE_LENGTH = 200_000;
+
+/** Repository-relative paths the user pinned to every chat message. */
+export const pinnedContextFiles = atom<string[]>([]);
+
+export function togglePinnedContextFile(path: string) {
+  const pinned = pinnedContextFiles.get();
+  pinnedContextFiles.set(pinned.includes(path) ? pinned.filter((entry) => entry !== path) : [...pinned, path]);
+}
+
+/**
+ * Plan the context for a message to `model` of `provider`, given the
+ * conversation so far takes `usedTokens`.
+ */
+export function planChatContext(
+  query: string,
+  { provider, model, usedTokens }: { provider: string; model: string; usedTokens: number },
+): ContextPlan {
+  const budget = getContextBudget(getModelLimits(provider, model).maxTokenAllowed, usedTokens);
+
+  return buildContextPlan(collectContextCandidates(query), { budget, model });
+}
+
+export function collectContextCandidates(query: string): ContextCandidate[] {
+  const files = projectFiles();
+  const contents = new Map(files.map(({ path, content }) => [path, content]));
+  const candidates: ContextCandidate[] = [];
+
+  for (const path of pinnedContextFiles.get()) {
+    const content = contents.get(path);
+
+    if (content !== undefined) {
+      candidates.push({ path, content, source: 'pinned' });
+    }
+  }
+
+  const document = workbenchStore.currentDocument.get();
+  const openPath = document ? normalizeRepoPath(document.filePath) : undefined;
+
+  if (document && openPath && !document.isBinary) {
+    candidates.push({ path: openPath, content: document.value, source: 'open-file' });
+  }
+
+  for (const [filePath, modification] of Object.entries(workbenchStore.getFileModifcations() ?? {})) {
+    candidates.push({ path: normalizeRepoPath(filePath), content: modification.content, source: 'diff' });
+  }
+
+  candidates.push(...findSearchCandidates(files, query));
+
+  if (openPath) {
+    candidates.push(...graphNeighbours(openPath, contents));
+  }
+
+  return candidates;
+}
+
+function projectFiles() {
+  return Object.entries(workbenchStore.files.get()).flatMap(([filePath, dirent]) => {
+    const path = normalizeRepoPath(filePath);
+
+    if (dirent?.type !== 'file' || dirent.isBinary || dirent.content.length > MAX_FILE_LENGTH || ig.ignores(path)) {
+      return [];
+    }
+
+    return [{ path, content: dirent.content }];
+  });
+}
+
+// Files the open file imports or is imported by
+function graphNeighbours(openPath: string, contents: Map<string, string>): ContextCandidate[] {
+  const graph = graphCache.get();
+
+  if (!graph) {
+    return [];
+  }
+
+  const pathById = new Map(
+    graph.nodes
+      .filter((node) => node.data.filePath && (node.data.kind ?? 'file') === 'file')
+      .map((node) => [node.data.id, normalizeRepoPath(node.data.filePath)]),
+  );
+  const neighbours = new Set<string>();
+
+  for (const { data } of graph.edges) {
+    const source = pathById.get(data.source);
+    const target = pathById.get(data.target);
+
+    if (source === openPath && target) {
+      neighbours.add(target);
+    } else if (target === openPath && source) {
+      neighbours.add(source);
+    }
+  }
+
+  return [...neighbours]
+    .filter((path) => contents.has(path))
+    .slice(0, MAX_GRAPH_NEIGHBOURS)
+    .map((path) => ({ path, content: contents.get(path)!, source: 'graph' as const }));
+}
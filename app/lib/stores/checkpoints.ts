@@ -0,0 +1,149 @@
+import { map } from 'nanostores';
+import { chatId, db, deleteCheckpoints, getCheckpoints, setCheckpoint } from '~/lib/persistence';
+import type { ArtifactCheckpoint } from '~/lib/persistence/types';
+import { webcontainer } from '~/lib/webcontainer';
+import { expandCheckpointPaths } from '~/utils/checkpoints';
+import { createScopedLogger } from '~/utils/logger';
+import { path } from '~/utils/path';
+import type { FileMap } from './files';
+
+const logger = createScopedLogger('Checkpoints');
+
+/** Checkpoints of the current chat's artifacts, keyed by artifact id. */
+export const checkpoints = map<Record<string, ArtifactCheckpoint>>({});
+
+// Artifacts started in this session. Reloaded ones ran before and keep the checkpoint they stored then.
+const recording = new Set<string>();
+
+// One capture per artifact and path, shared by every action that touches the path
+const captures = new Map<string, Promise<void>>();
+
+export function beginCheckpoint({ id, messageId, title }: Pick<ArtifactCheckpoint, 'id' | 'messageId' | 'title'>) {
+  if (recording.has(id)) {
+    return;
+  }
+
+  recording.add(id);
+  checkpoints.setKey(id, { id, chatId: chatId.get(), messageId, title, timestamp: Date.now(), files: {} });
+}
+
+/**
+ * Record the current content of `paths` in the artifact's checkpoint unless
+ * it already has them. Must be awaited before the artifact changes them.
+ */
+export async function captureCheckpointFiles(artifactId: string, paths: string[], files: FileMap): Promise<void> {
+  if (!recording.has(artifactId)) {
+    return;
+  }
+
+  await Promise.all(
+    expandCheckpointPaths(paths, files).map((filePath) => {
+      const key = `${artifactId}\u0000${filePath}`;
+      let capture = captures.get(key);
+
+      if (!capture) {
+        capture = readFile(filePath, files).then((content) => {
+          // Files that cannot be read are left out, so a rollback leaves them alone
+          if (content !== undefined) {
+            recordFile(artifactId, filePath, content);
+          }
+        });
+        captures.set(key, capture);
+      }
+
+      return capture;
+    }),
+  );
+}
+
+export async function loadCheckpoints(id = chatId.get()) {
+  const current = Object.values(checkpoints.get()).filter((checkpoint) => recording.has(checkpoint.id));
+
+  if (!db || !id) {
+    checkpoints.set(Object.fromEntries(current.map((checkpoint) => [checkpoint.id, checkpoint])));
+    return;
+  }
+
+  try {
+    const stored = await getCheckpoints(db, id);
+
+    checkpoints.set(Object.fromEntries([...stored, ...current].map((checkpoint) => [checkpoint.id, checkpoint])));
+  } catch (error) {
+    logger.error('Failed to load checkpoints', error);
+  }
+}
+
+export async function removeCheckpoints(ids: string[]) {
+  const remaining = { ...checkpoints.get() };
+
+  for (const id of ids) {
+    delete remaining[id];
+    recording.delete(id);
+
+    for (const key of captures.keys()) {
+      if (key.startsWith(`${id}\u0000`)) {
+        captures.delete(key);
+      }
+    }
+  }
+
+  checkpoints.set(remaining);
+
+  if (db) {
+    await deleteCheckpoints(db, ids).catch((error) => logger.error('Failed to delete checkpoints', error));
+  }
+}
+
+async function readFile(filePath: string, files: FileMap): Promise<string | Uint8Array | null | undefined> {
+  const dirent = files[filePath];
+
+  if (dirent?.type !== 'file') {
+    return null;
+  }
+
+  if (!dirent.isBinary) {
+    return dirent.content;
+  }
+
+  // The file map holds no content for binary files
+  try {
+    const wc = await webcontainer;
+    return await wc.fs.readFile(path.relative(wc.workdir, filePath));
+  } catch (error) {
+    logger.warn('Could not read binary file for checkpoint', filePath, error);
+    return undefined;
+  }
+}
+
+function recordFile(artifactId: string, filePath: string, content: string | Uint8Array | null) {
+  const checkpoint = checkpoints.get()[artifactId];
+
+  if (!checkpoint) {
+    return;
+  }
+
+  const updated = { ...checkpoint, files: { ...checkpoint.files, [filePath]: content } };
+
+  checkpoints.setKey(artifactId, updated);
+  persist(updated);
+}
+
+function persist(checkpoint: ArtifactCheckpoint) {
+  // New chats get their id when the first messages are stored; the listener below catches up
+  if (!db || !checkpoint.chatId) {
+    return;
+  }
+
+  setCheckpoint(db, checkpoint).catch((error) => logger.error('Failed to store checkpoint', error));
+}
+
+chatId.listen((id) => {
+  for (const checkpoint of Object.values(checkpoints.get())) {
+    if (!checkpoint.chatId && recording.has(checkpoint.id) && id) {
+      const updated = { ...checkpoint, chatId: id };
+
+      checkpoints.setKey(checkpoint.id, updated);
+      persist(updated);
+    }
+  }
+});
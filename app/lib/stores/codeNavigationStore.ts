@@ -0,0 +1,295 @@
+/**
+ * codeNavigationStore.ts
+ *
+ * Go-to-definition and find-all-references for the editor. Uses the backend
+ * SCIP occurrences when the repository is indexed and a local index built
+ * from the unified parser otherwise. Results with more than one location are
+ * listed in the references panel under the editor.
+ */
+import { atom } from 'nanostores';
+import {
+  buildLocalSymbolIndex,
+  filesMentioning,
+  findLocalDefinitions,
+  findOccurrenceAt,
+  findWordOccurrences,
+  identifierAt,
+  occurrenceToLocation,
+  scipSymbolFile,
+  type CodeLocation,
+  type LocalSymbolIndex,
+} from '~/lib/graph/codeNavigation';
+import { getReferences, type ReferenceResult } from '~/lib/graph/graphClient';
+import { normalizeRepoPath } from '~/lib/graph/impactAnalysis';
+import { graphCache, graphCacheRepoUrl } from '~/lib/stores/graphCacheStore';
+import { scipIndexState } from '~/lib/stores/scipIndexStore';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { FileMap } from '~/lib/stores/files';
+import { getUnifiedParser } from '~/lib/unifiedParser';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('CodeNavigation');
+
+// Concurrent `/api/graph/references` requests when collecting project-wide references
+const REFERENCE_BATCH_SIZE = 8;
+
+export interface NavigationResults {
+  kind: 'definition' | 'references';
+  symbol: string;
+  source: 'scip' | 'local';
+  locations: CodeLocation[];
+  loading: boolean;
+}
+
+export const navigationResults = atom<NavigationResults | null>(null);
+
+const occurrenceCache = new Map<string, Promise<ReferenceResult[] | null>>();
+
+let localIndex: { files: FileMap; index: Promise<LocalSymbolIndex> } | null = null;
+
+/**
+ * Jump to the definition of the identifier at a position of a workbench file.
+ * A single definition is opened directly; several are listed in the panel.
+ */
+export async function goToDefinition(filePath: string, line: number, character: number): Promise<void> {
+  const target = resolveTarget(filePath, line, character);
+
+  if (!target) {
+    return;
+  }
+
+  try {
+    const scip = await scipDefinitions(target.repoPath, line, character);
+    const locations = scip ?? (await localDefinitions(target.repoPath, target.name));
+
+    if (locations.length === 1) {
+      navigationResults.set(null);
+      openLocation(locations[0]);
+
+      return;
+    }
+
+    navigationResults.set({
+      kind: 'definition',
+      symbol: target.name,
+      source: scip ? 'scip' : 'local',
+      locations,
+      loading: false,
+    });
+  } catch (error) {
+    logger.error('Failed to go to definition', error);
+    navigationResults.set(null);
+  }
+}
+
+/** List every reference to the identifier at a position of a workbench file. */
+export async function findAllReferences(filePath: string, line: number, character: number): Promise<void> {
+  const target = resolveTarget(filePath, line, character);
+
+  if (!target) {
+    return;
+  }
+
+  navigationResults.set({ kind: 'references', symbol: target.name, source: 'local', locations: [], loading: true });
+
+  try {
+    const scip = await scipReferences(target.repoPath, line, character);
+    const locations = scip ?? (await localReferences(target.name));
+
+    navigationResults.set({
+      kind: 'references',
+      symbol: target.name,
+      source: scip ? 'scip' : 'local',
+      locations,
+      loading: false,
+    });
+  } catch (error) {
+    logger.error('Failed to find references', error);
+    navigationResults.set({ kind: 'references', symbol: target.name, source: 'local', locations: [], loading: false });
+  }
+}
+
+/** Open a location in the workbench editor and scroll to it. */
+export function openLocation(location: CodeLocation) {
+  workbenchStore.setSelectedFile(`${WORK_DIR}/${location.filePath}`);
+  workbenchStore.setCurrentDocumentScrollPosition({ line: location.line, column: location.character });
+}
+
+export function closeNavigationResults() {
+  navigationResults.set(null);
+}
+
+function resolveTarget(filePath: string, line: number, character: number) {
+  const content = readFile(normalizeRepoPath(filePath));
+  const identifier = content !== undefined ? identifierAt(content.split('\n')[line] ?? '', character) : null;
+
+  return identifier ? { repoPath: normalizeRepoPath(filePath), name: identifier.name } : null;
+}
+
+// ─── SCIP ─────────────────────────────────────────────────────────────────────
+
+/** Null when the repository has no SCIP data for the file or position. */
+async function scipDefinitions(repoPath: string, line: number, character: number): Promise<CodeLocation[] | null> {
+  const occurrence = await scipOccurrenceAt(repoPath, line, character);
+
+  if (!occurrence) {
+    return null;
+  }
+
+  if (occurrence.roleFlags & 1) {
+    return [occurrenceToLocation(occurrence, readFile(repoPath))];
+  }
+
+  const definingFile = occurrence.symbol.startsWith('local ') ? repoPath : scipSymbolFile(occurrence.symbol);
+  const definitions = definingFile
+    ? ((await fileOccurrences(definingFile)) ?? []).filter((o) => o.symbol === occurrence.symbol && o.roleFlags & 1)
+    : [];
+
+  return definitions.length > 0 ? definitions.map((o) => occurrenceToLocation(o, readFile(o.filePath))) : null;
+}
+
+async function scipReferences(repoPath: string, line: number, character: number): Promise<CodeLocation[] | null> {
+  const occurrence = await scipOccurrenceAt(repoPath, line, character);
+
+  if (!occurrence) {
+    return null;
+  }
+
+  // Local symbols never leave their file
+  const filePaths = occurrence.symbol.startsWith('local ') ? [repoPath] : await sourceFiles();
+  const locations: CodeLocation[] = [];
+
+  for (let i = 0; i < filePaths.length; i += REFERENCE_BATCH_SIZE) {
+    const batch = await Promise.all(filePaths.slice(i, i + REFERENCE_BATCH_SIZE).map(fileOccurrences));
+
+    for (const occurrences of batch) {
+      for (const o of occurrences ?? []) {
+        if (o.symbol === occurrence.symbol) {
+          locations.push(occurrenceToLocation(o, readFile(o.filePath)));
+        }
+      }
+    }
+  }
+
+  return locations.sort(compareLocations);
+}
+
+async function scipOccurrenceAt(repoPath: string, line: number, character: number) {
+  const occurrences = await fileOccurrences(repoPath);
+  return occurrences ? findOccurrenceAt(occurrences, line, character) : undefined;
+}
+
+function fileOccurrences(repoPath: string): Promise<ReferenceResult[] | null> {
+  const repoUrl = graphCacheRepoUrl.get();
+
+  if (!repoUrl) {
+    return Promise.resolve(null);
+  }
+
+  const key = `${repoUrl}\u0000${repoPath}`;
+  let occurrences = occurrenceCache.get(key);
+
+  if (!occurrences) {
+    occurrences = getReferences(repoUrl, repoPath)
+      .then((results) => (results?.length ? results : null))
+      .catch((error) => {
+        logger.debug('No SCIP occurrences for', repoPath, error);
+        return null;
+      });
+    occurrenceCache.set(key, occurrences);
+  }
+
+  return occurrences;
+}
+
+// ─── Local index ──────────────────────────────────────────────────────────────
+
+async function localDefinitions(repoPath: string, name: string): Promise<CodeLocation[]> {
+  const index = await getLocalIndex();
+  return findLocalDefinitions(index, name, repoPath, importSources(repoPath, name));
+}
+
+async function localReferences(name: string): Promise<CodeLocation[]> {
+  const index = await getLocalIndex();
+  const definitions = new Set(
+    (index.definitions.get(name) ?? []).map(
+      (location) => `${location.filePath}:${location.line}:${location.character}`,
+    ),
+  );
+
+  return filesMentioning(index, name)
+    .flatMap((filePath) => findWordOccurrences(readFile(filePath) ?? '', name, filePath))
+    .map((location) =>
+      definitions.has(`${location.filePath}:${location.line}:${location.character}`)
+        ? { ...location, kind: 'definition' as const }
+        : location,
+    )
+    .sort(compareLocations);
+}
+
+/** Files that `repoPath` imports `name` from, according to the import edges of the file graph. */
+function importSources(repoPath: string, name: string): string[] {
+  const graph = graphCache.get();
+
+  if (!graph) {
+    return [];
+  }
+
+  const filePaths = new Map(graph.nodes.map((node) => [node.data.id, normalizeRepoPath(node.data.filePath || '')]));
+
+  return graph.edges
+    .filter((edge) => filePaths.get(edge.data.source) === repoPath && edge.data.symbols?.includes(name))
+    .map((edge) => filePaths.get(edge.data.target)!)
+    .filter(Boolean);
+}
+
+function getLocalIndex(): Promise<LocalSymbolIndex> {
+  const files = workbenchStore.files.get();
+
+  if (localIndex?.files !== files) {
+    localIndex = { files, index: buildIndex(files) };
+  }
+
+  return localIndex.index;
+}
+
+async function buildIndex(files: FileMap): Promise<LocalSymbolIndex> {
+  const parser = await getUnifiedParser();
+  const contents = new Map<string, string>();
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary && parser.isSupportedFile(filePath)) {
+      contents.set(normalizeRepoPath(filePath), dirent.content);
+    }
+  }
+
+  const results = await parser.parseFiles([...contents].map(([path, content]) => ({ path, content })));
+
+  return buildLocalSymbolIndex(results, contents);
+}
+
+async function sourceFiles(): Promise<string[]> {
+  const parser = await getUnifiedParser();
+
+  return Object.entries(workbenchStore.files.get())
+    .filter(([filePath, dirent]) => dirent?.type === 'file' && !dirent.isBinary && parser.isSupportedFile(filePath))
+    .map(([filePath]) => normalizeRepoPath(filePath));
+}
+
+function readFile(repoPath: string): string | undefined {
+  const dirent = workbenchStore.files.get()[`${WORK_DIR}/${repoPath}`];
+  return dirent?.type === 'file' && !dirent.isBinary ? dirent.content : undefined;
+}
+
+function compareLocations(a: CodeLocation, b: CodeLocation): number {
+  return a.filePath.localeCompare(b.filePath) || a.line - b.line || a.character - b.character;
+}
+
+// Occurrences change when the project is re-indexed or another repository is opened
+scipIndexState.listen((state) => {
+  if (state.phase === 'done') {
+    occurrenceCache.clear();
+  }
+});
+graphCacheRepoUrl.listen(() => occurrenceCache.clear());
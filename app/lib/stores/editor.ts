@@ -2,6 +2,21 @@ import { atom, computed, map, type MapStore, type WritableAtom } from 'nanostore
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
 import type { FileMap, FilesStore } from './files';
 import { createScopedLogger } from '~/utils/logger';
+import {
+  closePane,
+  closeTab,
+  createEditorLayout,
+  deselectInPane,
+  focusPane,
+  getActivePane,
+  moveTab,
+  openInPane,
+  pruneEditorLayout,
+  setPaneScroll,
+  splitPane,
+  type EditorLayout,
+  type SplitDirection,
+} from '~/utils/editorLayout';
 
 export type EditorDocuments = Record<string, EditorDocument>;
 
@@ -15,6 +30,16 @@ export class EditorStore {
   selectedFile: SelectedFile = import.meta.hot?.data.selectedFile ?? atom<string | undefined>();
   documents: MapStore<EditorDocuments> = import.meta.hot?.data.documents ?? map({});
 
+  // Split panes; `selectedFile` follows the selected file of the active pane
+  layout: WritableAtom<EditorLayout> = import.meta.hot?.data.editorLayout ?? atom(createEditorLayout());
+
+  /*
+   * Scroll positions by pane and file since the layout last changed. They are
+   * folded into the layout with its next change, so scrolling alone does not
+   * save the workspace.
+   */
+  #pendingScroll = new Map<string, Map<string, ScrollPosition>>();
+
   currentDocument = computed([this.documents, this.selectedFile], (documents, selectedFile) => {
     if (!selectedFile) {
       return undefined;
@@ -29,6 +54,7 @@ export class EditorStore {
     if (import.meta.hot) {
       import.meta.hot.data.documents = this.documents;
       import.meta.hot.data.selectedFile = this.selectedFile;
+      import.meta.hot.data.editorLayout = this.layout;
     }
   }
 
@@ -60,11 +86,59 @@ export class EditorStore {
     );
   }
 
+  /** Show a file in the active pane, or clear that pane's selection. */
   setSelectedFile(filePath: string | undefined) {
-    this.selectedFile.set(filePath);
+    const layout = this.#currentLayout();
+    const paneId = getActivePane(layout).id;
+
+    this.#setLayout(filePath ? openInPane(layout, paneId, filePath) : deselectInPane(layout, paneId));
+  }
+
+  focusPane(paneId: string) {
+    this.#setLayout(focusPane(this.#currentLayout(), paneId));
+  }
+
+  selectInPane(paneId: string, filePath: string) {
+    this.#setLayout(openInPane(this.#currentLayout(), paneId, filePath));
+  }
+
+  closeTab(paneId: string, filePath: string) {
+    this.#setLayout(closeTab(this.#currentLayout(), paneId, filePath));
+  }
+
+  closePane(paneId: string) {
+    this.#setLayout(closePane(this.#currentLayout(), paneId));
+  }
+
+  /** Open a file (by default the pane's own) in a new pane next to `paneId`. */
+  splitPane(paneId: string, direction: SplitDirection, filePath?: string) {
+    this.#setLayout(splitPane(this.#currentLayout(), paneId, direction, filePath));
+  }
+
+  moveTab(fromPaneId: string, toPaneId: string, filePath: string, index?: number) {
+    this.#setLayout(moveTab(this.#currentLayout(), fromPaneId, toPaneId, filePath, index));
+  }
+
+  /** Move a dragged tab into a new pane next to `paneId`. */
+  splitWithTab(fromPaneId: string, filePath: string, paneId: string, direction: SplitDirection) {
+    const split = splitPane(this.#currentLayout(), paneId, direction, filePath);
+    const newPaneId = split.activePaneId;
+
+    this.#setLayout(focusPane(newPaneId === fromPaneId ? split : closeTab(split, fromPaneId, filePath), newPaneId));
+  }
+
+  /** Put a saved layout back, without the tabs of files that are gone. */
+  restoreLayout(layout: EditorLayout | undefined, exists: (filePath: string) => boolean) {
+    this.#pendingScroll.clear();
+    this.#setLayout(layout?.panes.length ? pruneEditorLayout(layout, exists) : createEditorLayout());
+  }
+
+  resetLayout() {
+    this.#pendingScroll.clear();
+    this.#setLayout(createEditorLayout());
   }
 
-  updateScrollPosition(filePath: string, position: ScrollPosition) {
+  updateScrollPosition(filePath: string, position: ScrollPosition, paneId = this.layout.get().activePaneId) {
     const documents = this.documents.get();
     const documentState = documents[filePath];
 
@@ -76,6 +150,34 @@ export class EditorStore {
       ...documentState,
       scroll: position,
     });
+
+    const positions = this.#pendingScroll.get(paneId) ?? new Map<string, ScrollPosition>();
+
+    positions.set(filePath, position);
+    this.#pendingScroll.set(paneId, positions);
+  }
+
+  /** The layout with the scroll positions since its last change. */
+  #currentLayout() {
+    let layout = this.layout.get();
+
+    for (const [paneId, positions] of this.#pendingScroll) {
+      for (const [filePath, position] of positions) {
+        layout = setPaneScroll(layout, paneId, filePath, position);
+      }
+    }
+
+    this.#pendingScroll.clear();
+
+    return layout;
+  }
+
+  #setLayout(layout: EditorLayout) {
+    if (layout !== this.layout.get()) {
+      this.layout.set(layout);
+    }
+
+    this.selectedFile.set(getActivePane(layout).selectedFile);
   }
 
   updateFile(filePath: string, newContent: string) {
@@ -0,0 +1,21 @@
+import { atom } from 'nanostores';
+import { recordFileVersion } from '~/lib/persistence/fileHistory';
+import type { FileVersionSource } from '~/utils/fileHistory';
+
+// Bumped whenever a version is recorded, so open timelines reload
+export const fileHistoryRevision = atom(0);
+
+/** Record a version of a file in the background; failures only cost the snapshot. */
+export function snapshotFile(
+  workspaceId: string,
+  filePath: string,
+  content: string,
+  source: FileVersionSource,
+  baseline?: string,
+) {
+  recordFileVersion(workspaceId, filePath, content, source, baseline).then((recorded) => {
+    if (recorded) {
+      fileHistoryRevision.set(fileHistoryRevision.get() + 1);
+    }
+  });
+}
@@ -792,6 +792,11 @@ export class FilesStore {
         await webcontainer.fs.mkdir(dirPath, { recursive: true });
       }
 
+      // A file deleted earlier and created again, e.g. by a rollback, must not be hidden on reload
+      if (this.#deletedPaths.delete(filePath)) {
+        this.#persistDeletedPaths();
+      }
+
       const isBinary = content instanceof Uint8Array;
 
       if (isBinary) {
@@ -890,6 +895,26 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Remove everything in the work directory, e.g. to load another workspace in
+   * its place. The file map follows through the watcher; nothing is recorded
+   * as deleted, so the same paths may come back.
+   */
+  async removeAllFiles() {
+    const webcontainer = await this.#webcontainer;
+
+    for (const entry of await webcontainer.fs.readdir('.')) {
+      await webcontainer.fs.rm(entry, { recursive: true, force: true });
+    }
+
+    this.#modifiedFiles.clear();
+  }
+
+  /** Apply the locks stored for the current chat to the files now in the map. */
+  reloadLockedFiles() {
+    this.#loadLockedFiles();
+  }
+
   async deleteFolder(folderPath: string) {
     const webcontainer = await this.#webcontainer;
 
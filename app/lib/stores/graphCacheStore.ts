@@ -6,6 +6,16 @@
  */
 import { atom } from 'nanostores';
 import { buildGraph, getDependencies, getFallbackGraph, type GraphResponse } from '~/lib/graph/graphClient';
+import {
+  getCachedAnalysis,
+  getCachedGraph,
+  invalidateRepoCache,
+  setCachedAnalysis,
+  setCachedGraph,
+} from '~/lib/persistence/analysisCache';
+import { repositoryHistoryStore } from '~/lib/stores/repositoryHistory';
+import { projectAnalysisStore } from '~/lib/unifiedParser/projectAnalysisStore';
+import type { ProjectAnalysis } from '~/lib/unifiedParser/unifiedParser';
 
 // ─── State ───────────────────────────────────────────────────────────────────
 
@@ -15,20 +25,38 @@ export const graphCacheError = atom<string | null>(null);
 export const graphCacheRepoUrl = atom<string | null>(null);
 export const graphCacheStatus = atom<'idle' | 'building' | 'polling' | 'ready' | 'error'>('idle');
 
+// True when the current graph was restored from IndexedDB rather than freshly built
+export const graphCacheHydrated = atom<boolean>(false);
+
+const ANALYSIS_SAVE_DEBOUNCE_MS = 2000;
+
+let analysisSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Last analysis restored from IndexedDB; no need to write it straight back
+let restoredAnalysis: ProjectAnalysis | null = null;
+
 // ─── Actions ─────────────────────────────────────────────────────────────────
 
 /**
  * Kick off a graph build for the given repo and poll until the dependency
- * graph is available.  If a cache already exists for the same repoUrl it is
- * returned immediately.
+ * graph is available.  If a cache already exists for the same repoUrl (in
+ * memory or in IndexedDB for the same commit) it is returned immediately.
+ * Pass `force` to drop the persisted cache and rebuild.
  */
-export async function refreshGraph(repoUrl: string): Promise<void> {
+export async function refreshGraph(repoUrl: string, options: { force?: boolean } = {}): Promise<void> {
   // Already cached for this repo
-  if (graphCacheRepoUrl.get() === repoUrl && graphCache.get() !== null) {
+  if (!options.force && graphCacheRepoUrl.get() === repoUrl && graphCache.get() !== null) {
+    return;
+  }
+
+  if (options.force) {
+    await invalidateRepoCache(repoUrl);
+  } else if (await hydrateFromCache(repoUrl)) {
     return;
   }
 
   graphCacheRepoUrl.set(repoUrl);
+  graphCacheHydrated.set(false);
   graphCacheLoading.set(true);
   graphCacheError.set(null);
   graphCacheStatus.set('building');
@@ -51,6 +79,7 @@ export async function refreshGraph(repoUrl: string): Promise<void> {
         if (data && data.nodes && data.nodes.length > 0) {
           // We have real data — cache it and mark ready
           graphCache.set(data);
+          persistGraph(repoUrl, data);
           graphCacheStatus.set('ready');
           graphCacheLoading.set(false);
 
@@ -68,6 +97,7 @@ export async function refreshGraph(repoUrl: string): Promise<void> {
     try {
       const data = await getFallbackGraph();
       graphCache.set(data);
+      persistGraph(repoUrl, data);
       graphCacheStatus.set('ready');
     } catch {
       graphCacheError.set('Could not fetch graph data from backend or generate fallback.');
@@ -90,7 +120,12 @@ export async function loadExistingGraph(repoUrl: string): Promise<void> {
     return;
   }
 
+  if (await hydrateFromCache(repoUrl)) {
+    return;
+  }
+
   graphCacheRepoUrl.set(repoUrl);
+  graphCacheHydrated.set(false);
   graphCacheLoading.set(true);
   graphCacheError.set(null);
   graphCacheStatus.set('polling');
@@ -100,6 +135,11 @@ export async function loadExistingGraph(repoUrl: string): Promise<void> {
 
     // Accept whatever we get — even empty data is valid
     graphCache.set(data);
+
+    if (data.nodes?.length > 0) {
+      persistGraph(repoUrl, data);
+    }
+
     graphCacheStatus.set('ready');
   } catch {
     // No existing graph — trigger full build
@@ -116,11 +156,77 @@ export async function loadExistingGraph(repoUrl: string): Promise<void> {
 export function clearGraphCache(): void {
   graphCache.set(null);
   graphCacheRepoUrl.set(null);
+  graphCacheHydrated.set(false);
   graphCacheLoading.set(false);
   graphCacheError.set(null);
   graphCacheStatus.set('idle');
 }
 
+/** Drop the in-memory and persisted graph/analysis for a repo. */
+export async function invalidateGraphCache(repoUrl: string): Promise<void> {
+  await invalidateRepoCache(repoUrl);
+
+  if (graphCacheRepoUrl.get() === repoUrl) {
+    clearGraphCache();
+    projectAnalysisStore.set(null);
+  }
+}
+
+// ─── Persistence ─────────────────────────────────────────────────────────────
+
+/**
+ * Restore the graph (and the project analysis, when one was saved) for the
+ * repo's current commit from IndexedDB. Returns false on a cache miss.
+ */
+async function hydrateFromCache(repoUrl: string): Promise<boolean> {
+  const commitHash = getCommitHash(repoUrl);
+  const [graph, analysis] = await Promise.all([
+    getCachedGraph(repoUrl, commitHash),
+    getCachedAnalysis(repoUrl, commitHash),
+  ]);
+
+  if (!graph) {
+    return false;
+  }
+
+  graphCacheRepoUrl.set(repoUrl);
+  graphCache.set(graph);
+  graphCacheHydrated.set(true);
+  graphCacheError.set(null);
+  graphCacheStatus.set('ready');
+  graphCacheLoading.set(false);
+
+  if (analysis) {
+    restoredAnalysis = analysis;
+    projectAnalysisStore.set(analysis);
+  }
+
+  return true;
+}
+
+function persistGraph(repoUrl: string, graph: GraphResponse) {
+  setCachedGraph(repoUrl, getCommitHash(repoUrl), graph);
+}
+
+function getCommitHash(repoUrl: string): string | undefined {
+  return repositoryHistoryStore.getAllRepositories().find((repo) => repo.url === repoUrl)?.commitHash;
+}
+
+// Save the project analysis for the current repo whenever it settles
+projectAnalysisStore.listen((analysis) => {
+  clearTimeout(analysisSaveTimer);
+
+  const repoUrl = graphCacheRepoUrl.get();
+
+  if (!analysis || !repoUrl || analysis === restoredAnalysis) {
+    return;
+  }
+
+  analysisSaveTimer = setTimeout(() => {
+    setCachedAnalysis(repoUrl, getCommitHash(repoUrl), analysis);
+  }, ANALYSIS_SAVE_DEBOUNCE_MS);
+});
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function sleep(ms: number): Promise<void> {
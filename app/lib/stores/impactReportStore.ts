@@ -0,0 +1,115 @@
+/**
+ * impactReportStore.ts
+ *
+ * Builds change-impact reports from the cached file graph and the git churn
+ * of the current repository. Used by the Impact Analysis page and shown before
+ * pushes.
+ */
+import { atom } from 'nanostores';
+import { getHotspots, type HotspotResult } from '~/lib/analytics/analyticsClient';
+import {
+  computeImpact,
+  DEFAULT_IMPACT_DEPTH,
+  impactReportSummary,
+  type ImpactReport,
+} from '~/lib/graph/impactAnalysis';
+import { graphCache, graphCacheRepoUrl } from '~/lib/stores/graphCacheStore';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ImpactReport');
+
+// Churn window used to weight impacted modules
+const CHURN_WEEKS = 12;
+
+export const impactReport = atom<ImpactReport | null>(null);
+export const impactReportLoading = atom<boolean>(false);
+
+const hotspotCache = new Map<string, Promise<HotspotResult[]>>();
+
+/**
+ * Compute the impact of `changedFiles` (any mix of workbench, WebContainer or
+ * repository-relative paths) on the current graph. Returns null when no graph
+ * has been built yet.
+ */
+export async function generateImpactReport(
+  changedFiles: string[],
+  options: { maxDepth?: number } = {},
+): Promise<ImpactReport | null> {
+  const graph = graphCache.get();
+
+  if (!graph) {
+    return null;
+  }
+
+  impactReportLoading.set(true);
+
+  try {
+    const report = computeImpact(graph, changedFiles, {
+      maxDepth: options.maxDepth ?? DEFAULT_IMPACT_DEPTH,
+      hotspots: await loadHotspots(graphCacheRepoUrl.get()),
+    });
+
+    impactReport.set(report);
+
+    return report;
+  } finally {
+    impactReportLoading.set(false);
+  }
+}
+
+/**
+ * Show the impact of the files a push changes and let the user decide whether
+ * it goes ahead. The summary is meant for the commit message; nothing is
+ * written to the repository. Never throws: a push must not fail because of
+ * its report.
+ */
+export async function confirmPushImpact(
+  changedFiles: string[],
+  confirm: (message: string) => boolean = (message) => window.confirm(message),
+): Promise<{ proceed: boolean; summary?: string }> {
+  if (changedFiles.length === 0) {
+    return { proceed: true };
+  }
+
+  let report: ImpactReport | null;
+
+  try {
+    report = await generateImpactReport(changedFiles);
+  } catch (error) {
+    logger.error('Failed to build impact report for push', error);
+    return { proceed: true };
+  }
+
+  if (!report) {
+    return { proceed: true };
+  }
+
+  const summary = impactReportSummary(report);
+
+  if (report.modules.length === 0) {
+    return { proceed: true, summary };
+  }
+
+  return { proceed: confirm(`This push changes ${changedFiles.length} file(s).\n\n${summary}\n\nPush?`), summary };
+}
+
+function loadHotspots(repoUrl: string | null): Promise<HotspotResult[]> {
+  if (!repoUrl) {
+    return Promise.resolve([]);
+  }
+
+  let hotspots = hotspotCache.get(repoUrl);
+
+  if (!hotspots) {
+    // Threshold 0 returns every file with history, not just the hotspots
+    hotspots = getHotspots(repoUrl, CHURN_WEEKS, 0).catch((error) => {
+      logger.debug('Churn data unavailable, ranking by distance only', error);
+      hotspotCache.delete(repoUrl);
+
+      return [];
+    });
+    hotspotCache.set(repoUrl, hotspots);
+  }
+
+  return hotspots;
+}
@@ -0,0 +1,24 @@
+import { atom } from 'nanostores';
+
+export interface MergeConflict {
+  filePath: string;
+
+  // The saved file the user and the AI both started from
+  base: string;
+  user: string;
+  ai: string;
+  timestamp: number;
+}
+
+/** AI writes that overlapped unsaved user edits, waiting to be settled in the merge view. */
+export const mergeConflicts = atom<MergeConflict[]>([]);
+
+export function addMergeConflict(conflict: Omit<MergeConflict, 'timestamp'>) {
+  const others = mergeConflicts.get().filter((existing) => existing.filePath !== conflict.filePath);
+
+  mergeConflicts.set([...others, { ...conflict, timestamp: Date.now() }]);
+}
+
+export function dismissMergeConflict(filePath: string) {
+  mergeConflicts.set(mergeConflicts.get().filter((conflict) => conflict.filePath !== filePath));
+}
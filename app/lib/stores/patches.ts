@@ -0,0 +1,14 @@
+import { map } from 'nanostores';
+import type { AppliedHunk } from '~/utils/patch';
+
+export interface AppliedPatch {
+  actionId: string;
+  hunks: AppliedHunk[];
+
+  // File content after the patch
+  content: string;
+  timestamp: number;
+}
+
+/** Last patch action applied to each file, keyed by absolute path, for the diff view. */
+export const appliedPatches = map<Record<string, AppliedPatch>>({});
@@ -0,0 +1,167 @@
+/**
+ * scipIndexStore.ts
+ *
+ * Indexes the imported project with scip-typescript / scip-python inside the
+ * WebContainer, uploads the index and follows the backend job until hover and
+ * find-references are available. Progress is shown on the Dashboard.
+ */
+import { atom } from 'nanostores';
+import { detectScipIndexer, runScipIndexer, type ScipLanguage } from '~/lib/scip/scipIndexer';
+import { getJobStatus, uploadScipIndex } from '~/lib/scip/scipClient';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ScipIndex');
+
+const JOB_POLL_MS = 3000;
+
+// Give up following the backend job after this long
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type ScipIndexPhase = 'idle' | 'indexing' | 'uploading' | 'processing' | 'done' | 'failed';
+
+export interface ScipIndexState {
+  phase: ScipIndexPhase;
+  repoUrl: string | null;
+  language: ScipLanguage | null;
+
+  // 0-100, best effort while the indexer runs
+  progress: number;
+  message: string;
+  jobId: number | null;
+  error: string | null;
+}
+
+const IDLE_STATE: ScipIndexState = {
+  phase: 'idle',
+  repoUrl: null,
+  language: null,
+  progress: 0,
+  message: '',
+  jobId: null,
+  error: null,
+};
+
+export const scipIndexState = atom<ScipIndexState>(IDLE_STATE);
+
+let running: { repoUrl: string; promise: Promise<boolean> } | null = null;
+
+/**
+ * Index the current workbench files for `repoUrl` and upload the result.
+ * Resolves to true once the backend reports the index as processed. Calls for
+ * the repo already being indexed share that run.
+ */
+export function indexRepository(repoUrl: string): Promise<boolean> {
+  if (running?.repoUrl === repoUrl) {
+    return running.promise;
+  }
+
+  const promise = runIndexing(repoUrl).finally(() => {
+    if (running?.promise === promise) {
+      running = null;
+    }
+  });
+
+  running = { repoUrl, promise };
+
+  return promise;
+}
+
+async function runIndexing(repoUrl: string): Promise<boolean> {
+  // Uploads need a signed-in user
+  if (!localStorage.getItem('auth_token')) {
+    logger.debug('Not signed in, skipping SCIP indexing');
+    return false;
+  }
+
+  const filePaths = Object.entries(workbenchStore.files.get())
+    .filter(([, dirent]) => dirent?.type === 'file')
+    .map(([filePath]) => filePath.replace(`${WORK_DIR}/`, ''));
+  const projectName = repoUrl
+    .replace(/\.git$/, '')
+    .split('/')
+    .pop();
+  const indexer = detectScipIndexer(filePaths, projectName);
+
+  if (!indexer) {
+    update(repoUrl, { phase: 'idle', message: 'No TypeScript, JavaScript or Python sources to index' });
+    return false;
+  }
+
+  const sourceCount = filePaths.filter((filePath) =>
+    indexer.language === 'python' ? /\.py$/.test(filePath) : /\.[cm]?[jt]sx?$/.test(filePath),
+  ).length;
+
+  try {
+    update(repoUrl, {
+      phase: 'indexing',
+      language: indexer.language,
+      progress: 0,
+      message: `Running scip-${indexer.language}…`,
+    });
+
+    const { webcontainer } = await import('~/lib/webcontainer');
+    const index = await runScipIndexer(await webcontainer, indexer, ({ indexedFiles, line }) => {
+      update(repoUrl, {
+        progress: Math.min(70, Math.round((indexedFiles / Math.max(1, sourceCount)) * 70)),
+        message: line || `Indexed ${indexedFiles} file(s)`,
+      });
+    });
+
+    update(repoUrl, { phase: 'uploading', progress: 75, message: `Uploading index (${formatBytes(index.length)})…` });
+
+    const { jobId } = await uploadScipIndex(repoUrl, new Blob([index], { type: 'application/octet-stream' }));
+
+    update(repoUrl, { phase: 'processing', progress: 80, jobId, message: 'Waiting for the server to process…' });
+
+    return await followJob(repoUrl, jobId);
+  } catch (error) {
+    logger.error('SCIP indexing failed', error);
+    update(repoUrl, { phase: 'failed', error: (error as Error).message, message: 'Indexing failed' });
+
+    return false;
+  }
+}
+
+async function followJob(repoUrl: string, jobId: number): Promise<boolean> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+
+    // A newer run for another repo took over
+    if (scipIndexState.get().jobId !== jobId) {
+      return false;
+    }
+
+    const job = await getJobStatus(jobId);
+
+    if (job?.status === 'done') {
+      update(repoUrl, { phase: 'done', progress: 100, message: 'Code intelligence is ready' });
+      return true;
+    }
+
+    if (job?.status === 'failed') {
+      throw new Error(job.errorMsg || 'The server could not process the index');
+    }
+
+    update(repoUrl, {
+      progress: job?.status === 'processing' ? 90 : 80,
+      message: job?.status === 'processing' ? 'Processing index…' : 'Queued on the server…',
+    });
+  }
+
+  throw new Error('Timed out waiting for the index to be processed');
+}
+
+function update(repoUrl: string, patch: Partial<ScipIndexState>) {
+  const current = scipIndexState.get();
+  const base = current.repoUrl === repoUrl ? current : { ...IDLE_STATE, repoUrl };
+
+  scipIndexState.set({ ...base, error: null, ...patch });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
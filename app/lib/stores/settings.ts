@@ -1,5 +1,6 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
+import type { ConfiguredProvider } from '~/lib/llm/registry';
 import type { IProviderConfig, IProviderSetting } from '~/types/model';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
@@ -23,8 +24,12 @@ export interface Shortcuts {
   toggleTerminal: Shortcut;
 }
 
-export const URL_CONFIGURABLE_PROVIDERS = ['Ollama', 'LMStudio', 'OpenAILike'];
-export const LOCAL_PROVIDERS = ['OpenAILike', 'LMStudio', 'Ollama'];
+export const URL_CONFIGURABLE_PROVIDERS = PROVIDER_LIST.filter((provider) => provider.urlConfigurable).map(
+  (provider) => provider.name,
+);
+export const LOCAL_PROVIDERS = PROVIDER_LIST.filter((provider) => provider.category === 'local').map(
+  (provider) => provider.name,
+);
 
 export type ProviderSetting = Record<string, IProviderConfig>;
 
@@ -57,13 +62,6 @@ const AUTO_ENABLED_KEY = 'auto_enabled_providers';
 // Add this helper function at the top of the file
 const isBrowser = typeof window !== 'undefined';
 
-// Interface for configured provider info from server
-interface ConfiguredProvider {
-  name: string;
-  isConfigured: boolean;
-  configMethod: 'environment' | 'none';
-}
-
 // Fetch configured providers from server
 const fetchConfiguredProviders = async (): Promise<ConfiguredProvider[]> => {
   try {
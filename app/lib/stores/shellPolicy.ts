@@ -0,0 +1,131 @@
+import { atom, computed, map } from 'nanostores';
+import { chatId, chatMetadata } from '~/lib/persistence';
+import { logStore } from '~/lib/stores/logs';
+import {
+  DEFAULT_SHELL_POLICY,
+  evaluateShellCommand,
+  ShellCommandBlockedError,
+  type ProjectShellPolicy,
+  type ShellPolicy,
+  type ShellPolicyEvaluation,
+} from '~/utils/shellPolicy';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ShellPolicy');
+
+const GLOBAL_POLICY_KEY = 'mindvex_shell_policy';
+const PROJECT_POLICIES_KEY = 'mindvex_project_shell_policies';
+
+export interface ShellApprovalRequest {
+  id: string;
+  command: string;
+  evaluation: ShellPolicyEvaluation;
+}
+
+export const globalShellPolicy = atom<ShellPolicy>(loadStored(GLOBAL_POLICY_KEY) ?? DEFAULT_SHELL_POLICY);
+
+/** Policies of individual projects, keyed by repository URL or, for projects without one, chat. */
+export const projectShellPolicies = map<Record<string, ProjectShellPolicy>>(loadStored(PROJECT_POLICIES_KEY) ?? {});
+
+/** Key of the open project in `projectShellPolicies`, if any. */
+export const shellPolicyProject = computed([chatMetadata, chatId], (metadata, id) =>
+  metadata?.gitUrl ? metadata.gitUrl : id ? `chat:${id}` : undefined,
+);
+
+/** Commands waiting for the user's approval, oldest first. */
+export const shellApprovalRequests = atom<ShellApprovalRequest[]>([]);
+
+const approvalResolvers = new Map<string, (approved: boolean) => void>();
+
+export function updateGlobalShellPolicy(policy: ShellPolicy) {
+  logStore.logSettingsChange('shell-policy', 'global', globalShellPolicy.get(), policy);
+  globalShellPolicy.set(policy);
+  localStorage.setItem(GLOBAL_POLICY_KEY, JSON.stringify(policy));
+}
+
+/** Replace the policy of a project; `undefined` makes it follow the global policy again. */
+export function updateProjectShellPolicy(project: string, policy: ProjectShellPolicy | undefined) {
+  logStore.logSettingsChange('shell-policy', project, projectShellPolicies.get()[project], policy);
+
+  const { [project]: _previous, ...others } = projectShellPolicies.get();
+
+  projectShellPolicies.set(policy ? { ...others, [project]: policy } : others);
+  localStorage.setItem(PROJECT_POLICIES_KEY, JSON.stringify(projectShellPolicies.get()));
+}
+
+/**
+ * Check an assistant-issued command against the policy, asking the user when
+ * it says so. Throws a `ShellCommandBlockedError` unless the command may run.
+ * Every decision is written to the event log.
+ */
+export async function checkShellCommand(command: string, workdir: string): Promise<void> {
+  const project = shellPolicyProject.get();
+  const evaluation = evaluateShellCommand(
+    command,
+    { global: globalShellPolicy.get(), project: project ? projectShellPolicies.get()[project] : undefined },
+    workdir,
+  );
+
+  if (evaluation.decision !== 'ask') {
+    logDecision(command, evaluation, evaluation.decision);
+
+    if (evaluation.decision === 'deny') {
+      throw new ShellCommandBlockedError(command, evaluation);
+    }
+
+    return;
+  }
+
+  const approved = await requestApproval(command, evaluation);
+
+  logDecision(command, evaluation, approved ? 'approved' : 'rejected');
+
+  if (!approved) {
+    throw new ShellCommandBlockedError(command, evaluation, true);
+  }
+}
+
+export function resolveShellApproval(id: string, approved: boolean) {
+  shellApprovalRequests.set(shellApprovalRequests.get().filter((request) => request.id !== id));
+  approvalResolvers.get(id)?.(approved);
+  approvalResolvers.delete(id);
+}
+
+function requestApproval(command: string, evaluation: ShellPolicyEvaluation): Promise<boolean> {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  return new Promise((resolve) => {
+    approvalResolvers.set(id, resolve);
+    shellApprovalRequests.set([...shellApprovalRequests.get(), { id, command, evaluation }]);
+  });
+}
+
+function logDecision(command: string, evaluation: ShellPolicyEvaluation, outcome: string) {
+  const details = {
+    command,
+    outcome,
+    reason: evaluation.reason,
+    scope: evaluation.scope,
+    pattern: evaluation.rule?.pattern,
+  };
+
+  if (outcome === 'deny' || outcome === 'rejected') {
+    logStore.logWarning(`Shell command blocked: ${command}`, details);
+  } else {
+    logStore.logSystem(`Shell command ${outcome === 'approved' ? 'approved' : 'allowed'}: ${command}`, details);
+  }
+}
+
+function loadStored<T>(key: string): T | undefined {
+  if (typeof localStorage === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : undefined;
+  } catch (error) {
+    logger.warn(`Ignoring invalid ${key}`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * symbolGraphStore.ts
+ *
+ * Symbol-level graph (functions, classes, methods, interfaces) derived from
+ * the cached file graph. Built lazily by the pages that drill into symbols and
+ * dropped whenever the file graph changes.
+ */
+import { atom } from 'nanostores';
+import { getReferences, type GraphResponse, type ReferenceResult } from '~/lib/graph/graphClient';
+import { buildSymbolGraph, mergeScipReferences } from '~/lib/graph/symbolGraph';
+import { graphCache, graphCacheRepoUrl } from '~/lib/stores/graphCacheStore';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { getUnifiedParser } from '~/lib/unifiedParser';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { path as pathUtils } from '~/utils/path';
+
+const logger = createScopedLogger('SymbolGraph');
+
+// Concurrent `/api/graph/references` requests
+const REFERENCE_BATCH_SIZE = 8;
+
+export const symbolGraph = atom<GraphResponse | null>(null);
+export const symbolGraphLoading = atom<boolean>(false);
+
+let pending: Promise<GraphResponse | null> | null = null;
+
+/**
+ * Build the symbol graph for the current file graph, or return the one
+ * already built. Concurrent callers share the same build.
+ */
+export function loadSymbolGraph(): Promise<GraphResponse | null> {
+  const existing = symbolGraph.get();
+
+  if (existing) {
+    return Promise.resolve(existing);
+  }
+
+  if (!pending) {
+    const fileGraph = graphCache.get();
+    const build = buildFromFileGraph(fileGraph);
+
+    pending = build;
+    symbolGraphLoading.set(true);
+
+    build
+      .then((graph) => {
+        // The file graph may have been replaced while we were parsing
+        if (pending === build && graphCache.get() === fileGraph) {
+          symbolGraph.set(graph);
+        }
+      })
+      .catch((error) => logger.error('Failed to build symbol graph', error))
+      .finally(() => {
+        if (pending === build) {
+          pending = null;
+          symbolGraphLoading.set(false);
+        }
+      });
+  }
+
+  return pending;
+}
+
+async function buildFromFileGraph(fileGraph: GraphResponse | null): Promise<GraphResponse | null> {
+  if (!fileGraph) {
+    return null;
+  }
+
+  const parser = await getUnifiedParser();
+  const filesMap = workbenchStore.files.get();
+  const fileNodes = fileGraph.nodes.filter((node) => node.data.filePath && parser.isSupportedFile(node.data.filePath));
+  const files = fileNodes.flatMap((node) => {
+    const { filePath } = node.data;
+    const dirent = filesMap[filePath] ?? filesMap[pathUtils.join(WORK_DIR, filePath)];
+
+    // Parse under the node id so results map straight back onto the file graph
+    return dirent?.type === 'file' && !dirent.isBinary ? [{ path: node.data.id, content: dirent.content }] : [];
+  });
+
+  const results = await parser.parseFiles(files);
+  let graph = buildSymbolGraph(
+    fileGraph,
+    results.map((result) => ({ fileId: result.filePath, result })),
+  );
+
+  const repoUrl = graphCacheRepoUrl.get();
+
+  // SCIP occurrences are only available for graphs built by the backend
+  if (repoUrl && !fileGraph.isFallback) {
+    const occurrences = await fetchReferences(
+      repoUrl,
+      fileNodes.map((node) => node.data.filePath),
+    );
+
+    if (occurrences.length > 0) {
+      graph = mergeScipReferences(graph, occurrences);
+    }
+  }
+
+  return graph;
+}
+
+async function fetchReferences(repoUrl: string, filePaths: string[]): Promise<ReferenceResult[]> {
+  const occurrences: ReferenceResult[] = [];
+
+  for (let i = 0; i < filePaths.length; i += REFERENCE_BATCH_SIZE) {
+    const batch = await Promise.allSettled(
+      filePaths.slice(i, i + REFERENCE_BATCH_SIZE).map((filePath) => getReferences(repoUrl, filePath)),
+    );
+
+    for (const result of batch) {
+      if (result.status === 'fulfilled') {
+        occurrences.push(...result.value);
+      }
+    }
+
+    // Every request of the first batch failing means the backend has no SCIP data for this repo
+    if (i === 0 && batch.every((result) => result.status === 'rejected')) {
+      logger.debug('No SCIP references available, using parser results only');
+      break;
+    }
+  }
+
+  return occurrences;
+}
+
+graphCache.listen(() => {
+  pending = null;
+  symbolGraph.set(null);
+  symbolGraphLoading.set(false);
+});
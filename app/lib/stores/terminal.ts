@@ -4,6 +4,12 @@ import type { ITerminal } from '~/types/terminal';
 import { newMindvexShellProcess, newShellProcess } from '~/utils/shell';
 import { coloredText } from '~/utils/terminal';
 
+// Commands kept per workspace
+const MAX_COMMAND_HISTORY = 100;
+
+// Commands echoed back when a workspace is restored
+const RECAP_COMMANDS = 5;
+
 export class TerminalStore {
   #webcontainer: Promise<WebContainer>;
   #terminals: Array<{ terminal: ITerminal; process: WebContainerProcess }> = [];
@@ -11,11 +17,15 @@ export class TerminalStore {
 
   showTerminal: WritableAtom<boolean> = import.meta.hot?.data.showTerminal ?? atom(true);
 
+  // Command lines entered in the shell terminals, oldest first
+  commandHistory: WritableAtom<string[]> = import.meta.hot?.data.commandHistory ?? atom<string[]>([]);
+
   constructor(webcontainerPromise: Promise<WebContainer>) {
     this.#webcontainer = webcontainerPromise;
 
     if (import.meta.hot) {
       import.meta.hot.data.showTerminal = this.showTerminal;
+      import.meta.hot.data.commandHistory = this.commandHistory;
     }
   }
   get mindvexTerminal() {
@@ -39,12 +49,57 @@ export class TerminalStore {
     try {
       const shellProcess = await newShellProcess(await this.#webcontainer, terminal);
       this.#terminals.push({ terminal, process: shellProcess });
+      this.#recordCommands(terminal);
     } catch (error: any) {
       terminal.write(coloredText.red('Failed to spawn shell\n\n') + error.message);
       return;
     }
   }
 
+  /** Replace the command history, e.g. with a restored workspace's, and recap it in the open shells. */
+  restoreCommandHistory(history: string[]) {
+    this.commandHistory.set(history.slice(-MAX_COMMAND_HISTORY));
+
+    if (history.length === 0) {
+      return;
+    }
+
+    const recap = history.slice(-RECAP_COMMANDS).join('  ·  ');
+
+    for (const { terminal } of this.#terminals) {
+      terminal.write(`\r\n${coloredText.dim(`Recent commands in this workspace: ${recap}`)}\r\n`);
+    }
+  }
+
+  // Follow what is typed into `terminal` and keep each submitted line
+  #recordCommands(terminal: ITerminal) {
+    let line = '';
+
+    terminal.onData((data) => {
+      // Arrow keys and other escape sequences move through the shell's own history
+      if (data.startsWith('\x1b')) {
+        return;
+      }
+
+      for (const char of data) {
+        if (char === '\r') {
+          const command = line.trim();
+          line = '';
+
+          if (command) {
+            this.commandHistory.set([...this.commandHistory.get(), command].slice(-MAX_COMMAND_HISTORY));
+          }
+        } else if (char === '\x7f') {
+          line = line.slice(0, -1);
+        } else if (char === '\x03') {
+          line = '';
+        } else if (char >= ' ') {
+          line += char;
+        }
+      }
+    });
+  }
+
   onTerminalResize(cols: number, rows: number) {
     for (const { process } of this.#terminals) {
       process.resize({ cols, rows });
@@ -0,0 +1,22 @@
+import { atom } from 'nanostores';
+import type { TestCommand } from '~/utils/projectCommands';
+import type { TestRunResult } from '~/utils/testResults';
+
+export interface TestRun {
+  actionId: string;
+  runner: TestCommand['runner'];
+  command: string;
+  status: 'running' | 'done' | 'error';
+  result?: TestRunResult;
+
+  // Runner output, kept when the report could not be read
+  output?: string;
+  timestamp: number;
+}
+
+/** Latest test action run, shown in the test results panel. */
+export const testRun = atom<TestRun | null>(null);
+
+export function closeTestRun() {
+  testRun.set(null);
+}
@@ -0,0 +1,21 @@
+import { atom } from 'nanostores';
+import type { LockedPathMatch } from '~/utils/fileLocks';
+
+export interface UnlockRequest extends LockedPathMatch {
+  // What the assistant tried to do, e.g. "write src/App.tsx"
+  description: string;
+  timestamp: number;
+}
+
+/** Locked paths actions were refused on, offered for unlocking in the lock manager. */
+export const unlockRequests = atom<UnlockRequest[]>([]);
+
+export function requestUnlock(request: Omit<UnlockRequest, 'timestamp'>) {
+  const others = unlockRequests.get().filter((existing) => existing.lockedBy !== request.lockedBy);
+
+  unlockRequests.set([...others, { ...request, timestamp: Date.now() }]);
+}
+
+export function dismissUnlockRequest(lockedBy: string) {
+  unlockRequests.set(unlockRequests.get().filter((request) => request.lockedBy !== lockedBy));
+}
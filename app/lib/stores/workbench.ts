@@ -1,29 +1,56 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { ActionRunner } from '~/lib/runtime/action-runner';
+import { ActionScheduler, getActionScope } from '~/lib/runtime/action-scheduler';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
-import { EditorStore } from './editor';
-import { FilesStore, type FileMap } from './files';
+import { EditorStore, type EditorDocuments } from './editor';
+import { FilesStore, type File, type FileMap } from './files';
+import { beginCheckpoint, captureCheckpointFiles, checkpoints, removeCheckpoints } from './checkpoints';
+import { snapshotFile } from './fileHistory';
+import { addMergeConflict, dismissMergeConflict, mergeConflicts } from './mergeConflicts';
+import { appliedPatches } from './patches';
 import { PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
+import { requestUnlock } from './unlockRequests';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
 import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
-import { description } from '~/lib/persistence';
+import { filesChangedSinceTree, type GitTreeEntry } from '~/utils/gitBlob';
+import { chatId, description } from '~/lib/persistence';
+import { batchLockItems, batchUnlockItems, getLockedItemsForChat } from '~/lib/persistence/lockedFiles';
+import {
+  diffWorkspaceFiles,
+  getActiveWorkspaceId,
+  loadWorkspace,
+  migrateLegacyWorkspace,
+  setActiveWorkspaceId,
+  writeWorkspaceChanges,
+  type WorkspaceMeta,
+} from '~/lib/persistence/workspaces';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
-import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
+import type { ActionAlert, DeployAlert, FileAction, SupabaseAlert } from '~/types/actions';
 import { WORK_DIR } from '~/utils/constants';
+import { findLockedPath, getCurrentChatId } from '~/utils/fileLocks';
+import { getShellWriteTargets } from '~/utils/shellPolicy';
+import { mergeCheckpoints } from '~/utils/checkpoints';
+import type { FileVersionSource } from '~/utils/fileHistory';
+import { mergeThreeWay, PendingMerges, resolveMerge, type MergeSides } from '~/utils/merge';
+import { createEditorLayout, type SplitDirection } from '~/utils/editorLayout';
 
 const { saveAs } = fileSaver;
 
+// Quiet period after the last file change before the workspace is written
+const WORKSPACE_SAVE_DEBOUNCE_MS = 1000;
+
 export interface ArtifactState {
   id: string;
+  messageId: string;
   title: string;
   type?: string;
   closed: boolean;
@@ -43,6 +70,19 @@ export class WorkbenchStore {
   #terminalStore = new TerminalStore(webcontainer);
 
   #workspaceLoaded = false;
+  #workspaceLoading: Promise<void> | undefined;
+  #workspaceId = getActiveWorkspaceId();
+
+  // Files as last written to the workspace store, so saves only write what changed
+  #persistedFiles = new Map<string, File>();
+  #workspaceSaveTimer: ReturnType<typeof setTimeout> | undefined;
+  #workspaceSave: Promise<unknown> = Promise.resolve();
+
+  // Set while one workspace is swapped for another, when file changes belong to neither
+  #workspaceSwitching = false;
+
+  // File actions that target a document with unsaved edits
+  #pendingMerges = new PendingMerges();
   #reloadedMessages = new Set<string>();
 
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
@@ -59,7 +99,7 @@ export class WorkbenchStore {
   showRightChat: WritableAtom<boolean> = import.meta.hot?.data.showRightChat ?? atom(false);
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
-  #globalExecutionQueue = Promise.resolve();
+  #scheduler = new ActionScheduler();
   constructor() {
     if (import.meta.hot) {
       import.meta.hot.data.artifacts = this.artifacts;
@@ -80,20 +120,37 @@ export class WorkbenchStore {
         }
       }
     }
-  }
 
-  addToExecutionQueue(callback: () => Promise<void>) {
-    this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
+    // Editor panes and their tabs belong to the workspace, so they are saved with it
+    this.#editorStore.layout.listen(() => this.saveWorkspaceState());
+
+    // Changes still waiting out the save debounce would be lost with the page
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flushWorkspaceState());
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushWorkspaceState();
+        }
+      });
+    }
   }
 
   get previews() {
     return this.#previewsStore.previews;
   }
 
+  get editorLayout() {
+    return this.#editorStore.layout;
+  }
+
   get files() {
     return this.#filesStore.files;
   }
 
+  get documents(): ReadableAtom<EditorDocuments> {
+    return this.#editorStore.documents;
+  }
+
   get currentDocument(): ReadableAtom<EditorDocument | undefined> {
     return this.#editorStore.currentDocument;
   }
@@ -190,26 +247,31 @@ export class WorkbenchStore {
       return;
     }
 
+    this.setDocumentContent(filePath, newContent);
+  }
+
+  /** Apply an edit to an open document, which may sit in a pane other than the active one. */
+  setDocumentContent(filePath: string, newContent: string) {
     const originalContent = this.#filesStore.getFile(filePath)?.content;
     const unsavedChanges = originalContent !== undefined && originalContent !== newContent;
 
     this.#editorStore.updateFile(filePath, newContent);
 
-    const currentDocument = this.currentDocument.get();
+    const editorDocument = this.#editorStore.documents.get()[filePath];
 
-    if (currentDocument) {
+    if (editorDocument) {
       const previousUnsavedFiles = this.unsavedFiles.get();
 
-      if (unsavedChanges && previousUnsavedFiles.has(currentDocument.filePath)) {
+      if (unsavedChanges && previousUnsavedFiles.has(editorDocument.filePath)) {
         return;
       }
 
       const newUnsavedFiles = new Set(previousUnsavedFiles);
 
       if (unsavedChanges) {
-        newUnsavedFiles.add(currentDocument.filePath);
+        newUnsavedFiles.add(editorDocument.filePath);
       } else {
-        newUnsavedFiles.delete(currentDocument.filePath);
+        newUnsavedFiles.delete(editorDocument.filePath);
       }
 
       this.unsavedFiles.set(newUnsavedFiles);
@@ -233,11 +295,44 @@ export class WorkbenchStore {
     this.#editorStore.updateScrollPosition(filePath, position);
   }
 
+  setPaneScrollPosition(paneId: string, filePath: string, position: ScrollPosition) {
+    this.#editorStore.updateScrollPosition(filePath, position, paneId);
+  }
+
   setSelectedFile(filePath: string | undefined) {
     this.#editorStore.setSelectedFile(filePath);
   }
 
-  async saveFile(filePath: string) {
+  focusPane(paneId: string) {
+    this.#editorStore.focusPane(paneId);
+  }
+
+  selectInPane(paneId: string, filePath: string) {
+    this.#editorStore.selectInPane(paneId, filePath);
+  }
+
+  closeTab(paneId: string, filePath: string) {
+    this.#editorStore.closeTab(paneId, filePath);
+  }
+
+  closePane(paneId: string) {
+    this.#editorStore.closePane(paneId);
+  }
+
+  splitPane(paneId: string, direction: SplitDirection, filePath?: string) {
+    this.#editorStore.splitPane(paneId, direction, filePath);
+  }
+
+  moveTab(fromPaneId: string, toPaneId: string, filePath: string, index?: number) {
+    this.#editorStore.moveTab(fromPaneId, toPaneId, filePath, index);
+  }
+
+  splitWithTab(fromPaneId: string, filePath: string, paneId: string, direction: SplitDirection) {
+    this.#editorStore.splitWithTab(fromPaneId, filePath, paneId, direction);
+  }
+
+  /** Write the editor document of `filePath` to disk and record it in the local history as coming from `source`. */
+  async saveFile(filePath: string, source: FileVersionSource = 'user') {
     const documents = this.#editorStore.documents.get();
     const document = documents[filePath];
 
@@ -245,6 +340,8 @@ export class WorkbenchStore {
       return;
     }
 
+    const saved = this.#filesStore.getFile(filePath);
+
     /*
      * For scoped locks, we would need to implement diff checking here
      * to determine if the user is modifying existing code or just adding new code
@@ -253,6 +350,10 @@ export class WorkbenchStore {
 
     await this.#filesStore.saveFile(filePath, document.value);
 
+    if (!saved?.isBinary) {
+      snapshotFile(this.#workspaceId, filePath, document.value, source, saved?.content);
+    }
+
     const newUnsavedFiles = new Set(this.unsavedFiles.get());
     newUnsavedFiles.delete(filePath);
 
@@ -264,6 +365,12 @@ export class WorkbenchStore {
     }, 0);
   }
 
+  /** Put an earlier version of a file back in the editor and on disk. */
+  async restoreFileVersion(filePath: string, content: string) {
+    this.#editorStore.updateFile(filePath, content);
+    await this.saveFile(filePath, 'restore');
+  }
+
   async saveCurrentDocument() {
     const currentDocument = this.currentDocument.get();
 
@@ -629,8 +736,13 @@ export class WorkbenchStore {
       this.artifactIdList.push(id);
     }
 
+    if (!this.#reloadedMessages.has(messageId)) {
+      beginCheckpoint({ id, messageId, title });
+    }
+
     this.artifacts.setKey(id, {
       id,
+      messageId,
       title,
       closed: false,
       type,
@@ -658,6 +770,7 @@ export class WorkbenchStore {
 
           this.deployAlert.set(alert);
         },
+        (filePath) => this.#editorStore.documents.get()[filePath]?.value,
       ),
     });
   }
@@ -676,9 +789,7 @@ export class WorkbenchStore {
     this.artifacts.setKey(artifactId, { ...artifact, ...state });
   }
   addAction(data: ActionCallbackData) {
-    // this._addAction(data);
-
-    this.addToExecutionQueue(() => this._addAction(data));
+    this._addAction(data);
   }
   async _addAction(data: ActionCallbackData) {
     const { artifactId } = data;
@@ -696,9 +807,21 @@ export class WorkbenchStore {
     if (isStreaming) {
       this.actionStreamSampler(data, isStreaming);
     } else {
-      this.addToExecutionQueue(() => this._runAction(data, isStreaming));
+      this.#scheduler.schedule(getActionScope(data.action), () => this._runAction(data, isStreaming));
     }
   }
+
+  /** Queue a failed or cancelled action again, behind whatever is waiting now. */
+  retryAction(artifactId: string, actionId: string) {
+    const artifact = this.#getArtifact(artifactId);
+    const action = artifact?.runner.resetAction(actionId);
+
+    if (!artifact || !action) {
+      return;
+    }
+
+    this.runAction({ artifactId, messageId: artifact.messageId, actionId, action });
+  }
   async _runAction(data: ActionCallbackData, isStreaming: boolean = false) {
     const { artifactId } = data;
 
@@ -710,14 +833,25 @@ export class WorkbenchStore {
 
     const action = artifact.runner.actions.get()[data.actionId];
 
-    if (!action || action.executed) {
+    if (!action || action.executed || action.status === 'aborted') {
       return;
     }
 
+    await this.#captureCheckpoint(data);
+
     if (data.action.type === 'file') {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
 
+      // Locked files are left alone; the runner fails the action and asks for an unlock
+      if (findLockedPath([fullPath])) {
+        if (!isStreaming) {
+          await artifact.runner.runAction(data);
+        }
+
+        return;
+      }
+
       /*
        * For scoped locks, we would need to implement diff checking here
        * to determine if the AI is modifying existing code or just adding new code
@@ -734,6 +868,25 @@ export class WorkbenchStore {
 
       const doc = this.#editorStore.documents.get()[fullPath];
 
+      // Unsaved user edits stay in the editor while the AI streams and are merged once the action is complete
+      const merge = this.#pendingMerges.follow(data.actionId, isStreaming, () => {
+        const current = this.#editorStore.documents.get()[fullPath];
+        const hasEdits = current && !current.isBinary && this.unsavedFiles.get().has(fullPath);
+
+        return {
+          value: current?.value ?? '',
+          saved: hasEdits ? (this.#filesStore.getFile(fullPath)?.content ?? '') : undefined,
+        };
+      });
+
+      if (merge) {
+        if (merge !== 'pending') {
+          await this.#mergeFileAction(artifact, data, data.action, fullPath, merge);
+        }
+
+        return;
+      }
+
       if (!doc) {
         await artifact.runner.runAction(data, isStreaming);
       }
@@ -741,18 +894,150 @@ export class WorkbenchStore {
       this.#editorStore.updateFile(fullPath, data.action.content);
 
       if (!isStreaming && data.action.content) {
-        await this.saveFile(fullPath);
+        await this.saveFile(fullPath, 'ai');
       }
 
       if (!isStreaming) {
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
       }
+    } else if (data.action.type === 'patch') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
+      }
+
+      await artifact.runner.runAction(data);
+
+      const patch = appliedPatches.get()[fullPath];
+
+      // The runner patched the document content, so the editor and files store catch up here
+      if (patch?.actionId === data.actionId && artifact.runner.actions.get()[data.actionId]?.status === 'complete') {
+        this.#editorStore.updateFile(fullPath, patch.content);
+        await this.saveFile(fullPath, 'ai');
+        this.resetAllFileModifications();
+      }
     } else {
       await artifact.runner.runAction(data);
     }
   }
 
+  /**
+   * Undo artifacts by putting every file they touched back the way it was
+   * before the oldest of them ran, in the WebContainer and the files store.
+   */
+  /**
+   * Put back the files the artifacts changed. Locked files are left alone and
+   * offered for unlocking; the checkpoints are then kept so the rollback can be
+   * retried.
+   */
+  async rollbackArtifacts(artifactIds: string[]) {
+    const rolledBack = artifactIds.map((id) => checkpoints.get()[id]).filter(Boolean);
+    const restored = mergeCheckpoints(rolledBack);
+    const locked: string[] = [];
+
+    for (const [filePath, content] of Object.entries(restored)) {
+      const lock = findLockedPath([filePath]);
+
+      if (lock) {
+        requestUnlock({ ...lock, description: `roll back ${extractRelativePath(filePath)}` });
+        locked.push(filePath);
+        delete restored[filePath];
+        continue;
+      }
+
+      const dirent = this.files.get()[filePath];
+
+      if (content === null) {
+        if (dirent?.type === 'file') {
+          await this.deleteFile(filePath);
+        }
+      } else if (typeof content === 'string' && dirent?.type === 'file' && !dirent.isBinary) {
+        await this.#filesStore.saveFile(filePath, content);
+      } else {
+        await this.#filesStore.createFile(filePath, content);
+      }
+    }
+
+    const newUnsavedFiles = new Set(this.unsavedFiles.get());
+
+    Object.keys(restored).forEach((filePath) => newUnsavedFiles.delete(filePath));
+    this.unsavedFiles.set(newUnsavedFiles);
+    this.setDocuments(this.files.get(), false);
+
+    if (locked.length === 0) {
+      await removeCheckpoints(rolledBack.map(({ id }) => id));
+    }
+
+    setTimeout(() => {
+      this.saveWorkspaceState();
+    }, 0);
+
+    return { restored: Object.keys(restored), locked };
+  }
+
+  async #captureCheckpoint({ artifactId, action }: ActionCallbackData) {
+    const wc = await webcontainer;
+    let paths: string[] = [];
+
+    if (action.type === 'file' || action.type === 'patch') {
+      paths = [
+        path.normalize(path.isAbsolute(action.filePath) ? action.filePath : path.join(wc.workdir, action.filePath)),
+      ];
+    } else if (action.type === 'shell') {
+      // Targets under `~` or a variable cannot be resolved and have nothing to restore
+      paths = getShellWriteTargets(action.content, wc.workdir).filter((target) => path.isAbsolute(target));
+    }
+
+    if (paths.length === 0) {
+      return;
+    }
+
+    await captureCheckpointFiles(artifactId, paths, this.files.get());
+  }
+
+  /**
+   * Write a file action over unsaved user edits. Edits that do not overlap are
+   * merged; overlapping ones take the AI side on disk and are offered in the
+   * merge view, where the user can pick per hunk.
+   */
+  async #mergeFileAction(
+    artifact: ArtifactState,
+    data: ActionCallbackData,
+    action: FileAction,
+    fullPath: string,
+    { base, user }: MergeSides,
+  ) {
+    const { chunks, conflicts } = mergeThreeWay(base, user, action.content);
+    const content = resolveMerge(chunks, {}, 'ai');
+
+    // Keep the user's edits in the local history, whatever the merge makes of them
+    snapshotFile(this.#workspaceId, fullPath, user, 'user', base);
+
+    this.#editorStore.updateFile(fullPath, content);
+    await this.saveFile(fullPath, 'ai');
+    await artifact.runner.runAction({ ...data, action: { ...action, content } });
+    this.resetAllFileModifications();
+
+    if (conflicts > 0) {
+      addMergeConflict({ filePath: fullPath, base, user, ai: action.content });
+      this.currentView.set('diff');
+    }
+  }
+
+  /** Settle a merge conflict with the content picked in the merge view. */
+  async resolveMergeConflict(filePath: string, content: string) {
+    this.#editorStore.updateFile(filePath, content);
+    await this.saveFile(filePath, 'user');
+    dismissMergeConflict(filePath);
+  }
+
   actionStreamSampler = createSampler(async (data: ActionCallbackData, isStreaming: boolean = false) => {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
@@ -900,6 +1185,13 @@ export class WorkbenchStore {
         throw new Error('No files found to push');
       }
 
+      // Layer rules from mindvex.architecture.json, under the same policy as the deployment dialog
+      const { confirmPushArchitecture } = await import('~/lib/stores/architectureRulesStore');
+
+      if (!(await confirmPushArchitecture())) {
+        throw new Error('Push cancelled because of architecture rule errors');
+      }
+
       if (isGitHub) {
         // Initialize Octokit with the auth token
         const octokit = new Octokit({ auth: authToken });
@@ -975,6 +1267,33 @@ export class WorkbenchStore {
           throw new Error('No files found to push');
         }
 
+        // Blast radius of what changed since the branch was last pushed, confirmed before committing
+        const fileEntries = Object.entries(files).flatMap(
+          ([filePath, dirent]): Array<[string, string]> =>
+            dirent?.type === 'file' && dirent.content ? [[extractRelativePath(filePath), dirent.content]] : [],
+        );
+        let pushedTree: GitTreeEntry[] = [];
+
+        try {
+          const { data: treeData } = await octokit.git.getTree({
+            owner: repo.owner.login,
+            repo: repo.name,
+            tree_sha: repo.default_branch || 'main',
+            recursive: 'true',
+          });
+          pushedTree = treeData.tree;
+        } catch (error) {
+          // Without the pushed tree every file counts as changed
+          console.error('Error getting the pushed tree:', error);
+        }
+
+        const { confirmPushImpact } = await import('~/lib/stores/impactReportStore');
+        const impact = await confirmPushImpact(await filesChangedSinceTree(fileEntries, pushedTree));
+
+        if (!impact.proceed) {
+          throw new Error('Push cancelled after reviewing its impact');
+        }
+
         // Function to push files with retry logic
         const pushFilesToRepo = async (attempt = 1): Promise<string> => {
           const maxAttempts = 3;
@@ -1022,19 +1341,21 @@ export class WorkbenchStore {
               owner: repo.owner.login,
               repo: repo.name,
               base_tree: latestCommitSha,
-              tree: validBlobs.map((blob) => ({
-                path: blob!.path,
-                mode: '100644',
-                type: 'blob',
-                sha: blob!.sha,
-              })),
+              tree: [
+                ...validBlobs.map((blob) => ({
+                  path: blob!.path,
+                  mode: '100644' as const,
+                  type: 'blob' as const,
+                  sha: blob!.sha,
+                })),
+              ],
             });
 
             // Create a new commit
             const { data: newCommit } = await octokit.git.createCommit({
               owner: repo.owner.login,
               repo: repo.name,
-              message: commitMessage || 'Initial commit from your app',
+              message: withImpactSummary(commitMessage || 'Initial commit from your app', impact.summary),
               tree: newTree.sha,
               parents: [latestCommitSha],
             });
@@ -1080,38 +1401,158 @@ export class WorkbenchStore {
     }
   }
 
-  async saveWorkspaceState() {
+  get workspaceId() {
+    return this.#workspaceId;
+  }
+
+  /** Write the files changed since the last save to the active workspace, once edits settle. */
+  saveWorkspaceState() {
+    clearTimeout(this.#workspaceSaveTimer);
+    this.#workspaceSaveTimer = undefined;
+
+    if (this.#workspaceSwitching) {
+      return;
+    }
+
+    this.#workspaceSaveTimer = setTimeout(() => this.flushWorkspaceState(), WORKSPACE_SAVE_DEBOUNCE_MS);
+  }
+
+  /** Write a pending save of the workspace now instead of once edits settle. */
+  flushWorkspaceState() {
+    if (this.#workspaceSaveTimer === undefined) {
+      return this.#workspaceSave;
+    }
+
+    clearTimeout(this.#workspaceSaveTimer);
+    this.#workspaceSaveTimer = undefined;
+    this.#workspaceSave = this.#workspaceSave.then(() => this.#writeWorkspaceState());
+
+    return this.#workspaceSave;
+  }
+
+  /** Returns whether everything that changed is now in the workspace store. */
+  async #writeWorkspaceState(): Promise<boolean> {
+    // Until the stored workspace is restored, the state here would only overwrite it
+    if (!this.#workspaceLoaded) {
+      return false;
+    }
+
     try {
       const files = this.files.get();
+      const { changed, removed } = diffWorkspaceFiles(this.#persistedFiles, files);
+      const container = await webcontainer;
+      const written = new Map<string, File>();
+      const put: Array<{ path: string; content: string | Uint8Array; isBinary: boolean }> = [];
+      let complete = true;
 
-      // Convert files to a serializable format
-      const serializedFiles: Record<string, { content: string; isBinary?: boolean }> = {};
+      for (const filePath of changed) {
+        const file = files[filePath] as File;
 
-      for (const [path, dirent] of Object.entries(files)) {
-        if (dirent?.type === 'file') {
-          serializedFiles[path] = {
-            content: dirent.content,
-            isBinary: dirent.isBinary,
-          };
+        try {
+          // Binary entries in the file map carry no usable content; store the bytes on disk
+          const content = file.isBinary ? await container.fs.readFile(filePath) : file.content;
+
+          put.push({ path: filePath, content, isBinary: file.isBinary });
+          written.set(filePath, file);
+        } catch (error) {
+          console.error(`Error reading file ${filePath} for the workspace store:`, error);
+          complete = false;
         }
       }
 
-      // Save to localStorage
-      const workspaceData = {
-        files: serializedFiles,
-        selectedFile: this.currentDocument.get()?.filePath,
-        unsavedFiles: Array.from(this.unsavedFiles.get()),
-        timestamp: Date.now(),
-      };
+      await writeWorkspaceChanges(this.#workspaceId, {
+        put,
+        remove: removed,
+        meta: this.#workspaceMeta(),
+      });
+
+      written.forEach((file, filePath) => this.#persistedFiles.set(filePath, file));
+      removed.forEach((filePath) => this.#persistedFiles.delete(filePath));
 
-      localStorage.setItem('mindvex-workspace-state', JSON.stringify(workspaceData));
-      console.log('Workspace state saved to localStorage');
+      return complete;
     } catch (error) {
       console.error('Error saving workspace state:', error);
+
+      return false;
+    }
+  }
+
+  #workspaceMeta(): WorkspaceMeta {
+    const currentChatId = chatId.get();
+
+    return {
+      selectedFile: this.currentDocument.get()?.filePath,
+      unsavedFiles: Array.from(this.unsavedFiles.get()),
+      editorLayout: this.#editorStore.layout.get(),
+      lockedItems: getLockedItemsForChat(getCurrentChatId()).map(({ path: itemPath, isFolder }) => ({
+        path: itemPath,
+        isFolder,
+      })),
+      terminalHistory: this.#terminalStore.commandHistory.get(),
+      ...(currentChatId ? { chatId: currentChatId } : {}),
+    };
+  }
+
+  /**
+   * Park the active workspace and load workspace `id` into the WebContainer in
+   * its place, without reloading the page.
+   */
+  async switchWorkspace(id: string) {
+    if (id === this.#workspaceId || this.#workspaceSwitching) {
+      return;
+    }
+
+    // The workspace being left has to be restored before its state can be written back
+    await this.loadWorkspaceState();
+
+    // Write what is still pending to the workspace being left; its files are only cleared once stored
+    clearTimeout(this.#workspaceSaveTimer);
+    this.#workspaceSaveTimer = undefined;
+
+    const saved = this.#workspaceSave.then(() => this.#writeWorkspaceState());
+    this.#workspaceSave = saved;
+
+    if (!(await saved)) {
+      throw new Error(`Workspace ${this.#workspaceId} could not be saved, so it was not left`);
+    }
+
+    this.#workspaceSwitching = true;
+
+    try {
+      const lockChatId = getCurrentChatId();
+      batchUnlockItems(
+        lockChatId,
+        getLockedItemsForChat(lockChatId).map((item) => item.path),
+      );
+
+      this.#editorStore.resetLayout();
+      this.unsavedFiles.set(new Set<string>());
+      this.#terminalStore.commandHistory.set([]);
+      this.#pendingMerges.clear();
+      mergeConflicts.set([]);
+
+      await this.#filesStore.removeAllFiles();
+
+      this.#workspaceId = id;
+      this.#persistedFiles = new Map();
+      this.#workspaceLoaded = false;
+      this.#workspaceLoading = undefined;
+      setActiveWorkspaceId(id);
+    } finally {
+      this.#workspaceSwitching = false;
     }
+
+    await this.loadWorkspaceState();
+  }
+
+  /** Restore the active workspace into the WebContainer, once; later calls wait for the same restore. */
+  loadWorkspaceState() {
+    this.#workspaceLoading ??= this.#restoreWorkspaceState();
+
+    return this.#workspaceLoading;
   }
 
-  async loadWorkspaceState() {
+  async #restoreWorkspaceState() {
     try {
       // Prevent duplicate loading of workspace state
       if (this.#workspaceLoaded) {
@@ -1119,9 +1560,11 @@ export class WorkbenchStore {
         return;
       }
 
-      const workspaceDataStr = localStorage.getItem('mindvex-workspace-state');
+      await migrateLegacyWorkspace();
 
-      if (!workspaceDataStr) {
+      const snapshot = await loadWorkspace(this.#workspaceId);
+
+      if (!snapshot) {
         console.log('No saved workspace state found');
 
         // Mark as loaded even if no state was found to prevent future attempts
@@ -1130,18 +1573,11 @@ export class WorkbenchStore {
         return;
       }
 
-      const workspaceData = JSON.parse(workspaceDataStr);
-
-      /*
-       * First, populate the workbench store with existing WebContainer files to avoid duplicates
-       * Wait for the file system to be ready and populate the store
-       */
       const container = await webcontainer;
 
-      // Get current files from the WebContainer filesystem directly
-      const webContainerFiles: Record<string, { content: string; isBinary?: boolean }> = {};
+      // Files already in the WebContainer win over the stored copies
+      const webContainerFiles = new Set<string>();
 
-      // Helper function to recursively walk the file system
       const walkDir = async (dirPath: string) => {
         const dirContents = await container.fs.readdir(dirPath, { withFileTypes: true });
 
@@ -1151,59 +1587,29 @@ export class WorkbenchStore {
           if (dirent.isDirectory()) {
             await walkDir(fullPath);
           } else if (dirent.isFile()) {
-            try {
-              const content = await container.fs.readFile(fullPath, 'utf8');
-              webContainerFiles[fullPath] = { content };
-            } catch (error) {
-              console.error(`Error reading file ${fullPath}:`, error);
-            }
+            webContainerFiles.add(fullPath);
           }
         }
       };
 
-      // Walk from the WORK_DIR to get all existing files
       await walkDir(WORK_DIR);
 
-      for (const [filePath, fileData] of Object.entries(
-        workspaceData.files as Record<string, { content: string; isBinary?: boolean }>,
-      )) {
-        try {
-          /*
-           * Normalize the file path to ensure it's within the WORK_DIR
-           * filePath from localStorage might already include WORK_DIR, so we check carefully
-           */
-          let normalizedFilePath = filePath;
-
-          // If the path already starts with WORK_DIR, use it as is
-          if (filePath.startsWith(WORK_DIR)) {
-            normalizedFilePath = filePath;
-          } else if (filePath.startsWith('/home/project/')) {
-            // Handle legacy paths that might have the full /home/project prefix
-            normalizedFilePath = filePath;
-          } else {
-            /*
-             * If the path doesn't start with WORK_DIR, it's likely a relative path
-             * We need to construct the full path
-             */
-            normalizedFilePath = path.join(WORK_DIR, filePath);
-          }
+      for (const file of snapshot.files) {
+        // Migrated entries may still be relative to the project
+        const filePath = file.path.startsWith(WORK_DIR) ? file.path : path.join(WORK_DIR, file.path);
 
-          // Check if file already exists in the WebContainer to avoid duplication
-          if (webContainerFiles[normalizedFilePath]) {
-            console.log(`File already exists in WebContainer, skipping: ${normalizedFilePath}`);
-            continue;
-          }
-
-          const dirPath = path.dirname(normalizedFilePath);
+        if (webContainerFiles.has(filePath)) {
+          continue;
+        }
 
-          if (dirPath !== '.' && dirPath !== '/') {
-            await container.fs.mkdir(dirPath, { recursive: true });
-          }
+        try {
+          await this.createFileWithoutSelecting(filePath, file.content);
 
-          await container.fs.writeFile(normalizedFilePath, fileData.content);
+          const restored = this.files.get()[filePath];
 
-          // Add to workbench store without selecting the file
-          await this.createFileWithoutSelecting(normalizedFilePath, fileData.content);
+          if (restored?.type === 'file') {
+            this.#persistedFiles.set(filePath, restored);
+          }
         } catch (error) {
           console.error(`Error restoring file ${filePath}:`, error);
         }
@@ -1211,20 +1617,31 @@ export class WorkbenchStore {
 
       /*
        * Don't restore selected file to prevent auto-opening files on workspace load
-       * if (workspaceData.selectedFile) {
-       *   this.setSelectedFile(workspaceData.selectedFile);
+       * if (snapshot.workspace.selectedFile) {
+       *   this.setSelectedFile(snapshot.workspace.selectedFile);
        * }
        */
 
-      // Restore unsaved files
-      if (Array.isArray(workspaceData.unsavedFiles)) {
-        this.unsavedFiles.set(new Set(workspaceData.unsavedFiles));
+      const { workspace } = snapshot;
+      const restoredFiles = this.files.get();
+
+      this.unsavedFiles.set(new Set(workspace.unsavedFiles));
+      this.#editorStore.restoreLayout(
+        workspace.editorLayout ?? (workspace.openTabs && createEditorLayout(workspace.openTabs)),
+        (filePath) => restoredFiles[filePath]?.type === 'file',
+      );
+      this.#terminalStore.restoreCommandHistory(workspace.terminalHistory ?? []);
+
+      if (workspace.lockedItems?.length) {
+        batchLockItems(getCurrentChatId(), workspace.lockedItems);
       }
 
+      this.#filesStore.reloadLockedFiles();
+
       // Mark workspace as loaded to prevent future attempts
       this.#workspaceLoaded = true;
 
-      console.log('Workspace state restored from localStorage');
+      console.log(`Workspace "${workspace.name}" restored with ${snapshot.files.length} files`);
     } catch (error) {
       console.error('Error loading workspace state:', error);
 
@@ -1235,3 +1652,7 @@ export class WorkbenchStore {
 }
 
 export const workbenchStore = new WorkbenchStore();
+
+function withImpactSummary(message: string, summary?: string) {
+  return summary ? `${message}\n\n${summary}` : message;
+}
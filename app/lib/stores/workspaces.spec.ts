@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { activeWorkspaceId, startWorkspace, switchWorkspace, workspaceSwitching } from './workspaces';
+
+const { persistence, workbench } = vi.hoisted(() => {
+  let files: Record<string, { type: 'file'; content: string; isBinary: boolean }> = {};
+
+  const workbench = {
+    workspaceId: 'current',
+    files: {
+      get: () => files,
+      set: (value: typeof files) => {
+        files = value;
+      },
+    },
+    loadWorkspaceState: vi.fn(async () => undefined),
+    switchWorkspace: vi.fn(async (id: string) => {
+      workbench.workspaceId = id;
+    }),
+  };
+
+  return {
+    persistence: {
+      createWorkspace: vi.fn(async (name: string) => ({ id: 'imported', name })),
+      deleteWorkspace: vi.fn(),
+      listWorkspaces: vi.fn(async () => []),
+      renameWorkspace: vi.fn(),
+    },
+    workbench,
+  };
+});
+
+vi.mock('~/lib/persistence/workspaces', () => persistence);
+vi.mock('~/lib/persistence/fileHistory', () => ({ deleteWorkspaceHistory: vi.fn() }));
+vi.mock('~/lib/stores/workbench', () => ({ workbenchStore: workbench }));
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workbench.workspaceId = 'current';
+    workbench.files.set({});
+    activeWorkspaceId.set('current');
+  });
+
+  it('restores the open workspace before an import decides whether to park it', async () => {
+    workbench.loadWorkspaceState.mockImplementationOnce(async () => {
+      workbench.files.set({ '/home/project/index.ts': { type: 'file', content: 'stored', isBinary: false } });
+    });
+
+    await startWorkspace('imported project');
+
+    // The stored files make it a project of its own, which the import must not be mixed into
+    expect(workbench.switchWorkspace).toHaveBeenCalledWith('imported');
+    expect(persistence.renameWorkspace).not.toHaveBeenCalled();
+    expect(activeWorkspaceId.get()).toBe('imported');
+  });
+
+  it('imports into the open workspace when it has no files', async () => {
+    await startWorkspace('imported project');
+
+    expect(persistence.renameWorkspace).toHaveBeenCalledWith('current', 'imported project');
+    expect(workbench.switchWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('stays on the open workspace when it cannot be parked', async () => {
+    workbench.switchWorkspace.mockRejectedValueOnce(new Error('Workspace current could not be saved'));
+
+    await expect(switchWorkspace('other')).rejects.toThrow('could not be saved');
+
+    expect(activeWorkspaceId.get()).toBe('current');
+    expect(workspaceSwitching.get()).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { atom } from 'nanostores';
+import { deleteWorkspaceHistory } from '~/lib/persistence/fileHistory';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  listWorkspaces,
+  renameWorkspace,
+  type WorkspaceRecord,
+} from '~/lib/persistence/workspaces';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Workspaces');
+
+export const workspaceList = atom<WorkspaceRecord[]>([]);
+export const activeWorkspaceId = atom<string>(workbenchStore.workspaceId);
+export const workspaceSwitching = atom<boolean>(false);
+
+export async function refreshWorkspaces() {
+  workspaceList.set(await listWorkspaces());
+}
+
+export async function switchWorkspace(id: string) {
+  if (workspaceSwitching.get()) {
+    return;
+  }
+
+  workspaceSwitching.set(true);
+
+  try {
+    await workbenchStore.switchWorkspace(id);
+    activeWorkspaceId.set(workbenchStore.workspaceId);
+  } catch (error) {
+    logger.error(`Failed to switch to workspace ${id}`, error);
+    throw error;
+  } finally {
+    workspaceSwitching.set(false);
+    await refreshWorkspaces();
+  }
+}
+
+export async function createAndSwitchWorkspace(name: string) {
+  const workspace = await createWorkspace(name);
+  await switchWorkspace(workspace.id);
+}
+
+/**
+ * Give an import its own workspace so it does not overwrite the open project.
+ * An active workspace without files is reused and renamed instead.
+ */
+export async function startWorkspace(name: string) {
+  // The active workspace may not be restored yet, and its stored files count too
+  await workbenchStore.loadWorkspaceState();
+
+  const hasFiles = Object.values(workbenchStore.files.get()).some((dirent) => dirent?.type === 'file');
+
+  if (hasFiles) {
+    await createAndSwitchWorkspace(name);
+  } else {
+    await renameWorkspace(workbenchStore.workspaceId, name);
+    await refreshWorkspaces();
+  }
+}
+
+export async function renameWorkspaceById(id: string, name: string) {
+  await renameWorkspace(id, name);
+  await refreshWorkspaces();
+}
+
+/** Delete a parked workspace; the active one has to be switched away from first. */
+export async function removeWorkspace(id: string) {
+  if (id === workbenchStore.workspaceId) {
+    throw new Error('The active workspace cannot be deleted');
+  }
+
+  await deleteWorkspace(id);
+  await deleteWorkspaceHistory(id);
+  await refreshWorkspaces();
+}
@@ -7,8 +7,7 @@
  * Supported languages: 50+ languages including Java, Python, TS, JS, C/C++, Go, Rust, etc.
  */
 
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const ParserModule: any = require('web-tree-sitter');
+import { Language, Parser, type Tree } from 'web-tree-sitter';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -162,14 +161,24 @@ const GRAMMAR_URLS: Record<SupportedLanguage, string> = {
   starlark: '/tree-sitter-starlark.wasm',
 };
 
+// TypeScript needs a separate grammar to understand JSX; JavaScript's grammar already does
+const JSX_GRAMMAR_URLS: Partial<Record<SupportedLanguage, string>> = {
+  typescript: '/tree-sitter-tsx.wasm',
+};
+
+export interface ParseOptions {
+  /** Use the JSX-aware grammar variant (for .tsx files) when one exists. */
+  jsx?: boolean;
+}
+
 // ─── Singleton State ──────────────────────────────────────────────────────────
 
 let parserReady = false;
 let initPromise: Promise<void> | null = null;
 
-const languageCache = new Map<SupportedLanguage, any>();
+const languageCache = new Map<string, Language>();
 
-const parserInstances = new Map<SupportedLanguage, any>();
+const parserInstances = new Map<string, Parser>();
 
 // ─── Init ─────────────────────────────────────────────────────────────────────
 
@@ -187,7 +196,7 @@ export async function initParser(): Promise<void> {
   }
 
   initPromise = (async () => {
-    await ParserModule.init({
+    await Parser.init({
       locateFile(scriptName: string) {
         if (scriptName === 'tree-sitter.wasm') {
           return '/tree-sitter.wasm';
@@ -204,16 +213,23 @@ export async function initParser(): Promise<void> {
 
 // ─── Language Loading ─────────────────────────────────────────────────────────
 
-async function loadLanguage(lang: SupportedLanguage): Promise<any> {
-  if (languageCache.has(lang)) {
-    return languageCache.get(lang);
-  }
+/**
+ * Load (and cache) the grammar for a language.
+ * Shared by the editor highlighter and the unified parser so each grammar is fetched once.
+ */
+export async function loadLanguage(lang: SupportedLanguage, options: ParseOptions = {}): Promise<Language> {
+  await initParser();
 
-  const url = GRAMMAR_URLS[lang];
+  const url = (options.jsx && JSX_GRAMMAR_URLS[lang]) || GRAMMAR_URLS[lang];
+  const cached = languageCache.get(url);
+
+  if (cached) {
+    return cached;
+  }
 
   try {
-    const langObj = await ParserModule.Language.load(url);
-    languageCache.set(lang, langObj);
+    const langObj = await Language.load(url);
+    languageCache.set(url, langObj);
 
     return langObj;
   } catch (e) {
@@ -228,17 +244,17 @@ async function loadLanguage(lang: SupportedLanguage): Promise<any> {
  * Parse a string of code into a Tree-sitter tree.
  * Automatically initialises the runtime and loads the requested grammar.
  */
-export async function parse(code: string, lang: SupportedLanguage): Promise<any> {
+export async function parse(code: string, lang: SupportedLanguage, options: ParseOptions = {}): Promise<Tree | null> {
   await initParser();
 
-  let parser = parserInstances.get(lang);
+  const key = options.jsx && JSX_GRAMMAR_URLS[lang] ? `${lang}:jsx` : lang;
+  let parser = parserInstances.get(key);
 
   if (!parser) {
-    parser = new ParserModule();
-
-    const langObj = await loadLanguage(lang);
+    const langObj = await loadLanguage(lang, options);
+    parser = new Parser();
     parser.setLanguage(langObj);
-    parserInstances.set(lang, parser);
+    parserInstances.set(key, parser);
   }
 
   return parser.parse(code);
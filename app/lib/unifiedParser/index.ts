@@ -3,6 +3,8 @@ export * from './treeSitterParser';
 export * from './unifiedParser';
 export * from './parseModeStore';
 export * from './parseModeUI';
+export * from './parseProgressStore';
+export * from './projectAnalysisStore';
 
 // Re-export commonly used functions and types
 export { getTreeSitterParser, TreeSitterParser } from './treeSitterParser';
@@ -31,6 +33,7 @@ export {
   ParseModeConfig,
   ParseModeQuickActions,
   ParseModeStatus,
+  ParseProgressIndicator,
 } from './parseModeUI';
 
 // Types
@@ -46,4 +49,14 @@ export type {
   CodePattern,
 } from './treeSitterParser';
 
-export type { ParseMode, LLMAnalysis, EnhancedParseResult, ProjectAnalysis } from './unifiedParser';
+export type {
+  ParseMode,
+  LLMAnalysis,
+  EnhancedParseResult,
+  ProjectAnalysis,
+  ProjectFile,
+  ProjectChanges,
+  ParseProjectOptions,
+} from './unifiedParser';
+
+export type { ParseProgress } from './parseProgressStore';
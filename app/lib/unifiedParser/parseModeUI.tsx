@@ -12,9 +12,11 @@ import {
   setParserOnlyMode,
   DEFAULT_CONFIG,
 } from './parseModeStore';
+import { parseProgressStore } from './parseProgressStore';
 import { Switch } from '~/components/ui/Switch';
 import { Button } from '~/components/ui/Button';
 import { Dropdown, DropdownItem } from '~/components/ui/Dropdown';
+import { Progress } from '~/components/ui/Progress';
 import { Brain, Zap, Info } from 'lucide-react';
 import { providersStore } from '~/lib/stores/settings';
 
@@ -217,3 +219,23 @@ export function ParseModeQuickActions() {
     </div>
   );
 }
+
+export function ParseProgressIndicator({ className = '' }: { className?: string }) {
+  const progress = useStore(parseProgressStore);
+
+  if (progress.status !== 'parsing' || progress.total === 0) {
+    return null;
+  }
+
+  const percent = Math.round((progress.completed / progress.total) * 100);
+
+  return (
+    <div className={`flex items-center gap-2 min-w-[160px] ${className}`} title={progress.currentFile}>
+      <Progress value={percent} className="h-1.5 flex-1" />
+      <span className="text-xs text-mindvex-elements-textSecondary whitespace-nowrap">
+        {progress.completed}/{progress.total}
+        {progress.cached > 0 && ` (${progress.cached} cached)`}
+      </span>
+    </div>
+  );
+}
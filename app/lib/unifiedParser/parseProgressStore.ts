@@ -0,0 +1,16 @@
+import { atom } from 'nanostores';
+
+export interface ParseProgress {
+  status: 'idle' | 'parsing' | 'done';
+  total: number;
+  completed: number;
+
+  /** Files whose content hash matched the cache and were not re-parsed. */
+  cached: number;
+  currentFile?: string;
+}
+
+export const IDLE_PARSE_PROGRESS: ParseProgress = { status: 'idle', total: 0, completed: 0, cached: 0 };
+
+// Progress of the most recent project parse, shared by all tool pages
+export const parseProgressStore = atom<ParseProgress>(IDLE_PARSE_PROGRESS);
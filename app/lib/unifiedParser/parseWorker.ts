@@ -0,0 +1,27 @@
+/**
+ * parseWorker.ts
+ *
+ * Web Worker entry used by `ParserPool`. Each worker owns its own
+ * tree-sitter runtime and parses one file per message.
+ */
+
+import { TreeSitterParser } from './treeSitterParser';
+import type { ParseRequest, ParseResponse } from './parserPool';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null;
+  postMessage(message: ParseResponse): void;
+};
+
+const parser = TreeSitterParser.getInstance();
+
+scope.onmessage = async (event) => {
+  const { id, code, language, filePath } = event.data;
+
+  try {
+    const result = await parser.parse(code, language, filePath);
+    scope.postMessage({ id, result });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
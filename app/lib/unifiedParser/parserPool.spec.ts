@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ParserPool, type ParseRequest } from './parserPool';
+import type { ParseResult } from './treeSitterParser';
+
+const { mainThread } = vi.hoisted(() => ({
+  mainThread: { parse: vi.fn(async (code: string) => ({ filePath: `main:${code}` })) },
+}));
+
+vi.mock('./treeSitterParser', () => ({ TreeSitterParser: { getInstance: () => mainThread } }));
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  onmessage?: (event: { data: unknown }) => void;
+  onerror?: (event: { message: string }) => void;
+  requests: ParseRequest[] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: ParseRequest) {
+    this.requests.push(request);
+  }
+
+  respond() {
+    const { id, code } = this.requests.at(-1)!;
+
+    this.onmessage?.({ data: { id, result: { filePath: `worker:${code}` } } });
+  }
+}
+
+const filePaths = (results: ParseResult[]) => results.map((result) => result.filePath);
+
+describe('ParserPool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.clearAllMocks();
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queues files beyond the pool size for the first worker that is done', async () => {
+    const pool = new ParserPool(2);
+    const parsed = Promise.all(['a', 'b', 'c'].map((code) => pool.parse(code, 'typescript', `${code}.ts`)));
+
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(pool.pendingCount).toBe(3);
+
+    const [first, second] = FakeWorker.instances;
+
+    first.respond();
+
+    expect(first.requests.map((request) => request.code)).toEqual(['a', 'c']);
+
+    first.respond();
+    second.respond();
+
+    expect(filePaths(await parsed)).toEqual(['worker:a', 'worker:b', 'worker:c']);
+    expect(pool.pendingCount).toBe(0);
+  });
+
+  it('parses on the main thread once a worker crashes', async () => {
+    const pool = new ParserPool(1);
+    const parsed = Promise.all(['a', 'b'].map((code) => pool.parse(code, 'typescript', `${code}.ts`)));
+    const [worker] = FakeWorker.instances;
+
+    worker.onerror?.({ message: 'Failed to load the parse worker' });
+
+    // The file in the worker and the queued one are both picked up again
+    expect(filePaths(await parsed)).toEqual(['main:a', 'main:b']);
+    expect(worker.terminate).toHaveBeenCalled();
+
+    await pool.parse('c', 'typescript', 'c.ts');
+
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(mainThread.parse).toHaveBeenCalledTimes(3);
+  });
+});
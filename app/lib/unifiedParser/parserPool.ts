@@ -0,0 +1,153 @@
+/**
+ * parserPool.ts
+ *
+ * Fixed-size pool of parse workers so project-wide parsing never blocks the
+ * main thread. Falls back to parsing on the main thread when workers are
+ * unavailable (SSR, tests) or crash.
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import { TreeSitterParser, type ParseResult, type SupportedLanguage } from './treeSitterParser';
+
+const logger = createScopedLogger('ParserPool');
+
+const MAX_WORKERS = 4;
+
+export interface ParseRequest {
+  id: number;
+  code: string;
+  language: SupportedLanguage;
+  filePath: string;
+}
+
+export type ParseResponse = { id: number; result: ParseResult } | { id: number; error: string };
+
+interface ParseTask {
+  request: ParseRequest;
+  resolve: (result: ParseResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ParseTask | null;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+
+  // Leave one core for the UI thread
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+export class ParserPool {
+  #size: number;
+  #workers: PoolWorker[] = [];
+  #queue: ParseTask[] = [];
+  #nextId = 0;
+  #workersDisabled = typeof Worker === 'undefined';
+
+  constructor(size = defaultPoolSize()) {
+    this.#size = size;
+  }
+
+  parse(code: string, language: SupportedLanguage, filePath: string): Promise<ParseResult> {
+    if (this.#workersDisabled) {
+      return this.#parseOnMainThread(code, language, filePath);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.#queue.push({ request: { id: this.#nextId++, code, language, filePath }, resolve, reject });
+      this.#dispatch();
+    });
+  }
+
+  get pendingCount(): number {
+    return this.#queue.length + this.#workers.filter((w) => w.task).length;
+  }
+
+  dispose() {
+    for (const { worker } of this.#workers) {
+      worker.terminate();
+    }
+
+    this.#workers = [];
+  }
+
+  #dispatch() {
+    while (this.#queue.length > 0) {
+      const poolWorker = this.#idleWorker();
+
+      if (!poolWorker) {
+        return;
+      }
+
+      const task = this.#queue.shift()!;
+      poolWorker.task = task;
+      poolWorker.worker.postMessage(task.request);
+    }
+  }
+
+  #idleWorker(): PoolWorker | null {
+    const idle = this.#workers.find((w) => !w.task);
+
+    if (idle || this.#workers.length >= this.#size) {
+      return idle ?? null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+      const poolWorker: PoolWorker = { worker, task: null };
+
+      worker.onmessage = (event: MessageEvent<ParseResponse>) => this.#handleResponse(poolWorker, event.data);
+      worker.onerror = (event) => this.#handleCrash(event.message || 'Parse worker crashed');
+
+      this.#workers.push(poolWorker);
+
+      return poolWorker;
+    } catch (error) {
+      this.#handleCrash(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  #handleResponse(poolWorker: PoolWorker, response: ParseResponse) {
+    const task = poolWorker.task;
+    poolWorker.task = null;
+
+    if (task && task.request.id === response.id) {
+      if ('error' in response) {
+        task.reject(new Error(response.error));
+      } else {
+        task.resolve(response.result);
+      }
+    }
+
+    this.#dispatch();
+  }
+
+  /**
+   * A crashed worker (e.g. failed module load) usually means none of them will
+   * work, so switch the whole pool to main-thread parsing and drain the queue.
+   */
+  #handleCrash(reason: string) {
+    if (this.#workersDisabled) {
+      return;
+    }
+
+    logger.warn(`Parse workers unavailable, falling back to main thread: ${reason}`);
+    this.#workersDisabled = true;
+
+    const stranded = [...this.#workers.flatMap((w) => (w.task ? [w.task] : [])), ...this.#queue];
+    this.#queue = [];
+    this.dispose();
+
+    for (const { request, resolve, reject } of stranded) {
+      this.#parseOnMainThread(request.code, request.language, request.filePath).then(resolve, reject);
+    }
+  }
+
+  #parseOnMainThread(code: string, language: SupportedLanguage, filePath: string): Promise<ParseResult> {
+    return TreeSitterParser.getInstance().parse(code, language, filePath);
+  }
+}
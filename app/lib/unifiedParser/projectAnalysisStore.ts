@@ -0,0 +1,90 @@
+/**
+ * projectAnalysisStore.ts
+ *
+ * Keeps a `ProjectAnalysis` of the workbench files up to date. After the
+ * first full parse only the files that changed since the previous run are
+ * re-parsed and patched into the analysis.
+ */
+
+import { atom, type MapStore } from 'nanostores';
+import type { FileMap } from '~/lib/stores/files';
+import { createScopedLogger } from '~/utils/logger';
+import { getUnifiedParser, type ProjectAnalysis, type ProjectFile } from './unifiedParser';
+
+const logger = createScopedLogger('ProjectAnalysis');
+
+export const projectAnalysisStore = atom<ProjectAnalysis | null>(null);
+
+// Paths touched by the most recent incremental update, for highlighting in the UI
+export const lastAnalysisChangeStore = atom<{ changed: string[]; removed: string[]; at: number } | null>(null);
+
+/**
+ * Watch a files store and incrementally maintain `projectAnalysisStore`.
+ * Returns a function that stops watching.
+ */
+export function watchProjectFiles(files: MapStore<FileMap>, debounceMs = 500): () => void {
+  // Last content seen per path; strings are compared by value, so unchanged files are skipped cheaply
+  const seen = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const sync = async () => {
+    const parser = await getUnifiedParser();
+    const current = files.get();
+    const changed: ProjectFile[] = [];
+    const present = new Set<string>();
+
+    for (const [path, dirent] of Object.entries(current)) {
+      if (dirent?.type !== 'file' || dirent.isBinary || !parser.isSupportedFile(path)) {
+        continue;
+      }
+
+      present.add(path);
+
+      if (seen.get(path) !== dirent.content) {
+        changed.push({ path, content: dirent.content });
+      }
+    }
+
+    const removed = Array.from(seen.keys()).filter((path) => !present.has(path));
+
+    if (stopped || (changed.length === 0 && removed.length === 0)) {
+      return;
+    }
+
+    const previous = projectAnalysisStore.get();
+    const analysis = previous
+      ? await parser.updateProject(previous, { changed, removed })
+      : await parser.parseProject(changed);
+
+    if (stopped) {
+      return;
+    }
+
+    changed.forEach(({ path, content }) => seen.set(path, content));
+    removed.forEach((path) => seen.delete(path));
+
+    projectAnalysisStore.set(analysis);
+
+    if (previous) {
+      lastAnalysisChangeStore.set({ changed: changed.map((file) => file.path), removed, at: Date.now() });
+    }
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      // Chain runs so two syncs never patch the same analysis concurrently
+      running = running.then(sync).catch((error) => logger.error('Incremental analysis failed', error));
+    }, debounceMs);
+  };
+
+  const unsubscribe = files.subscribe(schedule);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    unsubscribe();
+  };
+}
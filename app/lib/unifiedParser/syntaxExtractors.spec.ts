@@ -0,0 +1,386 @@
+import type { Node as SyntaxNode } from 'web-tree-sitter';
+import { describe, expect, it } from 'vitest';
+import { extractSyntaxMetadata } from './syntaxExtractors';
+import type { ParseResult, SupportedLanguage } from './treeSitterParser';
+
+/*
+ * Grammars are fetched at runtime, so the trees here are written out by hand
+ * in the shape the Tree-sitter grammars produce, with only the nodes and
+ * fields the extractor reads.
+ */
+
+interface NodeSpec {
+  type: string;
+  text: string;
+  field?: string;
+  named?: boolean;
+  children?: NodeSpec[];
+}
+
+interface FakeNode {
+  id: number;
+  type: string;
+  text: string;
+  isNamed: boolean;
+  field?: string;
+  startIndex: number;
+  endIndex: number;
+  startPosition: { row: number; column: number };
+  endPosition: { row: number; column: number };
+  parent: FakeNode | null;
+  children: FakeNode[];
+  namedChildren: FakeNode[];
+  previousNamedSibling: FakeNode | null;
+  childForFieldName(name: string): FakeNode | null;
+  childrenForFieldName(name: string): FakeNode[];
+  descendantsOfType(types: string | string[]): FakeNode[];
+}
+
+const node = (type: string, text: string, children: NodeSpec[] = [], field?: string): NodeSpec => ({
+  type,
+  text,
+  children,
+  field,
+});
+const token = (text: string, field?: string): NodeSpec => ({ type: text, text, named: false, field });
+
+function position(code: string, index: number) {
+  const before = code.slice(0, index);
+
+  return { row: before.split('\n').length - 1, column: index - (before.lastIndexOf('\n') + 1) };
+}
+
+// Children are looked up in the source text in order, each after the previous one
+function buildTree(code: string, spec: NodeSpec) {
+  let nextId = 0;
+
+  const build = (current: NodeSpec, from: number, parent: FakeNode | null): FakeNode => {
+    const startIndex = code.indexOf(current.text, from);
+
+    if (startIndex === -1) {
+      throw new Error(`"${current.text}" is not in the source after ${from}`);
+    }
+
+    const endIndex = startIndex + current.text.length;
+    const built: FakeNode = {
+      id: nextId++,
+      type: current.type,
+      text: current.text,
+      isNamed: current.named ?? true,
+      field: current.field,
+      startIndex,
+      endIndex,
+      startPosition: position(code, startIndex),
+      endPosition: position(code, endIndex),
+      parent,
+      children: [],
+      get namedChildren() {
+        return this.children.filter((child) => child.isNamed);
+      },
+      get previousNamedSibling() {
+        const siblings = this.parent?.namedChildren ?? [];
+
+        return siblings[siblings.indexOf(this) - 1] ?? null;
+      },
+      childForFieldName(name) {
+        return this.children.find((child) => child.field === name) ?? null;
+      },
+      childrenForFieldName(name) {
+        return this.children.filter((child) => child.field === name);
+      },
+      descendantsOfType(types) {
+        const wanted = Array.isArray(types) ? types : [types];
+
+        return this.children.flatMap((child) => [
+          ...(wanted.includes(child.type) ? [child] : []),
+          ...child.descendantsOfType(wanted),
+        ]);
+      },
+    };
+
+    let cursor = startIndex;
+
+    for (const child of current.children ?? []) {
+      const builtChild = build(child, cursor, built);
+
+      built.children.push(builtChild);
+      cursor = builtChild.endIndex;
+    }
+
+    return built;
+  };
+
+  return build(spec, 0, null) as unknown as SyntaxNode;
+}
+
+function extract(code: string, language: SupportedLanguage, root: NodeSpec) {
+  const metadata: ParseResult['metadata'] = {
+    functions: [],
+    classes: [],
+    imports: [],
+    exports: [],
+    variables: [],
+    complexity: 1,
+    linesOfCode: code.split('\n').length,
+    commentLines: 0,
+    dependencies: [],
+    patterns: [],
+  };
+
+  extractSyntaxMetadata(buildTree(code, root), language, metadata);
+
+  return metadata;
+}
+
+describe('syntax extractors', () => {
+  it('extracts imports, functions, classes, exports and variables from JavaScript', () => {
+    const code = [
+      "import { readFile } from 'fs';",
+      '',
+      '// Reads the config',
+      'export function load(path, strict) {',
+      '  if (strict && !path) {',
+      "    throw new Error('no path');",
+      '  }',
+      '  return readFile(path);',
+      '}',
+      '',
+      'export default class Store extends Base {',
+      '  get(key) {',
+      '    return key ? this.items[key] : null;',
+      '  }',
+      '}',
+      '',
+      'const limit = 10;',
+    ].join('\n');
+
+    const load = code.slice(code.indexOf('function load'), code.indexOf('}\n\nexport default') + 1);
+    const store = code.slice(code.indexOf('class Store'), code.indexOf('}\n\nconst') + 1);
+
+    const metadata = extract(
+      code,
+      'javascript',
+      node('program', code, [
+        node('import_statement', "import { readFile } from 'fs';", [
+          token('import'),
+          node('import_clause', '{ readFile }', [
+            node('named_imports', '{ readFile }', [
+              node('import_specifier', 'readFile', [node('identifier', 'readFile', [], 'name')]),
+            ]),
+          ]),
+          token('from'),
+          node('string', "'fs'", [], 'source'),
+        ]),
+        node('comment', '// Reads the config'),
+        node('export_statement', `export ${load}`, [
+          token('export'),
+          node(
+            'function_declaration',
+            load,
+            [
+              token('function'),
+              node('identifier', 'load', [], 'name'),
+              node(
+                'formal_parameters',
+                '(path, strict)',
+                [node('identifier', 'path'), node('identifier', 'strict')],
+                'parameters',
+              ),
+              node(
+                'statement_block',
+                load.slice(load.indexOf('{')),
+                [
+                  node('if_statement', load.slice(load.indexOf('if'), load.indexOf('  return') - 1), [
+                    node(
+                      'parenthesized_expression',
+                      '(strict && !path)',
+                      [
+                        node('binary_expression', 'strict && !path', [
+                          node('identifier', 'strict', [], 'left'),
+                          token('&&', 'operator'),
+                          node('unary_expression', '!path', [node('identifier', 'path', [], 'argument')], 'right'),
+                        ]),
+                      ],
+                      'condition',
+                    ),
+                    node('throw_statement', "throw new Error('no path');", [
+                      node('new_expression', "new Error('no path')", [
+                        node('identifier', 'Error', [], 'constructor'),
+                        node('arguments', "('no path')", [node('string', "'no path'")], 'arguments'),
+                      ]),
+                    ]),
+                  ]),
+                  node('return_statement', 'return readFile(path);', [
+                    node('call_expression', 'readFile(path)', [
+                      node('identifier', 'readFile', [], 'function'),
+                      node('arguments', '(path)', [node('identifier', 'path')], 'arguments'),
+                    ]),
+                  ]),
+                ],
+                'body',
+              ),
+            ],
+            'declaration',
+          ),
+        ]),
+        node('export_statement', `export default ${store}`, [
+          token('export'),
+          token('default'),
+          node(
+            'class_declaration',
+            store,
+            [
+              token('class'),
+              node('identifier', 'Store', [], 'name'),
+              node('class_heritage', 'extends Base', [token('extends'), node('identifier', 'Base')]),
+              node(
+                'class_body',
+                store.slice(store.indexOf('{')),
+                [
+                  node('method_definition', store.slice(store.indexOf('get'), store.lastIndexOf('}') - 1), [
+                    node('property_identifier', 'get', [], 'name'),
+                    node('formal_parameters', '(key)', [node('identifier', 'key')], 'parameters'),
+                    node(
+                      'statement_block',
+                      store.slice(store.indexOf('{\n    return'), store.lastIndexOf('}') - 1),
+                      [
+                        node('return_statement', 'return key ? this.items[key] : null;', [
+                          node('ternary_expression', 'key ? this.items[key] : null', [
+                            node('identifier', 'key', [], 'condition'),
+                          ]),
+                        ]),
+                      ],
+                      'body',
+                    ),
+                  ]),
+                ],
+                'body',
+              ),
+            ],
+            'declaration',
+          ),
+        ]),
+        node('lexical_declaration', 'const limit = 10;', [
+          token('const'),
+          node('variable_declarator', 'limit = 10', [
+            node('identifier', 'limit', [], 'name'),
+            node('number', '10', [], 'value'),
+          ]),
+        ]),
+      ]),
+    );
+
+    expect(metadata.imports).toEqual([{ module: 'fs', symbols: ['readFile'], type: 'named', line: 0 }]);
+    expect(metadata.dependencies).toEqual(['fs']);
+    expect(metadata.functions.map(({ name }) => name)).toEqual(['load', 'get']);
+    expect(metadata.functions[0]).toMatchObject({
+      startLine: 3,
+      endLine: 8,
+      parameters: ['path', 'strict'],
+      modifiers: ['export'],
+      documentation: '// Reads the config',
+      complexity: 3,
+      calls: ['Error', 'readFile'],
+      references: ['path', 'strict'],
+    });
+    expect(metadata.classes).toEqual([
+      expect.objectContaining({ name: 'Store', kind: 'class', inheritance: ['Base'], startLine: 10 }),
+    ]);
+    expect(metadata.classes[0].methods.map(({ name, parameters }) => ({ name, parameters }))).toEqual([
+      { name: 'get', parameters: ['key'] },
+    ]);
+    expect(metadata.exports).toEqual([
+      { symbols: ['load'], type: 'named', line: 3 },
+      { symbols: ['Store'], type: 'default', line: 10 },
+    ]);
+    expect(metadata.variables).toEqual([
+      { name: 'limit', type: undefined, line: 16, scope: 'global', modifiers: ['const'] },
+    ]);
+    expect(metadata.complexity).toBe(4);
+    expect(metadata.commentLines).toBe(1);
+  });
+
+  it('derives Python exports from names and reads docstrings', () => {
+    const code = [
+      'import os',
+      'from typing import List as L',
+      '',
+      'def _helper(x):',
+      '    """Doubles x."""',
+      '    return x * 2 if x else 0',
+      '',
+      'class Store(Base):',
+      '    limit = 10',
+    ].join('\n');
+
+    const helper = code.slice(code.indexOf('def'), code.indexOf('\n\nclass'));
+    const store = code.slice(code.indexOf('class'));
+
+    const metadata = extract(
+      code,
+      'python',
+      node('module', code, [
+        node('import_statement', 'import os', [token('import'), node('dotted_name', 'os', [], 'name')]),
+        node('import_from_statement', 'from typing import List as L', [
+          token('from'),
+          node('dotted_name', 'typing', [], 'module_name'),
+          token('import'),
+          node(
+            'aliased_import',
+            'List as L',
+            [node('dotted_name', 'List', [], 'name'), token('as'), node('identifier', 'L', [], 'alias')],
+            'name',
+          ),
+        ]),
+        node('function_definition', helper, [
+          token('def'),
+          node('identifier', '_helper', [], 'name'),
+          node('parameters', '(x)', [node('identifier', 'x')], 'parameters'),
+          node(
+            'block',
+            helper.slice(helper.indexOf('"""')),
+            [
+              node('expression_statement', '"""Doubles x."""', [node('string', '"""Doubles x."""')]),
+              node('return_statement', 'return x * 2 if x else 0', [
+                node('conditional_expression', 'x * 2 if x else 0', [node('identifier', 'x')]),
+              ]),
+            ],
+            'body',
+          ),
+        ]),
+        node('class_definition', store, [
+          token('class'),
+          node('identifier', 'Store', [], 'name'),
+          node('argument_list', '(Base)', [node('identifier', 'Base')], 'superclasses'),
+          node(
+            'block',
+            'limit = 10',
+            [
+              node('expression_statement', 'limit = 10', [
+                node('assignment', 'limit = 10', [
+                  node('identifier', 'limit', [], 'left'),
+                  node('integer', '10', [], 'right'),
+                ]),
+              ]),
+            ],
+            'body',
+          ),
+        ]),
+      ]),
+    );
+
+    expect(metadata.imports).toEqual([
+      { module: 'os', symbols: ['os'], type: 'namespace', line: 0 },
+      { module: 'typing', symbols: ['L'], type: 'named', line: 1 },
+    ]);
+    expect(metadata.functions[0]).toMatchObject({ name: '_helper', documentation: 'Doubles x.', complexity: 2 });
+    expect(metadata.classes[0]).toMatchObject({
+      name: 'Store',
+      inheritance: ['Base'],
+      properties: [expect.objectContaining({ name: 'limit', scope: 'class' })],
+    });
+
+    // Names with a leading underscore stay private to the module
+    expect(metadata.exports).toEqual([{ symbols: ['Store'], type: 'named', line: 7 }]);
+  });
+});
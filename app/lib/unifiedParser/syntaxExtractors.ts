@@ -0,0 +1,1295 @@
+/**
+ * syntaxExtractors.ts
+ *
+ * Walks a real Tree-sitter syntax tree and turns it into the `ParseResult`
+ * metadata (functions, classes, imports, exports, variables, complexity)
+ * consumed by the tool pages.
+ *
+ * Grammar-specific knowledge (node types and field names) lives in the
+ * `LANGUAGE_SPECS` table; the walker itself is language agnostic.
+ */
+
+import type { Node as SyntaxNode } from 'web-tree-sitter';
+import type {
+  ASTNode,
+  ClassInfo,
+  CodePattern,
+  ExportInfo,
+  FunctionInfo,
+  ImportInfo,
+  ParseResult,
+  SupportedLanguage,
+  VariableInfo,
+} from './treeSitterParser';
+
+// ─── Language Specs ───────────────────────────────────────────────────────────
+
+interface LanguageSpec {
+  functions: string[];
+  classes: string[];
+  imports: string[];
+  branches: string[];
+  logicalOperators: string[];
+  calls: string[];
+}
+
+const JS_LIKE_SPEC: LanguageSpec = {
+  functions: [
+    'function_declaration',
+    'generator_function_declaration',
+    'function_expression',
+    'function',
+    'generator_function',
+    'arrow_function',
+    'method_definition',
+    'method_signature',
+    'abstract_method_signature',
+  ],
+  classes: ['class_declaration', 'abstract_class_declaration', 'class', 'interface_declaration'],
+  imports: ['import_statement'],
+  branches: [
+    'if_statement',
+    'for_statement',
+    'for_in_statement',
+    'while_statement',
+    'do_statement',
+    'switch_case',
+    'catch_clause',
+    'ternary_expression',
+  ],
+  logicalOperators: ['&&', '||', '??'],
+  calls: ['call_expression', 'new_expression'],
+};
+
+const LANGUAGE_SPECS: Partial<Record<SupportedLanguage, LanguageSpec>> = {
+  typescript: JS_LIKE_SPEC,
+  javascript: JS_LIKE_SPEC,
+  python: {
+    functions: ['function_definition', 'lambda'],
+    classes: ['class_definition'],
+    imports: ['import_statement', 'import_from_statement', 'future_import_statement'],
+    branches: [
+      'if_statement',
+      'elif_clause',
+      'for_statement',
+      'while_statement',
+      'except_clause',
+      'conditional_expression',
+      'case_clause',
+      'for_in_clause',
+      'if_clause',
+    ],
+    logicalOperators: ['and', 'or'],
+    calls: ['call'],
+  },
+  java: {
+    functions: ['method_declaration', 'constructor_declaration', 'lambda_expression'],
+    classes: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+    imports: ['import_declaration'],
+    branches: [
+      'if_statement',
+      'for_statement',
+      'enhanced_for_statement',
+      'while_statement',
+      'do_statement',
+      'switch_block_statement_group',
+      'switch_rule',
+      'catch_clause',
+      'ternary_expression',
+    ],
+    logicalOperators: ['&&', '||'],
+    calls: ['method_invocation', 'object_creation_expression'],
+  },
+  go: {
+    functions: ['function_declaration', 'method_declaration', 'func_literal'],
+    classes: ['type_spec'],
+    imports: ['import_declaration'],
+    branches: ['if_statement', 'for_statement', 'expression_case', 'type_case', 'communication_case'],
+    logicalOperators: ['&&', '||'],
+    calls: ['call_expression'],
+  },
+  rust: {
+    functions: ['function_item', 'function_signature_item', 'closure_expression'],
+    classes: ['struct_item', 'enum_item', 'trait_item', 'union_item'],
+    imports: ['use_declaration'],
+    branches: ['if_expression', 'match_arm', 'while_expression', 'loop_expression', 'for_expression', 'try_expression'],
+    logicalOperators: ['&&', '||'],
+    calls: ['call_expression'],
+  },
+  c: {
+    functions: ['function_definition'],
+    classes: ['struct_specifier'],
+    imports: ['preproc_include'],
+    branches: [
+      'if_statement',
+      'for_statement',
+      'while_statement',
+      'do_statement',
+      'case_statement',
+      'conditional_expression',
+    ],
+    logicalOperators: ['&&', '||'],
+    calls: ['call_expression'],
+  },
+  cpp: {
+    functions: ['function_definition', 'lambda_expression'],
+    classes: ['class_specifier', 'struct_specifier'],
+    imports: ['preproc_include'],
+    branches: [
+      'if_statement',
+      'for_statement',
+      'for_range_loop',
+      'while_statement',
+      'do_statement',
+      'case_statement',
+      'catch_clause',
+      'conditional_expression',
+    ],
+    logicalOperators: ['&&', '||'],
+    calls: ['call_expression'],
+  },
+};
+
+const COMMENT_TYPES = new Set(['comment', 'line_comment', 'block_comment']);
+
+// Identifier nodes that may name another symbol of the project
+const REFERENCE_TYPES = new Set(['identifier', 'type_identifier']);
+
+// Class-like declarations that only describe a contract
+const INTERFACE_TYPES = new Set(['interface_declaration', 'trait_item']);
+
+const MODIFIER_KEYWORDS = new Set([
+  'async',
+  'static',
+  'get',
+  'set',
+  'abstract',
+  'readonly',
+  'override',
+  'public',
+  'private',
+  'protected',
+  'export',
+  'default',
+  'declare',
+  'final',
+  'synchronized',
+  'native',
+  'pub',
+  'unsafe',
+  'const',
+  'extern',
+  'virtual',
+  'inline',
+]);
+
+const MODIFIER_CONTAINERS = new Set([
+  'accessibility_modifier',
+  'modifiers',
+  'visibility_modifier',
+  'function_modifiers',
+  'storage_class_specifier',
+  'decorator',
+]);
+
+// Nodes longer than this keep only a prefix of their source text in the AST
+const MAX_NODE_TEXT = 200;
+
+// Upper bound on distinct names recorded per function for calls and references
+const MAX_USAGES = 200;
+
+// Thresholds for the structural patterns reported alongside the metadata
+const LONG_FUNCTION_LINES = 80;
+const HIGH_COMPLEXITY = 10;
+
+export function hasSyntaxSupport(language: SupportedLanguage): boolean {
+  return language in LANGUAGE_SPECS;
+}
+
+// ─── Node Helpers ─────────────────────────────────────────────────────────────
+
+function namedChildren(node: SyntaxNode): SyntaxNode[] {
+  return node.namedChildren.filter((child): child is SyntaxNode => child !== null);
+}
+
+function allChildren(node: SyntaxNode): SyntaxNode[] {
+  return node.children.filter((child): child is SyntaxNode => child !== null);
+}
+
+function field(node: SyntaxNode | null | undefined, name: string): SyntaxNode | null {
+  return node ? node.childForFieldName(name) : null;
+}
+
+function fields(node: SyntaxNode, name: string): SyntaxNode[] {
+  return node.childrenForFieldName(name).filter((child): child is SyntaxNode => child !== null);
+}
+
+function childOfType(node: SyntaxNode | null | undefined, ...types: string[]): SyntaxNode | null {
+  if (!node) {
+    return null;
+  }
+
+  return allChildren(node).find((child) => types.includes(child.type)) ?? null;
+}
+
+function hasToken(node: SyntaxNode, token: string): boolean {
+  return allChildren(node).some((child) => !child.isNamed && child.type === token);
+}
+
+function stripQuotes(text: string): string {
+  return text.replace(/^[`'"<]+|[`'">]+$/g, '');
+}
+
+function typeText(node: SyntaxNode | null): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+
+  return (
+    node.text
+      .replace(/^:\s*/, '')
+      .replace(/^->\s*/, '')
+      .trim() || undefined
+  );
+}
+
+// ─── AST Conversion ───────────────────────────────────────────────────────────
+
+/**
+ * Convert a Tree-sitter node into the plain `ASTNode` shape. Only named nodes
+ * are kept, so punctuation and keywords don't bloat the tree.
+ */
+export function toASTNode(node: SyntaxNode, code: string): ASTNode {
+  const name = declarationName(node);
+  const end = Math.min(node.endIndex, node.startIndex + MAX_NODE_TEXT);
+
+  return {
+    type: node.type,
+    text: node.parent ? code.slice(node.startIndex, end) : code,
+    startLine: node.startPosition.row,
+    startCol: node.startPosition.column,
+    endLine: node.endPosition.row,
+    endCol: node.endPosition.column,
+    children: namedChildren(node).map((child) => toASTNode(child, code)),
+    metadata: name ? { name } : undefined,
+  };
+}
+
+function declarationName(node: SyntaxNode): string | null {
+  const nameNode = field(node, 'name');
+
+  if (nameNode && nameNode.type !== node.type) {
+    return nameNode.text;
+  }
+
+  // C/C++ keep the identifier inside nested declarators
+  let declarator = field(node, 'declarator');
+
+  while (declarator) {
+    if (/identifier$/.test(declarator.type) || declarator.type === 'destructor_name') {
+      return declarator.text;
+    }
+
+    declarator = field(declarator, 'declarator') ?? field(declarator, 'name');
+  }
+
+  return null;
+}
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+type Metadata = ParseResult['metadata'];
+
+interface WalkContext {
+  owner: ClassInfo | null;
+  scope: VariableInfo['scope'];
+}
+
+interface PendingMethod {
+  typeName: string;
+  method: FunctionInfo;
+  trait?: string;
+}
+
+/**
+ * Populate `metadata` from the syntax tree rooted at `root`.
+ */
+export function extractSyntaxMetadata(root: SyntaxNode, language: SupportedLanguage, metadata: Metadata): void {
+  const spec = LANGUAGE_SPECS[language];
+
+  if (!spec) {
+    return;
+  }
+
+  new SyntaxExtractor(language, spec, metadata).run(root);
+}
+
+class SyntaxExtractor {
+  readonly #functionTypes: Set<string>;
+  readonly #classTypes: Set<string>;
+  readonly #importTypes: Set<string>;
+  readonly #branchTypes: Set<string>;
+  readonly #logicalOperators: Set<string>;
+  readonly #callTypes: Set<string>;
+  readonly #pendingMethods: PendingMethod[] = [];
+
+  // Module-level declarations and their modifiers, used to derive implicit exports
+  readonly #topLevel = new Map<FunctionInfo | ClassInfo, string[]>();
+  readonly #language: SupportedLanguage;
+  readonly #metadata: Metadata;
+
+  constructor(language: SupportedLanguage, spec: LanguageSpec, metadata: Metadata) {
+    this.#language = language;
+    this.#metadata = metadata;
+    this.#functionTypes = new Set(spec.functions);
+    this.#classTypes = new Set(spec.classes);
+    this.#importTypes = new Set(spec.imports);
+    this.#branchTypes = new Set(spec.branches);
+    this.#logicalOperators = new Set(spec.logicalOperators);
+    this.#callTypes = new Set(spec.calls);
+  }
+
+  run(root: SyntaxNode): void {
+    this.#walk(root, { owner: null, scope: 'global' });
+    this.#attachPendingMethods();
+
+    this.#metadata.commentLines = this.#countCommentLines(root);
+    this.#metadata.complexity = 1 + this.#countBranches(root, false);
+    this.#metadata.dependencies = Array.from(new Set(this.#metadata.imports.map((imp) => imp.module)));
+
+    if (this.#language !== 'typescript' && this.#language !== 'javascript') {
+      this.#metadata.exports.push(...this.#visibilityExports());
+    }
+
+    this.#metadata.patterns.push(...this.#structuralPatterns());
+  }
+
+  // ─── Walk ───────────────────────────────────────────────────────────────────
+
+  #walk(node: SyntaxNode, ctx: WalkContext): void {
+    const type = node.type;
+
+    if (this.#importTypes.has(type)) {
+      this.#metadata.imports.push(...this.#importInfos(node));
+      return;
+    }
+
+    if (this.#isRequireCall(node)) {
+      const info = this.#requireInfo(node);
+
+      if (info) {
+        this.#metadata.imports.push(info);
+      }
+    }
+
+    if (type === 'export_statement') {
+      this.#handleExport(node);
+    }
+
+    if (this.#classTypes.has(type) && this.#isClassLike(node)) {
+      const info = this.#classInfo(node);
+      this.#metadata.classes.push(info);
+
+      if (ctx.scope === 'global') {
+        this.#topLevel.set(info, this.#modifiers(node));
+      }
+
+      for (const child of namedChildren(node)) {
+        this.#walk(child, { owner: info, scope: 'class' });
+      }
+
+      return;
+    }
+
+    if (type === 'impl_item') {
+      this.#walkImpl(node);
+      return;
+    }
+
+    if (this.#functionTypes.has(type)) {
+      const info = this.#functionInfo(node);
+
+      if (info) {
+        this.#metadata.functions.push(info);
+        this.#attachMethod(node, info, ctx);
+
+        if (ctx.scope === 'global' && node.type !== 'method_declaration') {
+          this.#topLevel.set(info, info.modifiers);
+        }
+      }
+
+      for (const child of namedChildren(node)) {
+        this.#walk(child, { owner: null, scope: 'function' });
+      }
+
+      return;
+    }
+
+    if (ctx.scope === 'global') {
+      this.#collectVariables(node);
+    }
+
+    for (const child of namedChildren(node)) {
+      this.#walk(child, ctx);
+    }
+  }
+
+  #walkImpl(node: SyntaxNode): void {
+    const typeName = field(node, 'type')?.text.replace(/<.*$/, '');
+    const trait = field(node, 'trait')?.text;
+    const body = field(node, 'body');
+
+    if (!typeName || !body) {
+      return;
+    }
+
+    for (const child of namedChildren(body)) {
+      if (this.#functionTypes.has(child.type)) {
+        const info = this.#functionInfo(child);
+
+        if (info) {
+          this.#metadata.functions.push(info);
+          this.#pendingMethods.push({ typeName, method: info, trait });
+        }
+
+        for (const grandChild of namedChildren(child)) {
+          this.#walk(grandChild, { owner: null, scope: 'function' });
+        }
+      } else {
+        this.#walk(child, { owner: null, scope: 'class' });
+      }
+    }
+  }
+
+  #attachMethod(node: SyntaxNode, info: FunctionInfo, ctx: WalkContext): void {
+    if (ctx.owner && ctx.scope === 'class') {
+      ctx.owner.methods.push(info);
+      return;
+    }
+
+    // Go methods are declared outside the struct and bound through the receiver
+    if (node.type === 'method_declaration' && this.#language === 'go') {
+      const receiverType = field(node, 'receiver')?.text.match(/\*?\s*([A-Za-z_]\w*)\s*(?:\[.*\])?\s*\)$/);
+
+      if (receiverType) {
+        this.#pendingMethods.push({ typeName: receiverType[1], method: info });
+      }
+    }
+  }
+
+  #attachPendingMethods(): void {
+    for (const { typeName, method, trait } of this.#pendingMethods) {
+      const owner = this.#metadata.classes.find((cls) => cls.name === typeName);
+
+      if (!owner) {
+        continue;
+      }
+
+      owner.methods.push(method);
+
+      if (trait) {
+        owner.interfaces = Array.from(new Set([...(owner.interfaces ?? []), trait]));
+      }
+    }
+  }
+
+  // ─── Functions ──────────────────────────────────────────────────────────────
+
+  #functionInfo(node: SyntaxNode): FunctionInfo | null {
+    const name = this.#functionName(node);
+
+    if (!name) {
+      return null;
+    }
+
+    const body = field(node, 'body') ?? node;
+    const { calls, references } = this.#usages(node);
+
+    return {
+      name,
+      startLine: node.startPosition.row,
+      endLine: node.endPosition.row,
+      parameters: this.#parameterNames(field(node, 'parameters') ?? field(node, 'parameter')),
+      returnType: typeText(field(node, 'return_type') ?? field(node, 'result') ?? this.#javaReturnType(node)),
+      modifiers: this.#modifiers(node),
+      documentation: this.#documentation(node),
+      complexity: 1 + this.#countBranches(body, true),
+      calls,
+      references,
+    };
+  }
+
+  /**
+   * Names called and referenced inside a function. Named nested functions
+   * record their own usages; anonymous callbacks count towards the enclosing one.
+   */
+  #usages(node: SyntaxNode): { calls: string[]; references: string[] } {
+    const calls = new Set<string>();
+    const references = new Set<string>();
+    const nameNode = field(node, 'name');
+
+    const visit = (current: SyntaxNode) => {
+      for (const child of namedChildren(current)) {
+        if (this.#functionTypes.has(child.type) && this.#functionName(child)) {
+          continue;
+        }
+
+        if (this.#callTypes.has(child.type)) {
+          const callee =
+            field(child, 'function') ?? field(child, 'constructor') ?? field(child, 'name') ?? field(child, 'type');
+          const calleeName = callee?.text.match(/([A-Za-z_$][\w$]*)\s*(?:<[^<>]*>)?\s*$/)?.[1];
+
+          if (calleeName && calls.size < MAX_USAGES) {
+            calls.add(calleeName);
+          }
+        }
+
+        if (REFERENCE_TYPES.has(child.type) && child.id !== nameNode?.id && references.size < MAX_USAGES) {
+          references.add(child.text);
+        }
+
+        visit(child);
+      }
+    };
+
+    visit(node);
+
+    // A called name is already covered by the call
+    for (const name of calls) {
+      references.delete(name);
+    }
+
+    return { calls: Array.from(calls), references: Array.from(references) };
+  }
+
+  #functionName(node: SyntaxNode): string | null {
+    const direct = declarationName(node);
+
+    if (direct) {
+      return direct;
+    }
+
+    // Anonymous functions take the name of whatever they are bound to
+    const parent = node.parent;
+
+    if (!parent) {
+      return null;
+    }
+
+    switch (parent.type) {
+      case 'variable_declarator':
+      case 'public_field_definition':
+      case 'field_definition':
+        return (field(parent, 'name') ?? field(parent, 'property'))?.text ?? null;
+      case 'pair':
+        return field(parent, 'key')?.text.replace(/^['"]|['"]$/g, '') ?? null;
+      case 'assignment_expression':
+      case 'assignment':
+        return field(parent, 'left')?.text ?? null;
+      default:
+        return null;
+    }
+  }
+
+  #javaReturnType(node: SyntaxNode): SyntaxNode | null {
+    return this.#language === 'java' && node.type === 'method_declaration' ? field(node, 'type') : null;
+  }
+
+  #parameterNames(params: SyntaxNode | null): string[] {
+    if (!params) {
+      return [];
+    }
+
+    // Single bare arrow function parameter: `x => x * 2`
+    if (params.type === 'identifier') {
+      return [params.text];
+    }
+
+    const names: string[] = [];
+
+    for (const param of namedChildren(params)) {
+      if (COMMENT_TYPES.has(param.type)) {
+        continue;
+      }
+
+      if (param.type === 'identifier' || param.type === 'self_parameter' || param.type === 'self') {
+        names.push(param.text);
+        continue;
+      }
+
+      // Go allows several names to share one type: `a, b int`
+      const goNames = this.#language === 'go' ? fields(param, 'name') : [];
+
+      if (goNames.length > 0) {
+        names.push(...goNames.map((n) => n.text));
+        continue;
+      }
+
+      const nameNode =
+        field(param, 'pattern') ??
+        field(param, 'name') ??
+        this.#innermostDeclarator(field(param, 'declarator')) ??
+        namedChildren(param).find((child) => child.type === 'identifier') ??
+        null;
+
+      names.push((nameNode ?? param).text);
+    }
+
+    return names;
+  }
+
+  #innermostDeclarator(node: SyntaxNode | null): SyntaxNode | null {
+    let current = node;
+
+    while (current && field(current, 'declarator')) {
+      current = field(current, 'declarator');
+    }
+
+    return current;
+  }
+
+  #modifiers(node: SyntaxNode): string[] {
+    const modifiers = new Set<string>();
+    const collect = (target: SyntaxNode) => {
+      for (const child of allChildren(target)) {
+        if (!child.isNamed && MODIFIER_KEYWORDS.has(child.type)) {
+          modifiers.add(child.type);
+        } else if (MODIFIER_CONTAINERS.has(child.type)) {
+          child.text
+            .split(/\s+/)
+            .filter(Boolean)
+            .forEach((word) => modifiers.add(word));
+        }
+      }
+    };
+
+    collect(node);
+
+    // `export function`, `@decorator def`, `export const x = () => {}`
+    let wrapper = node.parent;
+
+    while (wrapper && ['variable_declarator', 'lexical_declaration', 'variable_declaration'].includes(wrapper.type)) {
+      wrapper = wrapper.parent;
+    }
+
+    if (wrapper && (wrapper.type === 'export_statement' || wrapper.type === 'decorated_definition')) {
+      collect(wrapper);
+    }
+
+    if (this.#language === 'go') {
+      const name = declarationName(node);
+
+      if (name && /^[A-Z]/.test(name)) {
+        modifiers.add('exported');
+      }
+    }
+
+    return Array.from(modifiers);
+  }
+
+  #documentation(node: SyntaxNode): string | undefined {
+    if (this.#language === 'python') {
+      const firstStatement = namedChildren(field(node, 'body') ?? node)[0];
+      const docString = firstStatement?.type === 'expression_statement' ? namedChildren(firstStatement)[0] : null;
+
+      return docString?.type === 'string' ? stripQuotes(docString.text).trim() : undefined;
+    }
+
+    let anchor: SyntaxNode = node;
+
+    while (
+      anchor.parent &&
+      ['export_statement', 'variable_declarator', 'lexical_declaration'].includes(anchor.parent.type)
+    ) {
+      anchor = anchor.parent;
+    }
+
+    const comments: string[] = [];
+    let expectedRow = anchor.startPosition.row;
+    let sibling = anchor.previousNamedSibling;
+
+    while (sibling && COMMENT_TYPES.has(sibling.type) && sibling.endPosition.row >= expectedRow - 1) {
+      comments.unshift(sibling.text);
+      expectedRow = sibling.startPosition.row;
+      sibling = sibling.previousNamedSibling;
+    }
+
+    return comments.length > 0 ? comments.join('\n') : undefined;
+  }
+
+  // ─── Classes ────────────────────────────────────────────────────────────────
+
+  #isClassLike(node: SyntaxNode): boolean {
+    if (node.type === 'type_spec') {
+      const typeNode = field(node, 'type');
+      return typeNode?.type === 'struct_type' || typeNode?.type === 'interface_type';
+    }
+
+    // Forward declarations and `struct foo` type references carry no body
+    if (node.type === 'struct_specifier' || node.type === 'class_specifier') {
+      return field(node, 'body') !== null;
+    }
+
+    return declarationName(node) !== null;
+  }
+
+  #classInfo(node: SyntaxNode): ClassInfo {
+    const { inheritance, interfaces } = this.#heritage(node);
+
+    return {
+      name: declarationName(node) ?? 'anonymous',
+      kind: this.#isInterface(node) ? 'interface' : 'class',
+      startLine: node.startPosition.row,
+      endLine: node.endPosition.row,
+      methods: [],
+      properties: this.#properties(node),
+      inheritance,
+      interfaces,
+      documentation: this.#documentation(node),
+    };
+  }
+
+  #isInterface(node: SyntaxNode): boolean {
+    // Go declares interfaces as `type Name interface { ... }`
+    return INTERFACE_TYPES.has(node.type) || field(node, 'type')?.type === 'interface_type';
+  }
+
+  #heritage(node: SyntaxNode): { inheritance: string[]; interfaces: string[] } {
+    const inheritance: string[] = [];
+    const interfaces: string[] = [];
+    const texts = (target: SyntaxNode | null) =>
+      target ? namedChildren(target).filter((n) => !COMMENT_TYPES.has(n.type)) : [];
+
+    switch (this.#language) {
+      case 'typescript':
+      case 'javascript': {
+        const classHeritage = childOfType(node, 'class_heritage');
+
+        if (classHeritage) {
+          const extendsClause = childOfType(classHeritage, 'extends_clause');
+          const implementsClause = childOfType(classHeritage, 'implements_clause');
+
+          if (extendsClause) {
+            inheritance.push(...fields(extendsClause, 'value').map((n) => n.text));
+          } else if (!implementsClause) {
+            // The JavaScript grammar puts the superclass expression directly under class_heritage
+            inheritance.push(...texts(classHeritage).map((n) => n.text));
+          }
+
+          interfaces.push(...texts(implementsClause).map((n) => n.text));
+        }
+
+        inheritance.push(...texts(childOfType(node, 'extends_type_clause')).map((n) => n.text));
+        break;
+      }
+      case 'python':
+        inheritance.push(
+          ...texts(field(node, 'superclasses'))
+            .filter((n) => n.type !== 'keyword_argument')
+            .map((n) => n.text),
+        );
+        break;
+      case 'java': {
+        const superclass = field(node, 'superclass');
+
+        if (superclass) {
+          inheritance.push(...texts(superclass).map((n) => n.text));
+        }
+
+        const interfaceList = field(node, 'interfaces') ?? childOfType(node, 'extends_interfaces');
+        const typeList = childOfType(interfaceList, 'type_list') ?? interfaceList;
+        const target = node.type === 'interface_declaration' ? inheritance : interfaces;
+        target.push(...texts(typeList).map((n) => n.text));
+        break;
+      }
+      case 'cpp':
+        inheritance.push(
+          ...texts(childOfType(node, 'base_class_clause'))
+            .filter((n) => n.type !== 'access_specifier')
+            .map((n) => n.text),
+        );
+        break;
+      case 'rust':
+        if (node.type === 'trait_item') {
+          inheritance.push(...texts(field(node, 'bounds')).map((n) => n.text));
+        }
+
+        break;
+    }
+
+    return { inheritance, interfaces };
+  }
+
+  #properties(node: SyntaxNode): VariableInfo[] {
+    const body = field(node, 'body') ?? field(field(node, 'type'), 'body') ?? field(node, 'type');
+
+    if (!body) {
+      return [];
+    }
+
+    const properties: VariableInfo[] = [];
+    const push = (nameNode: SyntaxNode | null, owner: SyntaxNode, typeNode?: SyntaxNode | null) => {
+      if (nameNode) {
+        properties.push({
+          name: nameNode.text,
+          type: typeText(typeNode ?? null),
+          line: owner.startPosition.row,
+          scope: 'class',
+          modifiers: this.#modifiers(owner),
+        });
+      }
+    };
+
+    const members =
+      body.type === 'field_declaration_list' || body.type === 'struct_type'
+        ? namedChildren(childOfType(body, 'field_declaration_list') ?? body)
+        : namedChildren(body);
+
+    for (const member of members) {
+      switch (member.type) {
+        case 'public_field_definition':
+        case 'property_signature':
+          push(field(member, 'name'), member, field(member, 'type'));
+          break;
+        case 'field_definition':
+          push(field(member, 'property'), member);
+          break;
+        case 'field_declaration':
+          if (this.#language === 'java') {
+            fields(member, 'declarator').forEach((decl) => push(field(decl, 'name'), member, field(member, 'type')));
+          } else if (this.#language === 'go') {
+            fields(member, 'name').forEach((nameNode) => push(nameNode, member, field(member, 'type')));
+          } else if (this.#language === 'c' || this.#language === 'cpp') {
+            push(this.#innermostDeclarator(field(member, 'declarator')), member, field(member, 'type'));
+          } else {
+            push(field(member, 'name'), member, field(member, 'type'));
+          }
+
+          break;
+        case 'expression_statement': {
+          const assignment = namedChildren(member)[0];
+
+          if (assignment?.type === 'assignment' && field(assignment, 'left')?.type === 'identifier') {
+            push(field(assignment, 'left'), member, field(assignment, 'type'));
+          }
+
+          break;
+        }
+      }
+    }
+
+    return properties;
+  }
+
+  // ─── Imports ────────────────────────────────────────────────────────────────
+
+  #importInfos(node: SyntaxNode): ImportInfo[] {
+    const line = node.startPosition.row;
+
+    switch (this.#language) {
+      case 'typescript':
+      case 'javascript':
+        return this.#jsImport(node);
+      case 'python':
+        return this.#pythonImports(node);
+      case 'java': {
+        const path = node.text
+          .replace(/^import\s+(static\s+)?/, '')
+          .replace(/;\s*$/, '')
+          .trim();
+
+        if (path.endsWith('.*')) {
+          return [{ module: path.slice(0, -2), symbols: ['*'], type: 'namespace', line }];
+        }
+
+        return [{ module: path, symbols: [path.split('.').pop() ?? path], type: 'named', line }];
+      }
+      case 'go':
+        return node.descendantsOfType('import_spec').flatMap((spec) => {
+          const path = spec ? field(spec, 'path') : null;
+
+          if (!spec || !path) {
+            return [];
+          }
+
+          const module = stripQuotes(path.text);
+          const alias = field(spec, 'name')?.text;
+
+          return [
+            {
+              module,
+              symbols: [alias ?? module.split('/').pop() ?? module],
+              type: 'namespace',
+              line: spec.startPosition.row,
+            },
+          ];
+        });
+      case 'rust':
+        return this.#rustImport(node);
+      case 'c':
+      case 'cpp': {
+        const path = field(node, 'path');
+        return path ? [{ module: stripQuotes(path.text), symbols: [], type: 'namespace', line }] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  #jsImport(node: SyntaxNode): ImportInfo[] {
+    const source = field(node, 'source');
+
+    if (!source) {
+      return [];
+    }
+
+    const clause = childOfType(node, 'import_clause');
+    const symbols: string[] = [];
+    let type: ImportInfo['type'] = 'named';
+
+    if (clause) {
+      const defaultImport = childOfType(clause, 'identifier');
+      const namespaceImport = childOfType(clause, 'namespace_import');
+      const namedImports = childOfType(clause, 'named_imports');
+
+      if (defaultImport) {
+        symbols.push(defaultImport.text);
+        type = 'default';
+      }
+
+      if (namespaceImport) {
+        symbols.push(childOfType(namespaceImport, 'identifier')?.text ?? '*');
+        type = 'namespace';
+      }
+
+      if (namedImports) {
+        for (const specifier of namedImports.descendantsOfType('import_specifier')) {
+          const name = specifier ? field(specifier, 'name') : null;
+
+          if (name) {
+            symbols.push(name.text);
+          }
+        }
+
+        type = 'named';
+      }
+    }
+
+    return [{ module: stripQuotes(source.text), symbols, type, line: node.startPosition.row }];
+  }
+
+  #isRequireCall(node: SyntaxNode): boolean {
+    if (node.type !== 'call_expression' || (this.#language !== 'typescript' && this.#language !== 'javascript')) {
+      return false;
+    }
+
+    const callee = field(node, 'function');
+
+    return callee?.type === 'import' || (callee?.type === 'identifier' && callee.text === 'require');
+  }
+
+  #requireInfo(node: SyntaxNode): ImportInfo | null {
+    const firstArgument = namedChildren(field(node, 'arguments') ?? node)[0];
+
+    if (!firstArgument || firstArgument.type !== 'string') {
+      return null;
+    }
+
+    const binding = node.parent?.type === 'variable_declarator' ? field(node.parent, 'name') : null;
+    let symbols: string[] = [];
+    let type: ImportInfo['type'] = 'namespace';
+
+    if (binding?.type === 'identifier') {
+      symbols = [binding.text];
+    } else if (binding?.type === 'object_pattern') {
+      symbols = namedChildren(binding).map((prop) => (field(prop, 'key') ?? prop).text);
+      type = 'named';
+    }
+
+    return { module: stripQuotes(firstArgument.text), symbols, type, line: node.startPosition.row };
+  }
+
+  #pythonImports(node: SyntaxNode): ImportInfo[] {
+    const line = node.startPosition.row;
+    const symbolName = (target: SyntaxNode) =>
+      target.type === 'aliased_import' ? (field(target, 'alias')?.text ?? target.text) : target.text;
+
+    if (node.type === 'import_statement') {
+      return fields(node, 'name').map((target) => {
+        const module = target.type === 'aliased_import' ? (field(target, 'name')?.text ?? target.text) : target.text;
+        return { module, symbols: [symbolName(target)], type: 'namespace' as const, line };
+      });
+    }
+
+    const module = field(node, 'module_name')?.text ?? '__future__';
+
+    if (childOfType(node, 'wildcard_import')) {
+      return [{ module, symbols: ['*'], type: 'namespace', line }];
+    }
+
+    return [{ module, symbols: fields(node, 'name').map(symbolName), type: 'named', line }];
+  }
+
+  #rustImport(node: SyntaxNode): ImportInfo[] {
+    const argument = field(node, 'argument');
+
+    if (!argument) {
+      return [];
+    }
+
+    const line = node.startPosition.row;
+
+    switch (argument.type) {
+      case 'scoped_identifier':
+        return [
+          {
+            module: field(argument, 'path')?.text ?? argument.text,
+            symbols: [field(argument, 'name')?.text ?? argument.text],
+            type: 'named',
+            line,
+          },
+        ];
+      case 'scoped_use_list': {
+        const list = field(argument, 'list');
+        return [
+          {
+            module: field(argument, 'path')?.text ?? '',
+            symbols: list ? namedChildren(list).map((item) => item.text) : [],
+            type: 'named',
+            line,
+          },
+        ];
+      }
+      case 'use_wildcard':
+        return [{ module: argument.text.replace(/::\*$/, ''), symbols: ['*'], type: 'namespace', line }];
+      case 'use_as_clause':
+        return [
+          {
+            module: field(argument, 'path')?.text ?? argument.text,
+            symbols: [field(argument, 'alias')?.text ?? argument.text],
+            type: 'named',
+            line,
+          },
+        ];
+      default:
+        return [{ module: argument.text, symbols: [argument.text], type: 'namespace', line }];
+    }
+  }
+
+  // ─── Exports ────────────────────────────────────────────────────────────────
+
+  #handleExport(node: SyntaxNode): void {
+    const line = node.startPosition.row;
+    const source = field(node, 'source');
+    const declaration = field(node, 'declaration');
+    const clause = childOfType(node, 'export_clause');
+
+    if (hasToken(node, 'default')) {
+      const name = declaration ? declarationName(declaration) : null;
+      this.#metadata.exports.push({ symbols: [name ?? 'default'], type: 'default', line });
+
+      return;
+    }
+
+    if (declaration) {
+      const declared = declarationName(declaration);
+      const symbols = declared
+        ? [declared]
+        : namedChildren(declaration)
+            .filter((child) => child.type === 'variable_declarator')
+            .map((child) => field(child, 'name')?.text ?? child.text);
+
+      this.#metadata.exports.push({ symbols, type: 'named', line });
+
+      return;
+    }
+
+    if (clause) {
+      const symbols = namedChildren(clause)
+        .filter((child) => child.type === 'export_specifier')
+        .map((specifier) => (field(specifier, 'alias') ?? field(specifier, 'name') ?? specifier).text);
+      this.#metadata.exports.push({ symbols, type: 'named', line });
+    } else if (hasToken(node, '*')) {
+      const alias = childOfType(node, 'namespace_export');
+      this.#metadata.exports.push({
+        symbols: [alias ? alias.text.replace(/^\*\s+as\s+/, '') : '*'],
+        type: 'namespace',
+        line,
+      });
+    }
+
+    // Re-exports pull in another module just like an import does
+    if (source) {
+      const symbols = clause
+        ? namedChildren(clause).map((specifier) => (field(specifier, 'name') ?? specifier).text)
+        : ['*'];
+      this.#metadata.imports.push({
+        module: stripQuotes(source.text),
+        symbols,
+        type: clause ? 'named' : 'namespace',
+        line,
+      });
+    }
+  }
+
+  /**
+   * Languages without explicit export statements expose symbols through
+   * visibility rules (capitalisation in Go, `pub` in Rust, `public` in Java,
+   * no leading underscore in Python).
+   */
+  #visibilityExports(): ExportInfo[] {
+    const isPublic = (name: string, modifiers: string[]): boolean => {
+      switch (this.#language) {
+        case 'go':
+          return /^[A-Z]/.test(name);
+        case 'python':
+          return !name.startsWith('_');
+        case 'rust':
+          return modifiers.some((modifier) => modifier.startsWith('pub'));
+        case 'java':
+          return modifiers.includes('public');
+        default:
+          return false;
+      }
+    };
+
+    return Array.from(this.#topLevel)
+      .filter(([declaration, modifiers]) => isPublic(declaration.name, modifiers))
+      .map(([declaration]) => ({ symbols: [declaration.name], type: 'named' as const, line: declaration.startLine }));
+  }
+
+  // ─── Variables ──────────────────────────────────────────────────────────────
+
+  #collectVariables(node: SyntaxNode): void {
+    const push = (nameNode: SyntaxNode | null, owner: SyntaxNode, typeNode: SyntaxNode | null, modifiers: string[]) => {
+      if (nameNode) {
+        this.#metadata.variables.push({
+          name: nameNode.text,
+          type: typeText(typeNode),
+          line: owner.startPosition.row,
+          scope: 'global',
+          modifiers,
+        });
+      }
+    };
+
+    switch (node.type) {
+      case 'lexical_declaration':
+      case 'variable_declaration': {
+        const kind = allChildren(node).find((child) => !child.isNamed)?.type ?? 'var';
+        const exported = node.parent?.type === 'export_statement';
+
+        for (const declarator of namedChildren(node).filter((child) => child.type === 'variable_declarator')) {
+          const value = field(declarator, 'value');
+
+          if (value && this.#functionTypes.has(value.type)) {
+            continue;
+          }
+
+          push(field(declarator, 'name'), node, field(declarator, 'type'), exported ? [kind, 'export'] : [kind]);
+        }
+
+        break;
+      }
+      case 'expression_statement': {
+        const assignment = namedChildren(node)[0];
+
+        if (
+          this.#language === 'python' &&
+          assignment?.type === 'assignment' &&
+          field(assignment, 'left')?.type === 'identifier'
+        ) {
+          push(field(assignment, 'left'), node, field(assignment, 'type'), []);
+        }
+
+        break;
+      }
+      case 'var_spec':
+      case 'const_spec':
+        fields(node, 'name').forEach((nameNode) =>
+          push(nameNode, node, field(node, 'type'), [node.type === 'const_spec' ? 'const' : 'var']),
+        );
+        break;
+      case 'const_item':
+      case 'static_item':
+        push(field(node, 'name'), node, field(node, 'type'), this.#modifiers(node));
+        break;
+    }
+  }
+
+  // ─── Metrics ────────────────────────────────────────────────────────────────
+
+  /**
+   * Count decision points below `node`. When `stopAtFunctions` is set, nested
+   * function bodies are skipped so each function only accounts for its own branches.
+   */
+  #countBranches(node: SyntaxNode, stopAtFunctions: boolean): number {
+    let count = 0;
+
+    for (const child of namedChildren(node)) {
+      if (stopAtFunctions && this.#functionTypes.has(child.type)) {
+        continue;
+      }
+
+      if (this.#branchTypes.has(child.type)) {
+        count++;
+      } else if (child.type === 'binary_expression' || child.type === 'boolean_operator') {
+        const operator = field(child, 'operator')?.type;
+
+        if (operator && this.#logicalOperators.has(operator)) {
+          count++;
+        }
+      }
+
+      count += this.#countBranches(child, stopAtFunctions);
+    }
+
+    return count;
+  }
+
+  #countCommentLines(root: SyntaxNode): number {
+    const lines = new Set<number>();
+
+    for (const comment of root.descendantsOfType(Array.from(COMMENT_TYPES))) {
+      if (!comment) {
+        continue;
+      }
+
+      for (let row = comment.startPosition.row; row <= comment.endPosition.row; row++) {
+        lines.add(row);
+      }
+    }
+
+    return lines.size;
+  }
+
+  #structuralPatterns(): CodePattern[] {
+    const patterns: CodePattern[] = [];
+
+    for (const fn of this.#metadata.functions) {
+      const length = fn.endLine - fn.startLine + 1;
+
+      if (length > LONG_FUNCTION_LINES) {
+        patterns.push({
+          type: 'structure',
+          name: 'Long Function',
+          line: fn.startLine,
+          description: `${fn.name} spans ${length} lines`,
+          severity: 'warning',
+        });
+      }
+
+      if (fn.complexity > HIGH_COMPLEXITY) {
+        patterns.push({
+          type: 'complexity',
+          name: 'High Complexity',
+          line: fn.startLine,
+          description: `${fn.name} has cyclomatic complexity ${fn.complexity}`,
+          severity: 'warning',
+        });
+      }
+    }
+
+    return patterns;
+  }
+}
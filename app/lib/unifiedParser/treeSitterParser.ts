@@ -1,4 +1,8 @@
 // Enhanced Tree-sitter parser for multiple programming languages
+import type { Node as SyntaxNode, Tree } from 'web-tree-sitter';
+import { initParser, parse as parseSource } from '~/lib/treeSitter/treeSitterParser';
+import { extractSyntaxMetadata, hasSyntaxSupport, toASTNode } from './syntaxExtractors';
+
 export type SupportedLanguage =
   | 'java'
   | 'python'
@@ -112,10 +116,15 @@ export interface FunctionInfo {
   modifiers: string[];
   documentation?: string;
   complexity: number;
+
+  // Names called / otherwise referenced in the body, resolved into graph edges later
+  calls?: string[];
+  references?: string[];
 }
 
 export interface ClassInfo {
   name: string;
+  kind?: 'class' | 'interface';
   startLine: number;
   endLine: number;
   methods: FunctionInfo[];
@@ -234,8 +243,7 @@ const LANGUAGE_GRAMMARS: Record<SupportedLanguage, string> = {
 export class TreeSitterParser {
   private static instance: TreeSitterParser;
   private initialized = false;
-  private functionCounter = 0;
-  private classCounter = 0;
+  private _unavailableLanguages = new Set<SupportedLanguage>();
 
   private constructor() {}
 
@@ -253,7 +261,8 @@ export class TreeSitterParser {
     }
 
     try {
-      console.log('Tree-sitter parser initialized (mock mode)');
+      // Shares the WASM runtime with the editor highlighter
+      await initParser();
       this.initialized = true;
     } catch (error) {
       console.error('Failed to initialize Tree-sitter:', error);
@@ -264,21 +273,50 @@ export class TreeSitterParser {
   async parse(code: string, language: SupportedLanguage, filePath: string): Promise<ParseResult> {
     await this.initialize();
 
-    const ast = this.createMockAST(code, language);
-    const metadata = this.extractMetadata(ast, code, language, filePath);
+    const tree = await this._parseTree(code, language, filePath);
 
-    return {
-      ast,
-      language,
-      filePath,
-      metadata,
-    };
+    if (!tree) {
+      return {
+        ast: this._createRootOnlyAST(code),
+        language,
+        filePath,
+        metadata: this.extractMetadata(null, code, language),
+      };
+    }
+
+    try {
+      return {
+        ast: toASTNode(tree.rootNode, code),
+        language,
+        filePath,
+        metadata: this.extractMetadata(tree.rootNode, code, language),
+      };
+    } finally {
+      // Trees live in WASM memory and are not garbage collected
+      tree.delete();
+    }
+  }
+
+  private async _parseTree(code: string, language: SupportedLanguage, filePath: string): Promise<Tree | null> {
+    if (!hasSyntaxSupport(language) || this._unavailableLanguages.has(language)) {
+      return null;
+    }
+
+    try {
+      return await parseSource(code, language, { jsx: /\.[jt]sx$/i.test(filePath) });
+    } catch (error) {
+      // Don't refetch a grammar that failed once; metadata degrades to line metrics
+      console.warn(`Tree-sitter grammar for ${language} unavailable, skipping structural analysis:`, error);
+      this._unavailableLanguages.add(language);
+
+      return null;
+    }
   }
 
-  private createMockAST(code: string, language: SupportedLanguage): ASTNode {
+  private _createRootOnlyAST(code: string): ASTNode {
     const lines = code.split('\n');
 
-    const rootNode: ASTNode = {
+    return {
       type: 'program',
       text: code,
       startLine: 0,
@@ -287,341 +325,9 @@ export class TreeSitterParser {
       endCol: lines[lines.length - 1]?.length || 0,
       children: [],
     };
-
-    this.addMockNodes(rootNode, code, language);
-
-    return rootNode;
   }
 
-  private addMockNodes(parentNode: ASTNode, code: string, language: SupportedLanguage): void {
-    const lines = code.split('\n');
-
-    lines.forEach((line, lineIndex) => {
-      const trimmedLine = line.trim();
-
-      if (this.isFunctionLine(trimmedLine, language)) {
-        const funcName = this.extractFunctionNameFromLine(trimmedLine, language);
-
-        if (funcName) {
-          const funcNode: ASTNode = {
-            type: this.getFunctionNodeType(language),
-            text: trimmedLine,
-            startLine: lineIndex,
-            startCol: line.indexOf(trimmedLine),
-            endLine: lineIndex,
-            endCol: line.indexOf(trimmedLine) + trimmedLine.length,
-            children: [],
-            metadata: { name: funcName },
-          };
-          parentNode.children.push(funcNode);
-        }
-      }
-
-      if (this.isClassLine(trimmedLine, language)) {
-        const className = this.extractClassNameFromLine(trimmedLine, language);
-
-        if (className) {
-          const classNode: ASTNode = {
-            type: this.getClassNodeType(language),
-            text: trimmedLine,
-            startLine: lineIndex,
-            startCol: line.indexOf(trimmedLine),
-            endLine: lineIndex,
-            endCol: line.indexOf(trimmedLine) + trimmedLine.length,
-            children: [],
-            metadata: { name: className },
-          };
-          parentNode.children.push(classNode);
-        }
-      }
-
-      if (this.isImportLine(trimmedLine, language)) {
-        const importNode: ASTNode = {
-          type: this.getImportNodeType(language),
-          text: trimmedLine,
-          startLine: lineIndex,
-          startCol: line.indexOf(trimmedLine),
-          endLine: lineIndex,
-          endCol: line.indexOf(trimmedLine) + trimmedLine.length,
-          children: [],
-        };
-        parentNode.children.push(importNode);
-      }
-    });
-  }
-
-  private isFunctionLine(line: string, language: SupportedLanguage): boolean {
-    if (language === 'java') {
-      return (
-        (line.includes('public') || line.includes('private') || line.includes('protected')) &&
-        line.includes('(') &&
-        line.includes(')') &&
-        !line.includes('class') &&
-        !line.includes('interface')
-      );
-    }
-
-    const patterns: Partial<Record<SupportedLanguage, RegExp>> = {
-      javascript:
-        /^(async\s+)?function\s+\w+|const\s+\w+\s*=\s*(async\s+)?\(.*\)\s*=>|\w+\s*:\s*(async\s+)?\(.*\)\s*=>/,
-      typescript:
-        /^(async\s+)?function\s+\w+|const\s+\w+\s*=\s*(async\s+)?\(.*\)\s*=>|\w+\s*:\s*(async\s+)?\(.*\)\s*=>/,
-      python: /^def\s+\w+/,
-      java: /^(public|private|protected|static|\s)*\s*\w+\s+\w+\s*\(/,
-      go: /^func\s+\w+/,
-      rust: /^fn\s+\w+/,
-      c: /^\w+\s+\w+\s*\(/,
-      cpp: /^\w+\s+\w+\s*\(/,
-      php: /^function\s+\w+/,
-      ruby: /^def\s+\w+/,
-      swift: /^func\s+\w+/,
-      kotlin: /^fun\s+\w+/,
-      dart: /^\w+\s+\w+\s*\(/,
-      lua: /^function\s+\w+/,
-      shell: /^\w+\s*\(\)/,
-      perl: /^sub\s+\w+/,
-      julia: /^function\s+\w+/,
-      elixir: /^def\s+\w+/,
-      clojure: /\(defn\s+\w+/,
-      haskell: /^\w+\s*::/,
-      scala: /^def\s+\w+/,
-      fsharp: /^let\s+\w+/,
-      ocaml: /^let\s+\w+/,
-      scheme: /\(define\s+\(/,
-      lisp: /\(defun\s+\w+/,
-      fortran: /^\w+\s+function\s+\w+/,
-      matlab: /^function\s+\w+/,
-      vba: /^Function\s+\w+/,
-      powershell: /^function\s+\w+/,
-      r: /^\w+\s*<-\s*function/,
-    };
-
-    return patterns[language]?.test(line) || false;
-  }
-
-  private isClassLine(line: string, language: SupportedLanguage): boolean {
-    if (language === 'java') {
-      return line.includes('class') || line.includes('interface') || line.includes('enum');
-    }
-
-    const patterns: Partial<Record<SupportedLanguage, RegExp>> = {
-      javascript: /class\s+\w+/,
-      typescript: /class\s+\w+|interface\s+\w+/,
-      python: /class\s+\w+/,
-      java: /class\s+\w+|interface\s+\w+/,
-      go: /type\s+\w+\s+struct/,
-      rust: /struct\s+\w+|enum\s+\w+/,
-      cpp: /class\s+\w+|struct\s+\w+/,
-      php: /class\s+\w+/,
-      ruby: /class\s+\w+/,
-      swift: /class\s+\w+|struct\s+\w+/,
-      kotlin: /class\s+\w+|interface\s+\w+/,
-      dart: /class\s+\w+/,
-      scala: /class\s+\w+|trait\s+\w+/,
-      fsharp: /type\s+\w+/,
-      ocaml: /type\s+\w+/,
-      haskell: /data\s+\w+/,
-    };
-
-    return patterns[language]?.test(line) || false;
-  }
-
-  private isImportLine(line: string, language: SupportedLanguage): boolean {
-    const patterns: Partial<Record<SupportedLanguage, RegExp>> = {
-      javascript: /^(import|require)\s+/,
-      typescript: /^(import|require)\s+/,
-      python: /^(import|from)\s+/,
-      java: /^import\s+/,
-      go: /^import\s+/,
-      rust: /^use\s+/,
-      cpp: /^#include\s+/,
-      c: /^#include\s+/,
-      php: /^(use|require_once|include_once)\s+/,
-      ruby: /^require\s+/,
-      swift: /^import\s+/,
-      kotlin: /^import\s+/,
-      dart: /^import\s+/,
-      scala: /^import\s+/,
-      fsharp: /^open\s+/,
-      ocaml: /^open\s+/,
-      haskell: /^import\s+/,
-      elixir: /^(import|require)\s+/,
-      clojure: /\(:require\s+/,
-      erlang: /^-import\(/,
-      lisp: /\(require\s+/,
-      scheme: /\(import\s+/,
-      r: /^(library|require)\s*\(/,
-      julia: /^(using|import)\s+/,
-      perl: /^(use|require)\s+/,
-      lua: /^(require)\s+/,
-    };
-
-    return patterns[language]?.test(line) || false;
-  }
-
-  private extractFunctionNameFromLine(line: string, language: SupportedLanguage): string | null {
-    const patterns: Partial<Record<SupportedLanguage, RegExp>> = {
-      javascript: /(?:function|const|let|var)\s+(\w+)/,
-      typescript: /(?:function|const|let|var)\s+(\w+)/,
-      python: /def\s+(\w+)/,
-      java: /(?:public|private|protected|static|\s)*\s*(\w+)\s+(\w+)\s*\(/,
-      go: /func\s+(\w+)/,
-      rust: /fn\s+(\w+)/,
-      c: /(\w+)\s+(\w+)\s*\(/,
-      cpp: /(\w+)\s+(\w+)\s*\(/,
-      php: /function\s+(\w+)/,
-      ruby: /def\s+(\w+)/,
-      swift: /func\s+(\w+)/,
-      kotlin: /fun\s+(\w+)/,
-      dart: /(\w+)\s+(\w+)\s*\(/,
-      lua: /function\s+(\w+)/,
-      shell: /(\w+)\s*\(\)/,
-      perl: /sub\s+(\w+)/,
-      julia: /function\s+(\w+)/,
-      elixir: /def\s+(\w+)/,
-      clojure: /\(defn\s+(\w+)/,
-      haskell: /(\w+)\s*::/,
-      scala: /def\s+(\w+)/,
-      fsharp: /let\s+(\w+)/,
-      ocaml: /let\s+(\w+)/,
-      scheme: /\(define\s+\((\w+)/,
-      lisp: /\(defun\s+(\w+)/,
-      fortran: /\w+\s+function\s+(\w+)/,
-      matlab: /function\s+(\w+)/,
-      vba: /Function\s+(\w+)/,
-      powershell: /function\s+(\w+)/,
-      r: /(\w+)\s*<-\s*function/,
-    };
-
-    const match = line.match(patterns[language] || /(\w+)/);
-
-    return match ? match[1] || match[2] : null;
-  }
-
-  private extractClassNameFromLine(line: string, language: SupportedLanguage): string | null {
-    const patterns: Partial<Record<SupportedLanguage, RegExp>> = {
-      javascript: /class\s+(\w+)/,
-      typescript: /(?:class|interface)\s+(\w+)/,
-      python: /class\s+(\w+)/,
-      java: /(?:class|interface)\s+(\w+)/,
-      go: /type\s+(\w+)\s+struct/,
-      rust: /(?:struct|enum)\s+(\w+)/,
-      cpp: /(?:class|struct)\s+(\w+)/,
-      php: /class\s+(\w+)/,
-      ruby: /class\s+(\w+)/,
-      swift: /(?:class|struct)\s+(\w+)/,
-      kotlin: /(?:class|interface)\s+(\w+)/,
-      dart: /class\s+(\w+)/,
-      scala: /(?:class|trait)\s+(\w+)/,
-      fsharp: /type\s+(\w+)/,
-      ocaml: /type\s+(\w+)/,
-      haskell: /data\s+(\w+)/,
-    };
-
-    const match = line.match(patterns[language] || /(\w+)/);
-
-    return match ? match[1] : null;
-  }
-
-  private getFunctionNodeType(language: SupportedLanguage): string {
-    const types: Partial<Record<SupportedLanguage, string>> = {
-      javascript: 'function_declaration',
-      typescript: 'function_declaration',
-      python: 'function_definition',
-      java: 'method_declaration',
-      go: 'function_declaration',
-      rust: 'function_item',
-      c: 'function_definition',
-      cpp: 'function_definition',
-      php: 'function_declaration',
-      ruby: 'method_declaration',
-      swift: 'function_declaration',
-      kotlin: 'function_declaration',
-      dart: 'function_declaration',
-      lua: 'function_declaration',
-      shell: 'function_definition',
-      perl: 'subroutine_declaration',
-      julia: 'function_definition',
-      elixir: 'function_declaration',
-      clojure: 'function_declaration',
-      haskell: 'function_declaration',
-      scala: 'function_declaration',
-      fsharp: 'function_declaration',
-      ocaml: 'function_declaration',
-      scheme: 'function_declaration',
-      lisp: 'function_declaration',
-      fortran: 'function_definition',
-      matlab: 'function_declaration',
-      vba: 'function_declaration',
-      powershell: 'function_declaration',
-      r: 'function_declaration',
-    };
-
-    return types[language] || 'function_declaration';
-  }
-
-  private getClassNodeType(language: SupportedLanguage): string {
-    const types: Partial<Record<SupportedLanguage, string>> = {
-      javascript: 'class_declaration',
-      typescript: 'class_declaration',
-      python: 'class_definition',
-      java: 'class_declaration',
-      go: 'type_declaration',
-      rust: 'struct_item',
-      cpp: 'class_specifier',
-      php: 'class_declaration',
-      ruby: 'class_declaration',
-      swift: 'class_declaration',
-      kotlin: 'class_declaration',
-      dart: 'class_declaration',
-      scala: 'class_declaration',
-      fsharp: 'type_declaration',
-      ocaml: 'type_declaration',
-      haskell: 'data_declaration',
-    };
-
-    return types[language] || 'class_declaration';
-  }
-
-  private getImportNodeType(language: SupportedLanguage): string {
-    const types: Partial<Record<SupportedLanguage, string>> = {
-      javascript: 'import_statement',
-      typescript: 'import_statement',
-      python: 'import_statement',
-      java: 'import_declaration',
-      go: 'import_declaration',
-      rust: 'use_declaration',
-      cpp: 'preproc_include',
-      c: 'preproc_include',
-      php: 'use_declaration',
-      ruby: 'require_statement',
-      swift: 'import_declaration',
-      kotlin: 'import_declaration',
-      dart: 'import_statement',
-      scala: 'import_declaration',
-      fsharp: 'open_declaration',
-      ocaml: 'open_declaration',
-      haskell: 'import_declaration',
-      elixir: 'import_statement',
-      clojure: 'require_statement',
-      erlang: 'import_declaration',
-      lisp: 'require_statement',
-      scheme: 'import_statement',
-      r: 'library_statement',
-      julia: 'using_statement',
-      perl: 'use_statement',
-      lua: 'require_statement',
-    };
-
-    return types[language] || 'import_statement';
-  }
-
-  private extractMetadata(
-    ast: ASTNode,
-    code: string,
-    language: SupportedLanguage,
-    filePath: string,
-  ): ParseResult['metadata'] {
+  private extractMetadata(root: SyntaxNode | null, code: string, language: SupportedLanguage): ParseResult['metadata'] {
     const metadata: ParseResult['metadata'] = {
       functions: [],
       classes: [],
@@ -637,7 +343,7 @@ export class TreeSitterParser {
 
     // Extract package name for Java, Go, Kotlin
     if (language === 'java' || language === 'kotlin') {
-      const packageMatch = code.match(/^package\s+([\w.]+);/m);
+      const packageMatch = code.match(/^package\s+([\w.]+);?/m);
 
       if (packageMatch) {
         metadata.packageName = packageMatch[1];
@@ -663,151 +369,13 @@ export class TreeSitterParser {
       }
     }
 
-    this.traverseAST(ast, metadata, code, language);
-
-    // Calculate basic metrics
-    const lines = code.split('\n');
-    metadata.linesOfCode = lines.length;
-    metadata.commentLines = lines.filter((line) => {
-      const trimmed = line.trim();
-      return trimmed.startsWith('//') || trimmed.startsWith('#') || trimmed.startsWith('/*') || trimmed.startsWith('*');
-    }).length;
-
-    return metadata;
-  }
-
-  private traverseAST(
-    node: ASTNode,
-    metadata: ParseResult['metadata'],
-    code: string,
-    language: SupportedLanguage,
-  ): void {
-    // Extract functions
-    if (node.type.includes('function') || node.type.includes('method')) {
-      const funcInfo = this.extractFunctionInfo(node, code, language, metadata);
-
-      if (funcInfo) {
-        metadata.functions.push(funcInfo);
-      }
-    }
-
-    // Extract classes
-    if (node.type.includes('class') || node.type.includes('struct') || node.type.includes('interface')) {
-      const classInfo = this.extractClassInfo(node, code, language, metadata);
-
-      if (classInfo) {
-        metadata.classes.push(classInfo);
-      }
-    }
-
-    // Extract imports
-    if (node.type.includes('import') || node.type.includes('use') || node.type.includes('require')) {
-      const importInfo = this.extractImportInfo(node, code, language);
-
-      if (importInfo) {
-        metadata.imports.push(importInfo);
-      }
-    }
-
-    // Traverse children
-    for (const child of node.children) {
-      this.traverseAST(child, metadata, code, language);
-    }
-  }
-
-  private extractFunctionInfo(
-    node: ASTNode,
-    code: string,
-    language: SupportedLanguage,
-    metadata: ParseResult['metadata'],
-  ): FunctionInfo | null {
-    try {
-      const name = node.metadata?.name || `function_${++this.functionCounter}`;
-
-      return {
-        name,
-        startLine: node.startLine,
-        endLine: node.endLine,
-        parameters: [], // Would extract from actual AST
-        returnType: undefined,
-        modifiers: [],
-        documentation: undefined,
-        complexity: 1,
-      };
-    } catch (error) {
-      console.error('Failed to extract function info:', error);
-      return null;
-    }
-  }
-
-  private extractClassInfo(
-    node: ASTNode,
-    code: string,
-    language: SupportedLanguage,
-    metadata: ParseResult['metadata'],
-  ): ClassInfo | null {
-    try {
-      const name = node.metadata?.name || `class_${++this.classCounter}`;
+    metadata.linesOfCode = code.split('\n').length;
 
-      return {
-        name,
-        startLine: node.startLine,
-        endLine: node.endLine,
-        methods: [],
-        properties: [],
-        inheritance: [],
-        interfaces: [],
-        documentation: undefined,
-      };
-    } catch (error) {
-      console.error('Failed to extract class info:', error);
-      return null;
+    if (root) {
+      extractSyntaxMetadata(root, language, metadata);
     }
-  }
 
-  private extractImportInfo(node: ASTNode, code: string, language: SupportedLanguage): ImportInfo | null {
-    try {
-      const line = node.text.trim();
-      let module = 'unknown_module';
-      let symbols: string[] = [];
-
-      if (language === 'java') {
-        const match = line.match(/^import\s+(?:static\s+)?([\w.]+);?/);
-
-        if (match) {
-          module = match[1];
-
-          // For Java, the last part is usually the class/symbol
-          const parts = module.split('.');
-          symbols = [parts[parts.length - 1]];
-        }
-      } else if (language === 'javascript' || language === 'typescript') {
-        const fromMatch = line.match(/from\s+['"](.+)['"]/);
-
-        if (fromMatch) {
-          module = fromMatch[1];
-        }
-      } else if (language === 'python') {
-        const fromMatch = line.match(/from\s+([\w.]+)\s+import/);
-        const importMatch = line.match(/^import\s+([\w.]+)/);
-
-        if (fromMatch) {
-          module = fromMatch[1];
-        } else if (importMatch) {
-          module = importMatch[1];
-        }
-      }
-
-      return {
-        module,
-        symbols,
-        type: 'named',
-        line: node.startLine,
-      };
-    } catch (error) {
-      console.error('Failed to extract import info:', error);
-      return null;
-    }
+    return metadata;
   }
 
   getSupportedLanguages(): SupportedLanguage[] {
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ParseResult, SupportedLanguage, TreeSitterParser } from './treeSitterParser';
+import { UnifiedParserService, type LLMAnalysis } from './unifiedParser';
+
+const { pool, persisted } = vi.hoisted(() => ({
+  pool: {
+    // Each file "imports" its own content, so the project metadata shows which version was parsed
+    parse: vi.fn(
+      async (code: string, language: SupportedLanguage, filePath: string): Promise<ParseResult> => ({
+        ast: { type: 'program', text: code, startLine: 0, startCol: 0, endLine: 0, endCol: 0, children: [] },
+        language,
+        filePath,
+        metadata: {
+          functions: [],
+          classes: [],
+          imports: [{ module: code, symbols: [], type: 'named', line: 0 }],
+          exports: [],
+          variables: [],
+          complexity: 1,
+          linesOfCode: code.split('\n').length,
+          commentLines: 0,
+          dependencies: [code],
+          patterns: [],
+        },
+      }),
+    ),
+  },
+  persisted: {
+    getCachedParse: vi.fn(async (): Promise<ParseResult | undefined> => undefined),
+    setCachedParse: vi.fn(),
+  },
+}));
+
+vi.mock('./parserPool', () => ({
+  ParserPool: class {
+    parse = pool.parse;
+  },
+}));
+vi.mock('./aiClient', () => ({ AIClient: class {} }));
+vi.mock('~/lib/persistence/analysisCache', () => persisted);
+
+const parser = { getLanguageFromExtension: () => 'typescript' } as unknown as TreeSitterParser;
+
+describe('UnifiedParserService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reparses only the changed files when updating a project', async () => {
+    const service = new UnifiedParserService(parser);
+    const analysis = await service.parseProject([
+      { path: 'a.ts', content: 'a' },
+      { path: 'b.ts', content: 'b' },
+      { path: 'c.ts', content: 'c' },
+    ]);
+
+    const llmAnalysis = { summary: 'project summary' } as LLMAnalysis;
+
+    pool.parse.mockClear();
+
+    const updated = await service.updateProject(
+      { ...analysis, llmAnalysis },
+      {
+        changed: [
+          { path: 'a.ts', content: 'a\nchanged' },
+          { path: 'd.ts', content: 'd' },
+        ],
+        removed: ['b.ts'],
+      },
+    );
+
+    expect(pool.parse.mock.calls.map(([, , filePath]) => filePath)).toEqual(['a.ts', 'd.ts']);
+
+    // Files keep their place in the project and new ones go last
+    expect(updated.files.map((file) => file.filePath)).toEqual(['a.ts', 'c.ts', 'd.ts']);
+    expect(updated.files[1]).toBe(analysis.files[2]);
+    expect(updated.projectMetadata).toMatchObject({
+      totalFiles: 3,
+      totalLines: 4,
+      dependencies: ['a\nchanged', 'c', 'd'],
+    });
+    expect(updated.llmAnalysis).toBe(llmAnalysis);
+  });
+
+  it('reuses the parse of a file whose content did not change', async () => {
+    const service = new UnifiedParserService(parser);
+    const analysis = await service.parseProject([{ path: 'a.ts', content: 'a' }]);
+    const onProgress = vi.fn();
+
+    await service.updateProject(analysis, { changed: [{ path: 'a.ts', content: 'a' }], removed: [] }, { onProgress });
+
+    expect(pool.parse).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'done', completed: 1, cached: 1 }));
+  });
+
+  it('parses a removed file again when it comes back', async () => {
+    const service = new UnifiedParserService(parser);
+    const analysis = await service.parseProject([{ path: 'a.ts', content: 'a' }]);
+    const removed = await service.updateProject(analysis, { changed: [], removed: ['a.ts'] });
+
+    expect(removed.files).toEqual([]);
+
+    await service.updateProject(removed, { changed: [{ path: 'a.ts', content: 'a' }], removed: [] });
+
+    expect(pool.parse).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,5 +1,9 @@
 import type { TreeSitterParser, SupportedLanguage, ParseResult } from './treeSitterParser';
 import { AIClient } from './aiClient';
+import { ParserPool } from './parserPool';
+import { parseProgressStore, type ParseProgress } from './parseProgressStore';
+import { hashContent } from '~/lib/crypto';
+import { getCachedParse, setCachedParse } from '~/lib/persistence/analysisCache';
 import { z } from 'zod';
 
 // Parse mode configuration
@@ -68,6 +72,27 @@ export interface ProjectAnalysis {
   llmAnalysis?: LLMAnalysis;
 }
 
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export interface ParseProjectOptions {
+  /** Called whenever a file finishes, whether it was parsed or served from the cache. */
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+// Incremental change set applied to an existing ProjectAnalysis
+export interface ProjectChanges {
+  changed: ProjectFile[];
+  removed: string[];
+}
+
+interface CachedParse {
+  hash: string;
+  result: ParseResult;
+}
+
 // Zod schemas for LLM analysis
 const CodePatternSchema = z.object({
   type: z.string(),
@@ -120,6 +145,10 @@ export class UnifiedParserService {
   private parser: TreeSitterParser;
   private mode: ParseMode = { type: 'parser-only' };
   private aiClient: AIClient;
+  private _pool = new ParserPool();
+
+  // Parse results keyed by file path, reused while the content hash is unchanged
+  private _cache = new Map<string, CachedParse>();
 
   constructor(parser: TreeSitterParser) {
     this.parser = parser;
@@ -144,7 +173,7 @@ export class UnifiedParserService {
     const startTime = Date.now();
 
     // Parse with tree-sitter
-    const parseResult = await this.parser.parse(code, language, filePath);
+    const { result: parseResult } = await this._parseWithCache(code, language, filePath);
 
     let llmAnalysis: LLMAnalysis | undefined;
 
@@ -162,19 +191,12 @@ export class UnifiedParserService {
     };
   }
 
-  async parseProject(files: Array<{ path: string; content: string }>): Promise<ProjectAnalysis> {
-    const startTime = Date.now();
-    const results: EnhancedParseResult[] = [];
-
-    // Parse all files
-    for (const file of files) {
-      try {
-        const result = await this.parseCode(file.content, file.path);
-        results.push(result);
-      } catch (error) {
-        console.error(`Failed to parse ${file.path}:`, error);
-      }
-    }
+  /**
+   * Parse every file of a project on the worker pool. Files whose content hash
+   * matches a previous parse are served from the cache.
+   */
+  async parseProject(files: ProjectFile[], options: ParseProjectOptions = {}): Promise<ProjectAnalysis> {
+    const results = await this._parseFiles(files, options);
 
     // Calculate project metadata
     const projectMetadata = this.calculateProjectMetadata(results);
@@ -193,6 +215,158 @@ export class UnifiedParserService {
     };
   }
 
+  /**
+   * Patch an existing analysis with changed and removed files without touching
+   * the rest of the project. The project-level LLM analysis is carried over.
+   */
+  async updateProject(
+    analysis: ProjectAnalysis,
+    changes: ProjectChanges,
+    options: ParseProjectOptions = {},
+  ): Promise<ProjectAnalysis> {
+    const removed = new Set(changes.removed);
+
+    removed.forEach((path) => this._cache.delete(path));
+
+    const updated = new Map((await this._parseFiles(changes.changed, options)).map((file) => [file.filePath, file]));
+    const files: EnhancedParseResult[] = [];
+
+    for (const file of analysis.files) {
+      if (removed.has(file.filePath)) {
+        continue;
+      }
+
+      files.push(updated.get(file.filePath) ?? file);
+      updated.delete(file.filePath);
+    }
+
+    files.push(...updated.values());
+
+    return {
+      files,
+      projectMetadata: this.calculateProjectMetadata(files),
+      llmAnalysis: analysis.llmAnalysis,
+    };
+  }
+
+  /**
+   * Drop cached parse results, either for specific paths or entirely.
+   */
+  invalidateCache(paths?: string[]): void {
+    if (!paths) {
+      this._cache.clear();
+      return;
+    }
+
+    paths.forEach((path) => this._cache.delete(path));
+  }
+
+  /**
+   * Tree-sitter parse of many files without any LLM analysis, e.g. for
+   * building graphs. Files that fail to parse are left out.
+   */
+  async parseFiles(files: ProjectFile[], options: ParseProjectOptions = {}): Promise<ParseResult[]> {
+    return (await this._parseSyntax(files, options)).map((entry) => entry.result);
+  }
+
+  private async _parseFiles(files: ProjectFile[], options: ParseProjectOptions): Promise<EnhancedParseResult[]> {
+    const parsed = await this._parseSyntax(files, options);
+    const results: EnhancedParseResult[] = [];
+
+    // LLM requests stay sequential so a large project doesn't flood the provider
+    for (const { file, result, analysisTime } of parsed) {
+      let llmAnalysis: LLMAnalysis | undefined;
+
+      if (this.mode.type === 'llm-enhanced') {
+        const startTime = Date.now();
+        llmAnalysis = await this.performLLMAnalysis(file.content, result.metadata, file.path, result.language);
+        results.push({ ...result, llmAnalysis, analysisTime: analysisTime + Date.now() - startTime });
+      } else {
+        results.push({ ...result, analysisTime });
+      }
+    }
+
+    return results;
+  }
+
+  private async _parseSyntax(
+    files: ProjectFile[],
+    options: ParseProjectOptions,
+  ): Promise<Array<{ file: ProjectFile; result: ParseResult; analysisTime: number }>> {
+    const progress: ParseProgress = { status: 'parsing', total: files.length, completed: 0, cached: 0 };
+    const report = (update: Partial<ParseProgress>) => {
+      Object.assign(progress, update);
+      parseProgressStore.set({ ...progress });
+      options.onProgress?.({ ...progress });
+    };
+
+    report({});
+
+    // Tree-sitter parsing runs in parallel on the worker pool
+    const parsed = await Promise.all(
+      files.map(async (file) => {
+        const language = this.parser.getLanguageFromExtension(file.path);
+
+        if (!language) {
+          report({ completed: progress.completed + 1 });
+          return null;
+        }
+
+        const startTime = Date.now();
+
+        try {
+          const { result, cached } = await this._parseWithCache(file.content, language, file.path);
+
+          report({
+            completed: progress.completed + 1,
+            cached: progress.cached + (cached ? 1 : 0),
+            currentFile: file.path,
+          });
+
+          return { file, result, analysisTime: Date.now() - startTime };
+        } catch (error) {
+          console.error(`Failed to parse ${file.path}:`, error);
+          report({ completed: progress.completed + 1 });
+
+          return null;
+        }
+      }),
+    );
+
+    report({ status: 'done', currentFile: undefined });
+
+    return parsed.filter((entry) => entry !== null);
+  }
+
+  private async _parseWithCache(
+    code: string,
+    language: SupportedLanguage,
+    filePath: string,
+  ): Promise<{ result: ParseResult; cached: boolean }> {
+    const hash = await hashContent(code);
+    const cached = this._cache.get(filePath);
+
+    if (cached && cached.hash === hash) {
+      return { result: cached.result, cached: true };
+    }
+
+    // Identical content parsed in an earlier session (possibly under another path)
+    const persisted = await getCachedParse(hash, language);
+
+    if (persisted) {
+      const result = { ...persisted, filePath };
+      this._cache.set(filePath, { hash, result });
+
+      return { result, cached: true };
+    }
+
+    const result = await this._pool.parse(code, language, filePath);
+    this._cache.set(filePath, { hash, result });
+    setCachedParse(hash, language, result);
+
+    return { result, cached: false };
+  }
+
   private calculateProjectMetadata(results: EnhancedParseResult[]): ProjectAnalysis['projectMetadata'] {
     const languages: Record<SupportedLanguage, number> = {} as Record<SupportedLanguage, number>;
     let totalLines = 0;
@@ -638,6 +812,10 @@ Rules:
   isLanguageSupported(language: string): language is SupportedLanguage {
     return this.parser.isLanguageSupported(language);
   }
+
+  isSupportedFile(filePath: string): boolean {
+    return this.parser.getLanguageFromExtension(filePath) !== null;
+  }
 }
 
 let unifiedParserService: UnifiedParserService | null = null;
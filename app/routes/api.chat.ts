@@ -0,0 +1,61 @@
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { streamText } from 'ai';
+import { ChatProviderError, getChatModel } from '~/lib/llm/model';
+import { getModelLimits } from '~/lib/llm/registry';
+import { CHAT_SYSTEM_PROMPT, chatTools } from '~/lib/llm/tools';
+import { sanitizeErrorMessage, withSecurity } from '~/lib/security';
+import type { ChatRequestBody } from '~/types/chat';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.chat');
+
+// Tokens the model may spend on one reply, unless the registry knows its limit
+const MAX_OUTPUT_TOKENS = 8192;
+
+async function chatAction({ request, context }: ActionFunctionArgs) {
+  let body: ChatRequestBody;
+
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { messages, provider, context: projectContext } = body;
+
+  if (!Array.isArray(messages) || messages.length === 0 || !provider?.name || !provider.model) {
+    return json({ error: 'A provider, a model and at least one message are required' }, { status: 400 });
+  }
+
+  const env: Record<string, string | undefined> = { ...process.env, ...context?.cloudflare?.env };
+  let model;
+
+  try {
+    model = getChatModel(provider, env);
+  } catch (error) {
+    if (error instanceof ChatProviderError) {
+      return json({ error: error.message }, { status: 400 });
+    }
+
+    throw error;
+  }
+
+  const result = streamText({
+    model,
+    system: projectContext ? `${CHAT_SYSTEM_PROMPT}\n\n${projectContext}` : CHAT_SYSTEM_PROMPT,
+    messages,
+    tools: chatTools,
+    maxTokens: getModelLimits(provider.name, provider.model).maxCompletionTokens ?? MAX_OUTPUT_TOKENS,
+    abortSignal: request.signal,
+    onError: ({ error }) => logger.error(`Chat with ${provider.name}/${provider.model} failed`, error),
+  });
+
+  return result.toDataStreamResponse({
+    getErrorMessage: (error) => sanitizeErrorMessage(error, process.env.NODE_ENV === 'development'),
+  });
+}
+
+export const action = withSecurity(chatAction, {
+  rateLimit: true,
+  allowedMethods: ['POST'],
+});
@@ -1,7 +1,10 @@
-import { json } from '@remix-run/cloudflare';
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getConfiguredProviders } from '~/lib/llm/registry';
+
+export const loader = async ({ context }: LoaderFunctionArgs) => {
+  const env: Record<string, string | undefined> = { ...process.env, ...context?.cloudflare?.env };
 
-export const loader = async () => {
   return json({
-    providers: [],
+    providers: getConfiguredProviders(env),
   });
 };
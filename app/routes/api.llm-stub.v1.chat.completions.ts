@@ -0,0 +1,8 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { handleStubCompletion } from '~/lib/llm/stub';
+
+/**
+ * The offline stub as a real endpoint, for OpenAI-compatible clients outside
+ * the app: point them at `/api/llm-stub/v1`.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => handleStubCompletion(request);
@@ -0,0 +1,31 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getProviderDefinition, listProviderModels, resolveConnection } from '~/lib/llm/registry';
+import { withSecurity } from '~/lib/security';
+
+/**
+ * Models a provider serves, listed with the server's key unless the client
+ * sends its own in `X-Provider-Api-Key`. Only the env or default URL of the
+ * provider is called; the browser lists a URL the user chose itself.
+ */
+async function modelsLoader({ request, context }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const provider = getProviderDefinition(url.searchParams.get('provider') ?? '');
+
+  if (!provider) {
+    return json({ error: 'Unknown provider' }, { status: 400 });
+  }
+
+  const env: Record<string, string | undefined> = { ...process.env, ...context?.cloudflare?.env };
+  const connection = resolveConnection(
+    provider,
+    { apiKey: request.headers.get('X-Provider-Api-Key') ?? undefined },
+    env,
+  );
+
+  return json({ models: await listProviderModels(provider, connection) });
+}
+
+export const loader = withSecurity(modelsLoader, {
+  rateLimit: true,
+  allowedMethods: ['GET'],
+});
@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'patch' | 'shell' | 'test' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,10 +11,27 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/**
+ * Changes an existing file with a unified diff or SEARCH/REPLACE blocks
+ * instead of rewriting it, see `~/utils/patch`.
+ */
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
 
+/**
+ * Runs the project's tests with the detected runner, see `detectTestCommand`.
+ * The content holds optional extra arguments such as a test file.
+ */
+export interface TestAction extends BaseAction {
+  type: 'test';
+}
+
 export interface StartAction extends BaseAction {
   type: 'start';
 }
@@ -30,7 +47,14 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type MindvexAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type MindvexAction =
+  | FileAction
+  | PatchAction
+  | ShellAction
+  | TestAction
+  | StartAction
+  | BuildAction
+  | SupabaseAction;
 
 export type MindvexActionData = MindvexAction | BaseAction;
 
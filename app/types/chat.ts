@@ -0,0 +1,20 @@
+import type { Message } from 'ai';
+
+/** Provider and model a chat request runs on, as chosen in the chat panel. */
+export interface ChatProviderSelection {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface ChatRequestBody {
+  messages: Message[];
+  provider: ChatProviderSelection;
+
+  // Project files packed by the context builder, appended to the system prompt
+  context?: string;
+}
+
+/** Tools the model may call; they run in the browser against the WebContainer. */
+export type ChatToolName = 'readFile' | 'searchFiles' | 'listDirectory' | 'runCommand';
@@ -9,6 +9,8 @@ export type ModelInfo = {
 export type ProviderInfo = {
   staticModels: ModelInfo[];
   name: string;
+  category: 'cloud' | 'local';
+  urlConfigurable?: boolean;
   getDynamicModels?: (
     providerName: string,
     apiKeys?: Record<string, string>,
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { ArtifactCheckpoint } from '~/lib/persistence/types';
+import type { FileMap } from '~/lib/stores/files';
+import { checkpointsFrom, expandCheckpointPaths, mergeCheckpoints, overwrittenLater } from './checkpoints';
+
+function checkpoint(id: string, timestamp: number, files: ArtifactCheckpoint['files']): ArtifactCheckpoint {
+  return { id, chatId: '1', messageId: `message-${id}`, title: id, timestamp, files };
+}
+
+describe('expandCheckpointPaths', () => {
+  it('replaces folders with the files under them', () => {
+    const files: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/a.ts': { type: 'file', content: 'a', isBinary: false },
+      '/home/project/src/lib': { type: 'folder' },
+      '/home/project/src/lib/b.ts': { type: 'file', content: 'b', isBinary: false },
+      '/home/project/srcs.ts': { type: 'file', content: '', isBinary: false },
+    };
+
+    expect(expandCheckpointPaths(['/home/project/src', '/home/project/new.ts'], files).sort()).toEqual([
+      '/home/project/new.ts',
+      '/home/project/src/a.ts',
+      '/home/project/src/lib/b.ts',
+    ]);
+  });
+});
+
+describe('rolling back checkpoints', () => {
+  const first = checkpoint('first', 1, { '/home/project/a.ts': 'v1', '/home/project/b.ts': null });
+  const second = checkpoint('second', 2, { '/home/project/a.ts': 'v2', '/home/project/c.ts': 'c' });
+  const other = { ...checkpoint('other', 3, { '/home/project/a.ts': 'x' }), chatId: '2' };
+
+  it('restores the content from before the oldest artifact', () => {
+    expect(mergeCheckpoints([second, first])).toEqual({
+      '/home/project/a.ts': 'v1',
+      '/home/project/b.ts': null,
+      '/home/project/c.ts': 'c',
+    });
+  });
+
+  it('finds later artifacts of the same chat and the files they changed again', () => {
+    expect(checkpointsFrom([second, other, first], first).map(({ id }) => id)).toEqual(['first', 'second']);
+    expect(overwrittenLater([first, second, other], first)).toEqual(['/home/project/a.ts']);
+    expect(overwrittenLater([first, second], second)).toEqual([]);
+  });
+});
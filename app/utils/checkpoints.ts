@@ -0,0 +1,66 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { ArtifactCheckpoint } from '~/lib/persistence/types';
+
+/**
+ * Files a write, delete or move of `paths` affects: files themselves, and
+ * every file under folders. Paths missing from the file map are kept, since
+ * the action is about to create them.
+ */
+export function expandCheckpointPaths(paths: string[], files: FileMap): string[] {
+  const expanded = new Set<string>();
+
+  for (const filePath of paths) {
+    const dirent = files[filePath];
+
+    if (dirent?.type !== 'folder') {
+      expanded.add(filePath);
+      continue;
+    }
+
+    const prefix = `${filePath}/`;
+
+    for (const [childPath, child] of Object.entries(files)) {
+      if (child?.type === 'file' && childPath.startsWith(prefix)) {
+        expanded.add(childPath);
+      }
+    }
+  }
+
+  return [...expanded];
+}
+
+/**
+ * Contents to restore when rolling back several artifacts at once. For a
+ * file touched by more than one of them, the oldest checkpoint has the
+ * content from before any of them ran.
+ */
+export function mergeCheckpoints(checkpoints: ArtifactCheckpoint[]): ArtifactCheckpoint['files'] {
+  const merged: ArtifactCheckpoint['files'] = {};
+
+  for (const checkpoint of [...checkpoints].sort((a, b) => a.timestamp - b.timestamp)) {
+    for (const [filePath, content] of Object.entries(checkpoint.files)) {
+      if (!(filePath in merged)) {
+        merged[filePath] = content;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/** `checkpoint` and every checkpoint of the same chat taken after it, oldest first. */
+export function checkpointsFrom(checkpoints: ArtifactCheckpoint[], checkpoint: ArtifactCheckpoint) {
+  return checkpoints
+    .filter((other) => other.chatId === checkpoint.chatId && other.timestamp >= checkpoint.timestamp)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Files of `checkpoint` that later artifacts changed again. Undoing only
+ * `checkpoint` discards those later changes too.
+ */
+export function overwrittenLater(checkpoints: ArtifactCheckpoint[], checkpoint: ArtifactCheckpoint): string[] {
+  const later = checkpointsFrom(checkpoints, checkpoint).filter((other) => other.id !== checkpoint.id);
+
+  return Object.keys(checkpoint.files).filter((filePath) => later.some((other) => filePath in other.files));
+}
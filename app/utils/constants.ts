@@ -1,3 +1,5 @@
+import { PROVIDER_REGISTRY, toProviderInfo } from '~/lib/llm/registry';
+import type { ProviderInfo } from '~/types/model';
 import type { Template } from '~/types/template';
 
 export const WORK_DIR_NAME = 'project';
@@ -15,60 +17,16 @@ export const TOOL_NO_EXECUTE_FUNCTION = 'Error: No execute function found on too
 export const TOOL_EXECUTION_DENIED = 'Error: User denied access to tool execution';
 export const TOOL_EXECUTION_ERROR = 'Error: An error occured while calling tool';
 
-export const PROVIDER_LIST: any[] = [
-  {
-    name: 'Anthropic',
-    staticModels: [
-      { name: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet', provider: 'Anthropic', maxTokenAllowed: 200000 },
-      { name: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku', provider: 'Anthropic', maxTokenAllowed: 200000 },
-      { name: 'claude-3-opus-latest', label: 'Claude 3 Opus', provider: 'Anthropic', maxTokenAllowed: 200000 },
-    ],
-    getApiKeyLink: 'https://console.anthropic.com/settings/keys',
-    labelForGetApiKey: 'Get Anthropic API Key',
-  },
-  {
-    name: 'Google',
-    staticModels: [
-      { name: 'gemini-1.5-pro-latest', label: 'Gemini 1.5 Pro', provider: 'Google', maxTokenAllowed: 2000000 },
-      { name: 'gemini-1.5-flash-latest', label: 'Gemini 1.5 Flash', provider: 'Google', maxTokenAllowed: 1000000 },
-    ],
-    getApiKeyLink: 'https://aistudio.google.com/app/apikey',
-    labelForGetApiKey: 'Get Google AI Key',
-  },
-  {
-    name: 'Groq',
-    staticModels: [
-      { name: 'llama-3.1-70b-versatile', label: 'Llama 3.1 70B', provider: 'Groq', maxTokenAllowed: 131072 },
-      { name: 'llama-3.1-8b-instant', label: 'Llama 3.1 8B', provider: 'Groq', maxTokenAllowed: 131072 },
-      { name: 'mixtral-8x7b-32768', label: 'Mixtral 8x7B', provider: 'Groq', maxTokenAllowed: 32768 },
-    ],
-    getApiKeyLink: 'https://console.groq.com/keys',
-    labelForGetApiKey: 'Get Groq API Key',
-  },
-  {
-    name: 'XAI',
-    staticModels: [{ name: 'grok-beta', label: 'Grok Beta', provider: 'XAI', maxTokenAllowed: 131072 }],
-    getApiKeyLink: 'https://console.x.ai/',
-    labelForGetApiKey: 'Get xAI API Key',
-  },
-  {
-    name: 'Ollama',
-    staticModels: [],
-  },
-  {
-    name: 'OpenAI',
-    staticModels: [
-      { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 128000 },
-      { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'OpenAI', maxTokenAllowed: 128000 },
-    ],
-    getApiKeyLink: 'https://platform.openai.com/api-keys',
-    labelForGetApiKey: 'Get OpenAI API Key',
-  },
-];
+export const PROVIDER_LIST: ProviderInfo[] = PROVIDER_REGISTRY.map(toProviderInfo);
 
 export const DEFAULT_PROVIDER = 'Anthropic';
 
-export const providerBaseUrlEnvKeys: Record<string, { baseUrlKey?: string; apiTokenKey?: string }> = {};
+export const providerBaseUrlEnvKeys: Record<string, { baseUrlKey?: string; apiTokenKey?: string }> = Object.fromEntries(
+  PROVIDER_REGISTRY.map((provider) => [
+    provider.name,
+    { baseUrlKey: provider.baseUrlEnv, apiTokenKey: provider.apiKeyEnv },
+  ]),
+);
 
 // starter Templates
 
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  closeTab,
+  createEditorLayout,
+  getActivePane,
+  MAX_EDITOR_PANES,
+  moveTab,
+  openInPane,
+  pruneEditorLayout,
+  splitPane,
+} from './editorLayout';
+
+describe('editorLayout', () => {
+  it('splits a pane with its selected file and makes the new pane active', () => {
+    const layout = splitPane(createEditorLayout(['/a.ts', '/b.ts'], '/a.ts'), 'pane-1', 'vertical');
+
+    expect(layout.direction).toBe('vertical');
+    expect(layout.panes.map((pane) => pane.tabs)).toEqual([['/a.ts', '/b.ts'], ['/a.ts']]);
+    expect(getActivePane(layout)).toMatchObject({ id: 'pane-2', selectedFile: '/a.ts' });
+  });
+
+  it('opens the file in the next pane once the pane limit is reached', () => {
+    let layout = createEditorLayout(['/a.ts']);
+
+    for (let index = 1; index < MAX_EDITOR_PANES; index++) {
+      layout = splitPane(layout, getActivePane(layout).id, 'horizontal');
+    }
+
+    const full = splitPane(layout, 'pane-1', 'horizontal', '/b.ts');
+
+    expect(full.panes).toHaveLength(MAX_EDITOR_PANES);
+    expect(getActivePane(full)).toMatchObject({ id: 'pane-2', selectedFile: '/b.ts' });
+  });
+
+  it('moves a tab between panes and closes the pane it leaves empty', () => {
+    const split = splitPane(createEditorLayout(['/a.ts']), 'pane-1', 'horizontal', '/b.ts');
+    const moved = moveTab(split, 'pane-2', 'pane-1', '/b.ts', 0);
+
+    expect(moved.panes).toEqual([{ id: 'pane-1', tabs: ['/b.ts', '/a.ts'], selectedFile: '/b.ts', scroll: {} }]);
+    expect(moved.activePaneId).toBe('pane-1');
+  });
+
+  it('selects a neighbouring tab when the selected one is closed', () => {
+    const layout = openInPane(createEditorLayout(['/a.ts', '/b.ts', '/c.ts']), 'pane-1', '/b.ts');
+
+    expect(closeTab(layout, 'pane-1', '/b.ts').panes[0]).toMatchObject({
+      tabs: ['/a.ts', '/c.ts'],
+      selectedFile: '/c.ts',
+    });
+  });
+
+  it('drops tabs of files that no longer exist', () => {
+    const layout = splitPane(createEditorLayout(['/a.ts', '/gone.ts']), 'pane-1', 'horizontal', '/gone.ts');
+    const pruned = pruneEditorLayout(layout, (filePath) => filePath !== '/gone.ts');
+
+    expect(pruned.panes).toHaveLength(1);
+    expect(pruned.panes[0]).toMatchObject({ tabs: ['/a.ts'], selectedFile: '/a.ts' });
+    expect(pruned.activePaneId).toBe('pane-1');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Layout of the editor area: panes side by side, each with its own tabs,
+ * selected file and scroll positions. Panes are laid out in one direction;
+ * splitting the other way turns the whole row into a column and back.
+ *
+ * Every function returns a new layout and leaves the given one untouched, so
+ * the result can go straight into an atom.
+ */
+
+import type { ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export interface EditorPane {
+  id: string;
+  tabs: string[];
+  selectedFile?: string;
+
+  // Where each open file was scrolled to in this pane
+  scroll: Record<string, ScrollPosition>;
+}
+
+export interface EditorLayout {
+  direction: SplitDirection;
+  panes: EditorPane[];
+  activePaneId: string;
+}
+
+export const MAX_EDITOR_PANES = 4;
+
+function nextPaneId(layout: EditorLayout) {
+  const ids = new Set(layout.panes.map((pane) => pane.id));
+  let index = layout.panes.length + 1;
+
+  while (ids.has(`pane-${index}`)) {
+    index++;
+  }
+
+  return `pane-${index}`;
+}
+
+function updatePane(layout: EditorLayout, paneId: string, update: (pane: EditorPane) => EditorPane): EditorLayout {
+  return { ...layout, panes: layout.panes.map((pane) => (pane.id === paneId ? update(pane) : pane)) };
+}
+
+export function createEditorLayout(tabs: string[] = [], selectedFile?: string): EditorLayout {
+  return {
+    direction: 'horizontal',
+    panes: [{ id: 'pane-1', tabs, selectedFile: selectedFile ?? tabs.at(-1), scroll: {} }],
+    activePaneId: 'pane-1',
+  };
+}
+
+export function getActivePane(layout: EditorLayout): EditorPane {
+  return layout.panes.find((pane) => pane.id === layout.activePaneId) ?? layout.panes[0];
+}
+
+export function focusPane(layout: EditorLayout, paneId: string): EditorLayout {
+  if (layout.activePaneId === paneId || !layout.panes.some((pane) => pane.id === paneId)) {
+    return layout;
+  }
+
+  return { ...layout, activePaneId: paneId };
+}
+
+/** Show `filePath` in a pane, adding a tab for it if needed, and make that pane active. */
+export function openInPane(layout: EditorLayout, paneId: string, filePath: string): EditorLayout {
+  return focusPane(
+    updatePane(layout, paneId, (pane) => ({
+      ...pane,
+      tabs: pane.tabs.includes(filePath) ? pane.tabs : [...pane.tabs, filePath],
+      selectedFile: filePath,
+    })),
+    paneId,
+  );
+}
+
+/** Clear the selection of a pane without closing its tabs. */
+export function deselectInPane(layout: EditorLayout, paneId: string): EditorLayout {
+  return updatePane(layout, paneId, (pane) => ({ ...pane, selectedFile: undefined }));
+}
+
+/** Remove a pane; its neighbour becomes active if it was. The last pane is kept. */
+export function closePane(layout: EditorLayout, paneId: string): EditorLayout {
+  const index = layout.panes.findIndex((pane) => pane.id === paneId);
+
+  if (index === -1 || layout.panes.length === 1) {
+    return layout;
+  }
+
+  const panes = layout.panes.filter((pane) => pane.id !== paneId);
+  const activePaneId = layout.activePaneId === paneId ? panes[Math.max(0, index - 1)].id : layout.activePaneId;
+
+  return { ...layout, panes, activePaneId };
+}
+
+/** Close a tab; a pane left without tabs is closed too unless it is the only one. */
+export function closeTab(layout: EditorLayout, paneId: string, filePath: string): EditorLayout {
+  const pane = layout.panes.find((entry) => entry.id === paneId);
+
+  if (!pane?.tabs.includes(filePath)) {
+    return layout;
+  }
+
+  const index = pane.tabs.indexOf(filePath);
+  const tabs = pane.tabs.filter((tab) => tab !== filePath);
+
+  if (tabs.length === 0 && layout.panes.length > 1) {
+    return closePane(layout, paneId);
+  }
+
+  const scroll = Object.fromEntries(Object.entries(pane.scroll).filter(([path]) => path !== filePath));
+  const selectedFile = pane.selectedFile === filePath ? tabs[Math.min(index, tabs.length - 1)] : pane.selectedFile;
+
+  return updatePane(layout, paneId, () => ({ ...pane, tabs, selectedFile, scroll }));
+}
+
+/**
+ * Open `filePath` in a new pane next to `paneId`, laid out in `direction`.
+ * At `MAX_EDITOR_PANES` the file goes to the pane after `paneId` instead.
+ */
+export function splitPane(
+  layout: EditorLayout,
+  paneId: string,
+  direction: SplitDirection,
+  filePath?: string,
+): EditorLayout {
+  const index = layout.panes.findIndex((pane) => pane.id === paneId);
+  const file = filePath ?? layout.panes[index]?.selectedFile;
+
+  if (index === -1) {
+    return layout;
+  }
+
+  if (layout.panes.length >= MAX_EDITOR_PANES) {
+    const neighbour = layout.panes[(index + 1) % layout.panes.length];
+
+    return file ? openInPane(layout, neighbour.id, file) : focusPane(layout, neighbour.id);
+  }
+
+  const pane: EditorPane = { id: nextPaneId(layout), tabs: file ? [file] : [], selectedFile: file, scroll: {} };
+  const panes = [...layout.panes.slice(0, index + 1), pane, ...layout.panes.slice(index + 1)];
+
+  return { direction, panes, activePaneId: pane.id };
+}
+
+/** Move a tab to another pane, before the tab at `index` or at the end. */
+export function moveTab(
+  layout: EditorLayout,
+  fromPaneId: string,
+  toPaneId: string,
+  filePath: string,
+  index?: number,
+): EditorLayout {
+  const from = layout.panes.find((pane) => pane.id === fromPaneId);
+
+  if (!from?.tabs.includes(filePath) || !layout.panes.some((pane) => pane.id === toPaneId)) {
+    return layout;
+  }
+
+  const scroll = from.scroll[filePath];
+  const moved = fromPaneId === toPaneId ? layout : closeTab(layout, fromPaneId, filePath);
+
+  return focusPane(
+    updatePane(moved, toPaneId, (pane) => {
+      const tabs = pane.tabs.filter((tab) => tab !== filePath);
+      const position = index === undefined ? tabs.length : Math.min(Math.max(index, 0), tabs.length);
+
+      tabs.splice(position, 0, filePath);
+
+      return {
+        ...pane,
+        tabs,
+        selectedFile: filePath,
+        scroll: scroll ? { ...pane.scroll, [filePath]: scroll } : pane.scroll,
+      };
+    }),
+    toPaneId,
+  );
+}
+
+export function setPaneScroll(
+  layout: EditorLayout,
+  paneId: string,
+  filePath: string,
+  position: ScrollPosition,
+): EditorLayout {
+  return updatePane(layout, paneId, (pane) => ({ ...pane, scroll: { ...pane.scroll, [filePath]: position } }));
+}
+
+/** Drop tabs of files that no longer exist, and the panes left empty by it. */
+export function pruneEditorLayout(layout: EditorLayout, exists: (filePath: string) => boolean): EditorLayout {
+  let pruned = layout;
+
+  for (const pane of layout.panes) {
+    for (const tab of pane.tabs) {
+      if (!exists(tab)) {
+        pruned = closeTab(pruned, pane.id, tab);
+      }
+    }
+  }
+
+  return pruned;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expiredVersions,
+  MAX_VERSION_AGE_MS,
+  MAX_VERSIONS_PER_FILE,
+  planSnapshot,
+  SNAPSHOT_THROTTLE_MS,
+  type FileVersion,
+  type FileVersionSource,
+} from './fileHistory';
+
+function version(id: number, timestamp: number, content: string, source: FileVersionSource = 'user'): FileVersion {
+  return { id, workspaceId: 'default', path: '/home/project/a.ts', timestamp, content, source };
+}
+
+describe('planSnapshot', () => {
+  const now = 10 * SNAPSHOT_THROTTLE_MS;
+
+  it('skips content equal to the latest version', () => {
+    expect(planSnapshot([version(1, 0, 'a')], 'a', 'user', now)).toEqual({ action: 'skip' });
+  });
+
+  it('replaces a recent user save with the next user save', () => {
+    const versions = [version(1, 0, 'a', 'original'), version(2, now - 1000, 'b')];
+
+    expect(planSnapshot(versions, 'c', 'user', now)).toEqual({ action: 'replace', id: 2 });
+  });
+
+  it('appends AI writes and saves outside the throttle window', () => {
+    const versions = [version(1, now - SNAPSHOT_THROTTLE_MS - 1, 'a')];
+
+    expect(planSnapshot(versions, 'b', 'user', now)).toEqual({ action: 'append' });
+    expect(planSnapshot([version(1, now - 1000, 'a')], 'b', 'ai', now)).toEqual({ action: 'append' });
+  });
+});
+
+describe('expiredVersions', () => {
+  it('drops versions past the age and count limits but keeps the newest', () => {
+    const now = 2 * MAX_VERSION_AGE_MS;
+    const versions = Array.from({ length: MAX_VERSIONS_PER_FILE + 2 }, (_, index) =>
+      version(index + 1, now - 1000 + index, String(index)),
+    );
+    versions[2] = version(3, 0, 'old');
+
+    expect(expiredVersions(versions, now).sort((a, b) => a - b)).toEqual([1, 2, 3]);
+    expect(expiredVersions([version(1, 0, 'only')], now)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Rules of the local file history: when a save becomes a new version, when it
+ * replaces the previous one, and which versions are past retention.
+ */
+
+export type FileVersionSource = 'original' | 'user' | 'ai' | 'restore';
+
+export interface FileVersion {
+  // Assigned by IndexedDB
+  id?: number;
+  workspaceId: string;
+  path: string;
+  timestamp: number;
+  content: string;
+  source: FileVersionSource;
+}
+
+export type SnapshotPlan = { action: 'skip' } | { action: 'append' } | { action: 'replace'; id: number };
+
+// User saves of a file within this window collapse into one version
+export const SNAPSHOT_THROTTLE_MS = 60 * 1000;
+
+export const MAX_VERSIONS_PER_FILE = 50;
+export const MAX_VERSION_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Larger files are not worth keeping many copies of
+export const MAX_VERSION_LENGTH = 1024 * 1024;
+
+/** What to do with `content` saved at `now`, given the file's versions oldest first. */
+export function planSnapshot(
+  versions: FileVersion[],
+  content: string,
+  source: FileVersionSource,
+  now: number,
+): SnapshotPlan {
+  const latest = versions.at(-1);
+
+  if (content.length > MAX_VERSION_LENGTH || latest?.content === content) {
+    return { action: 'skip' };
+  }
+
+  if (
+    source === 'user' &&
+    latest?.source === 'user' &&
+    latest.id !== undefined &&
+    now - latest.timestamp < SNAPSHOT_THROTTLE_MS
+  ) {
+    return { action: 'replace', id: latest.id };
+  }
+
+  return { action: 'append' };
+}
+
+/** Ids of versions past the age or count limit; the newest version is always kept. */
+export function expiredVersions(versions: FileVersion[], now: number): number[] {
+  const expired = new Set<number>();
+  const older = versions.slice(0, -1);
+
+  for (const version of older) {
+    if (version.id !== undefined && now - version.timestamp > MAX_VERSION_AGE_MS) {
+      expired.add(version.id);
+    }
+  }
+
+  for (const version of versions.slice(0, Math.max(0, versions.length - MAX_VERSIONS_PER_FILE))) {
+    if (version.id !== undefined) {
+      expired.add(version.id);
+    }
+  }
+
+  return [...expired];
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { addLockedFile, addLockedFolder } from '~/lib/persistence/lockedFiles';
+import { findLockedPath } from './fileLocks';
+import { getShellWriteTargets } from './shellPolicy';
+
+const WORKDIR = '/home/project';
+
+describe('findLockedPath', () => {
+  addLockedFolder('chat-1', '/home/project/src/config');
+  addLockedFile('chat-1', '/home/project/README.md');
+
+  it('finds files that are locked directly or by a parent folder', () => {
+    expect(findLockedPath(['/home/project/src/app.ts', '/home/project/README.md'], 'chat-1')).toEqual({
+      path: '/home/project/README.md',
+      lockedBy: '/home/project/README.md',
+      isFolder: false,
+    });
+    expect(findLockedPath(['/home/project/src/config/db.ts'], 'chat-1')).toMatchObject({
+      lockedBy: '/home/project/src/config',
+      isFolder: true,
+    });
+    expect(findLockedPath(['/home/project/src/config/db.ts'], 'chat-2')).toBeUndefined();
+  });
+
+  it('treats folders containing locked items as locked', () => {
+    expect(findLockedPath(['/home/project/src'], 'chat-1')?.lockedBy).toBe('/home/project/src/config');
+    expect(findLockedPath(['/home/project/src/components'], 'chat-1')).toBeUndefined();
+  });
+});
+
+describe('shell commands', () => {
+  const lockedTarget = (command: string) => findLockedPath(getShellWriteTargets(command, WORKDIR), 'chat-1');
+
+  it('follows cd before checking what a command deletes or moves', () => {
+    expect(lockedTarget('cd src && rm -rf config')).toMatchObject({ path: '/home/project/src/config' });
+    expect(lockedTarget('cd src; mv config/db.ts db.ts')).toMatchObject({ lockedBy: '/home/project/src/config' });
+    expect(lockedTarget('cd lib && rm -rf config')).toBeUndefined();
+  });
+
+  it('checks redirects, copies and globs into locked paths', () => {
+    expect(lockedTarget('echo "# Docs" > README.md')).toMatchObject({ path: '/home/project/README.md' });
+    expect(lockedTarget('cat notes.md >> src/config/db.ts')).toMatchObject({ lockedBy: '/home/project/src/config' });
+    expect(lockedTarget('cp docs/README.md README.md')).toMatchObject({ path: '/home/project/README.md' });
+    expect(lockedTarget('rm -rf src/*')).toMatchObject({ path: '/home/project/src' });
+  });
+});
@@ -1,5 +1,6 @@
 import {
   getLockedItems,
+  getLockedItemsForChat,
   isFileLocked as isFileLockedInternal,
   isFolderLocked as isFolderLockedInternal,
   isPathInLockedFolder,
@@ -94,3 +95,70 @@ export function hasLockedItems(chatId?: string): boolean {
     return false;
   }
 }
+
+export interface LockedPathMatch {
+  // Path that was checked
+  path: string;
+
+  // Locked file or folder responsible
+  lockedBy: string;
+  isFolder: boolean;
+}
+
+/**
+ * Error for writes the action runner refused because they touch a locked path
+ */
+export class FileLockedError extends Error {
+  readonly match: LockedPathMatch;
+
+  constructor(match: LockedPathMatch, operation: string) {
+    const kind = match.isFolder ? 'folder' : 'file';
+    const reason =
+      match.lockedBy === match.path
+        ? ''
+        : match.lockedBy.startsWith(`${match.path}/`)
+          ? ` (contains locked ${kind} ${match.lockedBy})`
+          : ` (inside locked ${kind} ${match.lockedBy})`;
+
+    super(`Locked: cannot ${operation} ${match.path}${reason}`);
+
+    this.match = match;
+    this.name = 'FileLockedError';
+
+    Object.setPrototypeOf(this, FileLockedError.prototype);
+  }
+}
+
+/**
+ * Find the first path that is locked, inside a locked folder, or a folder that
+ * contains locked items (so deleting or moving it would touch them)
+ * @param paths Absolute paths to check
+ * @param chatId Optional chat ID (will be extracted from URL if not provided)
+ */
+export function findLockedPath(paths: string[], chatId?: string): LockedPathMatch | undefined {
+  const currentChatId = chatId || getCurrentChatId();
+  const lockedItems = getLockedItemsForChat(currentChatId);
+
+  if (lockedItems.length === 0) {
+    return undefined;
+  }
+
+  for (const path of paths) {
+    const fileLock = isFileLocked(path, currentChatId);
+    const lock = fileLock.locked ? fileLock : isFolderLocked(path, currentChatId);
+
+    if (lock.locked && lock.lockedBy) {
+      const lockedItem = lockedItems.find((item) => item.path === lock.lockedBy);
+
+      return { path, lockedBy: lock.lockedBy, isFolder: lockedItem?.isFolder ?? false };
+    }
+
+    const nested = lockedItems.find((item) => item.path.startsWith(`${path.replace(/\/+$/, '')}/`));
+
+    if (nested) {
+      return { path, lockedBy: nested.path, isFolder: nested.isFolder };
+    }
+  }
+
+  return undefined;
+}
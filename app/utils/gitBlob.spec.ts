@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { filesChangedSinceTree, gitBlobSha } from './gitBlob';
+
+describe('gitBlobSha', () => {
+  it('matches the ids git gives blobs', async () => {
+    expect(await gitBlobSha('hello\n')).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+    expect(await gitBlobSha('')).toBe('e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+  });
+});
+
+describe('filesChangedSinceTree', () => {
+  it('reports files that are new or differ from the pushed tree', async () => {
+    const tree = [
+      { path: 'README.md', type: 'blob', sha: 'ce013625030ba8dba906f756967f9e9ca394464a' },
+      { path: 'src/app.ts', type: 'blob', sha: 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391' },
+      { path: 'src', type: 'tree', sha: '0000000000000000000000000000000000000000' },
+    ];
+
+    expect(
+      await filesChangedSinceTree(
+        [
+          ['README.md', 'hello\n'],
+          ['src/app.ts', 'export {};\n'],
+          ['src/new.ts', ''],
+        ],
+        tree,
+      ),
+    ).toEqual(['src/app.ts', 'src/new.ts']);
+  });
+});
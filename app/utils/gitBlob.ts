@@ -0,0 +1,40 @@
+/**
+ * Git object ids computed in the browser, so local files can be compared with
+ * a remote tree without downloading its blobs.
+ */
+
+const encoder = new TextEncoder();
+
+export interface GitTreeEntry {
+  path?: string;
+  type?: string;
+  sha?: string | null;
+}
+
+/** Id git gives a blob of `content`: SHA-1 over a `blob <size>\0` header and the bytes. */
+export async function gitBlobSha(content: string): Promise<string> {
+  const body = encoder.encode(content);
+  const header = encoder.encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+
+  data.set(header);
+  data.set(body, header.length);
+
+  const digest = await crypto.subtle.digest('SHA-1', data);
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Paths of `files` that are missing from `tree` or differ from the blob there. */
+export async function filesChangedSinceTree(files: Array<[string, string]>, tree: GitTreeEntry[]): Promise<string[]> {
+  const pushed = new Map(tree.filter((entry) => entry.type === 'blob').map((entry) => [entry.path, entry.sha]));
+  const changed: string[] = [];
+
+  for (const [path, content] of files) {
+    if (pushed.get(path) !== (await gitBlobSha(content))) {
+      changed.push(path);
+    }
+  }
+
+  return changed;
+}
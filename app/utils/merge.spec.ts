@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mergeThreeWay, PendingMerges, resolveMerge } from './merge';
+
+const base = [
+  'import a;',
+  '',
+  'function one() {',
+  '  return 1;',
+  '}',
+  '',
+  'function two() {',
+  '  return 2;',
+  '}',
+  '',
+].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('merges edits of different hunks without conflicts', () => {
+    const user = base.replace('return 1;', 'return 10;');
+    const ai = base.replace('return 2;', 'return 20;');
+    const { chunks, conflicts } = mergeThreeWay(base, user, ai);
+
+    expect(conflicts).toBe(0);
+    expect(resolveMerge(chunks)).toBe(base.replace('return 1;', 'return 10;').replace('return 2;', 'return 20;'));
+  });
+
+  it('takes identical edits of both sides once', () => {
+    const edited = base.replace('import a;', 'import b;');
+    const { chunks, conflicts } = mergeThreeWay(base, edited, edited);
+
+    expect(conflicts).toBe(0);
+    expect(resolveMerge(chunks)).toBe(edited);
+  });
+
+  it('reports overlapping edits as conflicts settled per hunk', () => {
+    const user = base.replace('return 1;', 'return "user";').replace('import a;', 'import user;');
+    const ai = base.replace('return 1;', 'return "ai";').replace('return 2;', 'return 22;');
+    const { chunks, conflicts } = mergeThreeWay(base, user, ai);
+    const conflictIndex = chunks.findIndex((chunk) => chunk.type === 'conflict');
+
+    expect(conflicts).toBe(1);
+    expect(chunks[conflictIndex]).toMatchObject({
+      base: ['  return 1;\n'],
+      user: ['  return "user";\n'],
+      ai: ['  return "ai";\n'],
+    });
+
+    const merged = resolveMerge(chunks, { [conflictIndex]: 'ai' });
+
+    expect(merged).toContain('import user;');
+    expect(merged).toContain('return "ai";');
+    expect(merged).toContain('return 22;');
+    expect(resolveMerge(chunks, { [conflictIndex]: 'both' })).toContain('  return "user";\n  return "ai";\n');
+  });
+});
+
+describe('PendingMerges', () => {
+  it('keeps the base of the first callback and reads the user edits when the action completes', () => {
+    const pending = new PendingMerges();
+
+    expect(pending.follow('write', true, () => ({ value: 'edit 1', saved: 'base' }))).toBe('pending');
+    expect(pending.follow('write', true, () => ({ value: 'edit 2', saved: 'partial ai' }))).toBe('pending');
+    expect(pending.follow('write', false, () => ({ value: 'edit 3', saved: 'partial ai' }))).toEqual({
+      base: 'base',
+      user: 'edit 3',
+    });
+  });
+
+  it('leaves actions over documents without unsaved edits alone', () => {
+    const pending = new PendingMerges();
+
+    expect(pending.follow('write', true, () => ({ value: 'saved' }))).toBeUndefined();
+    expect(pending.follow('write', false, () => ({ value: 'saved' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Line-based three-way merge of two edits of the same file, in the spirit of
+ * diff3: the user and the AI versions are both diffed against the common
+ * base, edits of one side that no edit of the other side touches are taken as
+ * they are, and overlapping or adjacent edits become conflicts unless both
+ * sides made the same change.
+ */
+
+import { diffArrays } from 'diff';
+
+export type MergeSide = 'user' | 'ai';
+
+// How a conflict was settled; `both` keeps the user lines followed by the AI lines
+export type MergeChoice = MergeSide | 'both';
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'resolved'; side: MergeSide | 'both'; base: string[]; lines: string[] }
+  | { type: 'conflict'; base: string[]; user: string[]; ai: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+interface Edit {
+  // Lines of the base replaced by `lines`, end exclusive
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Split text into lines that keep their line endings, so joining them gives the text back. */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function editsFrom(base: string[], other: string[]): Edit[] {
+  const edits: Edit[] = [];
+  let index = 0;
+  let current: Edit | undefined;
+
+  for (const change of diffArrays(base, other)) {
+    if (!change.added && !change.removed) {
+      if (current) {
+        edits.push(current);
+        current = undefined;
+      }
+
+      index += change.value.length;
+      continue;
+    }
+
+    current ??= { start: index, end: index, lines: [] };
+
+    if (change.removed) {
+      current.end += change.value.length;
+      index += change.value.length;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+
+  if (current) {
+    edits.push(current);
+  }
+
+  return edits;
+}
+
+function applyEdits(base: string[], start: number, end: number, edits: Edit[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+
+  for (const edit of edits) {
+    lines.push(...base.slice(position, edit.start), ...edit.lines);
+    position = edit.end;
+  }
+
+  lines.push(...base.slice(position, end));
+
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** Merge the `user` and `ai` edits of `base`. */
+export function mergeThreeWay(base: string, user: string, ai: string): MergeResult {
+  const baseLines = splitLines(base);
+  const userEdits = editsFrom(baseLines, splitLines(user));
+  const aiEdits = editsFrom(baseLines, splitLines(ai));
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let userIndex = 0;
+  let aiIndex = 0;
+
+  while (userIndex < userEdits.length || aiIndex < aiEdits.length) {
+    const nextUser = userEdits[userIndex];
+    const nextAi = aiEdits[aiIndex];
+    const first = !nextAi || (nextUser && nextUser.start <= nextAi.start) ? nextUser : nextAi;
+
+    const start = first.start;
+    let end = first.end;
+    const userGroup: Edit[] = [];
+    const aiGroup: Edit[] = [];
+
+    // Grow the region while an edit of either side starts inside it or right at its end
+    for (;;) {
+      if (userIndex < userEdits.length && userEdits[userIndex].start <= end) {
+        end = Math.max(end, userEdits[userIndex].end);
+        userGroup.push(userEdits[userIndex++]);
+      } else if (aiIndex < aiEdits.length && aiEdits[aiIndex].start <= end) {
+        end = Math.max(end, aiEdits[aiIndex].end);
+        aiGroup.push(aiEdits[aiIndex++]);
+      } else {
+        break;
+      }
+    }
+
+    if (position < start) {
+      chunks.push({ type: 'stable', lines: baseLines.slice(position, start) });
+    }
+
+    const baseRegion = baseLines.slice(start, end);
+    const userLines = applyEdits(baseLines, start, end, userGroup);
+    const aiLines = applyEdits(baseLines, start, end, aiGroup);
+
+    if (aiGroup.length === 0) {
+      chunks.push({ type: 'resolved', side: 'user', base: baseRegion, lines: userLines });
+    } else if (userGroup.length === 0) {
+      chunks.push({ type: 'resolved', side: 'ai', base: baseRegion, lines: aiLines });
+    } else if (sameLines(userLines, aiLines)) {
+      chunks.push({ type: 'resolved', side: 'both', base: baseRegion, lines: userLines });
+    } else {
+      chunks.push({ type: 'conflict', base: baseRegion, user: userLines, ai: aiLines });
+      conflicts++;
+    }
+
+    position = end;
+  }
+
+  if (position < baseLines.length) {
+    chunks.push({ type: 'stable', lines: baseLines.slice(position) });
+  }
+
+  return { chunks, conflicts };
+}
+
+/**
+ * Content of a merge, settling the conflict at chunk index `i` with
+ * `choices[i]` and the conflicts without a choice with `fallback`.
+ */
+export function resolveMerge(
+  chunks: MergeChunk[],
+  choices: Record<number, MergeChoice> = {},
+  fallback: MergeChoice = 'user',
+): string {
+  return chunks
+    .map((chunk, index) => {
+      if (chunk.type !== 'conflict') {
+        return chunk.lines.join('');
+      }
+
+      const choice = choices[index] ?? fallback;
+
+      if (choice === 'both') {
+        return chunk.user.join('') + chunk.ai.join('');
+      }
+
+      return chunk[choice].join('');
+    })
+    .join('');
+}
+
+export interface MergeSides {
+  base: string;
+  user: string;
+}
+
+/**
+ * File actions written over a document with unsaved edits. The base is the
+ * saved content when an action first shows up; the user side is read when the
+ * action is complete, so edits made while the AI streamed are merged too.
+ */
+export class PendingMerges {
+  #bases = new Map<string, string>();
+
+  /**
+   * Follow a callback of action `actionId`. `read` gives the document content
+   * and, while it has unsaved edits, the saved content. Returns `undefined`
+   * when the action is written as is, `pending` until it is complete and the
+   * sides to merge once it is.
+   */
+  follow(
+    actionId: string,
+    isStreaming: boolean,
+    read: () => { value: string; saved?: string },
+  ): MergeSides | 'pending' | undefined {
+    if (!this.#bases.has(actionId)) {
+      const { saved } = read();
+
+      if (saved === undefined) {
+        return undefined;
+      }
+
+      this.#bases.set(actionId, saved);
+    }
+
+    if (isStreaming) {
+      return 'pending';
+    }
+
+    const base = this.#bases.get(actionId) as string;
+
+    this.#bases.delete(actionId);
+
+    return { base, user: read().value };
+  }
+
+  clear() {
+    this.#bases.clear();
+  }
+}
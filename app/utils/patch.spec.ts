@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, formatHunkHeader, PatchApplyError } from './patch';
+
+const source = ['import { a } from "./a";', '', 'export function sum(x, y) {', '  return x + y;', '}', ''].join('\n');
+
+describe('applyPatch', () => {
+  it('applies unified diff hunks that moved and whose context differs in whitespace', () => {
+    const patch = [
+      '--- a/sum.js',
+      '+++ b/sum.js',
+      '@@ -10,3 +10,3 @@',
+      ' export function sum(x,  y) {',
+      '-  return x + y;',
+      '+  return Number(x) + Number(y);',
+      ' }',
+    ].join('\n');
+
+    const result = applyPatch(source, patch);
+
+    expect(result.content).toBe(source.replace('x + y', 'Number(x) + Number(y)'));
+    expect(result.hunks).toHaveLength(1);
+    expect(result.hunks[0]).toMatchObject({ oldStart: 3, offset: -7, fuzz: 0, ignoredWhitespace: true });
+    expect(formatHunkHeader(result.hunks[0])).toBe('@@ -3,3 +3,3 @@');
+  });
+
+  it('drops mismatching context lines up to the fuzz factor', () => {
+    const patch = [
+      '@@ -3,3 +3,3 @@',
+      ' export function total(x, y) {',
+      '-  return x + y;',
+      '+  return y + x;',
+      ' }',
+    ].join('\n');
+
+    expect(applyPatch(source, patch).content).toContain('return y + x;');
+    expect(applyPatch(source, patch).hunks[0].fuzz).toBe(1);
+    expect(() => applyPatch(source, patch, { fuzz: 0 })).toThrow(PatchApplyError);
+  });
+
+  it('applies search/replace blocks and keeps CRLF line endings', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      '  return x + y;',
+      '=======',
+      '  const total = x + y;',
+      '  return total;',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    const result = applyPatch(source.replace(/\n/g, '\r\n'), patch);
+
+    expect(result.content).toBe(
+      source.replace('  return x + y;', '  const total = x + y;\n  return total;').replace(/\n/g, '\r\n'),
+    );
+  });
+
+  it('reports which hunk does not apply', () => {
+    const patch = ['<<<<<<< SEARCH', '  return x * y;', '=======', '  return 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyPatch(source, patch)).toThrow(/Hunk 1 of 1 does not apply/);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Parsing and applying `patch` actions. Two formats are accepted:
+ *
+ * - unified diffs (`@@ -12,4 +12,6 @@` hunks, file headers optional)
+ * - search/replace blocks (`<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE`)
+ *
+ * Hunks are applied against the current file content with some tolerance:
+ * they may have moved, their context may differ in whitespace, and up to
+ * `fuzz` context lines at either end may not match, like GNU patch.
+ */
+
+export type PatchLineType = 'context' | 'added' | 'removed';
+
+export interface PatchLine {
+  type: PatchLineType;
+  content: string;
+}
+
+export interface PatchHunk {
+  // 1-based line the hunk expects to start at; unknown for search/replace blocks
+  oldStart?: number;
+  lines: PatchLine[];
+}
+
+export interface AppliedHunk {
+  // 1-based lines in the original and the patched content
+  oldStart: number;
+  newStart: number;
+
+  // Context lines are taken from the file, so they reflect what actually matched
+  lines: PatchLine[];
+
+  // Lines between where the hunk said it applies and where it did
+  offset: number;
+
+  // Context lines ignored at each end
+  fuzz: number;
+  ignoredWhitespace: boolean;
+}
+
+export interface PatchResult {
+  content: string;
+  hunks: AppliedHunk[];
+}
+
+export interface ApplyPatchOptions {
+  fuzz?: number;
+}
+
+export class PatchApplyError extends Error {
+  readonly hunkIndex?: number;
+
+  constructor(message: string, hunkIndex?: number) {
+    super(message);
+    this.hunkIndex = hunkIndex;
+    this.name = 'PatchApplyError';
+
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+  }
+}
+
+const DEFAULT_FUZZ = 2;
+
+const SEARCH_REPLACE_REGEX = /^<{7} SEARCH[^\n]*\n([\s\S]*?)^={7}[^\n]*\n([\s\S]*?)^>{7} REPLACE[^\n]*$/gm;
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+export function isSearchReplacePatch(patch: string) {
+  return /^<{7} SEARCH/m.test(patch);
+}
+
+export function parsePatch(patch: string): PatchHunk[] {
+  const normalized = patch.replace(/\r\n/g, '\n');
+
+  if (isSearchReplacePatch(normalized)) {
+    return parseSearchReplace(normalized);
+  }
+
+  if (/^@@/m.test(normalized)) {
+    return parseUnifiedDiff(normalized);
+  }
+
+  throw new PatchApplyError('Unrecognized patch format: expected a unified diff or SEARCH/REPLACE blocks');
+}
+
+/**
+ * Apply a patch to `original`. Hunks are applied in order; the first one that
+ * cannot be placed aborts the whole patch with a `PatchApplyError`.
+ */
+export function applyPatch(original: string, patch: string, options: ApplyPatchOptions = {}): PatchResult {
+  const hunks = parsePatch(patch);
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('Patch contains no hunks');
+  }
+
+  const maxFuzz = options.fuzz ?? DEFAULT_FUZZ;
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const hasFinalNewline = original === '' || original.endsWith('\n');
+  const lines = original === '' ? [] : original.replace(/\r?\n$/, '').split(/\r?\n/);
+  const applied: AppliedHunk[] = [];
+
+  // Difference between original and patched line numbers so far
+  let delta = 0;
+
+  // Unified hunks must come in file order; search/replace blocks may not
+  let searchFrom = 0;
+
+  hunks.forEach((hunk, index) => {
+    const insertOnly = hunk.lines.every((line) => line.type === 'added');
+
+    if (hunk.oldStart === undefined && insertOnly && lines.length > 0) {
+      throw new PatchApplyError(
+        `Hunk ${index + 1} has nothing to search for, so it only applies to an empty file`,
+        index,
+      );
+    }
+
+    // `@@ -5,0 +6,2 @@` inserts after line 5, every other hunk starts at its line
+    const expected =
+      hunk.oldStart === undefined ? searchFrom : Math.max(0, (insertOnly ? hunk.oldStart : hunk.oldStart - 1) + delta);
+    const match = locateHunk(lines, hunk, expected, hunk.oldStart !== undefined ? searchFrom : 0, maxFuzz);
+
+    if (!match) {
+      throw new PatchApplyError(describeFailure(hunk, index, hunks.length, expected), index);
+    }
+
+    const { start, fuzz, ignoredWhitespace, body } = match;
+    const oldLength = body.filter((line) => line.type !== 'added').length;
+    let cursor = start;
+
+    // Keep the file's own text for lines that matched loosely
+    const resolved = body.map((line) => (line.type === 'added' ? line : { ...line, content: lines[cursor++] }));
+    const replacement = resolved.filter((line) => line.type !== 'removed').map((line) => line.content);
+
+    lines.splice(start, oldLength, ...replacement);
+
+    applied.push({
+      oldStart: start - delta + 1,
+      newStart: start + 1,
+      lines: resolved,
+      offset: hunk.oldStart !== undefined ? start - match.expected : 0,
+      fuzz,
+      ignoredWhitespace,
+    });
+
+    delta += replacement.length - oldLength;
+    searchFrom = start + replacement.length;
+  });
+
+  const content = lines.join(eol);
+
+  return { content: hasFinalNewline && content !== '' ? content + eol : content, hunks: applied };
+}
+
+/** `@@ -12,3 +12,4 @@` style header for an applied hunk. */
+export function formatHunkHeader(hunk: AppliedHunk) {
+  const oldLength = hunk.lines.filter((line) => line.type !== 'added').length;
+  const newLength = hunk.lines.filter((line) => line.type !== 'removed').length;
+
+  return `@@ -${hunk.oldStart},${oldLength} +${hunk.newStart},${newLength} @@`;
+}
+
+function parseSearchReplace(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+
+  for (const [, search, replace] of patch.matchAll(SEARCH_REPLACE_REGEX)) {
+    hunks.push({
+      lines: [
+        ...blockLines(search).map((content) => ({ type: 'removed' as const, content })),
+        ...blockLines(replace).map((content) => ({ type: 'added' as const, content })),
+      ],
+    });
+  }
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('Malformed SEARCH/REPLACE block: expected "=======" and ">>>>>>> REPLACE" markers');
+  }
+
+  return hunks;
+}
+
+function parseUnifiedDiff(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const rows = patch.split('\n');
+  let current: PatchHunk | undefined;
+
+  rows.forEach((row, index) => {
+    if (row.startsWith('@@')) {
+      const header = row.match(HUNK_HEADER_REGEX);
+
+      // Hunks without line numbers (`@@ ... @@`) are located by their content
+      current = { oldStart: header ? Number(header[1]) : undefined, lines: [] };
+      hunks.push(current);
+
+      return;
+    }
+
+    // File headers between hunks
+    if (row.startsWith('--- ') && rows[index + 1]?.startsWith('+++ ')) {
+      current = undefined;
+      return;
+    }
+
+    if (!current || row.startsWith('\\')) {
+      return;
+    }
+
+    if (row.startsWith('+')) {
+      current.lines.push({ type: 'added', content: row.slice(1) });
+    } else if (row.startsWith('-')) {
+      current.lines.push({ type: 'removed', content: row.slice(1) });
+    } else {
+      // Models often drop the leading space of context lines, so unprefixed rows count as context too
+      current.lines.push({ type: 'context', content: row.startsWith(' ') ? row.slice(1) : row });
+    }
+  });
+
+  for (const hunk of hunks) {
+    // Blank rows between hunks and at the end of the patch are not context
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].type === 'context') {
+      const last = hunk.lines[hunk.lines.length - 1];
+
+      if (last.content.trim() !== '') {
+        break;
+      }
+
+      hunk.lines.pop();
+    }
+  }
+
+  return hunks.filter((hunk) => hunk.lines.some((line) => line.type !== 'context'));
+}
+
+function blockLines(block: string) {
+  return block === '' ? [] : block.replace(/\n$/, '').split('\n');
+}
+
+interface HunkMatch {
+  start: number;
+
+  // Where the matched part of the hunk was expected, after dropping context lines
+  expected: number;
+  fuzz: number;
+  ignoredWhitespace: boolean;
+  body: PatchLine[];
+}
+
+/**
+ * Position of a hunk in `lines`, closest to `expected`. Exact matches are
+ * tried first, then matches ignoring whitespace, then the same again with
+ * one more context line dropped from each end, up to `maxFuzz`.
+ */
+function locateHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  expected: number,
+  searchFrom: number,
+  maxFuzz: number,
+): HunkMatch | null {
+  const leadingContext = hunk.lines.findIndex((line) => line.type !== 'context');
+  const trailingContext = hunk.lines.length - 1 - findLastIndex(hunk.lines, (line) => line.type !== 'context');
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    if (fuzz > 0 && fuzz > leadingContext && fuzz > trailingContext) {
+      break;
+    }
+
+    const dropped = Math.min(fuzz, leadingContext);
+    const body = hunk.lines.slice(dropped, hunk.lines.length - Math.min(fuzz, trailingContext));
+    const old = body.filter((line) => line.type !== 'added').map((line) => line.content);
+    const bodyExpected = expected + dropped;
+
+    // Pure insertions go where the hunk says
+    if (old.length === 0) {
+      return bodyExpected <= lines.length
+        ? { start: bodyExpected, expected: bodyExpected, fuzz, ignoredWhitespace: false, body }
+        : null;
+    }
+
+    for (const ignoredWhitespace of [false, true]) {
+      const start = closestMatch(lines, old, bodyExpected, searchFrom, ignoredWhitespace);
+
+      if (start !== -1) {
+        return { start, expected: bodyExpected, fuzz, ignoredWhitespace, body };
+      }
+    }
+  }
+
+  return null;
+}
+
+function closestMatch(lines: string[], old: string[], expected: number, searchFrom: number, loose: boolean) {
+  const normalize = loose ? (line: string) => line.replace(/\s+/g, ' ').trim() : (line: string) => line;
+  const wanted = old.map(normalize);
+  let best = -1;
+
+  for (let start = searchFrom; start <= lines.length - wanted.length; start++) {
+    if (best !== -1 && Math.abs(start - expected) >= Math.abs(best - expected)) {
+      // Candidates only get further away from here on
+      if (start > expected) {
+        break;
+      }
+
+      continue;
+    }
+
+    if (wanted.every((line, i) => normalize(lines[start + i]) === line)) {
+      best = start;
+    }
+  }
+
+  return best;
+}
+
+function describeFailure(hunk: PatchHunk, index: number, total: number, expected: number) {
+  const old = hunk.lines.filter((line) => line.type !== 'added');
+  const excerpt = old
+    .slice(0, 3)
+    .map((line) => `  ${line.content}`)
+    .join('\n');
+  const where = hunk.oldStart !== undefined ? ` near line ${expected + 1}` : '';
+
+  return `Hunk ${index + 1} of ${total} does not apply: the lines it changes were not found${where}.\n${excerpt}`;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean) {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) {
+      return i;
+    }
+  }
+
+  return -1;
+}
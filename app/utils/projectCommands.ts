@@ -1,5 +1,6 @@
 import type { Message } from 'ai';
 import { generateId } from './fileUtils';
+import type { TestReportFormat } from './testResults';
 
 export interface ProjectCommands {
   type: string;
@@ -8,6 +9,29 @@ export interface ProjectCommands {
   followupMessage: string;
 }
 
+export interface TestCommand {
+  runner: 'vitest' | 'jest' | 'mocha' | 'pytest' | 'go';
+  command: string;
+  format: TestReportFormat;
+
+  // Report written by the runner, relative to the project; the command output is the report otherwise
+  reportPath?: string;
+}
+
+// Files the test runner detection looks at, relative to the project
+export const TEST_CONFIG_FILES = [
+  'package.json',
+  'go.mod',
+  'pytest.ini',
+  'conftest.py',
+  'pyproject.toml',
+  'setup.cfg',
+  'requirements.txt',
+  'requirements-dev.txt',
+];
+
+const NODE_REPORT_DIR = 'node_modules/.cache/mindvex';
+
 interface FileContent {
   content: string;
   path: string;
@@ -107,6 +131,80 @@ export async function detectProjectCommands(files: FileContent[]): Promise<Proje
   return { type: '', setupCommand: '', followupMessage: '' };
 }
 
+/**
+ * Test command for the project's runner, with a machine-readable reporter.
+ * `args` (e.g. a test file) are passed on to the runner.
+ */
+export async function detectTestCommand(files: FileContent[], args = ''): Promise<TestCommand | null> {
+  const hasFile = (name: string) => files.some((f) => f.path.endsWith(name));
+  const hasFileContent = (name: string, content: string) =>
+    files.some((f) => f.path.endsWith(name) && f.content.includes(content));
+  const withArgs = (command: string) => (args.trim() ? `${command} ${args.trim()}` : command);
+
+  const packageJsonFile = files.find((f) => f.path.endsWith('package.json'));
+
+  if (packageJsonFile) {
+    try {
+      const packageJson = JSON.parse(packageJsonFile.content);
+      const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+      const testScript: string = packageJson?.scripts?.test ?? '';
+      const uses = (name: string) => name in dependencies || testScript.includes(name);
+
+      if (uses('vitest')) {
+        const reportPath = `${NODE_REPORT_DIR}/test-results.xml`;
+
+        return {
+          runner: 'vitest',
+          command: withArgs(`npx vitest run --reporter=default --reporter=junit --outputFile.junit=${reportPath}`),
+          format: 'junit',
+          reportPath,
+        };
+      }
+
+      if (uses('jest')) {
+        const reportPath = `${NODE_REPORT_DIR}/test-results.json`;
+
+        return {
+          runner: 'jest',
+          command: withArgs(`npx jest --ci --json --outputFile=${reportPath}`),
+          format: 'jest-json',
+          reportPath,
+        };
+      }
+
+      if (uses('mocha')) {
+        return { runner: 'mocha', command: withArgs('npx mocha --reporter tap'), format: 'tap' };
+      }
+    } catch (error) {
+      console.error('Error parsing package.json:', error);
+    }
+  }
+
+  if (hasFile('go.mod')) {
+    return { runner: 'go', command: `go test -json ${args.trim() || './...'}`, format: 'go-json' };
+  }
+
+  if (
+    hasFile('pytest.ini') ||
+    hasFile('conftest.py') ||
+    hasFileContent('pyproject.toml', 'pytest') ||
+    hasFileContent('setup.cfg', 'pytest') ||
+    hasFileContent('requirements.txt', 'pytest') ||
+    hasFileContent('requirements-dev.txt', 'pytest')
+  ) {
+    const reportPath = '.pytest_cache/mindvex-results.xml';
+
+    return {
+      runner: 'pytest',
+      command: withArgs(`python -m pytest --junitxml=${reportPath}`),
+      format: 'junit',
+      reportPath,
+    };
+  }
+
+  return null;
+}
+
 export function createCommandsMessage(commands: ProjectCommands): Message | null {
   if (!commands.setupCommand && !commands.startCommand) {
     return null;
@@ -102,6 +102,7 @@ export class MindvexShell {
   >();
   #outputStream: ReadableStreamDefaultReader<string> | undefined;
   #shellInputStream: WritableStreamDefaultWriter<string> | undefined;
+  #outputListeners = new Set<(output: string) => void>();
 
   constructor() {
     this.#readyPromise = new Promise((resolve) => {
@@ -215,6 +216,20 @@ export class MindvexShell {
     return this.#process;
   }
 
+  /** Follow the output of the commands the shell runs. Returns a function to stop listening. */
+  onOutput(listener: (output: string) => void) {
+    this.#outputListeners.add(listener);
+
+    return () => {
+      this.#outputListeners.delete(listener);
+    };
+  }
+
+  /** Interrupt the running command, like Ctrl+C in the terminal. */
+  interrupt() {
+    this.terminal?.input('\x03');
+  }
+
   async executeCommand(sessionId: string, command: string, abort?: () => void): Promise<ExecutionResult> {
     if (!this.process || !this.terminal) {
       return undefined;
@@ -288,6 +303,7 @@ export class MindvexShell {
 
       const text = value || '';
       fullOutput += text;
+      this.#outputListeners.forEach((listener) => listener(text));
       buffer += text; // <-- Accumulate in buffer
 
       // Extract Expo URL from buffer and set store
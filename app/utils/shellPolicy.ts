@@ -0,0 +1,297 @@
+import { path } from '~/utils/path';
+
+/**
+ * Policy for shell commands issued by the assistant. Each command is split
+ * into the parts of its `&&`, `||` and `;` chain, every part is matched
+ * against the rules, and the most restrictive decision wins. Project rules
+ * are checked before global ones.
+ */
+
+export type ShellPolicyDecision = 'allow' | 'deny' | 'ask';
+
+export interface ShellPolicyRule {
+  /*
+   * Command prefix: words match literally and `*` matches anything, except
+   * that a `*` standing alone between words only matches whole words, so
+   * `git push * -f` leaves `git push origin fix-f` alone. `\*` and `\\`
+   * stand for a literal star and backslash. Further arguments after the
+   * pattern are always accepted, so `npm publish` matches
+   * `npm publish --access public`. `rm` options are compared after sorting
+   * them into one group, so `rm -rf` also matches `rm -r -f` and `rm -Rf`.
+   */
+  pattern: string;
+  decision: ShellPolicyDecision;
+}
+
+export interface ShellPolicy {
+  rules: ShellPolicyRule[];
+
+  // Commands no rule matches
+  defaultDecision: ShellPolicyDecision;
+
+  // Commands that write, move or delete files outside the project directory
+  outsideWorkdir: ShellPolicyDecision;
+}
+
+// Decisions left out fall back to the global policy
+export type ProjectShellPolicy = Partial<ShellPolicy>;
+
+export interface ShellPolicyEvaluation {
+  decision: ShellPolicyDecision;
+  reason: string;
+
+  // Absent for default decisions and writes outside the project
+  rule?: ShellPolicyRule;
+  scope: 'project' | 'global';
+}
+
+export const DEFAULT_SHELL_POLICY: ShellPolicy = {
+  defaultDecision: 'allow',
+  outsideWorkdir: 'ask',
+  rules: [
+    { pattern: 'rm -rf /', decision: 'deny' },
+    { pattern: 'rm -rf /\\*', decision: 'deny' },
+    { pattern: 'rm *--no-preserve-root', decision: 'deny' },
+    { pattern: 'rm -rf ~', decision: 'deny' },
+    { pattern: 'curl *| sh', decision: 'ask' },
+    { pattern: 'curl *| bash', decision: 'ask' },
+    { pattern: 'wget *| sh', decision: 'ask' },
+    { pattern: 'wget *| bash', decision: 'ask' },
+    { pattern: 'npm publish', decision: 'ask' },
+    { pattern: 'pnpm publish', decision: 'ask' },
+    { pattern: 'yarn publish', decision: 'ask' },
+    { pattern: 'git push * --force', decision: 'ask' },
+    { pattern: 'git push * -f', decision: 'ask' },
+  ],
+};
+
+export class ShellCommandBlockedError extends Error {
+  readonly command: string;
+  readonly evaluation: ShellPolicyEvaluation;
+
+  // True when the policy asked and the user said no
+  readonly rejected: boolean;
+
+  constructor(command: string, evaluation: ShellPolicyEvaluation, rejected = false) {
+    super(
+      `${rejected ? 'Command not approved' : 'Command blocked by shell policy'}: ${command} (${evaluation.reason})`,
+    );
+    this.rejected = rejected;
+    this.command = command;
+    this.evaluation = evaluation;
+    this.name = 'ShellCommandBlockedError';
+
+    Object.setPrototypeOf(this, ShellCommandBlockedError.prototype);
+  }
+}
+
+const DECISION_RANK: Record<ShellPolicyDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+// Commands whose operands are written, moved or deleted; for `cp` and `ln` only the last one
+const WRITING_COMMANDS = new Set(['rm', 'rmdir', 'mv', 'touch', 'mkdir', 'tee', 'truncate']);
+const COPYING_COMMANDS = new Set(['cp', 'ln']);
+
+export function evaluateShellCommand(
+  command: string,
+  policies: { global: ShellPolicy; project?: ProjectShellPolicy },
+  workdir: string,
+): ShellPolicyEvaluation {
+  const { global, project } = policies;
+  const evaluations = splitShellCommand(command).map((part) => evaluatePart(part, global, project));
+  const outside = getShellWriteTargets(command, workdir).filter((target) => !isInside(target, workdir));
+
+  if (outside.length > 0) {
+    evaluations.push({
+      decision: project?.outsideWorkdir ?? global.outsideWorkdir,
+      reason: `Writes outside ${workdir}: ${outside.join(', ')}`,
+      scope: project?.outsideWorkdir ? 'project' : 'global',
+    });
+  }
+
+  if (evaluations.length === 0) {
+    return evaluatePart('', global, project);
+  }
+
+  return evaluations.reduce((strictest, evaluation) =>
+    DECISION_RANK[evaluation.decision] > DECISION_RANK[strictest.decision] ? evaluation : strictest,
+  );
+}
+
+export function matchesShellPattern(command: string, pattern: string): boolean {
+  const tokens = normalizeRmOptions(pattern.trim().split(/\s+/))
+    .join(' ')
+    .split(/(\s+|\\[\\*]|\*|\|)/)
+    .filter(Boolean);
+  const isSpace = (index: number) => /^\s+$/.test(tokens[index] ?? '');
+  const isWordWildcard = (index: number) => tokens[index] === '*' && isSpace(index - 1) && isSpace(index + 1);
+
+  const source = tokens
+    .map((token, index) => {
+      if (token === '*') {
+        return isWordWildcard(index) ? '(?:\\s+.*)?' : '.*';
+      }
+
+      if (token === '\\*' || token === '\\\\') {
+        return `\\${token[1]}`;
+      }
+
+      if (isSpace(index)) {
+        const neighbours = [tokens[index - 1], tokens[index + 1]];
+
+        // The space before a word wildcard is part of it; the one after it is required
+        if (isWordWildcard(index + 1)) {
+          return '';
+        }
+
+        // Other spaces next to wildcards and pipes are optional: `curl x|sh` matches `curl *| sh`
+        if (neighbours.includes('|') || (neighbours.includes('*') && !isWordWildcard(index - 1))) {
+          return '\\s*';
+        }
+
+        return '\\s+';
+      }
+
+      return token.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}(?:\\s.*)?$`).test(normalizeCommand(command));
+}
+
+/** A pattern that matches `command` literally, for turning a command into a rule. */
+export function escapeShellPattern(command: string): string {
+  return command.trim().replace(/[\\*]/g, '\\$&');
+}
+
+/**
+ * Absolute paths a command writes, moves or deletes: operands of `rm`, `mv`,
+ * `touch`, `mkdir` and `tee`, the destination of `cp` and `ln`, and output
+ * redirections. `cd` earlier in the chain is followed and glob operands are
+ * cut back to the folder before the first wildcard. Paths starting with `~`
+ * or a variable cannot be resolved and are reported as written.
+ */
+export function getShellWriteTargets(command: string, workdir: string): string[] {
+  const targets: string[] = [];
+  let cwd = workdir;
+
+  for (const part of command.split(/&&|\|\||;|\||\n/)) {
+    const words = (part.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((word) => word.replace(/^(["'])(.*)\1$/, '$2'));
+    const operands: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const redirect = words[i].match(/^\d*>>?(.*)$/);
+
+      if (redirect) {
+        const target = redirect[1] || words[++i];
+
+        if (target && !target.startsWith('&')) {
+          targets.push(resolve(cwd, target));
+        }
+
+        continue;
+      }
+
+      operands.push(words[i]);
+    }
+
+    while (operands[0] === 'sudo' || /^\w+=/.test(operands[0] ?? '')) {
+      operands.shift();
+    }
+
+    const [name, ...args] = operands;
+    const paths = args.filter((arg) => !arg.startsWith('-'));
+
+    if (name === 'cd') {
+      cwd = resolve(cwd, paths[0] ?? '~');
+    } else if (WRITING_COMMANDS.has(name)) {
+      targets.push(...paths.map((target) => resolve(cwd, target)));
+    } else if (COPYING_COMMANDS.has(name) && paths.length > 1) {
+      targets.push(resolve(cwd, paths[paths.length - 1]));
+    }
+  }
+
+  return targets.filter((target) => !target.startsWith('/dev/'));
+}
+
+function evaluatePart(
+  part: string,
+  global: ShellPolicy,
+  project: ProjectShellPolicy | undefined,
+): ShellPolicyEvaluation {
+  for (const [scope, rules] of [
+    ['project', project?.rules ?? []],
+    ['global', global.rules],
+  ] as const) {
+    const rule = rules.find((candidate) => matchesShellPattern(part, candidate.pattern));
+
+    if (rule) {
+      return { decision: rule.decision, reason: `Matches "${rule.pattern}"`, rule, scope };
+    }
+  }
+
+  return project?.defaultDecision
+    ? { decision: project.defaultDecision, reason: 'Project default', scope: 'project' }
+    : { decision: global.defaultDecision, reason: 'Global default', scope: 'global' };
+}
+
+function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\n/)
+    .map(normalizeCommand)
+    .filter(Boolean);
+}
+
+function normalizeCommand(command: string): string {
+  const words = command.trim().split(/\s+/);
+
+  // `sudo` and environment assignments do not change what runs
+  while (words.length > 1 && (words[0] === 'sudo' || /^\w+=\S*$/.test(words[0]))) {
+    words.shift();
+  }
+
+  return normalizeRmOptions(words).join(' ');
+}
+
+// `rm` short options as one sorted group in front of the operands, with `-R` read as `-r`
+function normalizeRmOptions(words: string[]): string[] {
+  if (words[0] !== 'rm') {
+    return words;
+  }
+
+  const flags = new Set<string>();
+  const longOptions: string[] = [];
+  const operands: string[] = [];
+  let optionsEnded = false;
+
+  for (const word of words.slice(1)) {
+    if (word === '--') {
+      optionsEnded = true;
+    } else if (optionsEnded || !word.startsWith('-') || word === '-') {
+      operands.push(word);
+    } else if (word.startsWith('--')) {
+      longOptions.push(word);
+    } else {
+      [...word.slice(1)].forEach((flag) => flags.add(flag === 'R' ? 'r' : flag));
+    }
+  }
+
+  const group = flags.size > 0 ? [`-${[...flags].sort().join('')}`] : [];
+
+  return ['rm', ...group, ...longOptions, ...operands];
+}
+
+function resolve(cwd: string, target: string): string {
+  if (target.startsWith('~') || target.startsWith('$')) {
+    return target;
+  }
+
+  const wildcard = target.search(/[*?[{]/);
+  const literal = wildcard === -1 ? target : target.slice(0, target.lastIndexOf('/', wildcard) + 1) || '.';
+  const resolved = path.normalize(path.isAbsolute(literal) ? literal : path.join(cwd, literal));
+
+  return resolved.replace(/(.)\/+$/, '$1');
+}
+
+function isInside(target: string, workdir: string): boolean {
+  return target === workdir || target.startsWith(`${workdir}/`);
+}
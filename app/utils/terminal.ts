@@ -4,8 +4,10 @@ export const escapeCodes = {
   reset,
   clear: '\x1b[g',
   red: '\x1b[1;31m',
+  dim: '\x1b[2m',
 };
 
 export const coloredText = {
   red: (text: string) => `${escapeCodes.red}${text}${reset}`,
+  dim: (text: string) => `${escapeCodes.dim}${text}${reset}`,
 };
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { detectTestCommand } from './projectCommands';
+import { formatTestFailures, parseTestReport } from './testResults';
+
+describe('parseTestReport', () => {
+  it('reads JUnit XML', () => {
+    const result = parseTestReport(
+      'junit',
+      `<?xml version="1.0" encoding="UTF-8" ?>
+<testsuites name="vitest tests" tests="3" failures="1" time="0.02">
+  <testsuite name="src/math.spec.ts" tests="3">
+    <testcase classname="src/math.spec.ts" name="math &gt; adds" time="0.004"></testcase>
+    <testcase classname="src/math.spec.ts" name="math &gt; divides" time="0.010">
+      <failure message="expected 2 to be 3" type="AssertionError">AssertionError: expected 2 to be 3
+ ❯ src/math.spec.ts:9:20</failure>
+    </testcase>
+    <testcase classname="src/math.spec.ts" name="math &gt; rounds" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>`,
+    );
+
+    expect(result).toMatchObject({ passed: 1, failed: 1, skipped: 1, duration: 14 });
+    expect(result.cases[1]).toMatchObject({
+      name: 'math > divides',
+      status: 'failed',
+      message: 'AssertionError: expected 2 to be 3\n ❯ src/math.spec.ts:9:20',
+    });
+  });
+
+  it('reads TAP with diagnostics', () => {
+    const result = parseTestReport(
+      'tap',
+      [
+        '1..3',
+        'ok 1 adds numbers',
+        'not ok 2 divides numbers',
+        '  ---',
+        '    message: expected 2 to equal 3',
+        '    duration_ms: 12.5',
+        '  ...',
+        'ok 3 rounds # SKIP not ready',
+        '# tests 3',
+      ].join('\n'),
+    );
+
+    expect(result.cases).toEqual([
+      { name: 'adds numbers', status: 'passed' },
+      { name: 'divides numbers', status: 'failed', duration: 13, message: 'message: expected 2 to equal 3' },
+      { name: 'rounds', status: 'skipped' },
+    ]);
+  });
+
+  it('reads Jest JSON and go test events', () => {
+    const jest = parseTestReport(
+      'jest-json',
+      JSON.stringify({
+        startTime: 1000,
+        testResults: [
+          {
+            name: '/home/project/src/a.test.js',
+            endTime: 1250,
+            assertionResults: [
+              { title: 'works', ancestorTitles: ['a'], status: 'passed', duration: 3 },
+              { title: 'breaks', ancestorTitles: ['a'], status: 'failed', duration: 5, failureMessages: ['boom'] },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(jest).toMatchObject({ passed: 1, failed: 1, duration: 250 });
+    expect(formatTestFailures(jest)).toBe('✗ /home/project/src/a.test.js > a > breaks\n    boom');
+
+    const go = parseTestReport(
+      'go-json',
+      [
+        '{"Action":"run","Package":"example/math","Test":"TestAdd"}',
+        '{"Action":"output","Package":"example/math","Test":"TestAdd","Output":"    math_test.go:8: got 2\\n"}',
+        '{"Action":"fail","Package":"example/math","Test":"TestAdd","Elapsed":0.01}',
+        '{"Action":"pass","Package":"example/math","Elapsed":0.02}',
+      ].join('\n'),
+    );
+
+    expect(go.cases).toEqual([
+      { name: 'TestAdd', suite: 'example/math', status: 'failed', duration: 10, message: 'math_test.go:8: got 2' },
+    ]);
+  });
+});
+
+describe('detectTestCommand', () => {
+  it('picks the runner from package.json and Python or Go project files', async () => {
+    const packageJson = (devDependencies: Record<string, string>) => ({
+      path: '/home/project/package.json',
+      content: JSON.stringify({ devDependencies }),
+    });
+
+    expect(await detectTestCommand([packageJson({ vitest: '^2.0.0' })], 'src/a.spec.ts')).toMatchObject({
+      runner: 'vitest',
+      format: 'junit',
+      command: expect.stringMatching(/^npx vitest run .* src\/a\.spec\.ts$/),
+    });
+    expect(await detectTestCommand([packageJson({ mocha: '^10.0.0' })])).toMatchObject({ format: 'tap' });
+    expect(await detectTestCommand([{ path: 'pyproject.toml', content: '[tool.pytest.ini_options]' }])).toMatchObject({
+      runner: 'pytest',
+    });
+    expect(await detectTestCommand([{ path: 'go.mod', content: 'module example' }])).toMatchObject({
+      command: 'go test -json ./...',
+    });
+    expect(await detectTestCommand([packageJson({})])).toBeNull();
+  });
+});
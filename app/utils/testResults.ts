@@ -0,0 +1,250 @@
+/**
+ * Parsing test reporter output into one result shape. Supported reports:
+ * JUnit XML (vitest, pytest), TAP (mocha), Jest's `--json` output and the
+ * event stream of `go test -json`.
+ */
+
+export type TestReportFormat = 'junit' | 'tap' | 'jest-json' | 'go-json';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  name: string;
+
+  // Describe block, class or package the test belongs to
+  suite?: string;
+  file?: string;
+  status: TestStatus;
+
+  // Milliseconds
+  duration?: number;
+
+  // Assertion message and stack of failed tests
+  message?: string;
+}
+
+export interface TestRunResult {
+  passed: number;
+  failed: number;
+  skipped: number;
+
+  // Milliseconds, summed over the test cases when the report has no total
+  duration: number;
+  cases: TestCaseResult[];
+}
+
+export function parseTestReport(format: TestReportFormat, report: string): TestRunResult {
+  switch (format) {
+    case 'junit':
+      return summarize(parseJUnit(report));
+    case 'tap':
+      return summarize(parseTap(report));
+    case 'jest-json':
+      return parseJestJson(report);
+    case 'go-json':
+    default:
+      return summarize(parseGoTestJson(report));
+  }
+}
+
+/** Failed tests as plain text, for alerts and follow-up prompts. */
+export function formatTestFailures(result: TestRunResult, limit = 10): string {
+  const failures = result.cases.filter((testCase) => testCase.status === 'failed');
+  const lines = failures.slice(0, limit).map((testCase) => {
+    const title = [testCase.file, testCase.suite, testCase.name].filter(Boolean).join(' > ');
+    return testCase.message ? `✗ ${title}\n${indent(testCase.message.trim())}` : `✗ ${title}`;
+  });
+
+  if (failures.length > limit) {
+    lines.push(`...and ${failures.length - limit} more`);
+  }
+
+  return lines.join('\n\n');
+}
+
+function parseJUnit(xml: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  const testCaseRegex = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const [, rawAttributes, body = ''] of xml.matchAll(testCaseRegex)) {
+    const attributes = parseAttributes(rawAttributes);
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const skipped = /<skipped\b/.test(body);
+    const time = Number(attributes.time);
+
+    cases.push({
+      name: attributes.name ?? 'unnamed test',
+      suite: attributes.classname,
+      file: attributes.file,
+      status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+      duration: Number.isFinite(time) ? Math.round(time * 1000) : undefined,
+      message: failure
+        ? decodeEntities(failure[3]?.trim() || parseAttributes(failure[2]).message || '') || undefined
+        : undefined,
+    });
+  }
+
+  return cases;
+}
+
+function parseTap(output: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  const lines = stripAnsi(output).split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*(not ok|ok)\b\s*\d*\s*(?:-\s*)?(.*?)(?:\s+#\s*(SKIP|TODO)\b.*)?$/i);
+
+    if (!match) {
+      continue;
+    }
+
+    const [, outcome, name, directive] = match;
+    const testCase: TestCaseResult = {
+      name: name || 'unnamed test',
+      status: directive ? 'skipped' : outcome === 'ok' ? 'passed' : 'failed',
+    };
+
+    // YAML diagnostics follow a test between `---` and `...`
+    if (lines[i + 1]?.trim() === '---') {
+      const end = lines.findIndex((line, index) => index > i + 1 && line.trim() === '...');
+      const diagnostics = lines.slice(i + 2, end === -1 ? undefined : end);
+      const duration = diagnostics.join('\n').match(/duration_ms:\s*([\d.]+)/);
+
+      if (duration) {
+        testCase.duration = Math.round(Number(duration[1]));
+      }
+
+      if (testCase.status === 'failed') {
+        testCase.message = dedent(diagnostics.filter((line) => !/^\s*duration_ms:/.test(line))).trim() || undefined;
+      }
+
+      i = end === -1 ? lines.length : end;
+    }
+
+    cases.push(testCase);
+  }
+
+  return cases;
+}
+
+interface JestAssertion {
+  title: string;
+  ancestorTitles?: string[];
+  status: string;
+  duration?: number | null;
+  failureMessages?: string[];
+}
+
+function parseJestJson(report: string): TestRunResult {
+  const json = JSON.parse(report) as {
+    startTime?: number;
+    testResults?: Array<{ name: string; endTime?: number; assertionResults?: JestAssertion[] }>;
+  };
+  const cases: TestCaseResult[] = [];
+
+  for (const file of json.testResults ?? []) {
+    for (const assertion of file.assertionResults ?? []) {
+      cases.push({
+        name: assertion.title,
+        suite: assertion.ancestorTitles?.join(' > ') || undefined,
+        file: file.name,
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+        duration: assertion.duration ?? undefined,
+        message: assertion.failureMessages?.length ? stripAnsi(assertion.failureMessages.join('\n')) : undefined,
+      });
+    }
+  }
+
+  const endTime = Math.max(0, ...(json.testResults ?? []).map((file) => file.endTime ?? 0));
+  const result = summarize(cases);
+
+  return json.startTime && endTime > json.startTime ? { ...result, duration: endTime - json.startTime } : result;
+}
+
+function parseGoTestJson(report: string): TestCaseResult[] {
+  const cases = new Map<string, TestCaseResult>();
+  const output = new Map<string, string[]>();
+
+  for (const line of report.split('\n')) {
+    if (!line.trim().startsWith('{')) {
+      continue;
+    }
+
+    let event: { Action?: string; Package?: string; Test?: string; Elapsed?: number; Output?: string };
+
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (!event.Test) {
+      continue;
+    }
+
+    const key = `${event.Package}\u0000${event.Test}`;
+
+    if (event.Action === 'output' && event.Output) {
+      output.set(key, [...(output.get(key) ?? []), event.Output]);
+    } else if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+      const status = event.Action === 'pass' ? 'passed' : event.Action === 'fail' ? 'failed' : 'skipped';
+
+      cases.set(key, {
+        name: event.Test,
+        suite: event.Package,
+        status,
+        duration: event.Elapsed !== undefined ? Math.round(event.Elapsed * 1000) : undefined,
+        message: status === 'failed' ? output.get(key)?.join('').trim() : undefined,
+      });
+    }
+  }
+
+  return [...cases.values()];
+}
+
+function summarize(cases: TestCaseResult[]): TestRunResult {
+  return {
+    passed: cases.filter((testCase) => testCase.status === 'passed').length,
+    failed: cases.filter((testCase) => testCase.status === 'failed').length,
+    skipped: cases.filter((testCase) => testCase.status === 'skipped').length,
+    duration: cases.reduce((total, testCase) => total + (testCase.duration ?? 0), 0),
+    cases,
+  };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const [, name, value] of source.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[name] = decodeEntities(value);
+  }
+
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+function dedent(lines: string[]): string {
+  const width = Math.min(...lines.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0].length));
+  return lines.map((line) => line.slice(Number.isFinite(width) ? width : 0)).join('\n');
+}
+
+function indent(value: string): string {
+  return value
+    .split('\n')
+    .map((line) => `    ${line}`)
+    .join('\n');
+}
@@ -1,4 +1,5 @@
 import { workbenchStore } from '~/lib/stores/workbench';
+import { startWorkspace } from '~/lib/stores/workspaces';
 import { repositoryHistoryStore } from '~/lib/stores/repositoryHistory';
 import { toast } from 'react-toastify';
 import { MAX_FILES, isBinaryFile, shouldIncludeFile } from '~/utils/fileUtils';
@@ -45,8 +46,8 @@ export const importFolderToWorkbench = async (files: File[], addToExisting = fal
   const folderName = filteredFiles[0]?.webkitRelativePath.split('/')[0] || 'Unknown Folder';
 
   if (!addToExisting) {
-    // Clear the workspace before importing new content
-    await workbenchStore.clearWorkspace();
+    // Park the open project and import into a workspace of its own
+    await startWorkspace(folderName);
   }
 
   const loadingToast = toast.loading(`Importing ${folderName} to workbench...`);
@@ -182,8 +183,8 @@ export const loadStoredGitRepoToWorkbench = async (repoName: string, addToExisti
     const repoData = JSON.parse(repoDataStr);
 
     if (!addToExisting) {
-      // Clear the workspace before importing new content
-      await workbenchStore.clearWorkspace();
+      // Park the open project and import into a workspace of its own
+      await startWorkspace(repoName);
     }
 
     // Import files from stored data into workbench
@@ -256,8 +257,8 @@ export const loadStoredFolderToWorkbench = async (folderName: string, addToExist
     const folderData = JSON.parse(folderDataStr);
 
     if (!addToExisting) {
-      // Clear the workspace before importing new content
-      await workbenchStore.clearWorkspace();
+      // Park the open project and import into a workspace of its own
+      await startWorkspace(folderName);
     }
 
     // Import files from stored data into workbench
@@ -333,16 +334,29 @@ interface GitFileData {
   content: string;
 }
 
-export const importGitRepoToWorkbench = async (repoUrl: string, gitClone: any, addToExisting = false) => {
+/**
+ * Clone a repository into the workbench. Resolves with the cloned HEAD commit
+ * hash when it could be determined.
+ */
+export const importGitRepoToWorkbench = async (
+  repoUrl: string,
+  gitClone: any,
+  addToExisting = false,
+): Promise<string | undefined> => {
   if (!addToExisting) {
-    // Clear the workspace before importing new content
-    await workbenchStore.clearWorkspace();
+    // Park the open project and import into a workspace of its own
+    await startWorkspace(
+      repoUrl
+        .replace(/\.git$/, '')
+        .split('/')
+        .pop() || repoUrl,
+    );
   }
 
   const loadingToast = toast.loading(`Cloning repository ${repoUrl} to workbench...`);
 
   try {
-    const { workdir, data } = await gitClone(repoUrl);
+    const { workdir, data, commitHash } = await gitClone(repoUrl);
 
     // Prepare files data for storage
     const filesData = [];
@@ -421,10 +435,14 @@ export const importGitRepoToWorkbench = async (repoUrl: string, gitClone: any, a
 
     // Show the workbench after import
     workbenchStore.setShowWorkbench(true);
+
+    return commitHash;
   } catch (error) {
     logStore.logError('Failed to import repository to workbench', error, { repoUrl });
     console.error('Failed to import repository to workbench:', error);
     toast.error('Failed to import repository to workbench');
+
+    return undefined;
   } finally {
     toast.dismiss(loadingToast);
   }